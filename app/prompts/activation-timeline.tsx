@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { RotateCcw, Undo2 } from 'lucide-react';
+import { functions } from '../../lib/firebase';
+
+interface ActivationHistoryEntry {
+  id: number;
+  promptVersionId: string;
+  version: number;
+  previousVersionId: string | null;
+  previousVersion: number | null;
+  kind: 'activate' | 'rollback' | 'promote';
+  activatedBy: string;
+  createdAt: string;
+}
+
+const getPromptActivationHistory = httpsCallable(functions, 'getPromptActivationHistory');
+const rollbackPromptType = httpsCallable(functions, 'rollbackPromptType');
+
+export function ActivationTimeline({
+  promptTypeId,
+  activeVersionId,
+  canPublish,
+  onRolledBack,
+  getErrorMessage,
+}: {
+  promptTypeId: string;
+  activeVersionId: string | null;
+  canPublish: boolean;
+  onRolledBack: () => void;
+  getErrorMessage: (err: unknown, fallback: string) => string;
+}) {
+  const [history, setHistory] = useState<ActivationHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [rollingBackId, setRollingBackId] = useState<number | 'previous' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = async () => {
+    setIsLoading(true);
+    try {
+      const result = await getPromptActivationHistory({ promptTypeId });
+      const data = result.data as { history?: ActivationHistoryEntry[] };
+      setHistory(data.history ?? []);
+    } catch (err) {
+      console.error('Error loading activation history:', err);
+      setError(getErrorMessage(err, '활성화 이력을 불러오지 못했습니다.'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setHistory([]);
+    setError(null);
+    void loadHistory();
+  }, [promptTypeId, activeVersionId]);
+
+  const handleRollback = async (entry: ActivationHistoryEntry | null) => {
+    const label = entry ? `v${entry.version}` : '직전 ACTIVE 버전';
+    if (!window.confirm(`${label}(으)로 롤백할까요? 즉시 ACTIVE 버전이 바뀝니다.`)) return;
+
+    setRollingBackId(entry ? entry.id : 'previous');
+    setError(null);
+    try {
+      await rollbackPromptType(entry ? { promptTypeId, activationId: entry.id } : { promptTypeId });
+      onRolledBack();
+    } catch (err) {
+      console.error('Error rolling back prompt type:', err);
+      setError(getErrorMessage(err, '롤백에 실패했습니다. 잠시 후 다시 시도해 주세요.'));
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  const latest = history[0] ?? null;
+
+  return (
+    <div className="flex h-full min-h-0 flex-col">
+      <div className="flex flex-wrap items-center justify-between gap-2 pb-3">
+        <p className="text-xs text-slate-500">ACTIVE 버전이 바뀐 기록입니다. 최신 순으로 표시됩니다.</p>
+        <button
+          type="button"
+          onClick={() => handleRollback(null)}
+          disabled={!canPublish || !latest?.previousVersionId || rollingBackId !== null}
+          title={canPublish ? undefined : 'publisher 이상의 권한이 필요합니다.'}
+          className="inline-flex h-9 items-center gap-2 rounded-lg border border-[#f1d9c7] bg-[#fff6ef] px-3 text-xs font-semibold text-[#b25a1d] transition hover:bg-[#ffefe2] disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <Undo2 className="h-4 w-4" />
+          {rollingBackId === 'previous'
+            ? '롤백 중...'
+            : latest?.previousVersion
+              ? `직전 버전(v${latest.previousVersion})으로 롤백`
+              : '직전 버전으로 롤백'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</div>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-y-auto">
+        {history.length === 0 ? (
+          <div className="rounded-xl border border-dashed border-[#dfe7f2] bg-[#fafcff] p-4 text-sm text-slate-500">
+            {isLoading ? '불러오는 중...' : '활성화 이력이 없습니다.'}
+          </div>
+        ) : (
+          <ol className="relative space-y-3 border-l border-[#e1e8f3] pl-5">
+            {history.map((entry) => {
+              const isCurrent = entry.promptVersionId === activeVersionId;
+              return (
+                <li key={entry.id} className="relative">
+                  <span
+                    className={[
+                      'absolute -left-[27px] top-3 h-3 w-3 rounded-full border-2 border-white',
+                      isCurrent ? 'bg-[#1f7a39]' : entry.kind === 'rollback' ? 'bg-[#d9823b]' : 'bg-[#9fb4d8]',
+                    ].join(' ')}
+                  />
+                  <div className="flex flex-wrap items-center gap-2 rounded-xl border border-[#e8eef7] bg-white px-3 py-2.5">
+                    <span className="text-sm font-semibold text-slate-900">v{entry.version}</span>
+                    {entry.previousVersion !== null && (
+                      <span className="text-xs text-slate-400">← v{entry.previousVersion}</span>
+                    )}
+                    {entry.kind === 'rollback' && (
+                      <span className="rounded-full bg-[#fff1e6] px-2 py-0.5 text-[11px] font-semibold text-[#b25a1d]">
+                        ROLLBACK
+                      </span>
+                    )}
+                    {entry.kind === 'promote' && (
+                      <span className="rounded-full bg-amber-100 px-2 py-0.5 text-[11px] font-semibold text-amber-800">
+                        STAGING에서 승격
+                      </span>
+                    )}
+                    {isCurrent && (
+                      <span className="rounded-full bg-[#e6f4ea] px-2 py-0.5 text-[11px] font-semibold text-[#1f7a39]">
+                        현재 ACTIVE
+                      </span>
+                    )}
+                    <span className="text-xs text-slate-500">
+                      {entry.activatedBy} · {entry.createdAt}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleRollback(entry)}
+                      disabled={!canPublish || isCurrent || rollingBackId !== null}
+                      className="ml-auto inline-flex h-8 items-center gap-1.5 rounded-lg border border-[#dde6f2] bg-white px-2.5 text-xs font-medium text-slate-700 transition hover:bg-[#f8fbff] disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      <RotateCcw className="h-3.5 w-3.5" />
+                      {rollingBackId === entry.id ? '롤백 중...' : '여기로 롤백'}
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
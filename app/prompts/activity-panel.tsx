@@ -0,0 +1,233 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { History, RefreshCw } from 'lucide-react';
+import { functions } from '../../lib/firebase';
+import { getContentKind, toContentKind } from './content-kinds';
+
+interface AuditLogEntry {
+  id: number;
+  actorEmail: string;
+  actorRole: string;
+  action: string;
+  promptTypeId: string | null;
+  promptTypeName: string | null;
+  promptVersionId: string | null;
+  version: number | null;
+  beforeHash: string | null;
+  afterHash: string | null;
+  detail: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+const getPromptAuditLog = httpsCallable(functions, 'getPromptAuditLog');
+
+const ACTION_LABELS: Record<string, string> = {
+  'version.create': '버전 추가',
+  'version.update': '내용 수정',
+  'version.activate': 'ACTIVE 지정',
+  'version.rollback': '롤백',
+  'version.promote': 'STAGING → PRODUCTION 승격',
+  'environment.set': '환경 배포',
+  'schedule.create': '활성화 예약',
+  'schedule.cancel': '예약 취소',
+  'review.submit': '리뷰 요청',
+  'review.approve': '리뷰 승인',
+  'review.request_changes': '변경 요청',
+  'review.comment': '리뷰 코멘트',
+  'review.policy': '필요 승인 수 변경',
+  'apikey.create': 'API 키 발급',
+  'apikey.revoke': 'API 키 폐기',
+  'sample.add': '샘플 출력 추가',
+  'sample.delete': '샘플 출력 삭제',
+  'rules.set': '검증 규칙 변경',
+  'eval.case_add': '테스트 케이스 추가',
+  'eval.case_delete': '테스트 케이스 삭제',
+  'eval.policy': '테스트 통과 조건 변경',
+  'traffic.set': '트래픽 분할 변경',
+  'role.set': '권한 변경',
+  'type.create': '타입 생성',
+  'type.update': '타입 수정',
+  'type.archive': '타입 보관',
+  'type.restore': '타입 복원',
+  'type.delete': '타입 삭제',
+  'bundle.import': '번들 가져오기',
+};
+
+function shortHash(hash: string | null) {
+  return hash ? hash.slice(0, 8) : '—';
+}
+
+// bundle.import 항목의 버전. 예전 항목은 번호만, 지금은 { version, contentHash }를 남긴다.
+function importedVersionLabel(entry: unknown) {
+  if (typeof entry === 'number') return `v${entry}`;
+  const { version, contentHash } = (entry ?? {}) as { version?: unknown; contentHash?: unknown };
+  return `v${String(version)} (${shortHash(typeof contentHash === 'string' ? contentHash : null)})`;
+}
+
+export function ActivityPanel({ promptTypes }: { promptTypes: Array<{ id: string; title: string }> }) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [actors, setActors] = useState<string[]>([]);
+  const [typeFilter, setTypeFilter] = useState('');
+  const [actorFilter, setActorFilter] = useState('');
+  const [nextBeforeId, setNextBeforeId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = async (beforeId: number | null) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await getPromptAuditLog({
+        promptTypeId: typeFilter || null,
+        actorEmail: actorFilter || null,
+        beforeId,
+      });
+      const data = result.data as {
+        entries?: AuditLogEntry[];
+        actors?: string[];
+        nextBeforeId?: number | null;
+      };
+      const loaded = data.entries ?? [];
+      setEntries((prev) => (beforeId ? [...prev, ...loaded] : loaded));
+      setActors(data.actors ?? []);
+      setNextBeforeId(data.nextBeforeId ?? null);
+    } catch (err) {
+      console.error('Error loading audit log:', err);
+      setError('활동 기록을 불러오지 못했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadEntries(null);
+  }, [typeFilter, actorFilter]);
+
+  return (
+    <section className="flex min-h-0 flex-col rounded-2xl border border-[#e5ecf5] bg-white shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-[#eef2f8] p-4">
+        <div className="flex items-center gap-2">
+          <History className="h-4 w-4 text-slate-500" />
+          <h3 className="text-sm font-semibold text-slate-900">Activity</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value)}
+            className="h-9 rounded-lg border border-[#dfe7f2] bg-white px-3 text-xs font-medium text-slate-700 outline-none focus:border-[#7da2ff]"
+            aria-label="타입 필터"
+          >
+            <option value="">전체 타입</option>
+            {promptTypes.map((type) => (
+              <option key={type.id} value={type.id}>
+                {type.title}
+              </option>
+            ))}
+          </select>
+          <select
+            value={actorFilter}
+            onChange={(e) => setActorFilter(e.target.value)}
+            className="h-9 rounded-lg border border-[#dfe7f2] bg-white px-3 text-xs font-medium text-slate-700 outline-none focus:border-[#7da2ff]"
+            aria-label="작업자 필터"
+          >
+            <option value="">전체 작업자</option>
+            {actors.map((actor) => (
+              <option key={actor} value={actor}>
+                {actor}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => loadEntries(null)}
+            disabled={isLoading}
+            className="inline-flex h-9 w-9 items-center justify-center rounded-lg border border-[#dde6f2] bg-white text-slate-500 transition hover:bg-[#f3f8ff] disabled:cursor-not-allowed disabled:opacity-50"
+            aria-label="새로고침"
+          >
+            <RefreshCw className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-4 mt-4 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+          {error}
+        </div>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-y-auto p-3">
+        {entries.length === 0 && !isLoading ? (
+          <div className="rounded-xl border border-dashed border-[#dfe7f2] bg-[#fafcff] p-4 text-sm text-slate-500">
+            활동 기록이 없습니다.
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {entries.map((entry) => (
+              <li key={entry.id} className="rounded-xl border border-[#e8eef7] bg-white px-3 py-2.5">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="rounded-full bg-[#edf3ff] px-2 py-0.5 text-[11px] font-semibold text-[#4167c6]">
+                    {ACTION_LABELS[entry.action] ?? entry.action}
+                  </span>
+                  {entry.promptTypeName ? (
+                    <span className="font-semibold text-slate-900">{entry.promptTypeName}</span>
+                  ) : (
+                    entry.action === 'type.delete' &&
+                    entry.detail && (
+                      <span className="font-semibold text-slate-400 line-through">{String(entry.detail.name)}</span>
+                    )
+                  )}
+                  {entry.version !== null && <span className="text-slate-700">v{entry.version}</span>}
+                  <span className="ml-auto text-xs text-slate-400">{entry.createdAt}</span>
+                </div>
+                <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-500">
+                  <span>
+                    {entry.actorEmail} ({entry.actorRole})
+                  </span>
+                  {(entry.beforeHash || entry.afterHash) && (
+                    <span className="font-mono">
+                      {shortHash(entry.beforeHash)} → {shortHash(entry.afterHash)}
+                    </span>
+                  )}
+                  {entry.action === 'type.update' && typeof entry.detail?.previousName === 'string' && (
+                    <span>
+                      이름 {entry.detail.previousName} → {String(entry.detail.name)}
+                    </span>
+                  )}
+                  {entry.action === 'type.update' && typeof entry.detail?.previousContentKind === 'string' && (
+                    <span>
+                      내용 종류 {getContentKind(toContentKind(entry.detail.previousContentKind)).label} →{' '}
+                      {getContentKind(toContentKind(entry.detail.contentKind)).label}
+                    </span>
+                  )}
+                  {entry.action === 'bundle.import' && Array.isArray(entry.detail?.versions) && (
+                    <span>
+                      {entry.detail.createdType ? '새 타입 · ' : ''}
+                      {(entry.detail.versions as unknown[]).map(importedVersionLabel).join(', ') || '버전 없음'} 추가
+                    </span>
+                  )}
+                  {entry.action === 'role.set' && entry.detail && (
+                    <span>
+                      {String(entry.detail.email)} → {String(entry.detail.role ?? '권한 회수')}
+                    </span>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {nextBeforeId !== null && (
+          <button
+            type="button"
+            onClick={() => loadEntries(nextBeforeId)}
+            disabled={isLoading}
+            className="mt-3 inline-flex h-9 w-full items-center justify-center rounded-lg border border-[#dde6f2] bg-white text-xs font-medium text-slate-700 transition hover:bg-[#f8fbff] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isLoading ? '불러오는 중...' : '더 보기'}
+          </button>
+        )}
+      </div>
+    </section>
+  );
+}
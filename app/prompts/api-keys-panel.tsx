@@ -0,0 +1,187 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { Copy, KeyRound, Plus } from 'lucide-react';
+import { functions } from '../../lib/firebase';
+
+interface ApiKey {
+  id: number;
+  name: string;
+  keyPrefix: string;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  revokedBy: string | null;
+}
+
+const listServingApiKeys = httpsCallable(functions, 'listServingApiKeys');
+const createServingApiKey = httpsCallable(functions, 'createServingApiKey');
+const revokeServingApiKey = httpsCallable(functions, 'revokeServingApiKey');
+
+export function ApiKeysPanel({ getErrorMessage }: { getErrorMessage: (err: unknown, fallback: string) => string }) {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [name, setName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<number | null>(null);
+  const [issuedSecret, setIssuedSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadApiKeys = async () => {
+    setIsLoading(true);
+    try {
+      const result = await listServingApiKeys({});
+      const data = result.data as { apiKeys?: ApiKey[] };
+      setApiKeys(data.apiKeys ?? []);
+    } catch (err) {
+      console.error('Error loading API keys:', err);
+      setError(getErrorMessage(err, 'API 키 목록을 불러오지 못했습니다.'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadApiKeys();
+  }, []);
+
+  const handleCreate = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    setIsCreating(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const result = await createServingApiKey({ name: trimmed });
+      const data = result.data as { secret: string };
+      setIssuedSecret({ name: trimmed, secret: data.secret });
+      setName('');
+      await loadApiKeys();
+    } catch (err) {
+      console.error('Error issuing API key:', err);
+      setError(getErrorMessage(err, 'API 키 발급에 실패했습니다.'));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!window.confirm(`'${apiKey.name}' 키(${apiKey.keyPrefix}...)를 폐기할까요? 이 키를 쓰는 서비스는 즉시 차단됩니다.`)) return;
+
+    setRevokingId(apiKey.id);
+    setError(null);
+    try {
+      await revokeServingApiKey({ apiKeyId: apiKey.id });
+      await loadApiKeys();
+    } catch (err) {
+      console.error('Error revoking API key:', err);
+      setError(getErrorMessage(err, 'API 키 폐기에 실패했습니다.'));
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopySecret = async () => {
+    if (!issuedSecret) return;
+    await navigator.clipboard.writeText(issuedSecret.secret);
+    setCopied(true);
+  };
+
+  return (
+    <section className="flex min-h-0 flex-1 flex-col rounded-2xl border border-[#e5ecf5] bg-white shadow-sm">
+      <div className="border-b border-[#eef2f8] p-4">
+        <h3 className="text-sm font-semibold text-slate-900">Serving API 키</h3>
+        <p className="mt-1 text-xs text-slate-500">
+          서비스는 <code className="rounded bg-slate-100 px-1">GET /getActivePrompt?type=이름</code> 요청에{' '}
+          <code className="rounded bg-slate-100 px-1">Authorization: Bearer 키</code>를 붙여 ACTIVE 프롬프트를 가져갑니다.
+        </p>
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="키 용도 (예: chat-backend prod)"
+            className="h-9 w-full max-w-xs rounded-lg border border-[#dfe7f2] bg-[#fbfdff] px-3 text-sm text-slate-900 outline-none focus:border-[#7da2ff]"
+          />
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={!name.trim() || isCreating}
+            className="inline-flex h-9 items-center gap-2 rounded-lg bg-[#4b74d9] px-3 text-xs font-semibold text-white transition hover:bg-[#3f67ca] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            {isCreating ? '발급 중...' : '키 발급'}
+          </button>
+        </div>
+      </div>
+
+      {issuedSecret && (
+        <div className="mx-4 mt-4 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-800">
+          <p className="font-semibold">'{issuedSecret.name}' 키가 발급되었습니다. 이 화면을 벗어나면 다시 볼 수 없으니 지금 복사해 두세요.</p>
+          <div className="mt-2 flex items-center gap-2">
+            <code className="min-w-0 flex-1 truncate rounded-lg border border-amber-200 bg-white px-2 py-1.5 font-mono text-[12px] text-slate-800">
+              {issuedSecret.secret}
+            </code>
+            <button
+              type="button"
+              onClick={handleCopySecret}
+              className="inline-flex h-8 items-center gap-1.5 rounded-lg border border-amber-200 bg-white px-2.5 font-medium text-amber-800"
+            >
+              <Copy className="h-3.5 w-3.5" />
+              {copied ? '복사됨' : '복사'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mx-4 mt-4 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-y-auto p-4">
+        {apiKeys.length === 0 ? (
+          <div className="rounded-xl border border-dashed border-[#dfe7f2] bg-[#fafcff] p-4 text-sm text-slate-500">
+            {isLoading ? '불러오는 중...' : '발급된 API 키가 없습니다.'}
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {apiKeys.map((apiKey) => (
+              <li
+                key={apiKey.id}
+                className={[
+                  'flex flex-wrap items-center gap-2 rounded-xl border px-3 py-2.5',
+                  apiKey.revokedAt ? 'border-[#eef2f8] bg-[#fafbfd] opacity-70' : 'border-[#e8eef7] bg-white',
+                ].join(' ')}
+              >
+                <KeyRound className="h-4 w-4 text-slate-400" />
+                <span className="text-sm font-semibold text-slate-900">{apiKey.name}</span>
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 font-mono text-[11px] text-slate-600">{apiKey.keyPrefix}...</code>
+                {apiKey.revokedAt && (
+                  <span className="rounded-full bg-rose-50 px-2 py-0.5 text-[11px] font-semibold text-rose-700">폐기됨</span>
+                )}
+                <span className="text-xs text-slate-500">
+                  {apiKey.createdBy} · {apiKey.createdAt}
+                  {apiKey.lastUsedAt ? ` · 마지막 사용 ${apiKey.lastUsedAt}` : ' · 사용 기록 없음'}
+                  {apiKey.revokedAt ? ` · 폐기 ${apiKey.revokedBy ?? ''} ${apiKey.revokedAt}` : ''}
+                </span>
+                {!apiKey.revokedAt && (
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(apiKey)}
+                    disabled={revokingId !== null}
+                    className="ml-auto inline-flex h-8 items-center rounded-lg border border-rose-200 bg-white px-2.5 text-xs font-medium text-rose-700 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {revokingId === apiKey.id ? '폐기 중...' : '폐기'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,333 @@
+'use client';
+
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import yaml from 'js-yaml';
+import { Download, FileUp } from 'lucide-react';
+import { functions } from '../../lib/firebase';
+
+// functions/src/bundles.ts의 BundleImportPlan과 같은 모양이다.
+interface BundleImportPlan {
+  types: Array<{
+    name: string;
+    promptTypeId: string | null;
+    action: 'create' | 'update' | 'identical' | 'conflict';
+    reason: string | null;
+    versions: Array<{ version: number; action: 'create' | 'identical' | 'conflict'; reason: string | null }>;
+    activeVersion: { bundle: number | null; current: number | null } | null;
+    liveAfterImport: number | null;
+  }>;
+  createdTypes: number;
+  createdVersions: number;
+  identicalVersions: number;
+  conflicts: number;
+  notLiveTypes: number;
+}
+
+type BundleFileFormat = 'json' | 'yaml';
+
+const exportPromptBundle = httpsCallable(functions, 'exportPromptBundle');
+const previewPromptBundleImport = httpsCallable(functions, 'previewPromptBundleImport');
+const importPromptBundle = httpsCallable(functions, 'importPromptBundle');
+
+const ACTION_STYLES: Record<string, { label: string; className: string }> = {
+  create: { label: '생성', className: 'bg-emerald-50 text-emerald-700' },
+  update: { label: '버전 추가', className: 'bg-[#edf3ff] text-[#3f67ca]' },
+  identical: { label: '동일(건너뜀)', className: 'bg-slate-100 text-slate-600' },
+  conflict: { label: '충돌', className: 'bg-rose-50 text-rose-700' },
+};
+
+// JSON_SCHEMA로 읽고 써서 날짜처럼 보이는 문자열이 Date로 바뀌지 않게 한다. scripts/prompt-bundle.ts도 같은 방식이다.
+function serializeBundle(bundle: unknown, format: BundleFileFormat) {
+  return format === 'yaml'
+    ? yaml.dump(bundle, { schema: yaml.JSON_SCHEMA, lineWidth: -1, noRefs: true })
+    : `${JSON.stringify(bundle, null, 2)}\n`;
+}
+
+// YAML은 JSON을 포함하므로 두 형식을 같은 방법으로 읽는다.
+function readBundleFile(text: string): unknown {
+  return yaml.load(text, { schema: yaml.JSON_SCHEMA });
+}
+
+function downloadFile(fileName: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function BundlePanel({
+  promptTypes,
+  canImport,
+  onImported,
+  getErrorMessage,
+}: {
+  promptTypes: Array<{ id: string; title: string; archivedAt: string | null }>;
+  // 가져오기는 admin만 할 수 있다.
+  canImport: boolean;
+  onImported: () => Promise<void>;
+  getErrorMessage: (err: unknown, fallback: string) => string;
+}) {
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  const [format, setFormat] = useState<BundleFileFormat>('json');
+  const [isExporting, setIsExporting] = useState(false);
+  const [importFile, setImportFile] = useState<{ name: string; bundle: unknown } | null>(null);
+  const [plan, setPlan] = useState<BundleImportPlan | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // 아무것도 고르지 않았으면(null) 전체를 내보낸다.
+  const isSelected = (id: string) => !selectedIds || selectedIds.has(id);
+  const selectedCount = selectedIds ? selectedIds.size : promptTypes.length;
+  const changedTypes = useMemo(() => plan?.types.filter((type) => type.action !== 'identical') ?? [], [plan]);
+
+  const toggleType = (id: string) => {
+    const next = new Set(selectedIds ?? promptTypes.map((type) => type.id));
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next.size === promptTypes.length ? null : next);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await exportPromptBundle(selectedIds ? { promptTypeIds: [...selectedIds] } : {});
+      const { bundle } = result.data as { bundle: { exportedAt: string; promptTypes: unknown[] } };
+      const stamp = bundle.exportedAt.slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+      downloadFile(
+        `prompts-${stamp}.${format === 'yaml' ? 'yaml' : 'json'}`,
+        serializeBundle(bundle, format),
+        format === 'yaml' ? 'application/yaml' : 'application/json',
+      );
+      setNotice(`타입 ${bundle.promptTypes.length}개를 내보냈습니다.`);
+    } catch (err) {
+      console.error('Error exporting prompt bundle:', err);
+      setError(getErrorMessage(err, '내보내기에 실패했습니다.'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setPlan(null);
+    setImportFile(null);
+    setError(null);
+    setNotice(null);
+    let bundle: unknown;
+    try {
+      bundle = readBundleFile(await file.text());
+    } catch (err) {
+      setError(`파일을 JSON이나 YAML로 읽을 수 없습니다. (${err instanceof Error ? err.message : String(err)})`);
+      return;
+    }
+
+    setImportFile({ name: file.name, bundle });
+    setIsPreviewing(true);
+    try {
+      const result = await previewPromptBundleImport({ bundle });
+      setPlan((result.data as { plan: BundleImportPlan }).plan);
+    } catch (err) {
+      console.error('Error previewing prompt bundle:', err);
+      setError(getErrorMessage(err, '가져오기 미리보기에 실패했습니다.'));
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importFile || !plan || plan.conflicts) return;
+    if (
+      !window.confirm(
+        `타입 ${plan.createdTypes}개와 버전 ${plan.createdVersions}개를 만듭니다. 버전은 모두 게시 전 초안으로 추가되고 ACTIVE는 바뀌지 않습니다. 가져올까요?`,
+      )
+    ) {
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const result = await importPromptBundle({ bundle: importFile.bundle });
+      const applied = (result.data as { plan: BundleImportPlan }).plan;
+      setNotice(`타입 ${applied.createdTypes}개, 버전 ${applied.createdVersions}개를 가져왔습니다.`);
+      setPlan(null);
+      setImportFile(null);
+      await onImported();
+    } catch (err) {
+      console.error('Error importing prompt bundle:', err);
+      const details = (err as { details?: { plan?: BundleImportPlan } } | null)?.details;
+      if (details?.plan) setPlan(details.plan);
+      setError(getErrorMessage(err, '가져오기에 실패했습니다.'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <section className="flex min-h-0 flex-1 flex-col rounded-2xl border border-[#e5ecf5] bg-white shadow-sm">
+      <div className="border-b border-[#eef2f8] p-4">
+        <h3 className="text-sm font-semibold text-slate-900">내보내기 / 가져오기</h3>
+        <p className="mt-1 text-xs text-slate-500">
+          타입과 모든 버전, ACTIVE 여부, 설명·내용 종류·검증 규칙을 한 파일로 백업하거나 다른 환경으로 옮깁니다. 타입은 이름으로
+          맞추고, 가져온 버전은 게시 전 초안이 되어 릴리스 검사를 거쳐 publisher가 ACTIVE로 지정합니다. 같은 작업을 <code className="rounded bg-slate-100 px-1">npm run bundle</code>로도 할 수 있습니다.
+        </p>
+      </div>
+
+      {notice && (
+        <div className="mx-4 mt-4 rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-800">{notice}</div>
+      )}
+      {error && (
+        <div className="mx-4 mt-4 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>
+      )}
+
+      <div className="grid min-h-0 flex-1 grid-cols-1 gap-4 overflow-y-auto p-4 lg:grid-cols-2">
+        <div className="flex min-h-0 flex-col rounded-xl border border-[#e8eef7] p-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <h4 className="text-xs font-semibold text-slate-700">내보내기</h4>
+            <span className="text-xs text-slate-500">
+              {selectedCount}/{promptTypes.length}개 선택
+            </span>
+            <button
+              type="button"
+              onClick={() => setSelectedIds(selectedIds ? null : new Set())}
+              className="text-xs font-medium text-[#3f67ca] hover:underline"
+            >
+              {selectedIds ? '전체 선택' : '선택 해제'}
+            </button>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as BundleFileFormat)}
+              aria-label="파일 형식"
+              className="ml-auto h-8 rounded-lg border border-[#dfe7f2] bg-white px-2 text-xs text-slate-700 outline-none"
+            >
+              <option value="json">JSON</option>
+              <option value="yaml">YAML</option>
+            </select>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={isExporting || selectedCount === 0}
+              className="inline-flex h-8 items-center gap-1.5 rounded-lg bg-[#4b74d9] px-3 text-xs font-semibold text-white transition hover:bg-[#3f67ca] disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <Download className="h-3.5 w-3.5" />
+              {isExporting ? '내보내는 중...' : '내보내기'}
+            </button>
+          </div>
+          <ul className="mt-3 min-h-0 flex-1 space-y-1 overflow-y-auto">
+            {promptTypes.map((type) => (
+              <li key={type.id}>
+                <label className="flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm text-slate-700 hover:bg-[#f8fbff]">
+                  <input type="checkbox" checked={isSelected(type.id)} onChange={() => toggleType(type.id)} />
+                  <span className="truncate">{type.title}</span>
+                  {type.archivedAt && (
+                    <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-semibold text-slate-500">보관됨</span>
+                  )}
+                </label>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="flex min-h-0 flex-col rounded-xl border border-[#e8eef7] p-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <h4 className="text-xs font-semibold text-slate-700">가져오기</h4>
+            {importFile && <span className="truncate text-xs text-slate-500">{importFile.name}</span>}
+            <label
+              className={[
+                'ml-auto inline-flex h-8 items-center gap-1.5 rounded-lg border border-[#dde6f2] bg-white px-3 text-xs font-medium text-slate-700 transition',
+                canImport && !isImporting ? 'cursor-pointer hover:bg-[#f8fbff]' : 'cursor-not-allowed opacity-50',
+              ].join(' ')}
+            >
+              <FileUp className="h-3.5 w-3.5" />
+              파일 선택
+              <input
+                type="file"
+                accept=".json,.yaml,.yml,application/json,application/yaml"
+                onChange={handleFileChange}
+                disabled={!canImport || isImporting}
+                className="sr-only"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={!plan || plan.conflicts > 0 || changedTypes.length === 0 || isImporting}
+              className="inline-flex h-8 items-center rounded-lg bg-[#4b74d9] px-3 text-xs font-semibold text-white transition hover:bg-[#3f67ca] disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isImporting ? '가져오는 중...' : '가져오기'}
+            </button>
+          </div>
+          {!canImport && <p className="mt-2 text-xs text-slate-500">가져오기는 admin 권한이 필요합니다.</p>}
+
+          <div className="mt-3 min-h-0 flex-1 overflow-y-auto">
+            {isPreviewing ? (
+              <p className="text-sm text-slate-500">미리보기를 만드는 중...</p>
+            ) : !plan ? (
+              <p className="rounded-xl border border-dashed border-[#dfe7f2] bg-[#fafcff] p-4 text-sm text-slate-500">
+                파일을 고르면 무엇이 만들어지고, 건너뛰고, 충돌하는지 먼저 보여줍니다. 충돌이 하나라도 있으면 아무것도 가져오지
+                않습니다.
+              </p>
+            ) : (
+              <>
+                <p className="mb-2 text-xs text-slate-600">
+                  새 타입 {plan.createdTypes}개 · 새 버전 {plan.createdVersions}개 · 동일 {plan.identicalVersions}개 ·{' '}
+                  <span className={plan.conflicts ? 'font-semibold text-rose-700' : ''}>충돌 {plan.conflicts}건</span>
+                </p>
+                {plan.notLiveTypes > 0 && (
+                  <p className="mb-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+                    가져오기는 어떤 버전도 ACTIVE로 만들지 않습니다. 가져온 뒤 ACTIVE 버전이 없는 타입 {plan.notLiveTypes}개는
+                    publisher가 버전을 지정하기 전까지 서빙되지 않습니다(Serving API가 404로 응답).
+                  </p>
+                )}
+                <ul className="space-y-2">
+                  {plan.types.map((type) => (
+                    <li key={type.name} className="rounded-lg border border-[#eef2f8] px-3 py-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-semibold text-slate-900">{type.name}</span>
+                        <span className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${ACTION_STYLES[type.action].className}`}>
+                          {ACTION_STYLES[type.action].label}
+                        </span>
+                        {type.reason && <span className="text-xs text-rose-700">{type.reason}</span>}
+                      </div>
+                      <div className="mt-1.5 flex flex-wrap gap-1">
+                        {type.versions.map((version) => (
+                          <span
+                            key={version.version}
+                            title={version.reason ?? ACTION_STYLES[version.action].label}
+                            className={`rounded px-1.5 py-0.5 font-mono text-[11px] ${ACTION_STYLES[version.action].className}`}
+                          >
+                            v{version.version}
+                            {version.reason ? ` · ${version.reason}` : ''}
+                          </span>
+                        ))}
+                      </div>
+                      {type.activeVersion && (
+                        <p className="mt-1.5 text-xs text-amber-700">
+                          ACTIVE가 다릅니다: 파일 {type.activeVersion.bundle ? `v${type.activeVersion.bundle}` : '없음'} · 현재{' '}
+                          {type.activeVersion.current ? `v${type.activeVersion.current}` : '없음'} (가져온 뒤 publisher가 지정합니다)
+                        </p>
+                      )}
+                      {type.liveAfterImport === null && (
+                        <p className="mt-1.5 text-xs text-amber-700">가져온 뒤 서빙되는 버전 없음</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
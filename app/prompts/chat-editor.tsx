@@ -0,0 +1,206 @@
+'use client';
+
+import { useMemo } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import {
+  CHAT_ROLES,
+  MAX_CHAT_MESSAGES,
+  parseChatMessages,
+  renderChatMessages,
+  serializeChatMessages,
+  type ChatMessage,
+  type ChatRole,
+} from '../../packages/prompt-client/src/chat';
+import type { TemplateVariable } from '../../packages/prompt-client/src/template';
+import { HighlightedTemplate } from './template-variables';
+
+const ROLE_STYLES: Record<ChatRole, { badge: string; bubble: string }> = {
+  system: {
+    badge: 'bg-slate-200 text-slate-700',
+    bubble: 'border-slate-200 bg-slate-50',
+  },
+  user: {
+    badge: 'bg-[#dfeaff] text-[#3f67ca]',
+    bubble: 'ml-8 border-[#cfe0ff] bg-[#f3f8ff]',
+  },
+  assistant: {
+    badge: 'bg-emerald-100 text-emerald-700',
+    bubble: 'mr-8 border-emerald-200 bg-emerald-50',
+  },
+};
+
+// few-shot 예시는 user/assistant가 번갈아 나오므로 마지막 메시지의 다음 역할을 기본값으로 한다.
+function nextRole(messages: ChatMessage[]): ChatRole {
+  const last = messages[messages.length - 1];
+  if (!last) return 'system';
+  return last.role === 'user' ? 'assistant' : 'user';
+}
+
+// 메시지 목록을 저장 형식(JSON 배열)으로 편집한다. 목록으로 읽을 수 없는 내용이면 변환 버튼만 보인다.
+export function ChatMessagesEditor({
+  content,
+  readOnly,
+  onChange,
+}: {
+  content: string;
+  readOnly: boolean;
+  onChange: (content: string) => void;
+}) {
+  const { messages, error } = useMemo(() => parseChatMessages(content), [content]);
+
+  const update = (next: ChatMessage[]) => onChange(serializeChatMessages(next));
+
+  if (!messages) {
+    const isEmpty = !content.trim();
+    return (
+      <div className="flex h-full flex-col items-start gap-3 rounded-xl border border-dashed border-[#dfe7f2] bg-[#fafcff] p-4 text-sm text-slate-600">
+        <p>{isEmpty ? '메시지가 없습니다.' : `메시지 목록으로 읽을 수 없습니다. ${error}`}</p>
+        {!readOnly && (
+          <button
+            type="button"
+            onClick={() => update([{ role: 'system', content: isEmpty ? '' : content }])}
+            className="inline-flex h-8 items-center gap-1.5 rounded-lg bg-[#4b74d9] px-3 text-xs font-semibold text-white transition hover:bg-[#3f67ca]"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            {isEmpty ? 'system 메시지로 시작' : '현재 내용을 system 메시지로 변환'}
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const patch = (index: number, change: Partial<ChatMessage>) =>
+    update(messages.map((message, i) => (i === index ? { ...message, ...change } : message)));
+  const move = (index: number, offset: number) => {
+    const next = [...messages];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    update(next);
+  };
+  const remove = (index: number) => update(messages.filter((_, i) => i !== index));
+  const add = (role: ChatRole) => update([...messages, { role, content: '' }]);
+  const iconButton =
+    'inline-flex h-7 w-7 items-center justify-center rounded-md text-slate-500 transition hover:bg-white hover:text-slate-800 disabled:cursor-not-allowed disabled:opacity-30';
+
+  return (
+    <div className="h-full space-y-3 overflow-y-auto pr-1">
+      {messages.map((message, index) => (
+        <div key={index} className="rounded-xl border border-[#e5ecf5] bg-[#fbfdff] p-3">
+          <div className="mb-2 flex items-center gap-2">
+            <span className="font-mono text-[11px] text-slate-400">#{index + 1}</span>
+            <select
+              value={message.role}
+              onChange={(e) => patch(index, { role: e.target.value as ChatRole })}
+              disabled={readOnly}
+              aria-label="역할"
+              className="h-7 rounded-lg border border-[#dfe7f2] bg-white px-2 text-xs font-semibold text-slate-700 outline-none disabled:bg-slate-50"
+            >
+              {CHAT_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+            <div className="ml-auto flex items-center">
+              <button type="button" onClick={() => move(index, -1)} disabled={readOnly || index === 0} title="위로" className={iconButton}>
+                <ArrowUp className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={readOnly || index === messages.length - 1}
+                title="아래로"
+                className={iconButton}
+              >
+                <ArrowDown className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                disabled={readOnly || messages.length === 1}
+                title={messages.length === 1 ? '메시지가 하나 이상 있어야 합니다.' : '삭제'}
+                className={`${iconButton} hover:text-rose-600`}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </div>
+          <textarea
+            value={message.content}
+            onChange={(e) => patch(index, { content: e.target.value })}
+            readOnly={readOnly}
+            rows={Math.min(12, Math.max(3, message.content.split('\n').length))}
+            placeholder={`${message.role} 메시지`}
+            className="w-full resize-y rounded-lg border border-[#dfe7f2] bg-white p-3 font-sans text-[14px] leading-6 text-slate-800 outline-none focus:border-[#7da2ff] focus:ring-4 focus:ring-[#dfeaff]"
+          />
+        </div>
+      ))}
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-2">
+          {CHAT_ROLES.map((role) => (
+            <button
+              key={role}
+              type="button"
+              onClick={() => add(role)}
+              disabled={messages.length >= MAX_CHAT_MESSAGES}
+              className={[
+                'inline-flex h-8 items-center gap-1.5 rounded-lg border px-3 text-xs font-medium transition disabled:cursor-not-allowed disabled:opacity-50',
+                role === nextRole(messages)
+                  ? 'border-[#cfe0ff] bg-[#f3f8ff] text-[#3f67ca]'
+                  : 'border-[#dde6f2] bg-white text-slate-700 hover:bg-[#f8fbff]',
+              ].join(' ')}
+            >
+              <Plus className="h-3.5 w-3.5" />
+              {role}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ChatBubbles({ messages, variables }: { messages: ChatMessage[]; variables: TemplateVariable[] | null }) {
+  return (
+    <div className="space-y-2">
+      {messages.map((message, index) => (
+        <div key={index} className={`rounded-xl border px-3 py-2 ${ROLE_STYLES[message.role].bubble}`}>
+          <span className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${ROLE_STYLES[message.role].badge}`}>
+            {message.role}
+          </span>
+          <div className="mt-1.5 whitespace-pre-wrap break-words text-sm leading-6 text-slate-700">
+            {!message.content.trim() ? (
+              <span className="text-slate-400">(비어 있음)</span>
+            ) : variables ? (
+              <HighlightedTemplate content={message.content} variables={variables} />
+            ) : (
+              message.content
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Read Preview: 변수와 포함 지시문을 강조한 대화.
+export function ChatPreview({ content, variables }: { content: string; variables: TemplateVariable[] }) {
+  const { messages, error } = parseChatMessages(content);
+  if (!messages) return <p className="text-sm text-amber-700">{error}</p>;
+  return <ChatBubbles messages={messages} variables={variables} />;
+}
+
+// Render Preview: 샘플 값을 채운 대화. 값은 메시지마다 따로 넣으므로 따옴표가 있어도 목록이 깨지지 않는다.
+export function ChatRenderedPreview({
+  content,
+  variables,
+  values,
+}: {
+  content: string;
+  variables: TemplateVariable[];
+  values: Record<string, string>;
+}) {
+  const { messages, error } = parseChatMessages(content);
+  if (!messages) return <p className="text-sm text-amber-700">{error}</p>;
+  return <ChatBubbles messages={renderChatMessages(messages, variables, values).messages} variables={null} />;
+}
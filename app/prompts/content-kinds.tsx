@@ -0,0 +1,355 @@
+// 타입의 내용 종류별 편집기 설정, 구문 검사, 정리 도구, Read Preview 렌더러.
+// 서버 쪽 목록과 기본 검증 규칙은 functions/src/content-kinds.ts에 있다. 종류를 추가할 때는 두 곳과
+// packages/prompt-client/src/types.ts의 PromptContentKind에 함께 추가한다.
+
+import type { ReactNode } from 'react';
+import yaml from 'js-yaml';
+import { composeChatTemplate, parseChatMessages } from '../../packages/prompt-client/src/chat';
+import { composeTemplate } from '../../packages/prompt-client/src/includes';
+import type { TemplateVariable } from '../../packages/prompt-client/src/template';
+import type { PromptContentKind } from '../../packages/prompt-client/src/types';
+import { ChatMessagesEditor, ChatPreview, ChatRenderedPreview } from './chat-editor';
+import { HighlightedTemplate } from './template-variables';
+
+export interface ContentSyntaxCheck {
+  valid: boolean;
+  // 편집기 헤더 배지에 보일 짧은 문구
+  label: string;
+  // 구문 오류일 때 편집기 아래에 보일 설명
+  detail: string | null;
+}
+
+export interface ContentFormatter {
+  label: string;
+  // 구문 검사를 통과한 내용에만 호출한다.
+  format: (content: string) => string;
+}
+
+export interface ContentPreviewProps {
+  content: string;
+  variables: TemplateVariable[];
+}
+
+export interface ContentRenderProps extends ContentPreviewProps {
+  // Render Preview에 입력한 샘플 값
+  values: Record<string, string>;
+}
+
+export interface ContentEditorProps {
+  content: string;
+  readOnly: boolean;
+  onChange: (content: string) => void;
+}
+
+export interface ContentKindDefinition {
+  value: PromptContentKind;
+  label: string;
+  // 긴 글은 'prose'(본문 글꼴), 구조화된 내용은 'code'(고정폭)
+  editorFont: 'prose' | 'code';
+  spellCheck: boolean;
+  // 편집기 헤더에 붙는 모드 배지
+  modeBadge: string | null;
+  // Read/Render Preview와 변수 패널을 옆에 둘지. 없으면 편집기가 전체 폭을 쓴다.
+  sidePanel: boolean;
+  // 버전 비교에서 JSON 키를 정렬한 구조 비교를 제공할지
+  structuralDiff: boolean;
+  // JSON Schema(2020-12)로 검사하고 샘플 출력 패널을 쓸지. 서버의 schemaSamples와 같은 값이다.
+  schemaSamples: boolean;
+  checkSyntax: ((content: string) => ContentSyntaxCheck) | null;
+  formatters: ContentFormatter[];
+  ReadPreview: (props: ContentPreviewProps) => ReactNode;
+  // 샘플 값을 채운 결과를 그리는 방식. 없으면 채운 텍스트를 그대로 보인다.
+  RenderOutput: ((props: ContentRenderProps) => ReactNode) | null;
+  // 본문 textarea 대신 쓸 구조화된 편집기. 있어도 원문(JSON) 편집으로 전환할 수 있다.
+  Editor: ((props: ContentEditorProps) => ReactNode) | null;
+  // {{> TYPE}}을 펼치는 방식. 서버의 serving.ts와 같은 결과여야 한다.
+  compose: typeof composeTemplate;
+}
+
+// {{변수}}와 {{> 포함}}은 YAML 흐름 매핑으로 읽히므로 같은 길이의 일반 문자로 바꿔 오류 위치를 유지한다.
+function maskPlaceholders(content: string) {
+  return content.replace(/\{\{[^{}]*\}\}/g, (match) => 'x'.repeat(match.length));
+}
+
+function checkJson(content: string): ContentSyntaxCheck {
+  if (!content.trim()) return { valid: false, label: '빈 JSON', detail: 'JSON 오류: 빈 JSON' };
+  try {
+    JSON.parse(content);
+    return { valid: true, label: 'JSON', detail: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'JSON 파싱 실패';
+    return { valid: false, label: 'JSON 오류', detail: `JSON 오류: ${message}` };
+  }
+}
+
+function checkYaml(content: string): ContentSyntaxCheck {
+  try {
+    yaml.load(maskPlaceholders(content));
+    return { valid: true, label: 'YAML', detail: null };
+  } catch (err) {
+    const e = err as { reason?: string; message?: string; mark?: { line?: number } };
+    const line = typeof e.mark?.line === 'number' ? ` (${e.mark.line + 1}행)` : '';
+    return { valid: false, label: 'YAML 오류', detail: `YAML 오류: ${e.reason ?? e.message ?? 'YAML 파싱 실패'}${line}` };
+  }
+}
+
+function checkChat(content: string): ContentSyntaxCheck {
+  const { messages, error } = parseChatMessages(content);
+  if (messages) return { valid: true, label: `메시지 ${messages.length}개`, detail: null };
+  return { valid: false, label: '메시지 목록 오류', detail: `메시지 목록 오류: ${error}` };
+}
+
+function TextPreview({ content, variables }: ContentPreviewProps) {
+  return (
+    <div className="whitespace-pre-wrap break-words text-sm leading-7 text-slate-700">
+      <HighlightedTemplate content={content} variables={variables} />
+    </div>
+  );
+}
+
+function CodePreview({ content, variables }: ContentPreviewProps) {
+  return (
+    <div className="whitespace-pre-wrap break-words font-mono text-[12px] leading-6 text-slate-700">
+      <HighlightedTemplate content={content} variables={variables} />
+    </div>
+  );
+}
+
+type MarkdownBlock =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list'; ordered: boolean; items: string[] }
+  | { kind: 'quote'; text: string }
+  | { kind: 'code'; text: string }
+  | { kind: 'rule' };
+
+// 블록 단위(제목, 문단, 목록, 인용, 코드, 구분선)만 해석한다. 본문 안의 변수 강조는 그대로 보인다.
+function parseMarkdownBlocks(content: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = content.split('\n');
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    const trimmed = line.trim();
+    if (!trimmed) {
+      index += 1;
+      continue;
+    }
+    if (trimmed.startsWith('```')) {
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !lines[index].trim().startsWith('```')) {
+        code.push(lines[index]);
+        index += 1;
+      }
+      blocks.push({ kind: 'code', text: code.join('\n') });
+      index += 1;
+      continue;
+    }
+    const heading = /^(#{1,6})\s+(.*)$/.exec(trimmed);
+    if (heading) {
+      blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2] });
+      index += 1;
+      continue;
+    }
+    if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      blocks.push({ kind: 'rule' });
+      index += 1;
+      continue;
+    }
+    const listMatch = /^([-*+]|\d+[.)])\s+/.exec(trimmed);
+    if (listMatch) {
+      const ordered = /\d/.test(listMatch[1]);
+      const items: string[] = [];
+      while (index < lines.length) {
+        const item = /^([-*+]|\d+[.)])\s+(.*)$/.exec(lines[index].trim());
+        if (!item || /\d/.test(item[1]) !== ordered) break;
+        items.push(item[2]);
+        index += 1;
+      }
+      blocks.push({ kind: 'list', ordered, items });
+      continue;
+    }
+    if (trimmed.startsWith('>')) {
+      const quote: string[] = [];
+      while (index < lines.length && lines[index].trim().startsWith('>')) {
+        quote.push(lines[index].trim().replace(/^>\s?/, ''));
+        index += 1;
+      }
+      blocks.push({ kind: 'quote', text: quote.join('\n') });
+      continue;
+    }
+    const paragraph: string[] = [];
+    while (index < lines.length && lines[index].trim() && !/^(#{1,6}\s|```|>|([-*+]|\d+[.)])\s)/.test(lines[index].trim())) {
+      paragraph.push(lines[index]);
+      index += 1;
+    }
+    if (!paragraph.length) {
+      paragraph.push(line);
+      index += 1;
+    }
+    blocks.push({ kind: 'paragraph', text: paragraph.join('\n') });
+  }
+  return blocks;
+}
+
+const HEADING_CLASSES = ['text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm', 'text-sm'];
+
+function MarkdownPreview({ content, variables }: ContentPreviewProps) {
+  if (!content.trim()) return <p className="text-sm text-slate-500">내용이 비어 있습니다.</p>;
+  return (
+    <div className="space-y-3 break-words text-sm leading-7 text-slate-700">
+      {parseMarkdownBlocks(content).map((block, index) => {
+        if (block.kind === 'heading') {
+          return (
+            <p key={index} className={`${HEADING_CLASSES[block.level - 1]} font-semibold text-slate-900`}>
+              <HighlightedTemplate content={block.text} variables={variables} />
+            </p>
+          );
+        }
+        if (block.kind === 'list') {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={index} className={`space-y-1 pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>
+                  <HighlightedTemplate content={item} variables={variables} />
+                </li>
+              ))}
+            </List>
+          );
+        }
+        if (block.kind === 'quote') {
+          return (
+            <blockquote key={index} className="whitespace-pre-wrap border-l-4 border-[#dfe7f2] pl-3 text-slate-500">
+              <HighlightedTemplate content={block.text} variables={variables} />
+            </blockquote>
+          );
+        }
+        if (block.kind === 'code') {
+          return (
+            <pre key={index} className="overflow-x-auto rounded-lg bg-slate-900 p-3 font-mono text-[12px] leading-5 text-slate-100">
+              {block.text}
+            </pre>
+          );
+        }
+        if (block.kind === 'rule') return <hr key={index} className="border-[#e5ecf5]" />;
+        return (
+          <p key={index} className="whitespace-pre-wrap">
+            <HighlightedTemplate content={block.text} variables={variables} />
+          </p>
+        );
+      })}
+    </div>
+  );
+}
+
+export const CONTENT_KINDS: ContentKindDefinition[] = [
+  {
+    value: 'text',
+    label: '일반 텍스트',
+    editorFont: 'code',
+    spellCheck: true,
+    modeBadge: null,
+    sidePanel: true,
+    structuralDiff: false,
+    schemaSamples: false,
+    checkSyntax: null,
+    formatters: [],
+    ReadPreview: TextPreview,
+    RenderOutput: null,
+    Editor: null,
+    compose: composeTemplate,
+  },
+  {
+    value: 'system_prompt',
+    label: '시스템 프롬프트',
+    editorFont: 'prose',
+    spellCheck: true,
+    modeBadge: 'Long Text Mode',
+    sidePanel: true,
+    structuralDiff: false,
+    schemaSamples: false,
+    checkSyntax: null,
+    formatters: [],
+    ReadPreview: TextPreview,
+    RenderOutput: null,
+    Editor: null,
+    compose: composeTemplate,
+  },
+  {
+    value: 'json_schema',
+    label: 'JSON 스키마',
+    editorFont: 'code',
+    spellCheck: false,
+    modeBadge: null,
+    sidePanel: false,
+    structuralDiff: true,
+    schemaSamples: true,
+    checkSyntax: checkJson,
+    formatters: [
+      { label: 'JSON 정렬', format: (content) => JSON.stringify(JSON.parse(content), null, 2) },
+      { label: 'JSON 압축', format: (content) => JSON.stringify(JSON.parse(content)) },
+    ],
+    ReadPreview: CodePreview,
+    RenderOutput: null,
+    Editor: null,
+    compose: composeTemplate,
+  },
+  {
+    value: 'yaml',
+    label: 'YAML',
+    editorFont: 'code',
+    spellCheck: false,
+    modeBadge: null,
+    sidePanel: true,
+    structuralDiff: false,
+    schemaSamples: false,
+    checkSyntax: checkYaml,
+    formatters: [],
+    ReadPreview: CodePreview,
+    RenderOutput: null,
+    Editor: null,
+    compose: composeTemplate,
+  },
+  {
+    value: 'markdown',
+    label: 'Markdown',
+    editorFont: 'prose',
+    spellCheck: true,
+    modeBadge: null,
+    sidePanel: true,
+    structuralDiff: false,
+    schemaSamples: false,
+    checkSyntax: null,
+    formatters: [],
+    ReadPreview: MarkdownPreview,
+    RenderOutput: null,
+    Editor: null,
+    compose: composeTemplate,
+  },
+  {
+    value: 'chat',
+    label: '대화(Chat)',
+    editorFont: 'code',
+    spellCheck: true,
+    modeBadge: null,
+    sidePanel: true,
+    structuralDiff: false,
+    schemaSamples: false,
+    checkSyntax: checkChat,
+    formatters: [],
+    ReadPreview: ChatPreview,
+    RenderOutput: ChatRenderedPreview,
+    Editor: ChatMessagesEditor,
+    compose: composeChatTemplate,
+  },
+];
+
+export function toContentKind(value: unknown): PromptContentKind {
+  return CONTENT_KINDS.find((kind) => kind.value === value)?.value ?? 'text';
+}
+
+export function getContentKind(kind: PromptContentKind | null | undefined): ContentKindDefinition {
+  return CONTENT_KINDS.find((entry) => entry.value === kind) ?? CONTENT_KINDS[0];
+}
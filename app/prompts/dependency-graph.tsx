@@ -0,0 +1,210 @@
+'use client';
+
+import { ArrowRight, Network, TriangleAlert } from 'lucide-react';
+import type { ComposedTemplate, ComposeIssue, IncludeLookup } from '../../packages/prompt-client/src/includes';
+import type { PromptTypeSummary, PromptVersionContent } from '../../packages/prompt-client/src/types';
+
+interface PromptTypeRef {
+  promptTypeId: string;
+  promptTypeName: string;
+}
+
+export interface PromptDependencies {
+  includes: Array<{ target: string; version: number | null; promptTypeId: string | null }>;
+  includedBy: Array<PromptTypeRef & { pinnedVersion: number | null }>;
+  affected: PromptTypeRef[];
+}
+
+// 서버(loadIncludeSource)와 같은 규칙: id 우선, 다음 이름. 버전 고정은 게시된 버전만.
+// 내용을 아직 받지 않은 버전은 missing에 모으고 찾지 못한 것으로 둔다. 받아 온 뒤 다시 조합하면 된다.
+export function createIncludeLookup(
+  promptTypes: PromptTypeSummary[],
+  contents: Record<string, PromptVersionContent>,
+  missing?: Set<string>,
+): IncludeLookup {
+  return (ref) => {
+    const type =
+      promptTypes.find((candidate) => candidate.id === ref.target) ??
+      promptTypes.find((candidate) => candidate.title === ref.target);
+    const version =
+      ref.version === null
+        ? type?.versions.find((candidate) => candidate.isActive)
+        : type?.versions.find((candidate) => candidate.version === ref.version && candidate.publishedAt);
+    if (!type || !version) return null;
+    const loaded = contents[version.id];
+    if (!loaded || loaded.revision !== version.revision) {
+      missing?.add(version.id);
+      return null;
+    }
+    return {
+      promptTypeId: type.id,
+      promptTypeName: type.title,
+      version: version.version,
+      content: loaded.content,
+      variables: loaded.variables,
+    };
+  };
+}
+
+const COMPOSE_ISSUE_LABELS: Record<ComposeIssue['reason'], string> = {
+  'include-not-found': '대상 타입이 없거나 ACTIVE/게시된 버전이 없습니다.',
+  'include-cycle': '순환 포함입니다.',
+  'include-too-deep': '포함 단계가 너무 깊습니다.',
+};
+
+export function IncludeIssues({ composed }: { composed: ComposedTemplate }) {
+  if (!composed.errors.length) {
+    return composed.includes.length ? (
+      <span
+        className="rounded-full bg-violet-50 px-2 py-0.5 text-xs font-semibold text-violet-700"
+        title={composed.includes.map((entry) => `${entry.promptTypeName} v${entry.version}`).join(', ')}
+      >
+        포함 {composed.includes.length}개
+      </span>
+    ) : null;
+  }
+  return (
+    <>
+      {composed.errors.map((issue) => (
+        <span
+          key={`${issue.reason}:${issue.directive}`}
+          className="rounded-full bg-rose-50 px-2 py-0.5 text-xs font-semibold text-rose-700"
+          title={issue.message}
+        >
+          {issue.directive} · {COMPOSE_ISSUE_LABELS[issue.reason]}
+        </span>
+      ))}
+    </>
+  );
+}
+
+export function ImpactNotice({ affected }: { affected: PromptTypeRef[] }) {
+  if (!affected.length) return null;
+  return (
+    <div className="mb-3 flex items-start gap-2 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+      <TriangleAlert className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+      <span>
+        이 타입의 ACTIVE 버전을 바꾸면 이를 포함하는 다른 프롬프트 {affected.length}개에 영향을 줍니다:{' '}
+        {affected.map((type) => type.promptTypeName).join(', ')}
+      </span>
+    </div>
+  );
+}
+
+function TypeChip({
+  label,
+  note,
+  onClick,
+  muted,
+}: {
+  label: string;
+  note?: string;
+  onClick?: () => void;
+  muted?: boolean;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={!onClick}
+      className={[
+        'flex w-full items-center justify-between gap-2 rounded-lg border px-3 py-2 text-left text-xs transition disabled:cursor-default',
+        muted
+          ? 'border-dashed border-[#dfe7f2] bg-[#fafcff] text-slate-500'
+          : 'border-[#e8eef7] bg-white text-slate-700 hover:bg-[#f3f8ff]',
+      ].join(' ')}
+    >
+      <span className="truncate font-mono font-semibold">{label}</span>
+      {note && <span className="shrink-0 text-[11px] text-slate-400">{note}</span>}
+    </button>
+  );
+}
+
+export function DependencyGraph({
+  promptTypeName,
+  dependencies,
+  isLoading,
+  onSelectType,
+}: {
+  promptTypeName: string;
+  dependencies: PromptDependencies | null;
+  isLoading: boolean;
+  onSelectType: (promptTypeId: string) => void;
+}) {
+  if (isLoading && !dependencies) {
+    return <p className="text-sm text-slate-500">의존성을 불러오는 중...</p>;
+  }
+  if (!dependencies) {
+    return <p className="text-sm text-slate-500">의존성 정보를 불러오지 못했습니다.</p>;
+  }
+
+  const { includes, includedBy, affected } = dependencies;
+  const indirect = affected.filter(
+    (type) => !includedBy.some((includer) => includer.promptTypeId === type.promptTypeId),
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Network className="h-4 w-4 text-[#3f67ca]" />
+        <h4 className="text-sm font-semibold text-slate-900">포함 관계 (ACTIVE 버전 기준)</h4>
+      </div>
+      <p className="text-xs text-slate-500">
+        본문에 <code className="rounded bg-slate-100 px-1">{'{{> TYPE_NAME}}'}</code>를 쓰면 해당 타입의 ACTIVE 버전이,{' '}
+        <code className="rounded bg-slate-100 px-1">{'{{> TYPE_NAME@3}}'}</code>를 쓰면 게시된 v3가 그 자리에 들어갑니다.
+      </p>
+      <div className="grid grid-cols-1 items-start gap-3 md:grid-cols-[minmax(0,1fr)_auto_minmax(0,1fr)_auto_minmax(0,1fr)]">
+        <div className="space-y-1.5">
+          <p className="text-[11px] font-semibold uppercase tracking-[0.08em] text-slate-500">포함하는 프롬프트</p>
+          {includes.length === 0 ? (
+            <TypeChip label="없음" muted />
+          ) : (
+            includes.map((ref) => (
+              <TypeChip
+                key={`${ref.target}@${ref.version ?? 'active'}`}
+                label={ref.target}
+                note={ref.promptTypeId === null ? '찾을 수 없음' : ref.version === null ? 'ACTIVE' : `v${ref.version} 고정`}
+                muted={ref.promptTypeId === null}
+                onClick={ref.promptTypeId ? () => onSelectType(ref.promptTypeId as string) : undefined}
+              />
+            ))
+          )}
+        </div>
+        <ArrowRight className="mx-auto hidden h-4 w-4 self-center text-slate-300 md:block" />
+        <div className="space-y-1.5">
+          <p className="text-[11px] font-semibold uppercase tracking-[0.08em] text-slate-500">이 타입</p>
+          <div className="rounded-lg border border-[#cfe0ff] bg-[#f3f8ff] px-3 py-2 font-mono text-xs font-semibold text-[#3f67ca]">
+            {promptTypeName}
+          </div>
+        </div>
+        <ArrowRight className="mx-auto hidden h-4 w-4 self-center text-slate-300 md:block" />
+        <div className="space-y-1.5">
+          <p className="text-[11px] font-semibold uppercase tracking-[0.08em] text-slate-500">이 타입을 포함하는 프롬프트</p>
+          {includedBy.length === 0 && indirect.length === 0 ? (
+            <TypeChip label="없음" muted />
+          ) : (
+            <>
+              {includedBy.map((type) => (
+                <TypeChip
+                  key={`${type.promptTypeId}@${type.pinnedVersion ?? 'active'}`}
+                  label={type.promptTypeName}
+                  note={type.pinnedVersion === null ? '직접' : `v${type.pinnedVersion} 고정 · 영향 없음`}
+                  onClick={() => onSelectType(type.promptTypeId)}
+                />
+              ))}
+              {indirect.map((type) => (
+                <TypeChip
+                  key={type.promptTypeId}
+                  label={type.promptTypeName}
+                  note="간접"
+                  onClick={() => onSelectType(type.promptTypeId)}
+                />
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+      <ImpactNotice affected={affected} />
+    </div>
+  );
+}
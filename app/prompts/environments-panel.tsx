@@ -0,0 +1,187 @@
+'use client';
+
+import { useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { ArrowRight, Layers, Upload } from 'lucide-react';
+import { functions } from '../../lib/firebase';
+import type { PromptEnvironment } from '../../packages/prompt-client/src/types';
+
+// functions/src/environments.ts의 EnvironmentPointer와 같은 모양이다.
+export interface EnvironmentPointer {
+  environment: PromptEnvironment;
+  promptVersionId: string | null;
+  version: number | null;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export const ENVIRONMENT_LABELS: Record<PromptEnvironment, string> = {
+  dev: 'DEV',
+  staging: 'STAGING',
+  production: 'PRODUCTION',
+};
+
+const ENVIRONMENT_STYLES: Record<PromptEnvironment, string> = {
+  dev: 'bg-sky-100 text-sky-700',
+  staging: 'bg-amber-100 text-amber-800',
+  production: 'bg-[#e6f4ea] text-[#1f7a39]',
+};
+
+const setActivePromptVersion = httpsCallable(functions, 'setActivePromptVersion');
+const promotePromptVersion = httpsCallable(functions, 'promotePromptVersion');
+
+export function EnvironmentBadge({ environment }: { environment: PromptEnvironment }) {
+  return (
+    <span className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${ENVIRONMENT_STYLES[environment]}`}>
+      {ENVIRONMENT_LABELS[environment]}
+    </span>
+  );
+}
+
+export function EnvironmentsPanel({
+  promptTypeId,
+  environments,
+  selectedVersion,
+  isLoading,
+  canEdit,
+  canPublish,
+  onChanged,
+  getErrorMessage,
+}: {
+  promptTypeId: string;
+  environments: EnvironmentPointer[];
+  selectedVersion: { id: string; version: number; publishedAt: string | null } | null;
+  isLoading: boolean;
+  canEdit: boolean;
+  canPublish: boolean;
+  onChanged: () => void;
+  getErrorMessage: (err: unknown, fallback: string) => string;
+}) {
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // dev는 editor도 바꿀 수 있고, 실제 사용자가 닿는 staging/production은 publisher 이상이 필요하다.
+  const canChange = (environment: PromptEnvironment) => (environment === 'dev' ? canEdit : canPublish);
+
+  const handleDeploy = async (environment: PromptEnvironment) => {
+    if (!selectedVersion) return;
+    const freezes = environment !== 'dev' && !selectedVersion.publishedAt;
+    if (
+      !window.confirm(
+        `v${selectedVersion.version}을 ${ENVIRONMENT_LABELS[environment]}에 배포할까요?` +
+          (freezes ? '\n\n배포하면 게시된 버전이 되어 더 이상 수정할 수 없습니다.' : ''),
+      )
+    ) {
+      return;
+    }
+
+    setBusyKey(`deploy:${environment}`);
+    setError(null);
+    try {
+      await setActivePromptVersion({ promptTypeId, promptVersionId: selectedVersion.id, environment });
+      onChanged();
+    } catch (err) {
+      console.error('Error deploying to environment:', err);
+      setError(getErrorMessage(err, `${ENVIRONMENT_LABELS[environment]} 배포에 실패했습니다.`));
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handlePromote = async (from: EnvironmentPointer, to: EnvironmentPointer) => {
+    if (
+      !window.confirm(
+        `${ENVIRONMENT_LABELS[from.environment]}의 v${from.version}을 ${ENVIRONMENT_LABELS[to.environment]}로 승격할까요?` +
+          (to.version !== null ? ` (현재 v${to.version})` : ''),
+      )
+    ) {
+      return;
+    }
+
+    setBusyKey(`promote:${from.environment}`);
+    setError(null);
+    try {
+      await promotePromptVersion({ promptTypeId, from: from.environment });
+      onChanged();
+    } catch (err) {
+      console.error('Error promoting prompt version:', err);
+      setError(getErrorMessage(err, '승격에 실패했습니다.'));
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center gap-2">
+          <Layers className="h-4 w-4 text-[#3f67ca]" />
+          <h4 className="text-sm font-semibold text-slate-900">환경별 배포</h4>
+        </div>
+        <p className="mt-1 text-xs text-slate-500">
+          serving API는 environment 파라미터(기본 production)로 환경을 고릅니다. PRODUCTION은 ACTIVE 버전이고, STAGING에 배포하면 ACTIVE 지정과 같은
+          검사를 거쳐 게시됩니다. DEV에 배포한 버전은 계속 수정할 수 있습니다.
+        </p>
+      </div>
+
+      {error && <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>}
+
+      {environments.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-[#dfe7f2] bg-[#fafcff] p-4 text-sm text-slate-500">
+          {isLoading ? '불러오는 중...' : '환경 정보를 불러오지 못했습니다.'}
+        </div>
+      ) : (
+        <ol className="grid gap-3 lg:grid-cols-3">
+          {environments.map((pointer, index) => {
+            const next = environments[index + 1] ?? null;
+            const isSelectedLive = selectedVersion !== null && pointer.promptVersionId === selectedVersion.id;
+            return (
+              <li key={pointer.environment} className="flex flex-col gap-2 rounded-xl border border-[#e8eef7] bg-white p-3 text-xs text-slate-700">
+                <div className="flex items-center gap-2">
+                  <EnvironmentBadge environment={pointer.environment} />
+                  <span className="text-sm font-semibold text-slate-900">{pointer.version !== null ? `v${pointer.version}` : '—'}</span>
+                </div>
+                <p className="text-[11px] text-slate-400">
+                  {pointer.updatedBy ? `${pointer.updatedBy} · ${pointer.updatedAt}` : '배포된 버전이 없습니다.'}
+                </p>
+                <div className="mt-auto flex flex-wrap gap-1.5">
+                  <button
+                    type="button"
+                    onClick={() => handleDeploy(pointer.environment)}
+                    disabled={!selectedVersion || isSelectedLive || !canChange(pointer.environment) || busyKey !== null}
+                    title={canChange(pointer.environment) ? undefined : `${pointer.environment === 'dev' ? 'editor' : 'publisher'} 이상의 권한이 필요합니다.`}
+                    className="inline-flex h-8 items-center gap-1.5 rounded-lg border border-[#dde6f2] px-2.5 text-[11px] font-semibold text-slate-700 transition hover:bg-[#f3f8ff] hover:text-[#3f67ca] disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <Upload className="h-3.5 w-3.5" />
+                    {busyKey === `deploy:${pointer.environment}`
+                      ? '배포 중...'
+                      : selectedVersion
+                        ? `v${selectedVersion.version} 배포`
+                        : '버전을 선택하세요'}
+                  </button>
+                  {next && (
+                    <button
+                      type="button"
+                      onClick={() => handlePromote(pointer, next)}
+                      disabled={
+                        pointer.promptVersionId === null ||
+                        pointer.promptVersionId === next.promptVersionId ||
+                        !canPublish ||
+                        busyKey !== null
+                      }
+                      title={canPublish ? undefined : 'publisher 이상의 권한이 필요합니다.'}
+                      className="inline-flex h-8 items-center gap-1.5 rounded-lg bg-[#4b74d9] px-2.5 text-[11px] font-semibold text-white transition hover:bg-[#3f67ca] disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {busyKey === `promote:${pointer.environment}` ? '승격 중...' : `${ENVIRONMENT_LABELS[next.environment]}로 승격`}
+                      <ArrowRight className="h-3.5 w-3.5" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,460 @@
+'use client';
+
+import { useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { CheckCircle2, ClipboardCheck, Play, Plus, Trash2, XCircle } from 'lucide-react';
+import { functions } from '../../lib/firebase';
+
+// functions/src/evaluation.ts의 EvalAssertion/EvalCase/EvalRun과 같은 모양이다.
+export type EvalAssertion =
+  | { type: 'contains'; value: string }
+  | { type: 'not-contains'; value: string }
+  | { type: 'regex'; pattern: string; flags?: string }
+  | { type: 'json-schema'; schema: string }
+  | { type: 'max-tokens'; value: number };
+
+export interface EvalCase {
+  id: number;
+  promptTypeId: string;
+  name: string;
+  variables: Record<string, string>;
+  assertions: EvalAssertion[];
+  mockOutput: string | null;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface EvalCaseResult {
+  caseId: number;
+  name: string;
+  passed: boolean;
+  output: string;
+  tokens: number;
+  assertions: Array<{ type: EvalAssertion['type']; passed: boolean; message: string }>;
+  error: string | null;
+}
+
+export interface EvalRun {
+  id: number;
+  promptVersionId: string;
+  revision: number;
+  adapter: string;
+  passed: boolean;
+  total: number;
+  failed: number;
+  cases: EvalCaseResult[];
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface PromptEvaluations {
+  cases: EvalCase[];
+  runs: EvalRun[];
+  requirePass: boolean;
+}
+
+const ASSERTION_LABELS: Record<EvalAssertion['type'], string> = {
+  contains: '포함',
+  'not-contains': '미포함',
+  regex: '정규식',
+  'json-schema': 'JSON Schema',
+  'max-tokens': '최대 토큰',
+};
+
+const ADAPTERS = [
+  ['mock', 'mock (고정 응답)'],
+  ['http', 'http (모델 엔드포인트)'],
+] as const;
+
+const addPromptEvalCase = httpsCallable(functions, 'addPromptEvalCase');
+const deletePromptEvalCase = httpsCallable(functions, 'deletePromptEvalCase');
+const runPromptEvaluation = httpsCallable(functions, 'runPromptEvaluation');
+const setPromptEvalPolicy = httpsCallable(functions, 'setPromptEvalPolicy');
+
+// 실행 결과가 지금 내용 기준인지: 편집 후나 케이스 추가 후의 결과는 오래된 것으로 본다.
+export function isEvalRunCurrent(run: EvalRun, version: { revision: number }, cases: EvalCase[]) {
+  const ran = new Set(run.cases.map((result) => result.caseId));
+  return run.revision === version.revision && cases.every((testCase) => ran.has(testCase.id));
+}
+
+export function EvalBadge({ run, isCurrent }: { run: EvalRun; isCurrent: boolean }) {
+  const className = !isCurrent
+    ? 'bg-slate-100 text-slate-500'
+    : run.passed
+      ? 'bg-emerald-100 text-emerald-700'
+      : 'bg-rose-100 text-rose-700';
+  return (
+    <span
+      className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${className}`}
+      title={isCurrent ? `${run.adapter} · ${run.createdAt}` : '내용이나 테스트 케이스가 바뀐 뒤의 결과가 아닙니다.'}
+    >
+      테스트 {run.total - run.failed}/{run.total}
+      {isCurrent ? '' : ' (이전)'}
+    </span>
+  );
+}
+
+function describeAssertion(assertion: EvalAssertion) {
+  switch (assertion.type) {
+    case 'regex':
+      return `/${assertion.pattern}/${assertion.flags ?? ''}`;
+    case 'json-schema':
+      return assertion.schema.length > 60 ? `${assertion.schema.slice(0, 60)}…` : assertion.schema;
+    default:
+      return String(assertion.value);
+  }
+}
+
+type AssertionDraft = { type: EvalAssertion['type']; value: string };
+
+function toAssertion(draft: AssertionDraft): EvalAssertion {
+  switch (draft.type) {
+    case 'regex':
+      return { type: 'regex', pattern: draft.value };
+    case 'json-schema':
+      return { type: 'json-schema', schema: draft.value };
+    case 'max-tokens':
+      return { type: 'max-tokens', value: Number(draft.value) };
+    default:
+      return { type: draft.type, value: draft.value };
+  }
+}
+
+export function EvalPanel({
+  promptTypeId,
+  selectedVersion,
+  evaluations,
+  isLoading,
+  canEdit,
+  canManagePolicy,
+  onChanged,
+  getErrorMessage,
+}: {
+  promptTypeId: string;
+  selectedVersion: { id: string; version: number; revision: number } | null;
+  evaluations: PromptEvaluations | null;
+  isLoading: boolean;
+  canEdit: boolean;
+  canManagePolicy: boolean;
+  onChanged: () => void;
+  getErrorMessage: (err: unknown, fallback: string) => string;
+}) {
+  const [name, setName] = useState('');
+  const [variablesText, setVariablesText] = useState('');
+  const [assertionDrafts, setAssertionDrafts] = useState<AssertionDraft[]>([{ type: 'contains', value: '' }]);
+  const [mockOutput, setMockOutput] = useState('');
+  const [adapter, setAdapter] = useState<(typeof ADAPTERS)[number][0]>('mock');
+  const [isAdding, setIsAdding] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isSavingPolicy, setIsSavingPolicy] = useState(false);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const cases = evaluations?.cases ?? [];
+  const run = selectedVersion
+    ? (evaluations?.runs.find((entry) => entry.promptVersionId === selectedVersion.id) ?? null)
+    : null;
+
+  const handleAdd = async () => {
+    let variables: Record<string, unknown> = {};
+    if (variablesText.trim()) {
+      try {
+        variables = JSON.parse(variablesText);
+      } catch {
+        setError('변수 값은 {"name": "값"} 형태의 JSON으로 입력해 주세요.');
+        return;
+      }
+    }
+
+    setIsAdding(true);
+    setError(null);
+    try {
+      await addPromptEvalCase({
+        promptTypeId,
+        testCase: {
+          name: name.trim(),
+          variables,
+          assertions: assertionDrafts.filter((draft) => draft.value.trim()).map(toAssertion),
+          mockOutput: mockOutput || null,
+        },
+      });
+      setName('');
+      setVariablesText('');
+      setAssertionDrafts([{ type: 'contains', value: '' }]);
+      setMockOutput('');
+      onChanged();
+    } catch (err) {
+      console.error('Error adding test case:', err);
+      setError(getErrorMessage(err, '테스트 케이스 추가에 실패했습니다.'));
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleDelete = async (testCase: EvalCase) => {
+    if (!window.confirm(`'${testCase.name}' 테스트 케이스를 삭제할까요?`)) return;
+    setDeletingId(testCase.id);
+    setError(null);
+    try {
+      await deletePromptEvalCase({ caseId: testCase.id });
+      onChanged();
+    } catch (err) {
+      console.error('Error deleting test case:', err);
+      setError(getErrorMessage(err, '테스트 케이스 삭제에 실패했습니다.'));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!selectedVersion) return;
+    setIsRunning(true);
+    setError(null);
+    try {
+      await runPromptEvaluation({ promptVersionId: selectedVersion.id, adapter });
+      onChanged();
+    } catch (err) {
+      console.error('Error running test cases:', err);
+      setError(getErrorMessage(err, '테스트 실행에 실패했습니다.'));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handlePolicyChange = async (requirePass: boolean) => {
+    setIsSavingPolicy(true);
+    setError(null);
+    try {
+      await setPromptEvalPolicy({ promptTypeId, requirePass });
+      onChanged();
+    } catch (err) {
+      console.error('Error saving evaluation policy:', err);
+      setError(getErrorMessage(err, '테스트 통과 조건 변경에 실패했습니다.'));
+    } finally {
+      setIsSavingPolicy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2">
+            <ClipboardCheck className="h-4 w-4 text-[#3f67ca]" />
+            <h4 className="text-sm font-semibold text-slate-900">테스트 케이스</h4>
+          </div>
+          <p className="mt-1 text-xs text-slate-500">
+            입력 변수와 기대 조건을 등록해 두고 버전별로 실행합니다. mock 어댑터는 케이스의 고정 응답(없으면 렌더링된 프롬프트)을 돌려줍니다.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-700">
+          <input
+            type="checkbox"
+            checked={Boolean(evaluations?.requirePass)}
+            onChange={(e) => void handlePolicyChange(e.target.checked)}
+            disabled={!canManagePolicy || isSavingPolicy || !evaluations}
+            title={canManagePolicy ? undefined : 'admin만 변경할 수 있습니다.'}
+          />
+          ACTIVE 지정 전 테스트 통과 필수
+        </label>
+      </div>
+
+      {error && <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>}
+
+      {selectedVersion && (
+        <div className="rounded-xl border border-[#e8eef7] bg-white p-3 text-xs text-slate-700">
+          <div className="flex flex-wrap items-center gap-2">
+            <p className="font-semibold text-slate-900">v{selectedVersion.version} 실행 결과</p>
+            {run && <EvalBadge run={run} isCurrent={isEvalRunCurrent(run, selectedVersion, cases)} />}
+            <div className="ml-auto flex items-center gap-2">
+              <select
+                value={adapter}
+                onChange={(e) => setAdapter(e.target.value as typeof adapter)}
+                className="h-8 rounded-lg border border-[#dfe7f2] bg-white px-2 text-xs text-slate-700 outline-none"
+              >
+                {ADAPTERS.map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleRun}
+                disabled={!canEdit || isRunning || cases.length === 0}
+                className="inline-flex h-8 items-center gap-1.5 rounded-lg bg-[#4b74d9] px-3 text-xs font-semibold text-white transition hover:bg-[#3f67ca] disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <Play className="h-3.5 w-3.5" />
+                {isRunning ? '실행 중...' : '테스트 실행'}
+              </button>
+            </div>
+          </div>
+          {run ? (
+            <ul className="mt-2 space-y-1.5">
+              {run.cases.map((result) => (
+                <li key={result.caseId} className="rounded-lg border border-[#eef2f8] px-2.5 py-1.5">
+                  <div className="flex items-center gap-1.5">
+                    {result.passed ? (
+                      <CheckCircle2 className="h-3.5 w-3.5 text-emerald-500" aria-label="통과" />
+                    ) : (
+                      <XCircle className="h-3.5 w-3.5 text-rose-500" aria-label="실패" />
+                    )}
+                    <span className="font-semibold">{result.name}</span>
+                    <span className="text-slate-400">{result.tokens} tokens</span>
+                  </div>
+                  {result.error && <p className="mt-0.5 text-rose-700">{result.error}</p>}
+                  {result.assertions
+                    .filter((assertion) => !assertion.passed)
+                    .map((assertion, index) => (
+                      <p key={index} className="mt-0.5 text-rose-700">
+                        {ASSERTION_LABELS[assertion.type]}: {assertion.message}
+                      </p>
+                    ))}
+                  {result.output && (
+                    <details className="mt-1">
+                      <summary className="cursor-pointer text-slate-500">출력 보기</summary>
+                      <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap rounded bg-[#f8fafd] p-2 font-mono text-[11px]">
+                        {result.output}
+                      </pre>
+                    </details>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-2 text-slate-400">아직 실행한 적이 없습니다.</p>
+          )}
+        </div>
+      )}
+
+      {cases.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-[#dfe7f2] bg-[#fafcff] p-4 text-sm text-slate-500">
+          {isLoading ? '불러오는 중...' : '등록된 테스트 케이스가 없습니다.'}
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {cases.map((testCase) => (
+            <li key={testCase.id} className="rounded-xl border border-[#e8eef7] bg-white px-3 py-2 text-xs text-slate-700">
+              <div className="flex items-start gap-2">
+                <div className="min-w-0 flex-1">
+                  <p className="font-semibold text-slate-900">{testCase.name}</p>
+                  <p className="truncate font-mono text-[11px] text-slate-500">{JSON.stringify(testCase.variables)}</p>
+                  <ul className="mt-1 space-y-0.5">
+                    {testCase.assertions.map((assertion, index) => (
+                      <li key={index} className="truncate">
+                        <span className="font-semibold">{ASSERTION_LABELS[assertion.type]}</span>{' '}
+                        <span className="font-mono text-[11px]">{describeAssertion(assertion)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  {testCase.mockOutput !== null && <p className="mt-1 text-[11px] text-slate-400">고정 응답 있음</p>}
+                </div>
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(testCase)}
+                    disabled={deletingId !== null}
+                    className="inline-flex h-7 w-7 items-center justify-center rounded-md border border-[#dde6f2] text-slate-500 transition hover:text-rose-600 disabled:opacity-50"
+                    aria-label={`${testCase.name} 삭제`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && (
+        <div className="space-y-2 rounded-xl border border-[#e8eef7] bg-[#fbfdff] p-3">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="케이스 이름 (예: 환불 문의)"
+            className="h-9 w-full rounded-lg border border-[#dfe7f2] bg-white px-3 text-sm text-slate-900 outline-none focus:border-[#7da2ff]"
+          />
+          <textarea
+            value={variablesText}
+            onChange={(e) => setVariablesText(e.target.value)}
+            placeholder='변수 값 (JSON) 예: {"customer": "Kim"}'
+            spellCheck={false}
+            className="h-16 w-full resize-y rounded-lg border border-[#dfe7f2] bg-white p-3 font-mono text-[12px] text-slate-800 outline-none focus:border-[#7da2ff]"
+          />
+          {assertionDrafts.map((draft, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <select
+                value={draft.type}
+                onChange={(e) =>
+                  setAssertionDrafts((prev) =>
+                    prev.map((entry, i) => (i === index ? { ...entry, type: e.target.value as AssertionDraft['type'] } : entry)),
+                  )
+                }
+                className="h-9 rounded-lg border border-[#dfe7f2] bg-white px-2 text-xs text-slate-700 outline-none"
+              >
+                {(Object.keys(ASSERTION_LABELS) as AssertionDraft['type'][]).map((type) => (
+                  <option key={type} value={type}>
+                    {ASSERTION_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+              {draft.type === 'json-schema' ? (
+                <textarea
+                  value={draft.value}
+                  onChange={(e) =>
+                    setAssertionDrafts((prev) => prev.map((entry, i) => (i === index ? { ...entry, value: e.target.value } : entry)))
+                  }
+                  placeholder='{"type": "object", "required": ["answer"]}'
+                  spellCheck={false}
+                  className="h-20 flex-1 resize-y rounded-lg border border-[#dfe7f2] bg-white p-2 font-mono text-[12px] text-slate-800 outline-none focus:border-[#7da2ff]"
+                />
+              ) : (
+                <input
+                  value={draft.value}
+                  onChange={(e) =>
+                    setAssertionDrafts((prev) => prev.map((entry, i) => (i === index ? { ...entry, value: e.target.value } : entry)))
+                  }
+                  type={draft.type === 'max-tokens' ? 'number' : 'text'}
+                  placeholder={draft.type === 'regex' ? '^답변:' : draft.type === 'max-tokens' ? '500' : '기대 문구'}
+                  className="h-9 flex-1 rounded-lg border border-[#dfe7f2] bg-white px-3 text-sm text-slate-900 outline-none focus:border-[#7da2ff]"
+                />
+              )}
+              <button
+                type="button"
+                onClick={() => setAssertionDrafts((prev) => prev.filter((_, i) => i !== index))}
+                disabled={assertionDrafts.length === 1}
+                className="inline-flex h-9 w-9 items-center justify-center rounded-lg border border-[#dde6f2] text-slate-500 transition hover:text-rose-600 disabled:opacity-40"
+                aria-label="조건 삭제"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setAssertionDrafts((prev) => [...prev, { type: 'contains', value: '' }])}
+            className="text-xs font-semibold text-[#3f67ca]"
+          >
+            + 조건 추가
+          </button>
+          <textarea
+            value={mockOutput}
+            onChange={(e) => setMockOutput(e.target.value)}
+            placeholder="mock 어댑터의 고정 응답 (선택, 비우면 렌더링된 프롬프트를 그대로 돌려줌)"
+            spellCheck={false}
+            className="h-16 w-full resize-y rounded-lg border border-[#dfe7f2] bg-white p-3 font-mono text-[12px] text-slate-800 outline-none focus:border-[#7da2ff]"
+          />
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={!name.trim() || !assertionDrafts.some((draft) => draft.value.trim()) || isAdding}
+            className="inline-flex h-8 items-center gap-1.5 rounded-lg bg-[#4b74d9] px-3 text-xs font-semibold text-white transition hover:bg-[#3f67ca] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            {isAdding ? '추가 중...' : '케이스 추가'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,33 +1,77 @@
 'use client';
 
 import { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { GoogleAuthProvider, onAuthStateChanged, signInWithPopup, signOut, type User } from 'firebase/auth';
 import { httpsCallable } from 'firebase/functions';
 import {
+  Archive,
+  ArchiveRestore,
+  CalendarClock,
   CheckCircle2,
+  ClipboardCheck,
   Copy,
   FileText,
+  FlaskConical,
   FolderOpen,
+  GitCompare,
+  History,
+  Layers,
+  ListChecks,
+  Lock,
+  LogIn,
+  LogOut,
+  Network,
   PencilLine,
   Plus,
   Save,
   Search,
+  ShieldAlert,
+  Split,
+  Trash2,
   X,
 } from 'lucide-react';
-import { functions } from '../../lib/firebase';
-
-interface PromptVersion {
-  id: string;
-  version: number;
-  content: string;
-  isActive: boolean;
-  createdAt: string | null;
-}
+import { auth, functions } from '../../lib/firebase';
+import { checkJsonSchema, validateSamples } from '../../lib/json-schema';
+import { checkTemplate, type TemplateVariable } from '../../packages/prompt-client/src/template';
+import type {
+  PromptTypeSummary,
+  PromptVersion,
+  PromptVersionContent,
+  PromptVersionSummary,
+} from '../../packages/prompt-client/src/types';
+import { toVersionSummary } from '../../lib/version-summary';
+import { ActivationTimeline } from './activation-timeline';
+import { ActivityPanel } from './activity-panel';
+import { ApiKeysPanel } from './api-keys-panel';
+import { BundlePanel } from './bundle-panel';
+import { getContentKind } from './content-kinds';
+import { SearchPanel, type SearchHit } from './search-panel';
+import {
+  DependencyGraph,
+  ImpactNotice,
+  IncludeIssues,
+  createIncludeLookup,
+  type PromptDependencies,
+} from './dependency-graph';
+import { EnvironmentBadge, EnvironmentsPanel, type EnvironmentPointer } from './environments-panel';
+import { EvalBadge, EvalPanel, isEvalRunCurrent, type PromptEvaluations } from './eval-panel';
+import { MergeConflictPanel, type MergeConflict } from './merge-conflict';
+import { ReviewBadge, ReviewThread, type VersionReview } from './review-thread';
+import { SchedulePanel } from './schedule-panel';
+import { IssueList, MAX_VERSION_COLUMNS, SchemaSamplesPanel, type SchemaSample } from './schema-samples';
+import { RenderPreview, TemplateIssues, VariablesEditor, createVariable } from './template-variables';
+import { ValidationRulesPanel, ViolationList, getRuleViolations, type RuleViolation } from './validation-rules';
+import { TrafficBadge, TrafficPanel, type TrafficSplit } from './traffic-panel';
+import { PromptTypeForm, type PromptTypeDetails, type PromptTypeFormValues } from './type-form';
+import { VersionDiff, type DiffSource } from './version-diff';
+
+type PromptRole = 'viewer' | 'editor' | 'publisher' | 'admin';
+
+const PROMPT_ROLES: PromptRole[] = ['viewer', 'editor', 'publisher', 'admin'];
 
-interface PromptType {
-  id: string;
-  title: string;
-  description: string;
-  versions: PromptVersion[];
+interface PromptAccess {
+  email: string;
+  role: PromptRole;
 }
 
 interface EditorTarget {
@@ -36,28 +80,226 @@ interface EditorTarget {
   promptVersionId: string;
   promptVersionNumber: number;
   originalContent: string;
+  originalVariables: TemplateVariable[];
+  originalRevision: number;
+  isFrozen: boolean;
 }
 
 const updatePrompt = httpsCallable(functions, 'updatePromptVersion');
 const createPromptVersion = httpsCallable(functions, 'createPromptVersion');
 const setActivePromptVersion = httpsCallable(functions, 'setActivePromptVersion');
 const getPromptDashboardData = httpsCallable(functions, 'getPromptDashboardData');
+const getPromptVersionContents = httpsCallable(functions, 'getPromptVersionContents');
+const getPromptVersionReviews = httpsCallable(functions, 'getPromptVersionReviews');
+const getPromptDependencies = httpsCallable(functions, 'getPromptDependencies');
+const getSchemaSamples = httpsCallable(functions, 'getSchemaSamples');
+const getPromptEvaluations = httpsCallable(functions, 'getPromptEvaluations');
+const getPromptTrafficSplit = httpsCallable(functions, 'getPromptTrafficSplit');
+const getPromptEnvironments = httpsCallable(functions, 'getPromptEnvironments');
+const validatePromptContent = httpsCallable(functions, 'validatePromptContent');
+const createPromptType = httpsCallable(functions, 'createPromptType');
+const updatePromptType = httpsCallable(functions, 'updatePromptType');
+const archivePromptType = httpsCallable(functions, 'archivePromptType');
+const deletePromptType = httpsCallable(functions, 'deletePromptType');
+
+const EDITOR_BUFFER_SOURCE_ID = '__editor_buffer__';
+
+// functions/src/dashboard.ts의 MAX_CONTENT_BATCH와 같다.
+const CONTENT_BATCH_SIZE = 50;
+
+// 목록을 다시 받은 사이 다른 곳에서 저장됐다면 받아 둔 내용이 요약보다 오래됐을 수 있다.
+function getLoadedContent(version: PromptVersionSummary, contents: Record<string, PromptVersionContent>) {
+  const loaded = contents[version.id];
+  return loaded && loaded.revision >= version.revision ? loaded : null;
+}
+
+function toDiffSources(
+  versions: PromptVersionSummary[],
+  contents: Record<string, PromptVersionContent>,
+): DiffSource[] {
+  return versions.map((version) => ({
+    id: version.id,
+    label: `v${version.version}${version.isActive ? ' (ACTIVE)' : ''}`,
+    content: getLoadedContent(version, contents)?.content ?? null,
+  }));
+}
+
+function hasRole(access: PromptAccess | null, minimum: PromptRole) {
+  if (!access) return false;
+  return PROMPT_ROLES.indexOf(access.role) >= PROMPT_ROLES.indexOf(minimum);
+}
+
+function getConsumerNames(details: unknown) {
+  const consumers = (details as { consumers?: Array<{ promptTypeName: string }> }).consumers ?? [];
+  return consumers.map((consumer) => consumer.promptTypeName).join(', ');
+}
 
 function getCallableErrorMessage(err: unknown, fallback: string) {
   if (!err || typeof err !== 'object') return fallback;
-  const e = err as { code?: string; message?: string };
+  const e = err as { code?: string; message?: string; details?: { reason?: string; required?: string } };
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'version-frozen') {
+    return '게시된 적이 있는 버전은 수정할 수 없습니다. 새 버전으로 저장해 주세요.';
+  }
+  if (e.code === 'functions/not-found' && e.details?.reason === 'type-not-found') {
+    return '이미 삭제된 타입입니다. 페이지를 새로고침해 주세요.';
+  }
+  if (e.code === 'functions/invalid-argument' && e.details?.reason === 'invalid-type-name') {
+    return '타입 이름은 1~100자이며 {, }, @, 줄바꿈을 쓸 수 없고 숫자만으로 지을 수 없습니다.';
+  }
+  if (e.code === 'functions/invalid-argument' && e.details?.reason === 'invalid-type-description') {
+    return '설명은 1000자 이내로 입력해 주세요.';
+  }
+  if (e.code === 'functions/already-exists' && e.details?.reason === 'type-name-taken') {
+    return '같은 이름의 타입이 이미 있습니다.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'type-archived') {
+    return '보관된 타입은 ACTIVE 지정, 환경 배포, 트래픽 분할, 예약을 할 수 없습니다. 먼저 복원해 주세요.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'type-included-by-name') {
+    return `다른 타입의 게시 중인 버전이 이 타입을 이름으로 포함하고 있어 이름을 바꿀 수 없습니다. 먼저 id로 포함하도록 바꿔 주세요. (${getConsumerNames(e.details)})`;
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'type-has-active-version') {
+    return 'ACTIVE 버전이 있거나 dev/staging에 배포된 타입은 삭제할 수 없습니다. 먼저 보관해 주세요.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'type-has-consumers') {
+    return `다른 타입의 게시 중인 버전이 이 타입을 포함하고 있어 삭제할 수 없습니다. (${getConsumerNames(e.details)})`;
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'content-kind-mismatch') {
+    const versions = (e.details as { versions?: number[] }).versions ?? [];
+    return `기존 버전(${versions.map((version) => `v${version}`).join(', ')})이 새 내용 종류의 형식에 맞지 않아 바꿀 수 없습니다.`;
+  }
+  if (e.code === 'functions/invalid-argument' && e.details?.reason === 'invalid-bundle') {
+    return `번들 파일이 올바르지 않습니다. (${e.message})`;
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'bundle-conflicts') {
+    return '이미 있는 타입이나 버전과 충돌하는 항목이 있어 아무것도 가져오지 않았습니다. 미리보기에서 충돌 항목을 확인해 주세요.';
+  }
+  if (e.code === 'functions/not-found' && e.details?.reason === 'version-not-in-type') {
+    return '선택한 버전이 이 타입에 속하지 않습니다. 목록을 새로 고친 뒤 다시 시도해 주세요.';
+  }
+  // reason이 있는 not-found는 서버가 찾지 못한 대상(예약, 테스트 케이스, API 키 등)을 메시지로 알려 준다.
+  if (e.code === 'functions/not-found' && e.details?.reason) {
+    return e.message || fallback;
+  }
   if (e.code === 'functions/not-found') {
     return '신규 함수(createPromptVersion)가 배포되지 않았습니다. functions 재배포가 필요합니다.';
   }
+  if (e.code === 'functions/aborted' && e.details?.reason === 'revision-conflict') {
+    return '다른 사용자가 먼저 저장했습니다. 변경사항을 병합한 뒤 다시 저장해 주세요.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'no-rollback-target') {
+    return '롤백할 이전 ACTIVE 버전이 없습니다.';
+  }
+  if (e.code === 'functions/already-exists' && e.details?.reason === 'schedule-exists') {
+    return '이미 대기 중인 활성화 예약이 있습니다. 기존 예약을 취소한 뒤 다시 시도해 주세요.';
+  }
+  if (e.code === 'functions/invalid-argument' && e.details?.reason === 'schedule-in-past') {
+    return '예약 시각은 현재 이후여야 합니다.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'approval-required') {
+    return '리뷰 승인이 부족해 ACTIVE로 지정할 수 없습니다. 리뷰 요청 후 승인을 받아 주세요.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'review-already-submitted') {
+    return '이미 리뷰가 진행 중인 버전입니다.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'review-not-submitted') {
+    return '먼저 현재 내용으로 리뷰를 요청해야 합니다.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'self-review') {
+    return '직접 요청한 리뷰는 승인하거나 변경 요청할 수 없습니다.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'review-closed') {
+    return '게시된 버전은 리뷰를 진행할 수 없습니다.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'include-not-found') {
+    return `포함한 프롬프트를 찾을 수 없습니다. 대상 타입의 ACTIVE 버전이나 게시된 버전을 확인해 주세요. (${e.message})`;
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'include-cycle') {
+    return `포함 관계가 순환합니다. (${e.message})`;
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'include-too-deep') {
+    return '포함 단계가 너무 깊습니다. 포함 구조를 단순하게 정리해 주세요.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'schema-invalid') {
+    return `유효한 JSON Schema(2020-12)가 아니어서 저장하거나 ACTIVE로 지정할 수 없습니다. (${e.message})`;
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'schema-rejects-samples') {
+    return `등록된 샘플 출력을 거부하는 스키마입니다. 스키마를 고치거나 더 이상 맞지 않는 샘플을 삭제해 주세요. (${e.message})`;
+  }
+  if (e.code === 'functions/invalid-argument' && e.details?.reason === 'invalid-sample') {
+    return `샘플이 올바르지 않습니다. (${e.message})`;
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'eval-required') {
+    return '현재 내용으로 모든 테스트 케이스를 실행한 결과가 있어야 ACTIVE로 지정할 수 있습니다.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'eval-failed') {
+    return `실패한 테스트 케이스가 있어 ACTIVE로 지정할 수 없습니다. (${e.message})`;
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'no-eval-cases') {
+    return '등록된 테스트 케이스가 없습니다. 먼저 케이스를 추가해 주세요.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'too-many-eval-cases') {
+    return '테스트 케이스는 타입당 최대 100개까지 등록할 수 있습니다.';
+  }
+  if (e.code === 'functions/invalid-argument' && e.details?.reason === 'invalid-eval-case') {
+    return `테스트 케이스가 올바르지 않습니다. (${e.message})`;
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'adapter-unavailable') {
+    return 'http 어댑터가 설정되지 않았습니다. functions의 EVAL_MODEL_ENDPOINT를 설정해 주세요.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'validation-failed') {
+    const count = (e.details as { violations?: unknown[] }).violations?.length ?? 0;
+    return `검증 규칙 위반 ${count}건이 있어 저장하거나 ACTIVE로 지정할 수 없습니다. 편집기에서 위반 항목을 확인해 주세요.`;
+  }
+  if (e.code === 'functions/invalid-argument' && e.details?.reason === 'invalid-rules') {
+    return `검증 규칙이 올바르지 않습니다. (${e.message})`;
+  }
+  if (e.code === 'functions/invalid-argument' && e.details?.reason === 'invalid-variables') {
+    return `변수 선언이 올바르지 않습니다. (${e.message})`;
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'environment-empty') {
+    return '승격할 환경에 배포된 버전이 없습니다.';
+  }
+  if (e.code === 'functions/invalid-argument' && e.details?.reason === 'invalid-environment') {
+    return `알 수 없는 환경입니다. (${e.message})`;
+  }
+  if (e.code === 'functions/invalid-argument' && e.details?.reason === 'invalid-query') {
+    return '검색어는 200자 이내의 단어나 "큰따옴표로 묶은 구문"으로 입력해 주세요.';
+  }
+  if (e.code === 'functions/invalid-argument' && e.details?.reason === 'invalid-split') {
+    return `트래픽 분할이 올바르지 않습니다. (${e.message})`;
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'no-active-version') {
+    return 'ACTIVE 버전이 있어야 트래픽을 나눌 수 있습니다.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'api-key-not-active') {
+    return '이미 폐기되었거나 존재하지 않는 API 키입니다.';
+  }
+  if (e.code === 'functions/failed-precondition' && e.details?.reason === 'schedule-not-pending') {
+    return '이미 적용되었거나 취소된 예약입니다.';
+  }
+  if (e.code === 'functions/unauthenticated') {
+    return '로그인이 필요합니다. 다시 로그인해 주세요.';
+  }
+  if (e.code === 'functions/permission-denied') {
+    if (e.details?.reason === 'no-role') return '이 계정에는 권한이 부여되지 않았습니다. 관리자에게 요청해 주세요.';
+    if (e.details?.reason === 'unverified-email') return '이메일 인증이 완료된 계정만 사용할 수 있습니다.';
+    if (e.details?.reason === 'insufficient-role') {
+      return `권한이 부족합니다. ${e.details.required ?? ''} 이상의 권한이 필요합니다.`;
+    }
+    return '권한이 없습니다.';
+  }
   return e.message || fallback;
 }
 
-export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes: PromptType[] }) {
-  const [promptTypes, setPromptTypes] = useState<PromptType[]>(initialPromptTypes);
-  const [selectedTypeId, setSelectedTypeId] = useState<string | null>(initialPromptTypes[0]?.id ?? null);
-  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(
-    initialPromptTypes[0]?.versions[0]?.id ?? null,
-  );
+// 정적 빌드에는 프롬프트를 싣지 않는다. 로그인해 역할이 확인된 뒤 getPromptDashboardData로 받아 온다.
+export function PromptManager() {
+  const [promptTypes, setPromptTypes] = useState<PromptTypeSummary[]>([]);
+  // 목록에는 요약만 있고, 버전 내용은 선택하거나 열 때 받아 와 id별로 둔다.
+  const [versionContents, setVersionContents] = useState<Record<string, PromptVersionContent>>({});
+  const pendingContentsRef = useRef(new Map<string, Promise<PromptVersionContent | null>>());
+  const [selectedTypeId, setSelectedTypeId] = useState<string | null>(null);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
   const [isCreatingVersion, setIsCreatingVersion] = useState(false);
   const [isSettingActive, setIsSettingActive] = useState(false);
   const [isSavingModal, setIsSavingModal] = useState(false);
@@ -66,19 +308,62 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
   const [versionSearchQuery, setVersionSearchQuery] = useState('');
   const [versionSort, setVersionSort] = useState<'active' | 'latest' | 'oldest'>('active');
   const [copied, setCopied] = useState(false);
+  const [workspaceView, setWorkspaceView] = useState<'versions' | 'search' | 'activity' | 'bundles' | 'api-keys'>('versions');
+  const [versionPanel, setVersionPanel] = useState<
+    'none' | 'diff' | 'history' | 'schedule' | 'dependencies' | 'samples' | 'rules' | 'evals' | 'traffic' | 'environments'
+  >('none');
+  const [isEditorDiffOpen, setIsEditorDiffOpen] = useState(false);
+  // 구조화된 편집기가 있는 종류(대화 등)에서 원문 textarea로 전환했는지
+  const [isRawEditor, setIsRawEditor] = useState(false);
+  const [mergeConflict, setMergeConflict] = useState<MergeConflict | null>(null);
+  const [reviewsByVersion, setReviewsByVersion] = useState<Record<string, VersionReview>>({});
+  const [requiredApprovals, setRequiredApprovals] = useState(0);
+  const [dependencies, setDependencies] = useState<PromptDependencies | null>(null);
+  const [isLoadingDependencies, setIsLoadingDependencies] = useState(false);
+  const [schemaSamples, setSchemaSamples] = useState<SchemaSample[]>([]);
+  const [isLoadingSamples, setIsLoadingSamples] = useState(false);
+  const [evaluations, setEvaluations] = useState<PromptEvaluations | null>(null);
+  const [isLoadingEvaluations, setIsLoadingEvaluations] = useState(false);
+  const [trafficSplit, setTrafficSplit] = useState<TrafficSplit | null>(null);
+  const [isLoadingTrafficSplit, setIsLoadingTrafficSplit] = useState(false);
+  const [environments, setEnvironments] = useState<EnvironmentPointer[]>([]);
+  const [isLoadingEnvironments, setIsLoadingEnvironments] = useState(false);
   const [isEditorOpen, setIsEditorOpen] = useState(false);
+  // 서버 검증 규칙 위반 목록. null이면 아직 검사하지 않은 상태다.
+  const [ruleViolations, setRuleViolations] = useState<RuleViolation[] | null>(null);
+  const [isCheckingRules, setIsCheckingRules] = useState(false);
   const [editorTarget, setEditorTarget] = useState<EditorTarget | null>(null);
   const [modalContent, setModalContent] = useState('');
+  const [modalVariables, setModalVariables] = useState<TemplateVariable[]>([]);
+  const [editorSidePanel, setEditorSidePanel] = useState<'read' | 'render' | 'variables'>('read');
+  const [user, setUser] = useState<User | null>(null);
+  const [isAuthReady, setIsAuthReady] = useState(false);
+  const [access, setAccess] = useState<PromptAccess | null>(null);
+  const [accessError, setAccessError] = useState<string | null>(null);
   const editorDialogRef = useRef<HTMLDialogElement | null>(null);
+  const editorTextareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const [pendingEditorLine, setPendingEditorLine] = useState<number | null>(null);
+  const [showArchivedTypes, setShowArchivedTypes] = useState(false);
+  const [typeFormMode, setTypeFormMode] = useState<'create' | 'edit' | null>(null);
+  const [isSavingType, setIsSavingType] = useState(false);
+  const [typeFormError, setTypeFormError] = useState<string | null>(null);
   const deferredSearchQuery = useDeferredValue(searchQuery);
+  const canEdit = hasRole(access, 'editor');
+  const canPublish = hasRole(access, 'publisher');
+  const isAdmin = hasRole(access, 'admin');
 
   useEffect(() => {
-    setPromptTypes(initialPromptTypes);
-    if (!selectedTypeId && initialPromptTypes[0]) {
-      setSelectedTypeId(initialPromptTypes[0].id);
-      setSelectedVersionId(initialPromptTypes[0].versions[0]?.id ?? null);
-    }
-  }, [initialPromptTypes]);
+    return onAuthStateChanged(auth, (nextUser) => {
+      setUser(nextUser);
+      setIsAuthReady(true);
+      if (!nextUser) {
+        setAccess(null);
+        setAccessError(null);
+        setPromptTypes([]);
+        setVersionContents({});
+      }
+    });
+  }, []);
 
   useEffect(() => {
     if (!copied) return;
@@ -108,45 +393,301 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
 
   const syncPromptTypesFromServer = async () => {
     try {
-      const result = await getPromptDashboardData({});
-      const data = result.data as { promptTypes?: PromptType[] };
-      if (!Array.isArray(data.promptTypes)) return;
-      setPromptTypes(data.promptTypes);
+      const nextPromptTypes: PromptTypeSummary[] = [];
+      let afterId: number | null = null;
+      do {
+        const result = await getPromptDashboardData({ afterId });
+        const data = result.data as {
+          promptTypes?: PromptTypeSummary[];
+          nextAfterId?: number | null;
+          access?: PromptAccess;
+        };
+        setAccess(data.access ?? null);
+        setAccessError(null);
+        if (!Array.isArray(data.promptTypes)) return;
+        nextPromptTypes.push(...data.promptTypes);
+        afterId = data.nextAfterId ?? null;
+      } while (afterId !== null);
+      setPromptTypes(nextPromptTypes);
     } catch (err) {
       console.error('Error syncing prompts from server:', err);
+      const code = (err as { code?: string } | null)?.code;
+      if (code === 'functions/permission-denied' || code === 'functions/unauthenticated') {
+        setAccess(null);
+        setAccessError(getCallableErrorMessage(err, '권한이 없습니다.'));
+      }
     }
   };
 
   useEffect(() => {
+    if (!user) return;
     void syncPromptTypesFromServer();
-  }, []);
+  }, [user]);
+
+  // 받아 둔 내용과 이미 요청 중인 내용은 다시 요청하지 않는다. 찾은 버전의 내용을 id별로 돌려준다.
+  const fetchVersionContents = async (versions: PromptVersionSummary[]) => {
+    const pending = pendingContentsRef.current;
+    const toRequest = versions.filter(
+      (version) => !getLoadedContent(version, versionContents) && !pending.has(version.id),
+    );
+    for (let start = 0; start < toRequest.length; start += CONTENT_BATCH_SIZE) {
+      const ids = toRequest.slice(start, start + CONTENT_BATCH_SIZE).map((version) => version.id);
+      const request = getPromptVersionContents({ promptVersionIds: ids })
+        .then((result) => {
+          const loaded = (result.data as { versions?: PromptVersionContent[] }).versions ?? [];
+          setVersionContents((prev) => ({ ...prev, ...Object.fromEntries(loaded.map((entry) => [entry.id, entry])) }));
+          return loaded;
+        })
+        .catch((err) => {
+          console.error('Error loading prompt version contents:', err);
+          return [] as PromptVersionContent[];
+        })
+        .finally(() => {
+          for (const id of ids) pending.delete(id);
+        });
+      for (const id of ids) {
+        pending.set(id, request.then((loaded) => loaded.find((entry) => entry.id === id) ?? null));
+      }
+    }
+
+    const entries = await Promise.all(
+      versions.map(async (version) => {
+        const loaded = getLoadedContent(version, versionContents) ?? (await pending.get(version.id)) ?? null;
+        return [version.id, loaded] as const;
+      }),
+    );
+    return new Map(entries.flatMap(([id, loaded]) => (loaded ? [[id, loaded] as const] : [])));
+  };
+
+  const fetchVersionContentsById = (ids: string[]) => {
+    const wanted = new Set(ids);
+    return fetchVersionContents(
+      promptTypes.flatMap((type) => type.versions).filter((version) => wanted.has(version.id)),
+    );
+  };
+
+  const loadReviews = async (promptTypeId: string) => {
+    try {
+      const result = await getPromptVersionReviews({ promptTypeId });
+      const data = result.data as { requiredApprovals?: number; reviews?: VersionReview[] };
+      setRequiredApprovals(data.requiredApprovals ?? 0);
+      setReviewsByVersion(Object.fromEntries((data.reviews ?? []).map((review) => [review.promptVersionId, review])));
+    } catch (err) {
+      console.error('Error loading reviews:', err);
+    }
+  };
+
+  const loadDependencies = async (promptTypeId: string) => {
+    setIsLoadingDependencies(true);
+    try {
+      const result = await getPromptDependencies({ promptTypeId });
+      const data = result.data as Partial<PromptDependencies>;
+      setDependencies({
+        includes: data.includes ?? [],
+        includedBy: data.includedBy ?? [],
+        affected: data.affected ?? [],
+      });
+    } catch (err) {
+      console.error('Error loading prompt dependencies:', err);
+      setDependencies(null);
+    } finally {
+      setIsLoadingDependencies(false);
+    }
+  };
+
+  const loadSchemaSamples = async (promptTypeId: string) => {
+    setIsLoadingSamples(true);
+    try {
+      const result = await getSchemaSamples({ promptTypeId });
+      const data = result.data as { samples?: SchemaSample[] };
+      setSchemaSamples(data.samples ?? []);
+    } catch (err) {
+      console.error('Error loading schema samples:', err);
+    } finally {
+      setIsLoadingSamples(false);
+    }
+  };
+
+  const loadEvaluations = async (promptTypeId: string) => {
+    setIsLoadingEvaluations(true);
+    try {
+      const result = await getPromptEvaluations({ promptTypeId });
+      const data = result.data as Partial<PromptEvaluations>;
+      setEvaluations({ cases: data.cases ?? [], runs: data.runs ?? [], requirePass: Boolean(data.requirePass) });
+    } catch (err) {
+      console.error('Error loading evaluations:', err);
+      setEvaluations(null);
+    } finally {
+      setIsLoadingEvaluations(false);
+    }
+  };
+
+  const loadTrafficSplit = async (promptTypeId: string) => {
+    setIsLoadingTrafficSplit(true);
+    try {
+      const result = await getPromptTrafficSplit({ promptTypeId });
+      const data = result.data as Partial<TrafficSplit>;
+      setTrafficSplit({ arms: data.arms ?? [], updatedBy: data.updatedBy ?? null, updatedAt: data.updatedAt ?? null });
+    } catch (err) {
+      console.error('Error loading traffic split:', err);
+      setTrafficSplit(null);
+    } finally {
+      setIsLoadingTrafficSplit(false);
+    }
+  };
+
+  const loadEnvironments = async (promptTypeId: string) => {
+    setIsLoadingEnvironments(true);
+    try {
+      const result = await getPromptEnvironments({ promptTypeId });
+      const data = result.data as { environments?: EnvironmentPointer[] };
+      setEnvironments(data.environments ?? []);
+    } catch (err) {
+      console.error('Error loading environments:', err);
+      setEnvironments([]);
+    } finally {
+      setIsLoadingEnvironments(false);
+    }
+  };
+
+  const handleSignIn = async () => {
+    setAccessError(null);
+    try {
+      await signInWithPopup(auth, new GoogleAuthProvider());
+    } catch (err) {
+      console.error('Error signing in:', err);
+      setAccessError('로그인에 실패했습니다. 잠시 후 다시 시도해 주세요.');
+    }
+  };
+
+  const handleSignOut = async () => {
+    if (!confirmDiscardEditorChanges()) return;
+    setIsEditorOpen(false);
+    setEditorTarget(null);
+    await signOut(auth);
+  };
 
   const filteredPromptTypes = useMemo(() => {
     const q = deferredSearchQuery.trim().toLowerCase();
-    if (!q) return promptTypes;
+    const visibleTypes = showArchivedTypes ? promptTypes : promptTypes.filter((type) => !type.archivedAt);
+    if (!q) return visibleTypes;
 
-    return promptTypes.filter((type) => {
-      if (
+    return visibleTypes.filter((type) => {
+      // 버전 내용은 '내용 검색' 화면에서 서버 색인으로 찾는다.
+      return (
         type.title.toLowerCase().includes(q) ||
         type.description.toLowerCase().includes(q) ||
         type.id.toLowerCase().includes(q)
-      ) {
-        return true;
-      }
-      return type.versions.some((version) => version.content.toLowerCase().includes(q));
+      );
     });
-  }, [deferredSearchQuery, promptTypes]);
+  }, [deferredSearchQuery, promptTypes, showArchivedTypes]);
 
   const selectedType = useMemo(
     () => promptTypes.find((type) => type.id === selectedTypeId) ?? null,
     [promptTypes, selectedTypeId],
   );
 
+  // 보관된 타입은 서버가 새 배포를 거부하므로 배포 버튼을 미리 막는다. 트래픽 분할 해제는 그대로 둔다.
+  const isSelectedTypeArchived = Boolean(selectedType?.archivedAt);
+
   const selectedVersion = useMemo(
     () => selectedType?.versions.find((version) => version.id === selectedVersionId) ?? selectedType?.versions[0] ?? null,
     [selectedType, selectedVersionId],
   );
 
+  useEffect(() => {
+    if (!access || !selectedVersion) return;
+    void fetchVersionContents([selectedVersion]);
+  }, [access, selectedVersion?.id, selectedVersion?.revision]);
+
+  const needsApproval = Boolean(
+    selectedVersion &&
+      !selectedVersion.publishedAt &&
+      requiredApprovals > 0 &&
+      reviewsByVersion[selectedVersion.id]?.state !== 'approved',
+  );
+
+  useEffect(() => {
+    if (!access || !selectedType) return;
+    void loadReviews(selectedType.id);
+  }, [access, selectedType]);
+
+  useEffect(() => {
+    if (!access || !selectedTypeId) return;
+    setDependencies(null);
+    void loadDependencies(selectedTypeId);
+  }, [access, selectedTypeId]);
+
+  useEffect(() => {
+    if (!access || !selectedTypeId) return;
+    setEvaluations(null);
+    void loadEvaluations(selectedTypeId);
+  }, [access, selectedTypeId]);
+
+  useEffect(() => {
+    if (!access || !selectedTypeId) return;
+    setTrafficSplit(null);
+    void loadTrafficSplit(selectedTypeId);
+  }, [access, selectedTypeId]);
+
+  useEffect(() => {
+    if (!access || !selectedTypeId) return;
+    setEnvironments([]);
+    void loadEnvironments(selectedTypeId);
+  }, [access, selectedTypeId]);
+
+  // production은 ACTIVE 배지로 이미 보이므로 dev/staging만 버전 목록에 표시한다.
+  const environmentsByVersion = useMemo(() => {
+    const map: Record<string, EnvironmentPointer['environment'][]> = {};
+    for (const pointer of environments) {
+      if (!pointer.promptVersionId || pointer.environment === 'production') continue;
+      (map[pointer.promptVersionId] ??= []).push(pointer.environment);
+    }
+    return map;
+  }, [environments]);
+
+  const trafficWeightsByVersion = useMemo(
+    () => Object.fromEntries((trafficSplit?.arms ?? []).map((arm) => [arm.promptVersionId, arm.weight])),
+    [trafficSplit],
+  );
+
+  const evalRunsByVersion = useMemo(
+    () => Object.fromEntries((evaluations?.runs ?? []).map((run) => [run.promptVersionId, run])),
+    [evaluations],
+  );
+  const selectedEvalRun = selectedVersion ? evalRunsByVersion[selectedVersion.id] : undefined;
+  const needsEvalPass = Boolean(
+    selectedVersion &&
+      !selectedVersion.publishedAt &&
+      evaluations?.requirePass &&
+      !(selectedEvalRun?.passed && isEvalRunCurrent(selectedEvalRun, selectedVersion, evaluations.cases)),
+  );
+
+  const selectedKind = getContentKind(selectedType?.contentKind);
+  const hasSchemaSamples = selectedKind.schemaSamples;
+
+  // 샘플 패널은 최신 버전 몇 개와 선택한 버전의 스키마를 비교한다.
+  useEffect(() => {
+    if (!access || !selectedType || versionPanel !== 'samples') return;
+    const columns = [...selectedType.versions].sort((a, b) => b.version - a.version).slice(0, MAX_VERSION_COLUMNS);
+    void fetchVersionContents(selectedVersion ? [...columns, selectedVersion] : columns);
+  }, [access, selectedType, selectedVersion, versionPanel]);
+
+  const loadedSelectedTypeVersions = useMemo<PromptVersion[]>(
+    () =>
+      (selectedType?.versions ?? []).flatMap((version) => {
+        const loaded = getLoadedContent(version, versionContents);
+        return loaded ? [{ ...version, ...loaded }] : [];
+      }),
+    [selectedType, versionContents],
+  );
+
+  useEffect(() => {
+    setSchemaSamples([]);
+    if (!access || !selectedTypeId || !hasSchemaSamples) return;
+    void loadSchemaSamples(selectedTypeId);
+  }, [access, selectedTypeId, hasSchemaSamples]);
+
   const filteredVersions = useMemo(() => {
     if (!selectedType) return [];
     const q = versionSearchQuery.trim().toLowerCase();
@@ -155,7 +696,7 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
       : selectedType.versions.filter((version) => {
       return (
         String(version.version).includes(q) ||
-        version.content.toLowerCase().includes(q) ||
+        version.preview.toLowerCase().includes(q) ||
         (version.isActive && 'active'.includes(q))
       );
     });
@@ -173,32 +714,63 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
   }, [selectedType, versionSearchQuery, versionSort]);
 
   const isModalDirty =
-    isEditorOpen && editorTarget ? modalContent !== editorTarget.originalContent : false;
-  const editorTitleUpper = editorTarget?.promptTypeTitle.toUpperCase() ?? '';
-  const isSchemaEditor = editorTitleUpper.includes('SCHEMA');
-  const isSystemPromptEditor = editorTitleUpper.includes('SYSTEM_PROMPT');
-
-  const jsonValidation = useMemo(() => {
-    if (!isSchemaEditor) return null;
-    const raw = modalContent.trim();
-    if (!raw) {
-      return { valid: false, message: '빈 JSON', pretty: null as string | null };
-    }
-    try {
-      const parsed = JSON.parse(raw);
-      return {
-        valid: true,
-        message: '유효한 JSON',
-        pretty: JSON.stringify(parsed, null, 2),
-      };
-    } catch (err) {
-      return {
-        valid: false,
-        message: err instanceof Error ? err.message : 'JSON 파싱 실패',
-        pretty: null,
-      };
+    isEditorOpen && editorTarget
+      ? modalContent !== editorTarget.originalContent ||
+        JSON.stringify(modalVariables) !== JSON.stringify(editorTarget.originalVariables)
+      : false;
+  const editorType = useMemo(
+    () => (editorTarget ? (promptTypes.find((type) => type.id === editorTarget.promptTypeId) ?? null) : null),
+    [editorTarget, promptTypes],
+  );
+  // 편집기 모드, 구문 검사, 미리보기는 모두 타입의 내용 종류로 정한다.
+  const editorKind = getContentKind(editorType?.contentKind);
+  const templateCheck = useMemo(() => checkTemplate(modalContent, modalVariables), [modalContent, modalVariables]);
+  // Render Preview는 서버와 같은 규칙으로 {{> TYPE}}을 펼친 결과를 보여준다.
+  // 포함한 버전의 내용을 아직 받지 않았으면 받아 온 뒤 다시 조합한다.
+  const { composedDraft, missingIncludeIds } = useMemo(() => {
+    const missing = new Set<string>();
+    const composed = editorKind.compose(
+      {
+        promptTypeId: editorTarget?.promptTypeId ?? '',
+        promptTypeName: editorTarget?.promptTypeTitle ?? '',
+        content: modalContent,
+        variables: modalVariables,
+      },
+      createIncludeLookup(promptTypes, versionContents, missing),
+    );
+    return { composedDraft: composed, missingIncludeIds: [...missing] };
+  }, [editorKind, editorTarget, modalContent, modalVariables, promptTypes, versionContents]);
+
+  useEffect(() => {
+    if (!isEditorOpen || !missingIncludeIds.length) return;
+    void fetchVersionContentsById(missingIncludeIds);
+  }, [isEditorOpen, missingIncludeIds.join(',')]);
+
+  const editorDiffSources = useMemo<DiffSource[]>(() => {
+    if (!editorTarget) return [];
+    return [
+      { id: EDITOR_BUFFER_SOURCE_ID, label: '편집 중인 내용', content: modalContent },
+      ...toDiffSources(editorType?.versions ?? [], versionContents),
+    ];
+  }, [editorTarget, editorType, modalContent, versionContents]);
+
+  const editorSyntax = useMemo(
+    () => editorKind.checkSyntax?.(modalContent) ?? null,
+    [editorKind, modalContent],
+  );
+  const editorSchemaCheck = useMemo(
+    () => (editorKind.schemaSamples && editorSyntax?.valid ? checkJsonSchema(modalContent.trim()) : null),
+    [editorKind, editorSyntax, modalContent],
+  );
+
+  // 샘플은 선택된 타입 기준으로만 불러오므로 같은 타입을 편집할 때만 검증한다.
+  const editorSampleResults = useMemo(() => {
+    if (!editorSchemaCheck || editorTarget?.promptTypeId !== selectedTypeId || !schemaSamples.length) {
+      return null;
     }
-  }, [isSchemaEditor, modalContent]);
+    return validateSamples(editorSchemaCheck, schemaSamples);
+  }, [editorTarget, editorSchemaCheck, schemaSamples, selectedTypeId]);
+  const editorSampleFailures = (editorSampleResults ?? []).filter((result) => result.errors.length > 0);
 
   useEffect(() => {
     if (!selectedType && filteredPromptTypes.length > 0) {
@@ -225,13 +797,24 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
 
   const openEditor = () => {
     if (!selectedType || !selectedVersion) return;
-    openEditorForVersion(selectedVersion, selectedType);
+    void openEditorForVersion(selectedVersion, selectedType);
   };
 
-  const openEditorForVersion = (version: PromptVersion, typeOverride?: PromptType) => {
-    if (!confirmDiscardEditorChanges()) return;
+  const openEditorForVersion = async (version: PromptVersionSummary, typeOverride?: PromptTypeSummary) => {
+    if (!confirmDiscardEditorChanges()) return false;
     const targetType = typeOverride ?? selectedType;
-    if (!targetType) return;
+    if (!targetType) return false;
+    const loaded = (await fetchVersionContents([version])).get(version.id);
+    if (!loaded) {
+      setError('버전 내용을 불러오지 못했습니다. 잠시 후 다시 시도해 주세요.');
+      return false;
+    }
+    openEditorWithContent({ ...version, ...loaded }, targetType);
+    return true;
+  };
+
+  const openEditorWithContent = (version: PromptVersion, targetType: PromptTypeSummary) => {
+    setSelectedTypeId(targetType.id);
     setSelectedVersionId(version.id);
     setEditorTarget({
       promptTypeId: targetType.id,
@@ -239,9 +822,17 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
       promptVersionId: version.id,
       promptVersionNumber: version.version,
       originalContent: version.content,
+      originalVariables: version.variables ?? [],
+      originalRevision: version.revision,
+      isFrozen: Boolean(version.publishedAt),
     });
     setModalContent(version.content);
+    setModalVariables(version.variables ?? []);
     setError(null);
+    setIsEditorDiffOpen(false);
+    setIsRawEditor(false);
+    setMergeConflict(null);
+    setRuleViolations(null);
     setIsEditorOpen(true);
   };
 
@@ -249,20 +840,123 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
     if (!confirmDiscardEditorChanges()) return;
     setIsEditorOpen(false);
     setEditorTarget(null);
+    setMergeConflict(null);
+    setRuleViolations(null);
     setError(null);
   };
 
-  const handleSelectType = (type: PromptType) => {
+  const handleSelectType = (type: PromptTypeSummary) => {
     if (!confirmDiscardEditorChanges()) return;
     setSelectedTypeId(type.id);
     setSelectedVersionId(type.versions[0]?.id ?? null);
+    if (typeFormMode === 'edit') openTypeForm(null);
     setVersionSearchQuery('');
     setVersionSort('active');
+    setVersionPanel('none');
     setIsEditorOpen(false);
     setEditorTarget(null);
     setError(null);
   };
 
+  // 타입 생성/편집/보관 결과를 목록에 반영한다. 버전 목록은 그대로 둔다.
+  const applyPromptTypeDetails = (details: PromptTypeDetails) => {
+    setPromptTypes((prev) => {
+      const summary = {
+        id: details.id,
+        title: details.name,
+        description: details.description,
+        contentKind: details.contentKind,
+        archivedAt: details.archivedAt,
+      };
+      if (!prev.some((type) => type.id === details.id)) return [...prev, { ...summary, versions: [] }];
+      return prev.map((type) => (type.id === details.id ? { ...type, ...summary } : type));
+    });
+  };
+
+  const openTypeForm = (mode: 'create' | 'edit' | null) => {
+    setTypeFormMode(mode);
+    setTypeFormError(null);
+  };
+
+  const handleSubmitTypeForm = async (values: PromptTypeFormValues) => {
+    setIsSavingType(true);
+    setTypeFormError(null);
+    try {
+      if (typeFormMode === 'create') {
+        const result = await createPromptType(values);
+        const created = (result.data as { promptType: PromptTypeDetails }).promptType;
+        applyPromptTypeDetails(created);
+        setSelectedTypeId(created.id);
+        setSelectedVersionId(null);
+        setVersionPanel('none');
+      } else if (selectedType) {
+        const result = await updatePromptType({
+          promptTypeId: selectedType.id,
+          ...(values.name !== selectedType.title ? { name: values.name } : {}),
+          ...(values.description !== selectedType.description ? { description: values.description } : {}),
+          ...(values.contentKind !== selectedType.contentKind ? { contentKind: values.contentKind } : {}),
+        });
+        applyPromptTypeDetails((result.data as { promptType: PromptTypeDetails }).promptType);
+      }
+      setTypeFormMode(null);
+    } catch (err) {
+      console.error('Error saving prompt type:', err);
+      setTypeFormError(getCallableErrorMessage(err, '타입 저장에 실패했습니다. 잠시 후 다시 시도해 주세요.'));
+    } finally {
+      setIsSavingType(false);
+    }
+  };
+
+  const handleArchiveType = async (archived: boolean) => {
+    if (!selectedType) return;
+    if (
+      archived &&
+      !window.confirm(
+        `'${selectedType.title}' 타입을 보관할까요? 게시 중인 버전은 계속 서빙되지만 ACTIVE 지정과 배포가 막히고 대기 중인 예약은 취소됩니다.`,
+      )
+    ) {
+      return;
+    }
+    setIsSavingType(true);
+    setError(null);
+    try {
+      const result = await archivePromptType({ promptTypeId: selectedType.id, archived });
+      applyPromptTypeDetails((result.data as { promptType: PromptTypeDetails }).promptType);
+    } catch (err) {
+      console.error('Error archiving prompt type:', err);
+      setError(getCallableErrorMessage(err, '타입 보관 상태 변경에 실패했습니다. 잠시 후 다시 시도해 주세요.'));
+    } finally {
+      setIsSavingType(false);
+    }
+  };
+
+  const handleDeleteType = async () => {
+    if (!selectedType) return;
+    if (
+      !window.confirm(
+        `'${selectedType.title}' 타입과 버전 ${selectedType.versions.length}개를 영구 삭제할까요? 되돌릴 수 없습니다.`,
+      )
+    ) {
+      return;
+    }
+    setIsSavingType(true);
+    setError(null);
+    try {
+      await deletePromptType({ promptTypeId: selectedType.id });
+      const deletedId = selectedType.id;
+      setPromptTypes((prev) => prev.filter((type) => type.id !== deletedId));
+      setSelectedTypeId(null);
+      setSelectedVersionId(null);
+      setVersionPanel('none');
+      openTypeForm(null);
+    } catch (err) {
+      console.error('Error deleting prompt type:', err);
+      setError(getCallableErrorMessage(err, '타입 삭제에 실패했습니다. 잠시 후 다시 시도해 주세요.'));
+    } finally {
+      setIsSavingType(false);
+    }
+  };
+
   const handleSelectVersion = (versionId: string) => {
     if (!confirmDiscardEditorChanges()) return;
     setSelectedVersionId(versionId);
@@ -274,7 +968,12 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
   const handleCopy = async () => {
     if (!selectedVersion) return;
     try {
-      await navigator.clipboard.writeText(selectedVersion.content);
+      const loaded = (await fetchVersionContents([selectedVersion])).get(selectedVersion.id);
+      if (!loaded) {
+        setError('버전 내용을 불러오지 못했습니다. 잠시 후 다시 시도해 주세요.');
+        return;
+      }
+      await navigator.clipboard.writeText(loaded.content);
       setCopied(true);
     } catch (err) {
       console.error(err);
@@ -288,10 +987,14 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
     setError(null);
 
     try {
-      await updatePrompt({
+      const result = await updatePrompt({
         promptVersionId: editorTarget.promptVersionId,
         newContent: modalContent,
+        variables: modalVariables,
+        expectedRevision: editorTarget.originalRevision,
       });
+      const data = result.data as { revision?: number };
+      const revision = data.revision ?? editorTarget.originalRevision + 1;
 
       setPromptTypes((prev) =>
         prev.map((type) =>
@@ -301,17 +1004,53 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                 ...type,
                 versions: type.versions.map((version) =>
                   version.id === editorTarget.promptVersionId
-                    ? { ...version, content: modalContent }
+                    ? toVersionSummary({ ...version, content: modalContent, variables: modalVariables, revision })
                     : version,
                 ),
               },
         ),
       );
+      setVersionContents((prev) => ({
+        ...prev,
+        [editorTarget.promptVersionId]: {
+          id: editorTarget.promptVersionId,
+          revision,
+          content: modalContent,
+          variables: modalVariables,
+        },
+      }));
       setIsEditorOpen(false);
       setEditorTarget(null);
       void syncPromptTypesFromServer();
     } catch (err) {
       console.error('Error updating prompt version:', err);
+      const details = (
+        err as {
+          details?: {
+            reason?: string;
+            currentRevision?: number;
+            currentContent?: string;
+            lastEditedBy?: string | null;
+            lastEditedAt?: string | null;
+          };
+        } | null
+      )?.details;
+      setRuleViolations(getRuleViolations(err));
+      if (details?.reason === 'version-frozen') {
+        setEditorTarget((prev) => (prev ? { ...prev, isFrozen: true } : prev));
+        void syncPromptTypesFromServer();
+      }
+      if (details?.reason === 'revision-conflict') {
+        setMergeConflict({
+          base: editorTarget.originalContent,
+          theirs: details.currentContent ?? '',
+          mine: modalContent,
+          currentRevision: details.currentRevision ?? editorTarget.originalRevision,
+          lastEditedBy: details.lastEditedBy ?? null,
+          lastEditedAt: details.lastEditedAt ?? null,
+        });
+        setIsEditorDiffOpen(false);
+      }
       const message = getCallableErrorMessage(
         err,
         '저장에 실패했습니다. 잠시 후 다시 시도해 주세요.',
@@ -322,20 +1061,164 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
     }
   };
 
-  const handleFormatJson = () => {
-    if (!isSchemaEditor || !jsonValidation?.valid || !jsonValidation.pretty) return;
-    setModalContent(jsonValidation.pretty);
+  // Rebases the editor onto the version that won the race: the other
+  // person's text becomes the new base, so the next save is a normal one.
+  const handleResolveMergeConflict = (content: string) => {
+    if (!editorTarget || !mergeConflict) return;
+    setPromptTypes((prev) =>
+      prev.map((type) =>
+        type.id !== editorTarget.promptTypeId
+          ? type
+          : {
+              ...type,
+              versions: type.versions.map((version) =>
+                version.id === editorTarget.promptVersionId
+                  ? toVersionSummary({
+                      ...version,
+                      content: mergeConflict.theirs,
+                      variables: editorTarget.originalVariables,
+                      revision: mergeConflict.currentRevision,
+                    })
+                  : version,
+              ),
+            },
+      ),
+    );
+    setVersionContents((prev) => ({
+      ...prev,
+      [editorTarget.promptVersionId]: {
+        id: editorTarget.promptVersionId,
+        revision: mergeConflict.currentRevision,
+        content: mergeConflict.theirs,
+        variables: editorTarget.originalVariables,
+      },
+    }));
+    setEditorTarget({
+      ...editorTarget,
+      originalContent: mergeConflict.theirs,
+      originalRevision: mergeConflict.currentRevision,
+    });
+    setModalContent(content);
+    setMergeConflict(null);
+    setError(null);
+  };
+
+  const handleSaveAsNewVersion = async () => {
+    if (!editorTarget) return;
+    setIsSavingModal(true);
+    setError(null);
+
+    try {
+      const result = await createPromptVersion({
+        promptTypeId: editorTarget.promptTypeId,
+        baseContent: modalContent,
+        baseVariables: modalVariables,
+      });
+      const data = result.data as { promptVersion?: PromptVersion };
+      const created = data.promptVersion;
+      if (!created) throw new Error('No created prompt version returned');
+
+      cacheCreatedVersion(created);
+      setPromptTypes((prev) =>
+        prev.map((type) => {
+          if (type.id !== editorTarget.promptTypeId) return type;
+          return {
+            ...type,
+            versions: [...type.versions, toVersionSummary(created)].sort((a, b) => {
+              if (a.isActive !== b.isActive) return a.isActive ? -1 : 1;
+              return b.version - a.version;
+            }),
+          };
+        }),
+      );
+      setSelectedVersionId(created.id);
+      setEditorTarget({
+        ...editorTarget,
+        promptVersionId: created.id,
+        promptVersionNumber: created.version,
+        originalContent: created.content,
+        originalVariables: created.variables,
+        originalRevision: created.revision,
+        isFrozen: false,
+      });
+      setModalContent(created.content);
+      setModalVariables(created.variables);
+      setMergeConflict(null);
+      void syncPromptTypesFromServer();
+    } catch (err) {
+      console.error('Error saving as new prompt version:', err);
+      setRuleViolations(getRuleViolations(err));
+      setError(getCallableErrorMessage(err, '새 버전 저장에 실패했습니다. 잠시 후 다시 시도해 주세요.'));
+    } finally {
+      setIsSavingModal(false);
+    }
+  };
+
+  const handleCheckRules = async () => {
+    if (!editorTarget) return;
+    setIsCheckingRules(true);
+    try {
+      const result = await validatePromptContent({
+        promptTypeId: editorTarget.promptTypeId,
+        content: modalContent,
+        variables: modalVariables,
+      });
+      const data = result.data as { violations?: RuleViolation[] };
+      setRuleViolations(data.violations ?? []);
+    } catch (err) {
+      console.error('Error checking validation rules:', err);
+      setError(getCallableErrorMessage(err, '규칙 검사에 실패했습니다. 잠시 후 다시 시도해 주세요.'));
+    } finally {
+      setIsCheckingRules(false);
+    }
+  };
+
+  const jumpToEditorLine = (line: number) => {
+    const textarea = editorTextareaRef.current;
+    if (!textarea) return;
+    const lines = modalContent.split('\n');
+    const start = lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+    const end = start + (lines[line - 1]?.length ?? 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+    // 줄 높이 기준으로 대략 스크롤해 선택한 줄이 보이게 한다.
+    const lineHeight = parseFloat(window.getComputedStyle(textarea).lineHeight) || 24;
+    textarea.scrollTop = Math.max(0, (line - 3) * lineHeight);
   };
 
-  const handleMinifyJson = () => {
-    if (!isSchemaEditor || !jsonValidation?.valid) return;
+  // 편집기가 열리고 내용이 채워진 뒤에야 줄 위치를 계산할 수 있다.
+  useEffect(() => {
+    if (pendingEditorLine === null || !isEditorOpen) return;
+    jumpToEditorLine(pendingEditorLine);
+    setPendingEditorLine(null);
+  }, [pendingEditorLine, isEditorOpen]);
+
+  const handleOpenSearchHit = async (hit: SearchHit) => {
+    const type = promptTypes.find((candidate) => candidate.id === hit.promptTypeId);
+    const version = type?.versions.find((candidate) => candidate.id === hit.promptVersionId);
+    if (!type || !version) return false;
+    if (!(await openEditorForVersion(version, type))) return true;
+    setWorkspaceView('versions');
+    setPendingEditorLine(hit.line);
+    return true;
+  };
+
+  const handleFormatContent = (format: (content: string) => string) => {
+    if (!editorSyntax?.valid) return;
     try {
-      setModalContent(JSON.stringify(JSON.parse(modalContent)));
+      setModalContent(format(modalContent));
     } catch {
       // no-op
     }
   };
 
+  const cacheCreatedVersion = (created: PromptVersion) => {
+    setVersionContents((prev) => ({
+      ...prev,
+      [created.id]: { id: created.id, revision: created.revision, content: created.content, variables: created.variables },
+    }));
+  };
+
   const handleAddVersion = async (mode: 'blank' | 'copy') => {
     if (!selectedType) return;
     if (!confirmDiscardEditorChanges()) return;
@@ -344,9 +1227,18 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
     setError(null);
 
     try {
+      const base =
+        mode === 'copy' && selectedVersion
+          ? (await fetchVersionContents([selectedVersion])).get(selectedVersion.id)
+          : undefined;
+      if (mode === 'copy' && !base) {
+        setError('버전 내용을 불러오지 못했습니다. 잠시 후 다시 시도해 주세요.');
+        return;
+      }
       const result = await createPromptVersion({
         promptTypeId: selectedType.id,
-        baseContent: mode === 'copy' ? (selectedVersion?.content ?? '') : '',
+        baseContent: base?.content ?? '',
+        baseVariables: base?.variables ?? [],
       });
 
       const data = result.data as {
@@ -355,12 +1247,13 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
       const created = data.promptVersion;
       if (!created) throw new Error('No created prompt version returned');
 
+      cacheCreatedVersion(created);
       setPromptTypes((prev) =>
         prev.map((type) => {
           if (type.id !== selectedType.id) return type;
           return {
             ...type,
-            versions: [...type.versions, created].sort((a, b) => {
+            versions: [...type.versions, toVersionSummary(created)].sort((a, b) => {
               if (a.isActive !== b.isActive) return a.isActive ? -1 : 1;
               return b.version - a.version;
             }),
@@ -368,7 +1261,7 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
         }),
       );
 
-      openEditorForVersion(created);
+      openEditorWithContent(created, selectedType);
       void syncPromptTypesFromServer();
     } catch (err) {
       console.error('Error creating prompt version:', err);
@@ -382,6 +1275,16 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
     if (!selectedType || !selectedVersion) return;
     if (selectedVersion.isActive) return;
     if (!confirmDiscardEditorChanges()) return;
+    const affected = dependencies?.affected ?? [];
+    if (
+      affected.length &&
+      !window.confirm(
+        `v${selectedVersion.version}을 ACTIVE로 지정하면 다른 프롬프트 ${affected.length}개에 영향을 줍니다.\n` +
+          `${affected.map((type) => type.promptTypeName).join(', ')}\n\n계속할까요?`,
+      )
+    ) {
+      return;
+    }
 
     setIsSettingActive(true);
     setError(null);
@@ -398,7 +1301,14 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
           return {
             ...type,
             versions: type.versions
-              .map((version) => ({ ...version, isActive: version.id === selectedVersion.id }))
+              .map((version) => ({
+                ...version,
+                isActive: version.id === selectedVersion.id,
+                publishedAt:
+                  version.id === selectedVersion.id
+                    ? (version.publishedAt ?? new Date().toISOString())
+                    : version.publishedAt,
+              }))
               .sort((a, b) => {
                 if (a.isActive !== b.isActive) return a.isActive ? -1 : 1;
                 return b.version - a.version;
@@ -407,14 +1317,64 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
         }),
       );
       void syncPromptTypesFromServer();
+      void loadDependencies(selectedType.id);
+      void loadTrafficSplit(selectedType.id);
+      void loadEnvironments(selectedType.id);
     } catch (err) {
       console.error('Error setting active version:', err);
-      setError('ACTIVE 버전 지정에 실패했습니다. 잠시 후 다시 시도해 주세요.');
+      setError(getCallableErrorMessage(err, 'ACTIVE 버전 지정에 실패했습니다. 잠시 후 다시 시도해 주세요.'));
     } finally {
       setIsSettingActive(false);
     }
   };
 
+  if (!isAuthReady || !user || accessError) {
+    return (
+      <div className="grid h-screen place-items-center bg-[#f4f7fb] p-6 text-slate-900">
+        <div className="w-full max-w-sm rounded-2xl border border-[#e5ecf5] bg-white p-8 text-center shadow-sm">
+          <p className="text-xs font-semibold uppercase tracking-[0.16em] text-[#4b74d9]">MS Reunion</p>
+          <h1 className="mt-2 text-lg font-semibold text-slate-900">관리자 콘솔</h1>
+          {!isAuthReady ? (
+            <p className="mt-6 text-sm text-slate-500">로그인 상태 확인 중...</p>
+          ) : user && accessError ? (
+            <>
+              <div className="mt-6 flex items-start gap-2 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-left text-sm text-rose-700">
+                <ShieldAlert className="mt-0.5 h-4 w-4 shrink-0" />
+                <span>{accessError}</span>
+              </div>
+              <p className="mt-3 text-xs text-slate-500">{user.email}</p>
+              <button
+                type="button"
+                onClick={handleSignOut}
+                className="mt-4 inline-flex h-10 items-center gap-2 rounded-xl border border-[#dde6f2] bg-white px-3.5 text-sm font-medium text-slate-700 transition hover:bg-[#f8fbff]"
+              >
+                <LogOut className="h-4 w-4" />
+                다른 계정으로 로그인
+              </button>
+            </>
+          ) : (
+            <>
+              <p className="mt-2 text-sm text-slate-500">권한이 부여된 계정으로 로그인해 주세요.</p>
+              {accessError && (
+                <p className="mt-4 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+                  {accessError}
+                </p>
+              )}
+              <button
+                type="button"
+                onClick={handleSignIn}
+                className="mt-6 inline-flex h-10 items-center gap-2 rounded-xl bg-[#4b74d9] px-3.5 text-sm font-semibold text-white transition hover:bg-[#3f67ca]"
+              >
+                <LogIn className="h-4 w-4" />
+                Google 계정으로 로그인
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="h-screen bg-[#f4f7fb] text-slate-900">
       <div className="flex h-full">
@@ -430,15 +1390,52 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
               <p className="mt-1 text-sm font-semibold text-slate-900">프롬프트 타입 / 버전 관리</p>
             </div>
           </div>
+          <div className="mt-auto border-t border-[#eef2f8] px-4 py-4">
+            <p className="truncate text-xs font-medium text-slate-700">{user.email}</p>
+            <p className="mt-1 text-xs text-slate-500">권한: {access?.role ?? '확인 중'}</p>
+            <button
+              type="button"
+              onClick={handleSignOut}
+              className="mt-3 inline-flex h-9 w-full items-center justify-center gap-2 rounded-lg border border-[#dde6f2] bg-white px-3 text-xs font-medium text-slate-700 transition hover:bg-[#f8fbff]"
+            >
+              <LogOut className="h-4 w-4" />
+              로그아웃
+            </button>
+          </div>
         </aside>
 
         <div className="flex min-w-0 flex-1 flex-col">
           <header className="border-b border-[#e4ebf4] bg-white px-4 py-3 sm:px-6">
             <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
-              <div>
+              <div className="flex flex-wrap items-center gap-3">
                 <h2 className="text-lg font-semibold tracking-tight text-slate-900">
                   프롬프트 버전 편집 워크스페이스
                 </h2>
+                <div className="inline-flex rounded-lg border border-[#dfe7f2] bg-[#fbfdff] p-0.5">
+                  {(
+                    [
+                      ['versions', '버전 관리'],
+                      ['search', '내용 검색'],
+                      ['activity', 'Activity'],
+                      ['bundles', '내보내기/가져오기'],
+                      ['api-keys', 'API 키'],
+                    ] as const
+                  )
+                    .filter(([view]) => (view !== 'api-keys' || isAdmin) && (view !== 'bundles' || canEdit))
+                    .map(([view, label]) => (
+                      <button
+                        key={view}
+                        type="button"
+                        onClick={() => setWorkspaceView(view)}
+                        className={[
+                          'h-8 rounded-md px-3 text-xs font-semibold transition',
+                          workspaceView === view ? 'bg-white text-[#3f67ca] shadow-sm' : 'text-slate-500 hover:text-slate-700',
+                        ].join(' ')}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                </div>
               </div>
               <div className="relative w-full md:max-w-sm">
                 <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
@@ -458,17 +1455,67 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
           </header>
 
           <main className="min-h-0 flex-1 p-4 sm:p-6">
+            {workspaceView === 'search' ? (
+              <div className="flex h-full min-h-0 flex-col">
+                <SearchPanel promptTypes={promptTypes} onOpenHit={handleOpenSearchHit} getErrorMessage={getCallableErrorMessage} />
+              </div>
+            ) : workspaceView === 'activity' ? (
+              <div className="flex h-full min-h-0 flex-col">
+                <ActivityPanel promptTypes={promptTypes} />
+              </div>
+            ) : workspaceView === 'bundles' && canEdit ? (
+              <div className="flex h-full min-h-0 flex-col">
+                <BundlePanel
+                  promptTypes={promptTypes}
+                  canImport={isAdmin}
+                  onImported={syncPromptTypesFromServer}
+                  getErrorMessage={getCallableErrorMessage}
+                />
+              </div>
+            ) : workspaceView === 'api-keys' && isAdmin ? (
+              <div className="flex h-full min-h-0 flex-col">
+                <ApiKeysPanel getErrorMessage={getCallableErrorMessage} />
+              </div>
+            ) : (
             <div className="grid h-full min-h-0 grid-cols-1 gap-4 md:grid-cols-[340px_minmax(0,1fr)]">
               <section className="flex min-h-[320px] flex-col rounded-2xl border border-[#e5ecf5] bg-white shadow-sm">
-                <div className="border-b border-[#eef2f8] p-4">
+                <div className="space-y-3 border-b border-[#eef2f8] p-4">
                   <div className="flex items-center justify-between">
-                    <div>
+                    <div className="flex items-center gap-2">
                       <h3 className="text-sm font-semibold text-slate-900">Prompt Types</h3>
+                      <span className="rounded-full bg-[#edf3ff] px-2.5 py-1 text-xs font-medium text-[#4167c6]">
+                        {filteredPromptTypes.length}
+                      </span>
                     </div>
-                    <span className="rounded-full bg-[#edf3ff] px-2.5 py-1 text-xs font-medium text-[#4167c6]">
-                      {filteredPromptTypes.length}
-                    </span>
+                    <button
+                      type="button"
+                      onClick={() => openTypeForm('create')}
+                      disabled={!canEdit || typeFormMode === 'create'}
+                      className="inline-flex h-8 items-center gap-1.5 rounded-lg border border-[#d8e4ff] bg-[#eef4ff] px-2.5 text-xs font-semibold text-[#3f67ca] transition hover:bg-[#e4eeff] disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      <Plus className="h-3.5 w-3.5" />
+                      새 타입
+                    </button>
                   </div>
+                  <label className="inline-flex items-center gap-1.5 text-xs text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={showArchivedTypes}
+                      onChange={(e) => setShowArchivedTypes(e.target.checked)}
+                    />
+                    보관된 타입 보기
+                  </label>
+                  {typeFormMode === 'create' && (
+                    <PromptTypeForm
+                      mode="create"
+                      initial={{ name: '', description: '', contentKind: 'text' }}
+                      canRename
+                      isSaving={isSavingType}
+                      error={typeFormError}
+                      onSubmit={handleSubmitTypeForm}
+                      onCancel={() => openTypeForm(null)}
+                    />
+                  )}
                 </div>
 
                 <ul className="min-h-0 flex-1 space-y-2 overflow-y-auto p-3">
@@ -502,7 +1549,14 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                               </div>
                               <div className="min-w-0 flex-1">
                                 <p className="line-clamp-2 text-sm font-semibold text-slate-900">{type.title}</p>
-                                <p className="mt-1 text-xs text-slate-500">버전 {type.versions.length}개</p>
+                                <p className="mt-1 flex items-center gap-1.5 text-xs text-slate-500">
+                                  버전 {type.versions.length}개
+                                  {type.archivedAt && (
+                                    <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-semibold text-slate-500">
+                                      보관됨
+                                    </span>
+                                  )}
+                                </p>
                               </div>
                             </div>
                           </button>
@@ -518,19 +1572,88 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                   <>
                     <div className="border-b border-[#eef2f8] p-4 sm:p-5">
                       <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
-                        <div className="min-w-0">
-                          <h3 className="mt-1 break-words text-2xl font-semibold tracking-tight text-slate-900">
-                            {selectedType.title}
-                          </h3>
-                          <p className="mt-1 text-sm text-slate-500">
-                            버전을 더블클릭하면 팝업에서 수정/저장할 수 있습니다.
-                          </p>
-                        </div>
+                        {typeFormMode === 'edit' ? (
+                          <div className="w-full max-w-md">
+                            <PromptTypeForm
+                              key={selectedType.id}
+                              mode="edit"
+                              initial={{
+                                name: selectedType.title,
+                                description: selectedType.description,
+                                contentKind: selectedType.contentKind,
+                              }}
+                              canRename={canPublish}
+                              isSaving={isSavingType}
+                              error={typeFormError}
+                              onSubmit={handleSubmitTypeForm}
+                              onCancel={() => openTypeForm(null)}
+                            />
+                          </div>
+                        ) : (
+                          <div className="min-w-0">
+                            <div className="mt-1 flex flex-wrap items-center gap-2">
+                              <h3 className="break-words text-2xl font-semibold tracking-tight text-slate-900">
+                                {selectedType.title}
+                              </h3>
+                              <span className="rounded-full bg-[#edf3ff] px-2 py-0.5 text-[11px] font-semibold text-[#4167c6]">
+                                {selectedKind.label}
+                              </span>
+                              {selectedType.archivedAt && (
+                                <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-semibold text-slate-500">
+                                  보관됨 · {selectedType.archivedAt}
+                                </span>
+                              )}
+                            </div>
+                            {selectedType.description && (
+                              <p className="mt-1 whitespace-pre-wrap text-sm text-slate-600">{selectedType.description}</p>
+                            )}
+                            <p className="mt-1 text-sm text-slate-500">
+                              {selectedType.archivedAt
+                                ? '보관된 타입입니다. 게시 중인 버전은 계속 서빙되지만 ACTIVE 지정과 배포는 복원한 뒤에 할 수 있습니다.'
+                                : '버전을 더블클릭하면 팝업에서 수정/저장할 수 있습니다.'}
+                            </p>
+                            <div className="mt-3 flex flex-wrap items-center gap-2">
+                              <button
+                                type="button"
+                                onClick={() => openTypeForm('edit')}
+                                disabled={!canEdit || isSavingType}
+                                className="inline-flex h-8 items-center gap-1.5 rounded-lg border border-[#dde6f2] bg-white px-2.5 text-xs font-medium text-slate-700 transition hover:bg-[#f8fbff] disabled:cursor-not-allowed disabled:opacity-50"
+                              >
+                                <PencilLine className="h-3.5 w-3.5" />
+                                타입 편집
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleArchiveType(!selectedType.archivedAt)}
+                                disabled={!canPublish || isSavingType}
+                                title={canPublish ? undefined : 'publisher 이상의 권한이 필요합니다.'}
+                                className="inline-flex h-8 items-center gap-1.5 rounded-lg border border-[#dde6f2] bg-white px-2.5 text-xs font-medium text-slate-700 transition hover:bg-[#f8fbff] disabled:cursor-not-allowed disabled:opacity-50"
+                              >
+                                {selectedType.archivedAt ? (
+                                  <ArchiveRestore className="h-3.5 w-3.5" />
+                                ) : (
+                                  <Archive className="h-3.5 w-3.5" />
+                                )}
+                                {selectedType.archivedAt ? '복원' : '보관'}
+                              </button>
+                              <button
+                                type="button"
+                                onClick={handleDeleteType}
+                                disabled={!isAdmin || isSavingType}
+                                title={isAdmin ? undefined : 'admin 권한이 필요합니다.'}
+                                className="inline-flex h-8 items-center gap-1.5 rounded-lg border border-rose-200 bg-white px-2.5 text-xs font-medium text-rose-600 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-50"
+                              >
+                                <Trash2 className="h-3.5 w-3.5" />
+                                삭제
+                              </button>
+                            </div>
+                          </div>
+                        )}
                         <div className="flex flex-wrap items-center gap-2">
                           <button
                             type="button"
                             onClick={() => handleAddVersion('blank')}
-                            disabled={isCreatingVersion}
+                            disabled={isCreatingVersion || !canEdit}
                             className="inline-flex h-10 items-center gap-2 rounded-xl border border-[#d8e4ff] bg-[#eef4ff] px-3.5 text-sm font-semibold text-[#3f67ca] transition hover:bg-[#e4eeff] disabled:cursor-not-allowed disabled:opacity-50"
                           >
                             <Plus className="h-4 w-4" />
@@ -539,7 +1662,7 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                           <button
                             type="button"
                             onClick={() => handleAddVersion('copy')}
-                            disabled={isCreatingVersion || !selectedVersion}
+                            disabled={isCreatingVersion || !selectedVersion || !canEdit}
                             className="inline-flex h-10 items-center gap-2 rounded-xl border border-[#dde6f2] bg-white px-3.5 text-sm font-medium text-slate-700 transition hover:bg-[#f8fbff] disabled:cursor-not-allowed disabled:opacity-50"
                           >
                             <Copy className="h-4 w-4" />
@@ -556,7 +1679,7 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                           </button>
                           <button
                             type="button"
-                            onClick={() => selectedVersion && openEditorForVersion(selectedVersion)}
+                            onClick={() => selectedVersion && void openEditorForVersion(selectedVersion)}
                             disabled={!selectedVersion}
                             className="inline-flex h-10 items-center gap-2 rounded-xl bg-[#4b74d9] px-3.5 text-sm font-semibold text-white transition hover:bg-[#3f67ca] disabled:cursor-not-allowed disabled:opacity-50"
                           >
@@ -581,10 +1704,159 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                             <option value="latest">최신 버전 우선</option>
                             <option value="oldest">버전 번호 오름차순</option>
                           </select>
+                          <button
+                            type="button"
+                            onClick={() => setVersionPanel((prev) => (prev === 'diff' ? 'none' : 'diff'))}
+                            disabled={selectedType.versions.length < 1}
+                            className={[
+                              'inline-flex h-9 items-center gap-2 rounded-lg border px-3 text-xs font-semibold transition disabled:cursor-not-allowed disabled:opacity-50',
+                              versionPanel === 'diff'
+                                ? 'border-[#cfe0ff] bg-[#f3f8ff] text-[#3f67ca]'
+                                : 'border-[#dde6f2] bg-white text-slate-700 hover:bg-[#f8fbff]',
+                            ].join(' ')}
+                          >
+                            <GitCompare className="h-4 w-4" />
+                            버전 비교
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setVersionPanel((prev) => (prev === 'history' ? 'none' : 'history'))}
+                            className={[
+                              'inline-flex h-9 items-center gap-2 rounded-lg border px-3 text-xs font-semibold transition',
+                              versionPanel === 'history'
+                                ? 'border-[#cfe0ff] bg-[#f3f8ff] text-[#3f67ca]'
+                                : 'border-[#dde6f2] bg-white text-slate-700 hover:bg-[#f8fbff]',
+                            ].join(' ')}
+                          >
+                            <History className="h-4 w-4" />
+                            활성화 이력
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setVersionPanel((prev) => (prev === 'schedule' ? 'none' : 'schedule'))}
+                            className={[
+                              'inline-flex h-9 items-center gap-2 rounded-lg border px-3 text-xs font-semibold transition',
+                              versionPanel === 'schedule'
+                                ? 'border-[#cfe0ff] bg-[#f3f8ff] text-[#3f67ca]'
+                                : 'border-[#dde6f2] bg-white text-slate-700 hover:bg-[#f8fbff]',
+                            ].join(' ')}
+                          >
+                            <CalendarClock className="h-4 w-4" />
+                            예약 활성화
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setVersionPanel((prev) => (prev === 'dependencies' ? 'none' : 'dependencies'))}
+                            className={[
+                              'inline-flex h-9 items-center gap-2 rounded-lg border px-3 text-xs font-semibold transition',
+                              versionPanel === 'dependencies'
+                                ? 'border-[#cfe0ff] bg-[#f3f8ff] text-[#3f67ca]'
+                                : 'border-[#dde6f2] bg-white text-slate-700 hover:bg-[#f8fbff]',
+                            ].join(' ')}
+                          >
+                            <Network className="h-4 w-4" />
+                            포함 관계
+                            {dependencies && dependencies.affected.length > 0 && (
+                              <span className="rounded-full bg-amber-100 px-1.5 text-[11px] text-amber-800">
+                                {dependencies.affected.length}
+                              </span>
+                            )}
+                          </button>
+                          {hasSchemaSamples && (
+                            <button
+                              type="button"
+                              onClick={() => setVersionPanel((prev) => (prev === 'samples' ? 'none' : 'samples'))}
+                              className={[
+                                'inline-flex h-9 items-center gap-2 rounded-lg border px-3 text-xs font-semibold transition',
+                                versionPanel === 'samples'
+                                  ? 'border-[#cfe0ff] bg-[#f3f8ff] text-[#3f67ca]'
+                                  : 'border-[#dde6f2] bg-white text-slate-700 hover:bg-[#f8fbff]',
+                              ].join(' ')}
+                            >
+                              <FlaskConical className="h-4 w-4" />
+                              샘플 출력 ({schemaSamples.length})
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => setVersionPanel((prev) => (prev === 'rules' ? 'none' : 'rules'))}
+                            className={[
+                              'inline-flex h-9 items-center gap-2 rounded-lg border px-3 text-xs font-semibold transition',
+                              versionPanel === 'rules'
+                                ? 'border-[#cfe0ff] bg-[#f3f8ff] text-[#3f67ca]'
+                                : 'border-[#dde6f2] bg-white text-slate-700 hover:bg-[#f8fbff]',
+                            ].join(' ')}
+                          >
+                            <ListChecks className="h-4 w-4" />
+                            검증 규칙
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setVersionPanel((prev) => (prev === 'evals' ? 'none' : 'evals'))}
+                            className={[
+                              'inline-flex h-9 items-center gap-2 rounded-lg border px-3 text-xs font-semibold transition',
+                              versionPanel === 'evals'
+                                ? 'border-[#cfe0ff] bg-[#f3f8ff] text-[#3f67ca]'
+                                : 'border-[#dde6f2] bg-white text-slate-700 hover:bg-[#f8fbff]',
+                            ].join(' ')}
+                          >
+                            <ClipboardCheck className="h-4 w-4" />
+                            테스트 ({evaluations?.cases.length ?? 0})
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setVersionPanel((prev) => (prev === 'traffic' ? 'none' : 'traffic'))}
+                            className={[
+                              'inline-flex h-9 items-center gap-2 rounded-lg border px-3 text-xs font-semibold transition',
+                              versionPanel === 'traffic'
+                                ? 'border-[#cfe0ff] bg-[#f3f8ff] text-[#3f67ca]'
+                                : 'border-[#dde6f2] bg-white text-slate-700 hover:bg-[#f8fbff]',
+                            ].join(' ')}
+                          >
+                            <Split className="h-4 w-4" />
+                            트래픽 분할
+                            {trafficSplit && trafficSplit.arms.length > 0 && (
+                              <span className="rounded-full bg-violet-100 px-1.5 text-[11px] text-violet-700">
+                                {trafficSplit.arms.length}
+                              </span>
+                            )}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setVersionPanel((prev) => (prev === 'environments' ? 'none' : 'environments'))}
+                            className={[
+                              'inline-flex h-9 items-center gap-2 rounded-lg border px-3 text-xs font-semibold transition',
+                              versionPanel === 'environments'
+                                ? 'border-[#cfe0ff] bg-[#f3f8ff] text-[#3f67ca]'
+                                : 'border-[#dde6f2] bg-white text-slate-700 hover:bg-[#f8fbff]',
+                            ].join(' ')}
+                          >
+                            <Layers className="h-4 w-4" />
+                            환경
+                          </button>
                           <button
                             type="button"
                             onClick={handleSetActiveVersion}
-                            disabled={!selectedVersion || selectedVersion.isActive || isSettingActive}
+                            disabled={
+                              !selectedVersion ||
+                              selectedVersion.isActive ||
+                              isSettingActive ||
+                              !canPublish ||
+                              isSelectedTypeArchived ||
+                              needsApproval ||
+                              needsEvalPass
+                            }
+                            title={
+                              !canPublish
+                                ? 'publisher 이상의 권한이 필요합니다.'
+                                : isSelectedTypeArchived
+                                  ? '보관된 타입은 복원한 뒤에 ACTIVE로 지정할 수 있습니다.'
+                                  : needsApproval
+                                    ? `리뷰 승인 ${requiredApprovals}건이 필요합니다.`
+                                    : needsEvalPass
+                                      ? '현재 내용으로 실행한 테스트가 모두 통과해야 합니다.'
+                                      : undefined
+                            }
                             className="inline-flex h-9 items-center gap-2 rounded-lg border border-[#dce8da] bg-[#eef8ef] px-3 text-xs font-semibold text-[#287a38] transition hover:bg-[#e6f4e8] disabled:cursor-not-allowed disabled:opacity-50"
                           >
                             <CheckCircle2 className="h-4 w-4" />
@@ -597,6 +1869,10 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                         </div>
                       </div>
 
+                      {selectedVersion && !selectedVersion.isActive && (
+                        <ImpactNotice affected={dependencies?.affected ?? []} />
+                      )}
+
                       <div className="mb-3">
                         <div className="relative">
                           <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
@@ -608,7 +1884,7 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                             type="search"
                             value={versionSearchQuery}
                             onChange={(e) => setVersionSearchQuery(e.target.value)}
-                            placeholder="버전 내용 검색"
+                            placeholder="버전 번호·미리보기 검색"
                             className="h-9 w-full rounded-lg border border-[#dfe7f2] bg-[#fbfdff] pl-9 pr-3 text-sm text-slate-900 outline-none transition placeholder:text-slate-400 focus:border-[#7da2ff] focus:ring-4 focus:ring-[#dfeaff]"
                           />
                         </div>
@@ -626,11 +1902,11 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                         <ul className="space-y-2">
                           {filteredVersions.map((version) => {
                             const isSelected = selectedVersion?.id === version.id;
-                            const preview = version.content.replace(/\s+/g, ' ').trim() || '(빈 내용)';
+                            const preview = version.preview || '(빈 내용)';
                             return (
                               <li key={version.id}>
                                 <div
-                                  onDoubleClick={() => openEditorForVersion(version)}
+                                  onDoubleClick={() => void openEditorForVersion(version)}
                                   className={[
                                     'flex w-full items-center gap-3 rounded-xl border px-3 py-2.5 transition',
                                     isSelected
@@ -659,15 +1935,42 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                                           ACTIVE
                                         </span>
                                       )}
+                                      {version.publishedAt && (
+                                        <span
+                                          className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-semibold text-slate-600"
+                                          title="게시된 적이 있어 수정할 수 없는 버전입니다."
+                                        >
+                                          <Lock className="h-3 w-3" />
+                                          게시됨
+                                        </span>
+                                      )}
+                                      {!version.publishedAt && reviewsByVersion[version.id] && (
+                                        <ReviewBadge review={reviewsByVersion[version.id]} requiredApprovals={requiredApprovals} />
+                                      )}
+                                      {environmentsByVersion[version.id]?.map((environment) => (
+                                        <EnvironmentBadge key={environment} environment={environment} />
+                                      ))}
+                                      {trafficWeightsByVersion[version.id] !== undefined && (
+                                        <TrafficBadge weight={trafficWeightsByVersion[version.id]} />
+                                      )}
+                                      {evalRunsByVersion[version.id] && (
+                                        <EvalBadge
+                                          run={evalRunsByVersion[version.id]}
+                                          isCurrent={isEvalRunCurrent(evalRunsByVersion[version.id], version, evaluations?.cases ?? [])}
+                                        />
+                                      )}
                                     </div>
-                                    <p className="truncate text-xs text-slate-500">{preview}</p>
+                                    <p className="truncate text-xs text-slate-500">
+                                      {preview}
+                                      <span className="ml-2 text-slate-400">{version.size.toLocaleString()}자</span>
+                                    </p>
                                   </div>
                                   </button>
                                   <button
                                     type="button"
                                     onClick={(e) => {
                                       e.stopPropagation();
-                                      openEditorForVersion(version);
+                                      void openEditorForVersion(version);
                                     }}
                                     className="inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-lg border border-[#dde6f2] bg-white text-slate-500 transition hover:bg-[#f3f8ff] hover:text-[#3f67ca]"
                                     aria-label={`버전 v${version.version} 편집`}
@@ -676,6 +1979,19 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                                     <PencilLine className="h-4 w-4" />
                                   </button>
                                 </div>
+                                {isSelected && (
+                                  <ReviewThread
+                                    promptTypeId={selectedType.id}
+                                    version={version}
+                                    review={reviewsByVersion[version.id] ?? null}
+                                    requiredApprovals={requiredApprovals}
+                                    currentEmail={access?.email ?? null}
+                                    canReview={canEdit}
+                                    canManagePolicy={isAdmin}
+                                    onChanged={() => void loadReviews(selectedType.id)}
+                                    getErrorMessage={getCallableErrorMessage}
+                                  />
+                                )}
                               </li>
                             );
                           })}
@@ -689,9 +2005,135 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                       </div>
                     )}
 
-                    <div className="flex flex-1 items-center justify-center p-6 text-center text-sm text-slate-500">
-                      버전을 선택하고 더블클릭하면 편집 팝업이 열립니다.
-                    </div>
+                    {versionPanel === 'history' ? (
+                      <div className="min-h-[420px] flex-1 p-4">
+                        <ActivationTimeline
+                          promptTypeId={selectedType.id}
+                          activeVersionId={selectedType.versions.find((version) => version.isActive)?.id ?? null}
+                          canPublish={canPublish && !isSelectedTypeArchived}
+                          onRolledBack={() => {
+                            void syncPromptTypesFromServer();
+                            void loadEnvironments(selectedType.id);
+                            void loadTrafficSplit(selectedType.id);
+                          }}
+                          getErrorMessage={getCallableErrorMessage}
+                        />
+                      </div>
+                    ) : versionPanel === 'schedule' ? (
+                      <div className="min-h-[420px] flex-1 p-4">
+                        <SchedulePanel
+                          promptTypeId={selectedType.id}
+                          selectedVersion={selectedVersion ?? null}
+                          canPublish={canPublish && !isSelectedTypeArchived}
+                          getErrorMessage={getCallableErrorMessage}
+                        />
+                      </div>
+                    ) : versionPanel === 'samples' && hasSchemaSamples ? (
+                      <div className="min-h-[420px] flex-1 p-4">
+                        <SchemaSamplesPanel
+                          promptTypeId={selectedType.id}
+                          versions={loadedSelectedTypeVersions}
+                          samples={schemaSamples}
+                          selectedVersionId={selectedVersion?.id ?? null}
+                          isLoading={isLoadingSamples}
+                          canEdit={canEdit}
+                          onChanged={() => void loadSchemaSamples(selectedType.id)}
+                          getErrorMessage={getCallableErrorMessage}
+                        />
+                      </div>
+                    ) : versionPanel === 'evals' ? (
+                      <div className="min-h-[420px] flex-1 p-4">
+                        <EvalPanel
+                          promptTypeId={selectedType.id}
+                          selectedVersion={selectedVersion ?? null}
+                          evaluations={evaluations}
+                          isLoading={isLoadingEvaluations}
+                          canEdit={canEdit}
+                          canManagePolicy={isAdmin}
+                          onChanged={() => void loadEvaluations(selectedType.id)}
+                          getErrorMessage={getCallableErrorMessage}
+                        />
+                      </div>
+                    ) : versionPanel === 'environments' ? (
+                      <div className="min-h-[420px] flex-1 p-4">
+                        <EnvironmentsPanel
+                          promptTypeId={selectedType.id}
+                          environments={environments}
+                          selectedVersion={selectedVersion ?? null}
+                          isLoading={isLoadingEnvironments}
+                          canEdit={canEdit && !isSelectedTypeArchived}
+                          canPublish={canPublish && !isSelectedTypeArchived}
+                          onChanged={() => {
+                            void loadEnvironments(selectedType.id);
+                            void loadTrafficSplit(selectedType.id);
+                            void loadDependencies(selectedType.id);
+                            void syncPromptTypesFromServer();
+                          }}
+                          getErrorMessage={getCallableErrorMessage}
+                        />
+                      </div>
+                    ) : versionPanel === 'traffic' ? (
+                      <div className="min-h-[420px] flex-1 p-4">
+                        <TrafficPanel
+                          promptTypeId={selectedType.id}
+                          versions={selectedType.versions}
+                          split={trafficSplit}
+                          isLoading={isLoadingTrafficSplit}
+                          canPublish={canPublish}
+                          onChanged={() => {
+                            void loadTrafficSplit(selectedType.id);
+                            void syncPromptTypesFromServer();
+                          }}
+                          onPromoted={() => {
+                            void loadTrafficSplit(selectedType.id);
+                            void loadEnvironments(selectedType.id);
+                            void loadDependencies(selectedType.id);
+                            void syncPromptTypesFromServer();
+                          }}
+                          getErrorMessage={getCallableErrorMessage}
+                        />
+                      </div>
+                    ) : versionPanel === 'rules' ? (
+                      <div className="min-h-[420px] flex-1 p-4">
+                        <ValidationRulesPanel
+                          promptTypeId={selectedType.id}
+                          isAdmin={isAdmin}
+                          getErrorMessage={getCallableErrorMessage}
+                        />
+                      </div>
+                    ) : versionPanel === 'dependencies' ? (
+                      <div className="min-h-[420px] flex-1 p-4">
+                        <DependencyGraph
+                          promptTypeName={selectedType.title}
+                          dependencies={dependencies}
+                          isLoading={isLoadingDependencies}
+                          onSelectType={(promptTypeId) => {
+                            const type = promptTypes.find((candidate) => candidate.id === promptTypeId);
+                            if (!type) return;
+                            handleSelectType(type);
+                            setVersionPanel('dependencies');
+                          }}
+                        />
+                      </div>
+                    ) : versionPanel === 'diff' ? (
+                      <div className="min-h-[420px] flex-1 p-4">
+                        <VersionDiff
+                          key={selectedType.id}
+                          sources={toDiffSources(selectedType.versions, versionContents)}
+                          onLoadSources={(ids) => void fetchVersionContentsById(ids)}
+                          initialLeftId={
+                            (selectedType.versions.find((version) => version.isActive && version.id !== selectedVersion?.id) ??
+                              selectedType.versions.find((version) => version.id !== selectedVersion?.id))?.id
+                          }
+                          initialRightId={selectedVersion?.id}
+                          structuralJson={selectedKind.structuralDiff}
+                        />
+                      </div>
+                    ) : (
+                      <div className="flex flex-1 items-center justify-center p-6 text-center text-sm text-slate-500">
+                        버전을 선택하고 더블클릭하면 편집 팝업이 열립니다.
+                      </div>
+                    )}
                   </>
                 ) : (
                   <div className="flex h-full items-center justify-center p-8">
@@ -705,6 +2147,7 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                 )}
               </section>
             </div>
+            )}
           </main>
         </div>
       </div>
@@ -726,21 +2169,49 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                   {editorTarget.promptTypeTitle} · v{editorTarget.promptVersionNumber}
                 </h3>
                 <div className="mt-1 flex flex-wrap items-center gap-2 text-xs">
-                  {isSchemaEditor && (
+                  {editorSyntax && (
                     <span
                       className={[
                         'rounded-full px-2 py-0.5 font-semibold',
-                        jsonValidation?.valid
+                        editorSyntax.valid && !editorSchemaCheck?.errors.length
                           ? 'bg-emerald-100 text-emerald-700'
                           : 'bg-amber-100 text-amber-700',
                       ].join(' ')}
                     >
-                      {jsonValidation?.message ?? 'JSON'}
+                      {editorSchemaCheck
+                        ? editorSchemaCheck.errors.length
+                          ? `JSON Schema 오류 ${editorSchemaCheck.errors.length}건`
+                          : '유효한 JSON Schema (2020-12)'
+                        : editorSyntax.label}
                     </span>
                   )}
-                  {isSystemPromptEditor && (
+                  {editorSampleResults && (
+                    <span
+                      className={[
+                        'rounded-full px-2 py-0.5 font-semibold',
+                        editorSampleFailures.length ? 'bg-rose-100 text-rose-700' : 'bg-emerald-100 text-emerald-700',
+                      ].join(' ')}
+                    >
+                      샘플 {editorSampleResults.length - editorSampleFailures.length}/{editorSampleResults.length} 통과
+                    </span>
+                  )}
+                  {editorKind.modeBadge && (
                     <span className="rounded-full bg-blue-100 px-2 py-0.5 font-semibold text-blue-700">
-                      Long Text Mode
+                      {editorKind.modeBadge}
+                    </span>
+                  )}
+                  {editorTarget.isFrozen && (
+                    <span className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 font-semibold text-slate-600">
+                      <Lock className="h-3 w-3" />
+                      게시된 버전 · 새 버전으로만 저장 가능
+                    </span>
+                  )}
+                  {editorTarget.promptTypeId === selectedTypeId && dependencies && dependencies.affected.length > 0 && (
+                    <span
+                      className="rounded-full bg-amber-100 px-2 py-0.5 font-semibold text-amber-800"
+                      title={dependencies.affected.map((type) => type.promptTypeName).join(', ')}
+                    >
+                      다른 프롬프트 {dependencies.affected.length}개가 이 타입을 포함
                     </span>
                   )}
                 </div>
@@ -754,38 +2225,78 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                   <X className="h-4 w-4" />
                   닫기
                 </button>
-                <button
-                  type="button"
-                  onClick={handleSaveModal}
-                  disabled={isSavingModal || !isModalDirty}
-                  className="inline-flex h-10 items-center gap-2 rounded-xl bg-[#4b74d9] px-3.5 text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
-                >
-                  <Save className="h-4 w-4" />
-                  {isSavingModal ? '저장 중...' : '저장'}
-                </button>
+                {editorTarget.isFrozen ? (
+                  <button
+                    type="button"
+                    onClick={handleSaveAsNewVersion}
+                    disabled={isSavingModal || !canEdit}
+                    className="inline-flex h-10 items-center gap-2 rounded-xl bg-[#4b74d9] px-3.5 text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <Plus className="h-4 w-4" />
+                    {isSavingModal ? '저장 중...' : '새 버전으로 저장'}
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={handleSaveModal}
+                    disabled={isSavingModal || !isModalDirty || !canEdit || Boolean(mergeConflict)}
+                    className="inline-flex h-10 items-center gap-2 rounded-xl bg-[#4b74d9] px-3.5 text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <Save className="h-4 w-4" />
+                    {isSavingModal ? '저장 중...' : '저장'}
+                  </button>
+                )}
               </div>
             </div>
             <div className="border-b border-[#eef2f8] px-5 py-3">
               <div className="flex flex-wrap items-center gap-2">
-                {isSchemaEditor && (
-                  <>
-                    <button
-                      type="button"
-                      onClick={handleFormatJson}
-                      disabled={!jsonValidation?.valid}
-                      className="inline-flex h-8 items-center rounded-lg border border-[#dde6f2] bg-white px-3 text-xs font-medium text-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
-                    >
-                      JSON 정렬
-                    </button>
-                    <button
-                      type="button"
-                      onClick={handleMinifyJson}
-                      disabled={!jsonValidation?.valid}
-                      className="inline-flex h-8 items-center rounded-lg border border-[#dde6f2] bg-white px-3 text-xs font-medium text-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
-                    >
-                      JSON 압축
-                    </button>
-                  </>
+                {editorKind.formatters.map((formatter) => (
+                  <button
+                    key={formatter.label}
+                    type="button"
+                    onClick={() => handleFormatContent(formatter.format)}
+                    disabled={!editorSyntax?.valid || !canEdit}
+                    className="inline-flex h-8 items-center rounded-lg border border-[#dde6f2] bg-white px-3 text-xs font-medium text-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {formatter.label}
+                  </button>
+                ))}
+                {editorKind.Editor && (
+                  <button
+                    type="button"
+                    onClick={() => setIsRawEditor((prev) => !prev)}
+                    className={[
+                      'inline-flex h-8 items-center rounded-lg border px-3 text-xs font-medium',
+                      isRawEditor ? 'border-[#cfe0ff] bg-[#f3f8ff] text-[#3f67ca]' : 'border-[#dde6f2] bg-white text-slate-700',
+                    ].join(' ')}
+                  >
+                    {isRawEditor ? '메시지 편집기로' : '원문(JSON) 편집'}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setIsEditorDiffOpen((prev) => !prev)}
+                  className={[
+                    'inline-flex h-8 items-center gap-1.5 rounded-lg border px-3 text-xs font-medium',
+                    isEditorDiffOpen
+                      ? 'border-[#cfe0ff] bg-[#f3f8ff] text-[#3f67ca]'
+                      : 'border-[#dde6f2] bg-white text-slate-700',
+                  ].join(' ')}
+                >
+                  <GitCompare className="h-3.5 w-3.5" />
+                  {isEditorDiffOpen ? '편집으로 돌아가기' : '변경사항 비교'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCheckRules}
+                  disabled={isCheckingRules}
+                  className="inline-flex h-8 items-center gap-1.5 rounded-lg border border-[#dde6f2] bg-white px-3 text-xs font-medium text-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <ListChecks className="h-3.5 w-3.5" />
+                  {isCheckingRules ? '검사 중...' : '규칙 검사'}
+                </button>
+                {ruleViolations && ruleViolations.length === 0 && (
+                  <span className="rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-semibold text-emerald-700">규칙 통과</span>
                 )}
                 <span className="text-xs text-slate-500">
                   {modalContent.length.toLocaleString()} chars
@@ -793,44 +2304,141 @@ export function PromptManager({ promptTypes: initialPromptTypes }: { promptTypes
                 <span className="text-xs text-slate-400">
                   {modalContent.split('\n').length.toLocaleString()} lines
                 </span>
+                <TemplateIssues
+                  check={templateCheck}
+                  readOnly={!canEdit}
+                  onDeclare={(names) => {
+                    setModalVariables((prev) => [...prev, ...names.map(createVariable)]);
+                    setEditorSidePanel('variables');
+                  }}
+                />
+                {missingIncludeIds.length ? (
+                  <span className="rounded-full bg-slate-100 px-2 py-0.5 text-xs font-semibold text-slate-500">포함 불러오는 중...</span>
+                ) : (
+                  <IncludeIssues composed={composedDraft} />
+                )}
               </div>
+              {error && (
+                <div className="mt-3 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">
+                  {error}
+                </div>
+              )}
+              {ruleViolations && ruleViolations.length > 0 && (
+                <div className="mt-3 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">
+                  <p className="mb-1 font-semibold">검증 규칙 위반 {ruleViolations.length}건</p>
+                  <ViolationList violations={ruleViolations} onJumpToLine={isEditorDiffOpen ? undefined : jumpToEditorLine} />
+                </div>
+              )}
             </div>
+            {mergeConflict ? (
+              <div className="min-h-0 flex-1 overflow-y-auto p-4">
+                <MergeConflictPanel conflict={mergeConflict} onResolve={handleResolveMergeConflict} />
+              </div>
+            ) : isEditorDiffOpen ? (
+              <div className="min-h-0 flex-1 p-4">
+                <VersionDiff
+                  sources={editorDiffSources}
+                  onLoadSources={(ids) => void fetchVersionContentsById(ids)}
+                  initialLeftId={editorTarget.promptVersionId}
+                  initialRightId={EDITOR_BUFFER_SOURCE_ID}
+                  structuralJson={editorKind.structuralDiff}
+                />
+              </div>
+            ) : (
             <div
               className={[
                 'min-h-0 flex-1 p-4',
-                isSystemPromptEditor ? 'grid grid-cols-1 gap-4 xl:grid-cols-[minmax(0,1fr)_360px]' : '',
+                editorKind.sidePanel ? 'grid grid-cols-1 gap-4 xl:grid-cols-[minmax(0,1fr)_360px]' : '',
               ].join(' ')}
             >
-              <textarea
-                value={modalContent}
-                onChange={(e) => setModalContent(e.target.value)}
-                spellCheck={!isSchemaEditor}
-                className={[
-                  'h-full w-full resize-none rounded-xl border border-[#e5ecf5] bg-[#fbfdff] p-4 text-slate-800 outline-none focus:border-[#7da2ff] focus:ring-4 focus:ring-[#dfeaff]',
-                  isSystemPromptEditor
-                    ? 'font-sans text-[14px] leading-7 tracking-[0.01em]'
-                    : 'font-mono text-[13px] leading-6',
-                ].join(' ')}
-                placeholder="프롬프트 내용을 입력하세요."
-              />
-              {isSystemPromptEditor && (
-                <div className="min-h-0 rounded-xl border border-[#e5ecf5] bg-white p-4">
-                  <p className="text-xs font-semibold uppercase tracking-[0.12em] text-slate-500">
-                    Read Preview
-                  </p>
-                  <div className="mt-3 h-[calc(100%-1.5rem)] overflow-y-auto rounded-lg bg-[#f8fafd] p-4">
-                    <div className="whitespace-pre-wrap break-words text-sm leading-7 text-slate-700">
-                      {modalContent.trim() || '내용이 비어 있습니다.'}
-                    </div>
+              {editorKind.Editor && !isRawEditor ? (
+                <editorKind.Editor content={modalContent} readOnly={!canEdit} onChange={setModalContent} />
+              ) : (
+                <textarea
+                  ref={editorTextareaRef}
+                  value={modalContent}
+                  onChange={(e) => setModalContent(e.target.value)}
+                  readOnly={!canEdit}
+                  spellCheck={editorKind.spellCheck}
+                  className={[
+                    'h-full w-full resize-none rounded-xl border border-[#e5ecf5] bg-[#fbfdff] p-4 text-slate-800 outline-none focus:border-[#7da2ff] focus:ring-4 focus:ring-[#dfeaff]',
+                    editorKind.editorFont === 'prose'
+                      ? 'font-sans text-[14px] leading-7 tracking-[0.01em]'
+                      : 'font-mono text-[13px] leading-6',
+                  ].join(' ')}
+                  placeholder="프롬프트 내용을 입력하세요."
+                />
+              )}
+              {editorKind.sidePanel && (
+                <div className="flex min-h-0 flex-col rounded-xl border border-[#e5ecf5] bg-white p-4">
+                  <div className="flex items-center gap-1">
+                    {(
+                      [
+                        ['read', 'Read Preview'],
+                        ['render', 'Render Preview'],
+                        ['variables', `변수 (${modalVariables.length})`],
+                      ] as const
+                    ).map(([panel, label]) => (
+                      <button
+                        key={panel}
+                        type="button"
+                        onClick={() => setEditorSidePanel(panel)}
+                        className={[
+                          'rounded-md px-2 py-1 text-xs font-semibold uppercase tracking-[0.08em] transition',
+                          editorSidePanel === panel ? 'bg-[#f3f8ff] text-[#3f67ca]' : 'text-slate-500 hover:text-slate-700',
+                        ].join(' ')}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="mt-3 min-h-0 flex-1 overflow-y-auto">
+                    {editorSidePanel === 'read' ? (
+                      <div className="h-full overflow-y-auto rounded-lg bg-[#f8fafd] p-4">
+                        <editorKind.ReadPreview content={modalContent} variables={modalVariables} />
+                      </div>
+                    ) : editorSidePanel === 'render' ? (
+                      <RenderPreview
+                        content={composedDraft.content}
+                        variables={composedDraft.variables}
+                        Output={editorKind.RenderOutput}
+                      />
+                    ) : (
+                      <VariablesEditor
+                        variables={modalVariables}
+                        unused={templateCheck.unused}
+                        readOnly={!canEdit}
+                        onChange={setModalVariables}
+                      />
+                    )}
                   </div>
                 </div>
               )}
-              {isSchemaEditor && jsonValidation && !jsonValidation.valid && (
+              {editorSyntax?.detail && (
                 <div className="mt-3 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800 xl:col-span-1">
-                  JSON 오류: {jsonValidation.message}
+                  {editorSyntax.detail}
+                </div>
+              )}
+              {editorSchemaCheck && editorSchemaCheck.errors.length > 0 && (
+                <div className="mt-3 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+                  <p className="mb-1 font-semibold">JSON Schema(2020-12) 오류</p>
+                  <IssueList issues={editorSchemaCheck.errors} />
+                </div>
+              )}
+              {editorSampleFailures.length > 0 && (
+                <div className="mt-3 space-y-2 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">
+                  {editorSampleFailures.map((result) => (
+                    <div key={result.sampleId}>
+                      <p className="mb-1 font-semibold">
+                        샘플 &apos;{schemaSamples.find((sample) => sample.id === result.sampleId)?.name}&apos;을 거부합니다
+                      </p>
+                      <IssueList issues={result.errors} />
+                    </div>
+                  ))}
                 </div>
               )}
             </div>
+            )}
           </div>
         ) : (
           <div />
@@ -0,0 +1,106 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { MERGE_MARKERS, mergeThreeWay } from '../../lib/merge';
+
+export interface MergeConflict {
+  base: string;
+  theirs: string;
+  mine: string;
+  currentRevision: number;
+  lastEditedBy: string | null;
+  lastEditedAt: string | null;
+}
+
+function hasConflictMarkers(text: string) {
+  return text.split('\n').some((line) => line === MERGE_MARKERS.mine || line === MERGE_MARKERS.theirs);
+}
+
+function MergeColumn({ title, content }: { title: string; content: string }) {
+  return (
+    <div className="flex min-h-0 flex-col rounded-xl border border-[#e5ecf5] bg-white">
+      <p className="border-b border-[#eef2f8] px-3 py-2 text-xs font-semibold text-slate-600">{title}</p>
+      <pre className="min-h-0 flex-1 overflow-auto whitespace-pre-wrap break-words p-3 font-mono text-[12px] leading-5 text-slate-700">
+        {content || '(빈 내용)'}
+      </pre>
+    </div>
+  );
+}
+
+export function MergeConflictPanel({
+  conflict,
+  onResolve,
+}: {
+  conflict: MergeConflict;
+  onResolve: (content: string) => void;
+}) {
+  const autoMerge = useMemo(
+    () => mergeThreeWay(conflict.base, conflict.mine, conflict.theirs),
+    [conflict],
+  );
+  const [merged, setMerged] = useState(autoMerge.text);
+  const unresolved = hasConflictMarkers(merged);
+
+  return (
+    <div className="flex h-full min-h-0 flex-col gap-3">
+      <div className="flex items-start gap-2 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+        <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+        <div>
+          <p className="font-semibold">
+            편집하는 동안 {conflict.lastEditedBy ?? '다른 사용자'}가 이 버전을 저장했습니다
+            {conflict.lastEditedAt ? ` (${conflict.lastEditedAt})` : ''}.
+          </p>
+          <p className="mt-0.5">
+            {autoMerge.conflicts
+              ? `자동 병합 중 충돌 ${autoMerge.conflicts}건이 있습니다. 아래 병합 결과에서 충돌 표시를 정리한 뒤 적용해 주세요.`
+              : '겹치는 변경이 없어 자동으로 병합했습니다. 확인 후 적용해 주세요.'}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid min-h-[160px] flex-1 grid-cols-1 gap-3 lg:grid-cols-3">
+        <MergeColumn title="다른 사용자 변경" content={conflict.theirs} />
+        <MergeColumn title="공통 기준 (열었을 때 내용)" content={conflict.base} />
+        <MergeColumn title="내 변경" content={conflict.mine} />
+      </div>
+
+      <div className="flex min-h-[180px] flex-1 flex-col">
+        <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs font-semibold text-slate-600">병합 결과</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={() => onResolve(conflict.theirs)}
+              className="inline-flex h-8 items-center rounded-lg border border-[#dde6f2] bg-white px-3 text-xs font-medium text-slate-700"
+            >
+              다른 사용자 변경 사용
+            </button>
+            <button
+              type="button"
+              onClick={() => onResolve(conflict.mine)}
+              className="inline-flex h-8 items-center rounded-lg border border-[#dde6f2] bg-white px-3 text-xs font-medium text-slate-700"
+            >
+              내 변경 유지
+            </button>
+            <button
+              type="button"
+              onClick={() => onResolve(merged)}
+              disabled={unresolved}
+              title={unresolved ? '충돌 표시를 모두 정리해야 적용할 수 있습니다.' : undefined}
+              className="inline-flex h-8 items-center rounded-lg bg-[#4b74d9] px-3 text-xs font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              병합 결과 적용
+            </button>
+          </div>
+        </div>
+        <textarea
+          value={merged}
+          onChange={(e) => setMerged(e.target.value)}
+          spellCheck={false}
+          className="min-h-0 w-full flex-1 resize-none rounded-xl border border-[#e5ecf5] bg-[#fbfdff] p-3 font-mono text-[12px] leading-5 text-slate-800 outline-none focus:border-[#7da2ff] focus:ring-4 focus:ring-[#dfeaff]"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+'use client';
+
+import { useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { MessageSquare } from 'lucide-react';
+import { functions } from '../../lib/firebase';
+
+export type ReviewDecision = 'submit' | 'approve' | 'request_changes' | 'comment';
+export type ReviewState = 'draft' | 'in_review' | 'changes_requested' | 'approved' | 'outdated';
+
+export interface ReviewEvent {
+  id: number;
+  decision: ReviewDecision;
+  comment: string | null;
+  actorEmail: string;
+  revision: number;
+  createdAt: string;
+}
+
+export interface VersionReview {
+  promptVersionId: string;
+  state: ReviewState;
+  approvedBy: string[];
+  submittedBy: string | null;
+  thread: ReviewEvent[];
+}
+
+const STATE_STYLES: Record<ReviewState, { label: string; className: string }> = {
+  draft: { label: '초안', className: 'bg-slate-100 text-slate-500' },
+  in_review: { label: '리뷰 중', className: 'bg-[#eef4ff] text-[#3f67ca]' },
+  changes_requested: { label: '변경 요청', className: 'bg-[#fff1e6] text-[#b25a1d]' },
+  approved: { label: '승인됨', className: 'bg-[#e6f4ea] text-[#1f7a39]' },
+  outdated: { label: '재요청 필요', className: 'bg-amber-50 text-amber-700' },
+};
+
+const DECISION_LABELS: Record<ReviewDecision, string> = {
+  submit: '리뷰 요청',
+  approve: '승인',
+  request_changes: '변경 요청',
+  comment: '코멘트',
+};
+
+const reviewPromptVersion = httpsCallable(functions, 'reviewPromptVersion');
+const setPromptReviewPolicy = httpsCallable(functions, 'setPromptReviewPolicy');
+
+export function ReviewBadge({ review, requiredApprovals }: { review: VersionReview; requiredApprovals: number }) {
+  const style = STATE_STYLES[review.state];
+  const showCount = review.state === 'in_review' || review.state === 'approved';
+  return (
+    <span className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${style.className}`}>
+      {style.label}
+      {showCount && requiredApprovals > 0 ? ` ${review.approvedBy.length}/${requiredApprovals}` : ''}
+    </span>
+  );
+}
+
+export function ReviewThread({
+  promptTypeId,
+  version,
+  review,
+  requiredApprovals,
+  currentEmail,
+  canReview,
+  canManagePolicy,
+  onChanged,
+  getErrorMessage,
+}: {
+  promptTypeId: string;
+  version: { id: string; version: number; publishedAt: string | null };
+  review: VersionReview | null;
+  requiredApprovals: number;
+  currentEmail: string | null;
+  canReview: boolean;
+  canManagePolicy: boolean;
+  onChanged: () => void;
+  getErrorMessage: (err: unknown, fallback: string) => string;
+}) {
+  const [comment, setComment] = useState('');
+  const [pendingDecision, setPendingDecision] = useState<ReviewDecision | null>(null);
+  const [isSavingPolicy, setIsSavingPolicy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const state = review?.state ?? 'draft';
+  const isOpen = state === 'in_review' || state === 'changes_requested' || state === 'approved';
+  const isSubmitter = Boolean(currentEmail && review?.submittedBy === currentEmail);
+  const isClosed = Boolean(version.publishedAt);
+
+  const handleDecision = async (decision: ReviewDecision) => {
+    setPendingDecision(decision);
+    setError(null);
+    try {
+      await reviewPromptVersion({
+        promptTypeId,
+        promptVersionId: version.id,
+        decision,
+        comment: comment.trim() || null,
+      });
+      setComment('');
+      onChanged();
+    } catch (err) {
+      console.error('Error recording review:', err);
+      setError(getErrorMessage(err, '리뷰를 기록하지 못했습니다. 잠시 후 다시 시도해 주세요.'));
+    } finally {
+      setPendingDecision(null);
+    }
+  };
+
+  const handlePolicyChange = async (nextRequired: number) => {
+    setIsSavingPolicy(true);
+    setError(null);
+    try {
+      await setPromptReviewPolicy({ promptTypeId, requiredApprovals: nextRequired });
+      onChanged();
+    } catch (err) {
+      console.error('Error setting review policy:', err);
+      setError(getErrorMessage(err, '필요 승인 수를 변경하지 못했습니다.'));
+    } finally {
+      setIsSavingPolicy(false);
+    }
+  };
+
+  const actionButtonClass =
+    'inline-flex h-8 items-center rounded-lg border border-[#dde6f2] bg-white px-3 text-xs font-medium text-slate-700 transition hover:bg-[#f8fbff] disabled:cursor-not-allowed disabled:opacity-50';
+
+  return (
+    <div className="mt-2 rounded-xl border border-[#e8eef7] bg-[#fbfdff] p-3">
+      <div className="mb-2 flex flex-wrap items-center gap-2 text-xs text-slate-500">
+        <MessageSquare className="h-3.5 w-3.5" />
+        <span className="font-semibold text-slate-700">v{version.version} 리뷰</span>
+        {review && <ReviewBadge review={review} requiredApprovals={requiredApprovals} />}
+        {review?.approvedBy.length ? <span>승인: {review.approvedBy.join(', ')}</span> : null}
+        <label className="ml-auto inline-flex items-center gap-1.5">
+          필요 승인 수
+          <select
+            value={requiredApprovals}
+            onChange={(e) => handlePolicyChange(Number(e.target.value))}
+            disabled={!canManagePolicy || isSavingPolicy}
+            title={canManagePolicy ? undefined : 'admin만 변경할 수 있습니다.'}
+            className="h-7 rounded-md border border-[#dfe7f2] bg-white px-1.5 text-xs text-slate-700 outline-none disabled:opacity-60"
+          >
+            {[0, 1, 2, 3].map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {review && review.thread.length > 0 ? (
+        <ol className="mb-2 space-y-1.5">
+          {review.thread.map((event) => (
+            <li key={event.id} className="rounded-lg border border-[#eef2f8] bg-white px-2.5 py-1.5 text-xs">
+              <span className="font-semibold text-slate-700">{event.actorEmail}</span>
+              <span className="text-slate-500">
+                {' '}
+                · {DECISION_LABELS[event.decision]} · rev {event.revision} · {event.createdAt}
+              </span>
+              {event.comment && <p className="mt-0.5 whitespace-pre-wrap text-slate-700">{event.comment}</p>}
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="mb-2 text-xs text-slate-400">리뷰 기록이 없습니다.</p>
+      )}
+
+      {error && (
+        <div className="mb-2 rounded-lg border border-rose-200 bg-rose-50 px-2.5 py-1.5 text-xs text-rose-700">{error}</div>
+      )}
+
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        disabled={!canReview}
+        rows={2}
+        placeholder="코멘트 (변경 요청 시 필수)"
+        className="w-full resize-none rounded-lg border border-[#e5ecf5] bg-white p-2 text-xs text-slate-800 outline-none focus:border-[#7da2ff] disabled:opacity-60"
+      />
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => handleDecision('comment')}
+          disabled={!canReview || !comment.trim() || pendingDecision !== null}
+          className={actionButtonClass}
+        >
+          {pendingDecision === 'comment' ? '등록 중...' : '코멘트'}
+        </button>
+        {!isClosed && (
+          <>
+            <button
+              type="button"
+              onClick={() => handleDecision('submit')}
+              disabled={!canReview || state === 'in_review' || state === 'approved' || pendingDecision !== null}
+              className={actionButtonClass}
+            >
+              {pendingDecision === 'submit' ? '요청 중...' : '리뷰 요청'}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDecision('request_changes')}
+              disabled={!canReview || !isOpen || isSubmitter || !comment.trim() || pendingDecision !== null}
+              title={isSubmitter ? '직접 요청한 리뷰는 검토할 수 없습니다.' : undefined}
+              className={actionButtonClass}
+            >
+              {pendingDecision === 'request_changes' ? '등록 중...' : '변경 요청'}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDecision('approve')}
+              disabled={!canReview || !isOpen || isSubmitter || pendingDecision !== null}
+              title={isSubmitter ? '직접 요청한 리뷰는 승인할 수 없습니다.' : undefined}
+              className="inline-flex h-8 items-center rounded-lg bg-[#4b74d9] px-3 text-xs font-semibold text-white transition hover:bg-[#3f67ca] disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {pendingDecision === 'approve' ? '승인 중...' : '승인'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
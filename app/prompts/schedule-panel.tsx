@@ -0,0 +1,211 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { CalendarClock, X } from 'lucide-react';
+import { functions } from '../../lib/firebase';
+
+interface ActivationSchedule {
+  id: number;
+  promptTypeId: string;
+  promptVersionId: string;
+  version: number | null;
+  runAt: string;
+  status: 'pending' | 'running' | 'applied' | 'cancelled' | 'failed';
+  createdBy: string;
+  createdAt: string;
+  appliedAt: string | null;
+  cancelledBy: string | null;
+  error: string | null;
+}
+
+const STATUS_LABELS: Record<ActivationSchedule['status'], string> = {
+  pending: '대기',
+  running: '적용 중',
+  applied: '적용됨',
+  cancelled: '취소됨',
+  failed: '실패',
+};
+
+const getPromptActivationSchedules = httpsCallable(functions, 'getPromptActivationSchedules');
+const schedulePromptActivation = httpsCallable(functions, 'schedulePromptActivation');
+const cancelPromptActivationSchedule = httpsCallable(functions, 'cancelPromptActivationSchedule');
+
+// datetime-local 입력은 로컬 시각 문자열이므로 기본값도 로컬 기준으로 만든다.
+function toLocalInputValue(date: Date) {
+  const offset = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+export function SchedulePanel({
+  promptTypeId,
+  selectedVersion,
+  canPublish,
+  getErrorMessage,
+}: {
+  promptTypeId: string;
+  selectedVersion: { id: string; version: number; isActive: boolean } | null;
+  canPublish: boolean;
+  getErrorMessage: (err: unknown, fallback: string) => string;
+}) {
+  const [schedules, setSchedules] = useState<ActivationSchedule[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [includeDone, setIncludeDone] = useState(false);
+  const [runAtLocal, setRunAtLocal] = useState(() => toLocalInputValue(new Date(Date.now() + 60 * 60_000)));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [cancellingId, setCancellingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSchedules = async () => {
+    setIsLoading(true);
+    try {
+      const result = await getPromptActivationSchedules({ promptTypeId, includeDone });
+      const data = result.data as { schedules?: ActivationSchedule[] };
+      setSchedules(data.schedules ?? []);
+    } catch (err) {
+      console.error('Error loading activation schedules:', err);
+      setError(getErrorMessage(err, '예약 목록을 불러오지 못했습니다.'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setSchedules([]);
+    setError(null);
+    void loadSchedules();
+  }, [promptTypeId, includeDone]);
+
+  const hasPending = schedules.some((schedule) => schedule.status === 'pending');
+
+  const handleSchedule = async () => {
+    if (!selectedVersion) return;
+    const runAt = new Date(runAtLocal);
+    if (Number.isNaN(runAt.getTime())) {
+      setError('예약 시각을 입력해 주세요.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await schedulePromptActivation({
+        promptTypeId,
+        promptVersionId: selectedVersion.id,
+        runAt: runAt.toISOString(),
+      });
+      await loadSchedules();
+    } catch (err) {
+      console.error('Error scheduling activation:', err);
+      setError(getErrorMessage(err, '예약에 실패했습니다. 잠시 후 다시 시도해 주세요.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (schedule: ActivationSchedule) => {
+    if (!window.confirm(`v${schedule.version ?? '?'} 예약(${new Date(schedule.runAt).toLocaleString()})을 취소할까요?`)) return;
+
+    setCancellingId(schedule.id);
+    setError(null);
+    try {
+      await cancelPromptActivationSchedule({ scheduleId: schedule.id });
+      await loadSchedules();
+    } catch (err) {
+      console.error('Error cancelling activation schedule:', err);
+      setError(getErrorMessage(err, '예약 취소에 실패했습니다.'));
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  return (
+    <div className="flex h-full min-h-0 flex-col">
+      <div className="flex flex-wrap items-end gap-2 pb-3">
+        <label className="flex flex-col gap-1 text-xs text-slate-500">
+          적용 시각 (브라우저 로컬 시간)
+          <input
+            type="datetime-local"
+            value={runAtLocal}
+            onChange={(e) => setRunAtLocal(e.target.value)}
+            className="h-9 rounded-lg border border-[#dfe7f2] bg-white px-3 text-xs text-slate-700 outline-none focus:border-[#7da2ff]"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={handleSchedule}
+          disabled={!canPublish || !selectedVersion || selectedVersion.isActive || hasPending || isSubmitting}
+          title={
+            !canPublish
+              ? 'publisher 이상의 권한이 필요합니다.'
+              : hasPending
+                ? '대기 중인 예약을 먼저 취소해야 합니다.'
+                : undefined
+          }
+          className="inline-flex h-9 items-center gap-2 rounded-lg bg-[#4b74d9] px-3 text-xs font-semibold text-white transition hover:bg-[#3f67ca] disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <CalendarClock className="h-4 w-4" />
+          {isSubmitting ? '예약 중...' : selectedVersion ? `v${selectedVersion.version} 활성화 예약` : '버전을 선택하세요'}
+        </button>
+        <label className="ml-auto inline-flex items-center gap-1.5 text-xs text-slate-500">
+          <input type="checkbox" checked={includeDone} onChange={(e) => setIncludeDone(e.target.checked)} />
+          완료/취소 포함
+        </label>
+      </div>
+
+      {error && (
+        <div className="mb-3 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</div>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-y-auto">
+        {schedules.length === 0 ? (
+          <div className="rounded-xl border border-dashed border-[#dfe7f2] bg-[#fafcff] p-4 text-sm text-slate-500">
+            {isLoading ? '불러오는 중...' : '예약된 활성화가 없습니다.'}
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {schedules.map((schedule) => (
+              <li
+                key={schedule.id}
+                className="flex flex-wrap items-center gap-2 rounded-xl border border-[#e8eef7] bg-white px-3 py-2.5"
+              >
+                <span className="text-sm font-semibold text-slate-900">v{schedule.version ?? '?'}</span>
+                <span
+                  className={[
+                    'rounded-full px-2 py-0.5 text-[11px] font-semibold',
+                    schedule.status === 'pending'
+                      ? 'bg-[#eef4ff] text-[#3f67ca]'
+                      : schedule.status === 'applied'
+                        ? 'bg-[#e6f4ea] text-[#1f7a39]'
+                        : schedule.status === 'failed'
+                          ? 'bg-rose-50 text-rose-700'
+                          : 'bg-slate-100 text-slate-500',
+                  ].join(' ')}
+                >
+                  {STATUS_LABELS[schedule.status]}
+                </span>
+                <span className="text-xs text-slate-700">{new Date(schedule.runAt).toLocaleString()}</span>
+                <span className="text-xs text-slate-500">
+                  {schedule.createdBy}
+                  {schedule.cancelledBy ? ` · 취소: ${schedule.cancelledBy}` : ''}
+                </span>
+                {schedule.error && <span className="w-full text-xs text-rose-600">{schedule.error}</span>}
+                {schedule.status === 'pending' && (
+                  <button
+                    type="button"
+                    onClick={() => handleCancel(schedule)}
+                    disabled={!canPublish || cancellingId !== null}
+                    className="ml-auto inline-flex h-8 items-center gap-1.5 rounded-lg border border-[#dde6f2] bg-white px-2.5 text-xs font-medium text-slate-700 transition hover:bg-[#f8fbff] disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                    {cancellingId === schedule.id ? '취소 중...' : '예약 취소'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { CheckCircle2, FlaskConical, Plus, Trash2, XCircle } from 'lucide-react';
+import { functions } from '../../lib/firebase';
+import { checkJsonSchema, formatPointer, validateSamples, type SchemaIssue } from '../../lib/json-schema';
+import type { PromptVersion } from '../../packages/prompt-client/src/types';
+
+export interface SchemaSample {
+  id: number;
+  promptTypeId: string;
+  name: string;
+  content: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+const addSchemaSample = httpsCallable(functions, 'addSchemaSample');
+const deleteSchemaSample = httpsCallable(functions, 'deleteSchemaSample');
+
+// 버전 열이 너무 많아지지 않도록 최신 버전부터 일부만 비교한다.
+export const MAX_VERSION_COLUMNS = 8;
+
+export function IssueList({ issues }: { issues: SchemaIssue[] }) {
+  return (
+    <ul className="space-y-0.5">
+      {issues.map((issue, index) => (
+        <li key={index} className="font-mono text-[11px]">
+          <span className="font-semibold">{formatPointer(issue.path)}</span> {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function SchemaSamplesPanel({
+  promptTypeId,
+  versions,
+  samples,
+  selectedVersionId,
+  isLoading,
+  canEdit,
+  onChanged,
+  getErrorMessage,
+}: {
+  promptTypeId: string;
+  versions: PromptVersion[];
+  samples: SchemaSample[];
+  selectedVersionId: string | null;
+  isLoading: boolean;
+  canEdit: boolean;
+  onChanged: () => void;
+  getErrorMessage: (err: unknown, fallback: string) => string;
+}) {
+  const [name, setName] = useState('');
+  const [content, setContent] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const columns = useMemo(
+    () => [...versions].sort((a, b) => b.version - a.version).slice(0, MAX_VERSION_COLUMNS),
+    [versions],
+  );
+  const results = useMemo(
+    () =>
+      new Map(
+        columns.map((version) => {
+          const check = checkJsonSchema(version.content);
+          return [version.id, { check, samples: validateSamples(check, samples) }] as const;
+        }),
+      ),
+    [columns, samples],
+  );
+  const selectedVersion = versions.find((version) => version.id === selectedVersionId) ?? null;
+  const selected = useMemo(() => {
+    if (!selectedVersion) return undefined;
+    const cached = results.get(selectedVersion.id);
+    if (cached) return cached;
+    const check = checkJsonSchema(selectedVersion.content);
+    return { check, samples: validateSamples(check, samples) };
+  }, [results, samples, selectedVersion]);
+
+  const draftError = useMemo(() => {
+    if (!content.trim()) return null;
+    try {
+      JSON.parse(content);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : 'JSON 파싱 실패';
+    }
+  }, [content]);
+
+  const handleAdd = async () => {
+    if (!name.trim() || !content.trim() || draftError) return;
+    setIsAdding(true);
+    setError(null);
+    try {
+      await addSchemaSample({ promptTypeId, name: name.trim(), content });
+      setName('');
+      setContent('');
+      onChanged();
+    } catch (err) {
+      console.error('Error adding schema sample:', err);
+      setError(getErrorMessage(err, '샘플 추가에 실패했습니다.'));
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleDelete = async (sample: SchemaSample) => {
+    if (!window.confirm(`'${sample.name}' 샘플을 삭제할까요? 이후 스키마 검증에서 제외됩니다.`)) return;
+    setDeletingId(sample.id);
+    setError(null);
+    try {
+      await deleteSchemaSample({ sampleId: sample.id });
+      onChanged();
+    } catch (err) {
+      console.error('Error deleting schema sample:', err);
+      setError(getErrorMessage(err, '샘플 삭제에 실패했습니다.'));
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center gap-2">
+          <FlaskConical className="h-4 w-4 text-[#3f67ca]" />
+          <h4 className="text-sm font-semibold text-slate-900">샘플 출력 검증</h4>
+        </div>
+        <p className="mt-1 text-xs text-slate-500">
+          실제 모델 출력을 샘플로 등록해 두면, 샘플을 거부하는 스키마 버전은 저장과 ACTIVE 지정이 차단됩니다.
+        </p>
+      </div>
+
+      {canEdit && (
+        <div className="space-y-2 rounded-xl border border-[#e8eef7] bg-[#fbfdff] p-3">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="샘플 이름 (예: 10/18 운영 응답)"
+            className="h-9 w-full rounded-lg border border-[#dfe7f2] bg-white px-3 text-sm text-slate-900 outline-none focus:border-[#7da2ff]"
+          />
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder='{"answer": "..."}'
+            spellCheck={false}
+            className="h-28 w-full resize-y rounded-lg border border-[#dfe7f2] bg-white p-3 font-mono text-[12px] text-slate-800 outline-none focus:border-[#7da2ff]"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={!name.trim() || !content.trim() || Boolean(draftError) || isAdding}
+              className="inline-flex h-8 items-center gap-1.5 rounded-lg bg-[#4b74d9] px-3 text-xs font-semibold text-white transition hover:bg-[#3f67ca] disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <Plus className="h-3.5 w-3.5" />
+              {isAdding ? '추가 중...' : '샘플 추가'}
+            </button>
+            {draftError && <span className="text-xs text-rose-600">JSON 오류: {draftError}</span>}
+          </div>
+        </div>
+      )}
+
+      {error && <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>}
+
+      {samples.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-[#dfe7f2] bg-[#fafcff] p-4 text-sm text-slate-500">
+          {isLoading ? '불러오는 중...' : '등록된 샘플이 없습니다.'}
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-[#e8eef7]">
+          <table className="w-full text-left text-xs">
+            <thead className="bg-[#f8fafd] text-slate-500">
+              <tr>
+                <th className="px-3 py-2 font-semibold">샘플</th>
+                {columns.map((version) => (
+                  <th
+                    key={version.id}
+                    className={[
+                      'px-2 py-2 text-center font-semibold',
+                      version.id === selectedVersionId ? 'text-[#3f67ca]' : '',
+                    ].join(' ')}
+                  >
+                    v{version.version}
+                    {version.isActive ? ' ●' : ''}
+                  </th>
+                ))}
+                <th className="px-2 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {samples.map((sample) => (
+                <tr key={sample.id} className="border-t border-[#eef2f8]">
+                  <td className="px-3 py-2">
+                    <p className="font-semibold text-slate-800">{sample.name}</p>
+                    <p className="text-[11px] text-slate-400">
+                      {sample.createdBy} · {sample.createdAt}
+                    </p>
+                  </td>
+                  {columns.map((version) => {
+                    const result = results.get(version.id);
+                    const issues = result?.samples?.find((entry) => entry.sampleId === sample.id)?.errors;
+                    return (
+                      <td key={version.id} className="px-2 py-2 text-center">
+                        {!result?.samples ? (
+                          <span className="text-slate-300" title="스키마 자체가 유효하지 않습니다.">
+                            —
+                          </span>
+                        ) : issues?.length ? (
+                          <span
+                            className="inline-flex"
+                            title={issues.map((issue) => `${formatPointer(issue.path)} ${issue.message}`).join('\n')}
+                          >
+                            <XCircle className="h-4 w-4 text-rose-500" aria-label="거부" />
+                          </span>
+                        ) : (
+                          <CheckCircle2 className="mx-auto h-4 w-4 text-emerald-500" aria-label="통과" />
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="px-2 py-2 text-right">
+                    {canEdit && (
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(sample)}
+                        disabled={deletingId !== null}
+                        className="inline-flex h-7 w-7 items-center justify-center rounded-md border border-[#dde6f2] text-slate-500 transition hover:text-rose-600 disabled:opacity-50"
+                        aria-label={`${sample.name} 삭제`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selectedVersion && selected && (
+        <div className="rounded-xl border border-[#e8eef7] bg-white p-3 text-xs text-slate-700">
+          <p className="font-semibold text-slate-900">v{selectedVersion.version} 검증 결과</p>
+          {selected.check.errors.length > 0 ? (
+            <div className="mt-2 text-rose-700">
+              <p className="mb-1">JSON Schema(2020-12)로 유효하지 않습니다.</p>
+              <IssueList issues={selected.check.errors} />
+            </div>
+          ) : (
+            <div className="mt-2 space-y-2">
+              <p className="text-emerald-700">유효한 JSON Schema(2020-12)입니다.</p>
+              {selected.samples
+                ?.filter((result) => result.errors.length > 0)
+                .map((result) => (
+                  <div key={result.sampleId} className="rounded-lg bg-rose-50 px-3 py-2 text-rose-700">
+                    <p className="mb-1 font-semibold">
+                      {samples.find((sample) => sample.id === result.sampleId)?.name} 거부
+                    </p>
+                    <IssueList issues={result.errors} />
+                  </div>
+                ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
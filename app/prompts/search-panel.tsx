@@ -0,0 +1,176 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { Search } from 'lucide-react';
+import { functions } from '../../lib/firebase';
+
+// functions/src/search.ts의 SearchHit와 같은 모양이다.
+export interface SearchHit {
+  promptTypeId: string;
+  promptTypeName: string;
+  promptVersionId: string;
+  version: number;
+  isActive: boolean;
+  createdAt: string | null;
+  line: number;
+  column: number;
+  snippet: Array<{ text: string; match: boolean }>;
+}
+
+const searchPrompts = httpsCallable(functions, 'searchPrompts');
+
+export function SearchPanel({
+  promptTypes,
+  onOpenHit,
+  getErrorMessage,
+}: {
+  promptTypes: Array<{ id: string; title: string }>;
+  // 결과를 편집기로 열지 못하면(목록에 없는 버전 등) false를 돌려준다.
+  onOpenHit: (hit: SearchHit) => Promise<boolean>;
+  getErrorMessage: (err: unknown, fallback: string) => string;
+}) {
+  const [query, setQuery] = useState('');
+  const [promptTypeId, setPromptTypeId] = useState('');
+  const [activeOnly, setActiveOnly] = useState(false);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [hits, setHits] = useState<SearchHit[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSearch = async (e?: FormEvent) => {
+    e?.preventDefault();
+    if (!query.trim()) return;
+    setIsSearching(true);
+    setError(null);
+    try {
+      const result = await searchPrompts({
+        query,
+        promptTypeId: promptTypeId || null,
+        activeOnly,
+        from: from || null,
+        to: to || null,
+      });
+      const data = result.data as { hits?: SearchHit[] };
+      setHits(data.hits ?? []);
+    } catch (err) {
+      console.error('Error searching prompts:', err);
+      setError(getErrorMessage(err, '검색에 실패했습니다. 잠시 후 다시 시도해 주세요.'));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleOpen = async (hit: SearchHit) => {
+    if (!(await onOpenHit(hit))) {
+      setError(`v${hit.version}을 목록에서 찾지 못했습니다. 페이지를 새로고침한 뒤 다시 시도해 주세요.`);
+    }
+  };
+
+  return (
+    <div className="flex h-full min-h-0 flex-col rounded-2xl border border-[#e5ecf5] bg-white shadow-sm">
+      <form onSubmit={handleSearch} className="space-y-3 border-b border-[#eef2f8] p-4">
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder='모든 버전의 내용 검색 (예: 환불 "정중하게 처리")'
+              className="h-10 w-full rounded-xl border border-[#dfe7f2] bg-[#fbfdff] pl-10 pr-3 text-sm text-slate-900 outline-none transition placeholder:text-slate-400 focus:border-[#7da2ff] focus:ring-4 focus:ring-[#dfeaff]"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSearching || !query.trim()}
+            className="inline-flex h-10 items-center rounded-xl bg-[#4b74d9] px-4 text-sm font-semibold text-white transition hover:bg-[#3f67ca] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isSearching ? '검색 중...' : '검색'}
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+          <select
+            value={promptTypeId}
+            onChange={(e) => setPromptTypeId(e.target.value)}
+            className="h-8 rounded-lg border border-[#dfe7f2] bg-white px-2 text-xs text-slate-700 outline-none"
+            aria-label="타입 필터"
+          >
+            <option value="">모든 타입</option>
+            {promptTypes.map((type) => (
+              <option key={type.id} value={type.id}>
+                {type.title}
+              </option>
+            ))}
+          </select>
+          <label className="inline-flex items-center gap-1.5">
+            <input type="checkbox" checked={activeOnly} onChange={(e) => setActiveOnly(e.target.checked)} />
+            ACTIVE 버전만
+          </label>
+          <label className="inline-flex items-center gap-1.5">
+            생성일
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="h-8 rounded-lg border border-[#dfe7f2] bg-white px-2 text-xs text-slate-700 outline-none"
+            />
+            ~
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="h-8 rounded-lg border border-[#dfe7f2] bg-white px-2 text-xs text-slate-700 outline-none"
+            />
+          </label>
+          <span className="text-slate-400">단어는 앞부분 일치, 큰따옴표로 묶으면 구문 일치</span>
+        </div>
+      </form>
+
+      {error && <div className="mx-4 mt-4 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>}
+
+      <div className="min-h-0 flex-1 overflow-y-auto p-4">
+        {hits === null ? (
+          <p className="text-sm text-slate-500">검색어를 입력하고 Enter를 누르세요.</p>
+        ) : hits.length === 0 ? (
+          <div className="rounded-xl border border-dashed border-[#dfe7f2] bg-[#fafcff] p-4 text-sm text-slate-500">검색 결과가 없습니다.</div>
+        ) : (
+          <ul className="space-y-2">
+            {hits.map((hit) => (
+              <li key={hit.promptVersionId}>
+                <button
+                  type="button"
+                  onClick={() => handleOpen(hit)}
+                  className="w-full rounded-xl border border-[#e8eef7] bg-white px-3 py-2.5 text-left transition hover:border-[#cfe0ff] hover:bg-[#f8fbff]"
+                >
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <span className="font-semibold text-slate-900">{hit.promptTypeName}</span>
+                    <span className="font-semibold text-slate-700">v{hit.version}</span>
+                    {hit.isActive && (
+                      <span className="rounded-full bg-[#e6f4ea] px-2 py-0.5 text-[11px] font-semibold text-[#1f7a39]">ACTIVE</span>
+                    )}
+                    <span className="text-slate-400">
+                      {hit.line}번째 줄{hit.createdAt ? ` · ${hit.createdAt}` : ''}
+                    </span>
+                  </div>
+                  <p className="mt-1 truncate font-mono text-[12px] text-slate-600">
+                    {hit.snippet.map((segment, index) =>
+                      segment.match ? (
+                        <mark key={index} className="rounded bg-amber-100 px-0.5 text-slate-900">
+                          {segment.text}
+                        </mark>
+                      ) : (
+                        <span key={index}>{segment.text}</span>
+                      ),
+                    )}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+import { useMemo, useState, type ReactNode } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  TEMPLATE_VARIABLE_TYPES,
+  renderTemplate,
+  tokenizeTemplate,
+  VARIABLE_NAME_PATTERN,
+  type TemplateCheck,
+  type TemplateVariable,
+} from '../../packages/prompt-client/src/template';
+
+export function createVariable(name: string): TemplateVariable {
+  return { name, type: 'string', required: true, default: null };
+}
+
+export function TemplateIssues({
+  check,
+  readOnly,
+  onDeclare,
+}: {
+  check: TemplateCheck;
+  readOnly: boolean;
+  onDeclare: (names: string[]) => void;
+}) {
+  if (!check.undeclared.length && !check.unused.length) {
+    return check.placeholders.length ? (
+      <span className="rounded-full bg-emerald-50 px-2 py-0.5 text-xs font-semibold text-emerald-700">
+        변수 {check.placeholders.length}개 선언됨
+      </span>
+    ) : null;
+  }
+
+  return (
+    <>
+      {check.undeclared.length > 0 && (
+        <span className="rounded-full bg-rose-50 px-2 py-0.5 text-xs font-semibold text-rose-700">
+          미선언: {check.undeclared.map((name) => `{{${name}}}`).join(', ')}
+        </span>
+      )}
+      {check.undeclared.length > 0 && !readOnly && (
+        <button
+          type="button"
+          onClick={() => onDeclare(check.undeclared)}
+          className="inline-flex h-7 items-center rounded-lg border border-rose-200 bg-white px-2 text-xs font-medium text-rose-700"
+        >
+          선언 추가
+        </button>
+      )}
+      {check.unused.length > 0 && (
+        <span className="rounded-full bg-amber-50 px-2 py-0.5 text-xs font-semibold text-amber-700">
+          미사용: {check.unused.join(', ')}
+        </span>
+      )}
+    </>
+  );
+}
+
+export function HighlightedTemplate({ content, variables }: { content: string; variables: TemplateVariable[] }) {
+  const declared = useMemo(() => new Set(variables.map((variable) => variable.name)), [variables]);
+  const segments = useMemo(() => tokenizeTemplate(content), [content]);
+
+  if (!content.trim()) return <>내용이 비어 있습니다.</>;
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.kind === 'text' ? (
+          <span key={index}>{segment.text}</span>
+        ) : segment.kind === 'include' ? (
+          <mark
+            key={index}
+            title={segment.version === null ? `${segment.target}의 ACTIVE 버전` : `${segment.target} v${segment.version}`}
+            className="rounded bg-violet-100 px-0.5 font-mono text-[13px] text-violet-700"
+          >
+            {segment.raw}
+          </mark>
+        ) : (
+          <mark
+            key={index}
+            title={declared.has(segment.name) ? undefined : '선언되지 않은 변수입니다.'}
+            className={[
+              'rounded px-0.5 font-mono text-[13px]',
+              declared.has(segment.name) ? 'bg-[#e4efff] text-[#3f67ca]' : 'bg-rose-100 text-rose-700',
+            ].join(' ')}
+          >
+            {segment.raw}
+          </mark>
+        ),
+      )}
+    </>
+  );
+}
+
+// Output이 있으면 채운 텍스트 대신 그것으로 결과를 그린다(예: 대화 형식).
+export function RenderPreview({
+  content,
+  variables,
+  Output,
+}: {
+  content: string;
+  variables: TemplateVariable[];
+  Output?: ((props: { content: string; variables: TemplateVariable[]; values: Record<string, string> }) => ReactNode) | null;
+}) {
+  const [samples, setSamples] = useState<Record<string, string>>({});
+  const result = useMemo(() => renderTemplate(content, variables, samples), [content, variables, samples]);
+
+  return (
+    <div className="flex h-full min-h-0 flex-col gap-3">
+      {variables.length === 0 ? (
+        <p className="text-xs text-slate-500">선언된 변수가 없습니다. 변수 탭에서 선언하면 샘플 값을 넣어 볼 수 있습니다.</p>
+      ) : (
+        <div className="space-y-2">
+          {variables.map((variable) => {
+            const issue = result.errors.find((error) => error.name === variable.name);
+            return (
+              <label key={variable.name} className="block text-xs text-slate-600">
+                <span className="font-mono font-semibold">{variable.name}</span>
+                <span className="text-slate-400">
+                  {' '}
+                  · {variable.type}
+                  {variable.required ? ' · 필수' : ''}
+                </span>
+                <input
+                  value={samples[variable.name] ?? ''}
+                  onChange={(e) => setSamples((prev) => ({ ...prev, [variable.name]: e.target.value }))}
+                  placeholder={variable.default ?? '샘플 값'}
+                  className={[
+                    'mt-1 h-8 w-full rounded-lg border bg-white px-2 text-xs text-slate-800 outline-none focus:border-[#7da2ff]',
+                    issue ? 'border-rose-300' : 'border-[#dfe7f2]',
+                  ].join(' ')}
+                />
+                {issue && <span className="mt-0.5 block text-[11px] text-rose-600">{issue.message}</span>}
+              </label>
+            );
+          })}
+        </div>
+      )}
+      <div className="min-h-0 flex-1 overflow-y-auto rounded-lg bg-[#f8fafd] p-4">
+        {Output ? (
+          <Output content={content} variables={variables} values={samples} />
+        ) : (
+          <div className="whitespace-pre-wrap break-words text-sm leading-7 text-slate-700">
+            {result.text.trim() || '내용이 비어 있습니다.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function VariablesEditor({
+  variables,
+  unused,
+  readOnly,
+  onChange,
+}: {
+  variables: TemplateVariable[];
+  unused: string[];
+  readOnly: boolean;
+  onChange: (variables: TemplateVariable[]) => void;
+}) {
+  const update = (index: number, patch: Partial<TemplateVariable>) => {
+    onChange(variables.map((variable, i) => (i === index ? { ...variable, ...patch } : variable)));
+  };
+  const names = variables.map((variable) => variable.name);
+
+  return (
+    <div className="space-y-2">
+      {variables.length === 0 && <p className="text-xs text-slate-500">선언된 변수가 없습니다.</p>}
+      {variables.map((variable, index) => {
+        const isDuplicate = names.indexOf(variable.name) !== index;
+        const isInvalid = !VARIABLE_NAME_PATTERN.test(variable.name);
+        return (
+          <div key={index} className="rounded-lg border border-[#e8eef7] bg-white p-2">
+            <div className="flex items-center gap-2">
+              <input
+                value={variable.name}
+                onChange={(e) => update(index, { name: e.target.value.trim() })}
+                disabled={readOnly}
+                placeholder="name"
+                className={[
+                  'h-8 min-w-0 flex-1 rounded-md border px-2 font-mono text-xs text-slate-800 outline-none',
+                  isDuplicate || isInvalid ? 'border-rose-300' : 'border-[#dfe7f2]',
+                ].join(' ')}
+              />
+              <select
+                value={variable.type}
+                onChange={(e) => update(index, { type: e.target.value as TemplateVariable['type'] })}
+                disabled={readOnly}
+                className="h-8 rounded-md border border-[#dfe7f2] bg-white px-1.5 text-xs text-slate-700 outline-none"
+              >
+                {TEMPLATE_VARIABLE_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => onChange(variables.filter((_, i) => i !== index))}
+                disabled={readOnly}
+                className="inline-flex h-8 w-8 items-center justify-center rounded-md border border-[#dde6f2] text-slate-500 disabled:opacity-50"
+                aria-label={`${variable.name} 삭제`}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+            <div className="mt-1.5 flex items-center gap-2">
+              <label className="inline-flex items-center gap-1 text-xs text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={variable.required}
+                  onChange={(e) => update(index, { required: e.target.checked })}
+                  disabled={readOnly}
+                />
+                필수
+              </label>
+              <input
+                value={variable.default ?? ''}
+                onChange={(e) => update(index, { default: e.target.value === '' ? null : e.target.value })}
+                disabled={readOnly}
+                placeholder="기본값"
+                className="h-7 min-w-0 flex-1 rounded-md border border-[#dfe7f2] px-2 text-xs text-slate-800 outline-none"
+              />
+            </div>
+            {(isDuplicate || isInvalid || unused.includes(variable.name)) && (
+              <p className="mt-1 text-[11px] text-amber-700">
+                {isInvalid
+                  ? '이름은 영문/숫자/_ 로만, 숫자로 시작할 수 없습니다.'
+                  : isDuplicate
+                    ? '같은 이름이 이미 선언되어 있습니다.'
+                    : '본문에서 사용되지 않는 변수입니다.'}
+              </p>
+            )}
+          </div>
+        );
+      })}
+      {!readOnly && (
+        <button
+          type="button"
+          onClick={() => onChange([...variables, createVariable('')])}
+          className="inline-flex h-8 items-center gap-1.5 rounded-lg border border-[#dde6f2] bg-white px-3 text-xs font-medium text-slate-700"
+        >
+          <Plus className="h-3.5 w-3.5" />
+          변수 추가
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { Crown, Split } from 'lucide-react';
+import { functions } from '../../lib/firebase';
+import type { PromptVersionSummary } from '../../packages/prompt-client/src/types';
+
+// functions/src/traffic.ts의 TrafficArm/TrafficSplit과 같은 모양이다.
+export interface TrafficArm {
+  promptVersionId: string;
+  version: number;
+  weight: number;
+}
+
+export interface TrafficSplit {
+  arms: TrafficArm[];
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+const setPromptTrafficSplit = httpsCallable(functions, 'setPromptTrafficSplit');
+const setActivePromptVersion = httpsCallable(functions, 'setActivePromptVersion');
+
+export function TrafficBadge({ weight }: { weight: number }) {
+  return (
+    <span
+      className="rounded-full bg-violet-100 px-2 py-0.5 text-[11px] font-semibold text-violet-700"
+      title="subject 키를 보낸 호출 중 이 버전을 받는 비율입니다."
+    >
+      트래픽 {weight}%
+    </span>
+  );
+}
+
+// 분할이 없으면 ACTIVE 버전이 100%를 받는 것으로 보여 준다.
+function toWeights(versions: PromptVersionSummary[], split: TrafficSplit | null) {
+  const weights: Record<string, number> = {};
+  for (const version of versions) weights[version.id] = 0;
+  if (split?.arms.length) {
+    for (const arm of split.arms) weights[arm.promptVersionId] = arm.weight;
+  } else {
+    const active = versions.find((version) => version.isActive);
+    if (active) weights[active.id] = 100;
+  }
+  return weights;
+}
+
+export function TrafficPanel({
+  promptTypeId,
+  versions,
+  split,
+  isLoading,
+  canPublish,
+  onChanged,
+  onPromoted,
+  getErrorMessage,
+}: {
+  promptTypeId: string;
+  versions: PromptVersionSummary[];
+  split: TrafficSplit | null;
+  isLoading: boolean;
+  canPublish: boolean;
+  onChanged: () => void;
+  onPromoted: () => void;
+  getErrorMessage: (err: unknown, fallback: string) => string;
+}) {
+  const [weights, setWeights] = useState<Record<string, number>>(() => toWeights(versions, split));
+  const [isSaving, setIsSaving] = useState(false);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setWeights(toWeights(versions, split));
+    setError(null);
+  }, [versions, split]);
+
+  const sortedVersions = useMemo(() => [...versions].sort((a, b) => b.version - a.version), [versions]);
+  const activeVersion = versions.find((version) => version.isActive) ?? null;
+  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  const armCount = Object.values(weights).filter((weight) => weight > 0).length;
+  const isDirty = useMemo(() => {
+    const saved = toWeights(versions, split);
+    return versions.some((version) => (weights[version.id] ?? 0) !== saved[version.id]);
+  }, [versions, split, weights]);
+  const hasSplit = Boolean(split?.arms.length);
+
+  const handleSave = async () => {
+    const arms = sortedVersions
+      .filter((version) => (weights[version.id] ?? 0) > 0)
+      .map((version) => ({ promptVersionId: version.id, weight: weights[version.id] }));
+    const unpublished = sortedVersions.filter(
+      (version) => !version.publishedAt && !version.isActive && (weights[version.id] ?? 0) > 0,
+    );
+    if (
+      unpublished.length &&
+      !window.confirm(
+        `${unpublished.map((version) => `v${version.version}`).join(', ')}에 트래픽을 주면 게시된 버전이 되어 더 이상 수정할 수 없습니다.\n\n계속할까요?`,
+      )
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await setPromptTrafficSplit({ promptTypeId, arms: armCount > 1 ? arms : [] });
+      onChanged();
+    } catch (err) {
+      console.error('Error saving traffic split:', err);
+      setError(getErrorMessage(err, '트래픽 분할 저장에 실패했습니다.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 승자에게 100%를 준다. ACTIVE가 아닌 버전은 ACTIVE로 지정하면 분할이 함께 끝난다.
+  const handlePromote = async (arm: TrafficArm) => {
+    const isActiveArm = arm.promptVersionId === activeVersion?.id;
+    const message = isActiveArm
+      ? `분할을 끝내고 ACTIVE 버전 v${arm.version}에 트래픽 100%를 줄까요?`
+      : `v${arm.version}을 ACTIVE로 지정하고 트래픽 100%를 줄까요? 분할은 종료됩니다.`;
+    if (!window.confirm(message)) return;
+
+    setPromotingId(arm.promptVersionId);
+    setError(null);
+    try {
+      if (isActiveArm) {
+        await setPromptTrafficSplit({ promptTypeId, arms: [] });
+        onChanged();
+      } else {
+        await setActivePromptVersion({ promptTypeId, promptVersionId: arm.promptVersionId });
+        onPromoted();
+      }
+    } catch (err) {
+      console.error('Error promoting traffic arm:', err);
+      setError(getErrorMessage(err, '승격에 실패했습니다.'));
+    } finally {
+      setPromotingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center gap-2">
+          <Split className="h-4 w-4 text-[#3f67ca]" />
+          <h4 className="text-sm font-semibold text-slate-900">A/B 트래픽 분할</h4>
+        </div>
+        <p className="mt-1 text-xs text-slate-500">
+          serving API 호출에 subject 키(사용자·세션 ID)를 보내면 비율에 따라 버전을 나눠 주고, 같은 키는 항상 같은 버전을 받습니다. subject 키가 없는
+          호출과 다른 프롬프트의 포함은 ACTIVE 버전을 받습니다. 어떤 버전이든 ACTIVE로 지정하면 분할은 종료됩니다.
+        </p>
+      </div>
+
+      {error && <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>}
+
+      {hasSplit && split && (
+        <div className="rounded-xl border border-[#e8eef7] bg-white p-3 text-xs text-slate-700">
+          <p className="font-semibold text-slate-900">진행 중인 분할</p>
+          <ul className="mt-2 space-y-1.5">
+            {split.arms.map((arm) => (
+              <li key={arm.promptVersionId} className="flex items-center gap-2">
+                <span className="w-10 font-semibold">v{arm.version}</span>
+                <div className="h-2 flex-1 overflow-hidden rounded-full bg-slate-100">
+                  <div className="h-full rounded-full bg-violet-400" style={{ width: `${arm.weight}%` }} />
+                </div>
+                <span className="w-10 text-right">{arm.weight}%</span>
+                {canPublish && (
+                  <button
+                    type="button"
+                    onClick={() => handlePromote(arm)}
+                    disabled={promotingId !== null || isSaving}
+                    className="inline-flex h-7 items-center gap-1 rounded-md border border-[#dde6f2] px-2 text-[11px] font-semibold text-slate-600 transition hover:bg-[#f3f8ff] hover:text-[#3f67ca] disabled:opacity-50"
+                  >
+                    <Crown className="h-3.5 w-3.5" />
+                    {promotingId === arm.promptVersionId ? '승격 중...' : '100% 승격'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          {split.updatedBy && (
+            <p className="mt-2 text-[11px] text-slate-400">
+              {split.updatedBy} · {split.updatedAt}
+            </p>
+          )}
+        </div>
+      )}
+
+      {!activeVersion ? (
+        <div className="rounded-xl border border-dashed border-[#dfe7f2] bg-[#fafcff] p-4 text-sm text-slate-500">
+          ACTIVE 버전이 있어야 트래픽을 나눌 수 있습니다.
+        </div>
+      ) : (
+        <div className="rounded-xl border border-[#e8eef7] bg-[#fbfdff] p-3 text-xs text-slate-700">
+          <ul className="max-h-72 space-y-1.5 overflow-auto">
+            {sortedVersions.map((version) => (
+              <li key={version.id} className="flex items-center gap-2">
+                <span className="w-10 font-semibold">v{version.version}</span>
+                {version.isActive && (
+                  <span className="rounded-full bg-[#e6f4ea] px-2 py-0.5 text-[11px] font-semibold text-[#1f7a39]">ACTIVE</span>
+                )}
+                {!version.publishedAt && !version.isActive && <span className="text-[11px] text-slate-400">미게시</span>}
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={1}
+                  value={weights[version.id] ?? 0}
+                  onChange={(e) => {
+                    const next = Math.max(0, Math.min(100, Math.round(Number(e.target.value) || 0)));
+                    setWeights((prev) => ({ ...prev, [version.id]: next }));
+                  }}
+                  disabled={!canPublish || isSaving}
+                  className="ml-auto h-8 w-20 rounded-lg border border-[#dfe7f2] bg-white px-2 text-right text-xs text-slate-800 outline-none focus:border-[#7da2ff]"
+                  aria-label={`v${version.version} 비율`}
+                />
+                <span className="text-slate-400">%</span>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-3 flex items-center gap-2 border-t border-[#eef2f8] pt-3">
+            <span className={total === 100 ? 'text-slate-500' : 'font-semibold text-rose-600'}>합계 {total}%</span>
+            {(weights[activeVersion.id] ?? 0) === 0 && armCount > 0 && (
+              <span className="text-rose-600">ACTIVE 버전도 비율을 가져야 합니다.</span>
+            )}
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={
+                !canPublish ||
+                isSaving ||
+                isLoading ||
+                !isDirty ||
+                total !== 100 ||
+                (weights[activeVersion.id] ?? 0) === 0
+              }
+              title={canPublish ? undefined : 'publisher 이상의 권한이 필요합니다.'}
+              className="ml-auto inline-flex h-8 items-center gap-1.5 rounded-lg bg-[#4b74d9] px-3 text-xs font-semibold text-white transition hover:bg-[#3f67ca] disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isSaving ? '저장 중...' : armCount > 1 ? '분할 저장' : '분할 종료'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import type { PromptContentKind } from '../../packages/prompt-client/src/types';
+import { CONTENT_KINDS } from './content-kinds';
+
+// functions/src/prompt-types.ts의 PromptTypeDetails와 같은 모양이다.
+export interface PromptTypeDetails {
+  id: string;
+  name: string;
+  description: string;
+  contentKind: PromptContentKind;
+  archivedAt: string | null;
+  archivedBy: string | null;
+}
+
+export interface PromptTypeFormValues {
+  name: string;
+  description: string;
+  contentKind: PromptContentKind;
+}
+
+// 새 타입 생성과 기존 타입 편집에 함께 쓴다.
+export function PromptTypeForm({
+  initial,
+  mode,
+  canRename,
+  isSaving,
+  error,
+  onSubmit,
+  onCancel,
+}: {
+  initial: PromptTypeFormValues;
+  mode: 'create' | 'edit';
+  // 이름은 {{> 이름}} 포함과 서빙 요청이 가리키는 대상이고, 내용 종류는 검증 방식을 정하므로
+  // 둘 다 publisher 이상만 바꿀 수 있다.
+  canRename: boolean;
+  isSaving: boolean;
+  error: string | null;
+  onSubmit: (values: PromptTypeFormValues) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(initial.name);
+  const [description, setDescription] = useState(initial.description);
+  const [contentKind, setContentKind] = useState<PromptContentKind>(initial.contentKind);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSubmit({ name: name.trim(), description: description.trim(), contentKind });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 rounded-xl border border-[#dfe7f2] bg-[#fbfdff] p-3">
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        disabled={!canRename}
+        maxLength={100}
+        placeholder="타입 이름 (예: ORDER_SCHEMA)"
+        title={canRename ? undefined : '이름 변경은 publisher 이상의 권한이 필요합니다.'}
+        className="h-9 w-full rounded-lg border border-[#dfe7f2] bg-white px-3 text-sm text-slate-900 outline-none focus:border-[#7da2ff] disabled:bg-slate-50 disabled:text-slate-500"
+      />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        maxLength={1000}
+        rows={2}
+        placeholder="설명"
+        className="w-full resize-none rounded-lg border border-[#dfe7f2] bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-[#7da2ff]"
+      />
+      <select
+        value={contentKind}
+        onChange={(e) => setContentKind(e.target.value as PromptContentKind)}
+        disabled={!canRename}
+        aria-label="내용 종류"
+        title={canRename ? undefined : '내용 종류 변경은 publisher 이상의 권한이 필요합니다.'}
+        className="h-9 w-full rounded-lg border border-[#dfe7f2] bg-white px-2 text-sm text-slate-700 outline-none disabled:bg-slate-50 disabled:text-slate-500"
+      >
+        {CONTENT_KINDS.map((kind) => (
+          <option key={kind.value} value={kind.value}>
+            {kind.label}
+          </option>
+        ))}
+      </select>
+      {error && <p className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="inline-flex h-8 items-center rounded-lg border border-[#dde6f2] bg-white px-3 text-xs font-medium text-slate-700 transition hover:bg-[#f8fbff]"
+        >
+          취소
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving || !name.trim()}
+          className="inline-flex h-8 items-center rounded-lg bg-[#4b74d9] px-3 text-xs font-semibold text-white transition hover:bg-[#3f67ca] disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isSaving ? '저장 중...' : mode === 'create' ? '타입 만들기' : '저장'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { httpsCallable } from 'firebase/functions';
+import { ListChecks, Save } from 'lucide-react';
+import { functions } from '../../lib/firebase';
+
+// functions/src/validation-rules.ts의 ValidationRules/RuleViolation과 같은 모양이다.
+export interface ValidationRules {
+  minLength?: number;
+  maxLength?: number;
+  json?: boolean;
+  chatMessages?: boolean;
+  requiredSections?: string[];
+  forbiddenPhrases?: string[];
+  variablesDeclared?: boolean;
+}
+
+export type ValidationRule = keyof ValidationRules;
+
+export interface RuleViolation {
+  rule: ValidationRule;
+  message: string;
+  line: number | null;
+}
+
+interface TypeValidationRules {
+  rules: ValidationRules;
+  isDefault: boolean;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export const RULE_LABELS: Record<ValidationRule, string> = {
+  minLength: '최소 길이',
+  maxLength: '최대 길이',
+  json: 'JSON 형식',
+  chatMessages: '메시지 목록 형식',
+  requiredSections: '필수 섹션',
+  forbiddenPhrases: '금지 문구',
+  variablesDeclared: '변수 선언',
+};
+
+const getPromptValidationRules = httpsCallable(functions, 'getPromptValidationRules');
+const setPromptValidationRules = httpsCallable(functions, 'setPromptValidationRules');
+
+// 서버가 실패 응답의 details.violations에 담아 보낸 위반 목록을 꺼낸다.
+export function getRuleViolations(err: unknown): RuleViolation[] | null {
+  const details = (err as { details?: { reason?: string; violations?: RuleViolation[] } } | null)?.details;
+  return details?.reason === 'validation-failed' ? (details.violations ?? []) : null;
+}
+
+export function ViolationList({
+  violations,
+  onJumpToLine,
+}: {
+  violations: RuleViolation[];
+  onJumpToLine?: (line: number) => void;
+}) {
+  return (
+    <ul className="space-y-0.5">
+      {violations.map((violation, index) => (
+        <li key={index} className="flex flex-wrap items-baseline gap-1.5 text-[11px]">
+          <span className="font-semibold">{RULE_LABELS[violation.rule] ?? violation.rule}</span>
+          <span>{violation.message}</span>
+          {violation.line !== null &&
+            (onJumpToLine ? (
+              <button
+                type="button"
+                onClick={() => onJumpToLine(violation.line as number)}
+                className="font-mono underline underline-offset-2 hover:text-rose-900"
+              >
+                {violation.line}행
+              </button>
+            ) : (
+              <span className="font-mono">{violation.line}행</span>
+            ))}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function toLines(value: string) {
+  return value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function toLimit(value: string) {
+  return value.trim() ? Number(value) : undefined;
+}
+
+export function ValidationRulesPanel({
+  promptTypeId,
+  isAdmin,
+  getErrorMessage,
+}: {
+  promptTypeId: string;
+  isAdmin: boolean;
+  getErrorMessage: (err: unknown, fallback: string) => string;
+}) {
+  const [current, setCurrent] = useState<TypeValidationRules | null>(null);
+  const [minLength, setMinLength] = useState('');
+  const [maxLength, setMaxLength] = useState('');
+  const [json, setJson] = useState(false);
+  const [requiredSections, setRequiredSections] = useState('');
+  const [forbiddenPhrases, setForbiddenPhrases] = useState('');
+  const [variablesDeclared, setVariablesDeclared] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyRules = (rules: ValidationRules) => {
+    setMinLength(rules.minLength?.toString() ?? '');
+    setMaxLength(rules.maxLength?.toString() ?? '');
+    setJson(Boolean(rules.json));
+    setRequiredSections((rules.requiredSections ?? []).join('\n'));
+    setForbiddenPhrases((rules.forbiddenPhrases ?? []).join('\n'));
+    setVariablesDeclared(Boolean(rules.variablesDeclared));
+  };
+
+  const loadRules = async () => {
+    setIsLoading(true);
+    try {
+      const result = await getPromptValidationRules({ promptTypeId });
+      const data = result.data as TypeValidationRules;
+      setCurrent(data);
+      applyRules(data.rules ?? {});
+    } catch (err) {
+      console.error('Error loading validation rules:', err);
+      setError(getErrorMessage(err, '검증 규칙을 불러오지 못했습니다.'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setCurrent(null);
+    setError(null);
+    void loadRules();
+  }, [promptTypeId]);
+
+  const handleSave = async () => {
+    const rules: ValidationRules = {
+      minLength: toLimit(minLength),
+      maxLength: toLimit(maxLength),
+      json: json || undefined,
+      requiredSections: toLines(requiredSections),
+      forbiddenPhrases: toLines(forbiddenPhrases),
+      variablesDeclared: variablesDeclared || undefined,
+    };
+    if ([rules.minLength, rules.maxLength].some((limit) => limit !== undefined && !Number.isInteger(limit))) {
+      setError('길이 제한은 정수로 입력해 주세요.');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await setPromptValidationRules({ promptTypeId, rules });
+      await loadRules();
+    } catch (err) {
+      console.error('Error saving validation rules:', err);
+      setError(getErrorMessage(err, '검증 규칙 저장에 실패했습니다.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const readOnly = !isAdmin || isSaving;
+  const inputClass =
+    'w-full rounded-lg border border-[#dfe7f2] bg-white px-3 text-sm text-slate-900 outline-none focus:border-[#7da2ff] disabled:bg-[#f8fafd] disabled:text-slate-500';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center gap-2">
+          <ListChecks className="h-4 w-4 text-[#3f67ca]" />
+          <h4 className="text-sm font-semibold text-slate-900">검증 규칙</h4>
+          {current?.isDefault && (
+            <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-semibold text-slate-600">기본 규칙</span>
+          )}
+        </div>
+        <p className="mt-1 text-xs text-slate-500">
+          규칙을 어기는 내용은 서버에서 저장과 새 버전 생성, ACTIVE 지정이 차단됩니다. 규칙 변경은 admin만 할 수 있습니다.
+        </p>
+        {current && !current.isDefault && (
+          <p className="mt-1 text-[11px] text-slate-400">
+            {current.updatedBy ?? '알 수 없음'} · {current.updatedAt}
+          </p>
+        )}
+      </div>
+
+      {error && <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{error}</div>}
+
+      {isLoading && !current ? (
+        <div className="rounded-xl border border-dashed border-[#dfe7f2] bg-[#fafcff] p-4 text-sm text-slate-500">
+          불러오는 중...
+        </div>
+      ) : (
+        <div className="space-y-3 rounded-xl border border-[#e8eef7] bg-[#fbfdff] p-3 text-xs text-slate-700">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className="font-semibold">{RULE_LABELS.minLength} (글자)</span>
+              <input
+                type="number"
+                min={0}
+                value={minLength}
+                onChange={(e) => setMinLength(e.target.value)}
+                disabled={readOnly}
+                placeholder="제한 없음"
+                className={`h-9 ${inputClass}`}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="font-semibold">{RULE_LABELS.maxLength} (글자)</span>
+              <input
+                type="number"
+                min={0}
+                value={maxLength}
+                onChange={(e) => setMaxLength(e.target.value)}
+                disabled={readOnly}
+                placeholder="제한 없음"
+                className={`h-9 ${inputClass}`}
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={json} onChange={(e) => setJson(e.target.checked)} disabled={readOnly} />
+            <span>내용이 올바른 JSON이어야 함</span>
+          </label>
+          {current?.rules.chatMessages && (
+            <label className="flex items-center gap-2 text-slate-500">
+              <input type="checkbox" checked disabled />
+              <span>내용이 메시지 목록이어야 함 (대화 타입에 항상 적용)</span>
+            </label>
+          )}
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={variablesDeclared}
+              onChange={(e) => setVariablesDeclared(e.target.checked)}
+              disabled={readOnly}
+            />
+            <span>본문의 모든 {'{{변수}}'}가 선언되어 있어야 함</span>
+          </label>
+          <label className="block space-y-1">
+            <span className="font-semibold">{RULE_LABELS.requiredSections} (한 줄에 하나, # 생략 가능)</span>
+            <textarea
+              value={requiredSections}
+              onChange={(e) => setRequiredSections(e.target.value)}
+              disabled={readOnly}
+              placeholder={'## Role\n## Safety'}
+              className={`h-20 resize-y py-2 font-mono text-[12px] ${inputClass}`}
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="font-semibold">{RULE_LABELS.forbiddenPhrases} (한 줄에 하나, 대소문자 무시)</span>
+            <textarea
+              value={forbiddenPhrases}
+              onChange={(e) => setForbiddenPhrases(e.target.value)}
+              disabled={readOnly}
+              className={`h-20 resize-y py-2 font-mono text-[12px] ${inputClass}`}
+            />
+          </label>
+          {isAdmin && (
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="inline-flex h-8 items-center gap-1.5 rounded-lg bg-[#4b74d9] px-3 text-xs font-semibold text-white transition hover:bg-[#3f67ca] disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <Save className="h-3.5 w-3.5" />
+              {isSaving ? '저장 중...' : '규칙 저장'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
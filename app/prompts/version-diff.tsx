@@ -0,0 +1,261 @@
+'use client';
+
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { Columns2, Rows3 } from 'lucide-react';
+import { canonicalizeJson, computeLineDiff, getDiffStats, type DiffRow, type DiffSegment } from '../../lib/diff';
+
+export interface DiffSource {
+  id: string;
+  label: string;
+  // null이면 아직 내용을 받아 오지 않은 버전이다.
+  content: string | null;
+}
+
+const CONTEXT_LINES = 3;
+
+const SEGMENT_CLASS: Record<DiffSegment['type'], string> = {
+  equal: '',
+  delete: 'rounded-sm bg-rose-200/80 text-rose-900',
+  insert: 'rounded-sm bg-emerald-200/80 text-emerald-900',
+};
+
+function Segments({ segments }: { segments: DiffSegment[] | null }) {
+  if (!segments) return null;
+  return (
+    <>
+      {segments.map((segment, index) => (
+        <span key={index} className={SEGMENT_CLASS[segment.type]}>
+          {segment.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+// Replaces long runs of unchanged rows with a single fold marker.
+function foldUnchanged(rows: DiffRow[]): Array<DiffRow | { folded: number; key: string }> {
+  const keep = rows.map(() => false);
+  rows.forEach((row, index) => {
+    if (row.kind === 'equal') return;
+    for (let i = Math.max(0, index - CONTEXT_LINES); i <= Math.min(rows.length - 1, index + CONTEXT_LINES); i += 1) {
+      keep[i] = true;
+    }
+  });
+
+  const result: Array<DiffRow | { folded: number; key: string }> = [];
+  let folded = 0;
+  rows.forEach((row, index) => {
+    if (keep[index]) {
+      if (folded) result.push({ folded, key: `fold-${index}` });
+      folded = 0;
+      result.push(row);
+    } else {
+      folded += 1;
+    }
+  });
+  if (folded) result.push({ folded, key: 'fold-end' });
+  return result;
+}
+
+function rowBackground(kind: DiffRow['kind'], side: 'left' | 'right') {
+  if (kind === 'equal') return '';
+  if (kind === 'delete') return side === 'left' ? 'bg-rose-50' : 'bg-slate-50';
+  if (kind === 'insert') return side === 'right' ? 'bg-emerald-50' : 'bg-slate-50';
+  return side === 'left' ? 'bg-rose-50' : 'bg-emerald-50';
+}
+
+export function VersionDiff({
+  sources,
+  initialLeftId,
+  initialRightId,
+  structuralJson = false,
+  onLoadSources,
+}: {
+  sources: DiffSource[];
+  initialLeftId?: string;
+  initialRightId?: string;
+  structuralJson?: boolean;
+  onLoadSources?: (ids: string[]) => void;
+}) {
+  const [leftId, setLeftId] = useState(initialLeftId ?? sources[1]?.id ?? sources[0]?.id ?? '');
+  const [rightId, setRightId] = useState(initialRightId ?? sources[0]?.id ?? '');
+  const [layout, setLayout] = useState<'split' | 'inline'>('split');
+  const [isStructural, setIsStructural] = useState(structuralJson);
+  const [hideUnchanged, setHideUnchanged] = useState(true);
+
+  const left = sources.find((source) => source.id === leftId) ?? null;
+  const right = sources.find((source) => source.id === rightId) ?? null;
+  const missingIds = [left, right].flatMap((source) => (source && source.content === null ? [source.id] : []));
+  const isLoading = missingIds.length > 0;
+
+  useEffect(() => {
+    if (missingIds.length) onLoadSources?.(missingIds);
+  }, [missingIds.join(',')]);
+
+  const { rows, structuralFailed } = useMemo(() => {
+    const before = left?.content ?? '';
+    const after = right?.content ?? '';
+    if (!isStructural) return { rows: computeLineDiff(before, after), structuralFailed: false };
+
+    const canonicalBefore = canonicalizeJson(before);
+    const canonicalAfter = canonicalizeJson(after);
+    if (canonicalBefore === null || canonicalAfter === null) {
+      return { rows: computeLineDiff(before, after), structuralFailed: true };
+    }
+    return { rows: computeLineDiff(canonicalBefore, canonicalAfter), structuralFailed: false };
+  }, [left, right, isStructural]);
+
+  const stats = useMemo(() => getDiffStats(rows), [rows]);
+  const visibleRows = useMemo(() => (hideUnchanged ? foldUnchanged(rows) : rows), [rows, hideUnchanged]);
+  const isIdentical = stats.added + stats.removed + stats.changed === 0;
+
+  const sourceSelect = (value: string, onChange: (value: string) => void, label: string) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="h-9 rounded-lg border border-[#dfe7f2] bg-white px-3 text-xs font-medium text-slate-700 outline-none focus:border-[#7da2ff]"
+      aria-label={label}
+    >
+      {sources.map((source) => (
+        <option key={source.id} value={source.id}>
+          {source.label}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="flex h-full min-h-0 flex-col">
+      <div className="flex flex-wrap items-center gap-2 pb-3">
+        {sourceSelect(leftId, setLeftId, '비교 기준')}
+        <span className="text-xs text-slate-400">→</span>
+        {sourceSelect(rightId, setRightId, '비교 대상')}
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <span className="text-xs text-slate-500">
+            <span className="text-emerald-700">+{stats.added}</span>{' '}
+            <span className="text-rose-700">-{stats.removed}</span>{' '}
+            <span className="text-amber-700">~{stats.changed}</span>
+          </span>
+          {structuralJson && (
+            <label className="inline-flex items-center gap-1.5 text-xs text-slate-600">
+              <input type="checkbox" checked={isStructural} onChange={(e) => setIsStructural(e.target.checked)} />
+              JSON 구조 비교
+            </label>
+          )}
+          <label className="inline-flex items-center gap-1.5 text-xs text-slate-600">
+            <input type="checkbox" checked={hideUnchanged} onChange={(e) => setHideUnchanged(e.target.checked)} />
+            변경 없는 줄 접기
+          </label>
+          <div className="inline-flex rounded-lg border border-[#dfe7f2] bg-[#fbfdff] p-0.5">
+            <button
+              type="button"
+              onClick={() => setLayout('split')}
+              className={[
+                'inline-flex h-7 w-7 items-center justify-center rounded-md',
+                layout === 'split' ? 'bg-white text-[#3f67ca] shadow-sm' : 'text-slate-500',
+              ].join(' ')}
+              aria-label="좌우 비교"
+              title="좌우 비교"
+            >
+              <Columns2 className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setLayout('inline')}
+              className={[
+                'inline-flex h-7 w-7 items-center justify-center rounded-md',
+                layout === 'inline' ? 'bg-white text-[#3f67ca] shadow-sm' : 'text-slate-500',
+              ].join(' ')}
+              aria-label="한 줄 비교"
+              title="한 줄 비교"
+            >
+              <Rows3 className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {structuralFailed && (
+        <div className="mb-3 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+          JSON 파싱에 실패해 텍스트 비교로 표시합니다.
+        </div>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-auto rounded-xl border border-[#e5ecf5] bg-white font-mono text-[12px] leading-5">
+        {isLoading ? (
+          <div className="p-4 font-sans text-sm text-slate-500">버전 내용을 불러오는 중...</div>
+        ) : isIdentical ? (
+          <div className="p-4 font-sans text-sm text-slate-500">두 내용이 동일합니다.</div>
+        ) : (
+          <table className="w-full border-collapse">
+            <tbody>
+              {visibleRows.map((row, index) => {
+                if ('folded' in row) {
+                  return (
+                    <tr key={row.key}>
+                      <td
+                        colSpan={layout === 'split' ? 4 : 3}
+                        className="bg-[#f6f9fd] px-3 py-1 text-center font-sans text-[11px] text-slate-400"
+                      >
+                        변경 없는 {row.folded}줄
+                      </td>
+                    </tr>
+                  );
+                }
+
+                if (layout === 'split') {
+                  return (
+                    <tr key={index} className="align-top">
+                      <td className="w-10 select-none border-r border-[#eef2f8] px-2 text-right text-slate-400">
+                        {row.leftNumber ?? ''}
+                      </td>
+                      <td className={['w-1/2 whitespace-pre-wrap break-words px-2', rowBackground(row.kind, 'left')].join(' ')}>
+                        <Segments segments={row.left} />
+                      </td>
+                      <td className="w-10 select-none border-x border-[#eef2f8] px-2 text-right text-slate-400">
+                        {row.rightNumber ?? ''}
+                      </td>
+                      <td className={['w-1/2 whitespace-pre-wrap break-words px-2', rowBackground(row.kind, 'right')].join(' ')}>
+                        <Segments segments={row.right} />
+                      </td>
+                    </tr>
+                  );
+                }
+
+                const inlineLine = (side: 'left' | 'right') => (
+                  <tr key={`${index}-${side}`} className="align-top">
+                    <td className="w-10 select-none px-2 text-right text-slate-400">
+                      {side === 'left' || row.kind === 'equal' ? row.leftNumber : ''}
+                    </td>
+                    <td className="w-10 select-none border-r border-[#eef2f8] px-2 text-right text-slate-400">
+                      {side === 'right' ? row.rightNumber : ''}
+                    </td>
+                    <td
+                      className={[
+                        'whitespace-pre-wrap break-words px-2',
+                        row.kind === 'equal' ? '' : side === 'left' ? 'bg-rose-50' : 'bg-emerald-50',
+                      ].join(' ')}
+                    >
+                      {row.kind !== 'equal' && (
+                        <span className="select-none text-slate-400">{side === 'left' ? '- ' : '+ '}</span>
+                      )}
+                      <Segments segments={side === 'left' ? row.left : row.right} />
+                    </td>
+                  </tr>
+                );
+
+                if (row.kind === 'equal') return inlineLine('right');
+                return (
+                  <Fragment key={index}>
+                    {row.left && inlineLine('left')}
+                    {row.right && inlineLine('right')}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
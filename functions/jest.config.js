@@ -0,0 +1,8 @@
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/test"],
+  transform: {
+    // The build compiles for NodeNext; the tests run as CommonJS.
+    "^.+\\.ts$": ["ts-jest", {tsconfig: {module: "commonjs"}}],
+  },
+};
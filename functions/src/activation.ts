@@ -0,0 +1,404 @@
+import {Client, InStatement} from "@libsql/client";
+import {HttpsError} from "firebase-functions/v2/https";
+import {Actor} from "./auth";
+import {auditStatement} from "./audit";
+import {
+  Environment,
+  environmentVersionStatement,
+  nextEnvironment,
+} from "./environments";
+import {composePrompt, getPromptDependencies} from "./includes";
+import {assertReleasable} from "./release-checks";
+import {assertTypeNotArchived} from "./prompt-types";
+import {clearTrafficSplitStatement, loadTrafficArms} from "./traffic";
+import {readStoredVariables} from "./variables";
+
+export interface ActiveVersionRef {
+  id: string,
+  version: number,
+}
+
+export interface ActivationResult {
+  previousActive: ActiveVersionRef | null,
+  active: ActiveVersionRef,
+  changed: boolean,
+}
+
+// "promote" carries the staging version forward to production.
+export type ActivationKind = "activate" | "rollback" | "promote";
+
+export interface ActivationRequest {
+  actor: Actor,
+  promptTypeId: string,
+  promptVersionId: string,
+  kind?: ActivationKind,
+  detail?: Record<string, unknown>,
+  // Written in the activation's transaction once the version is live,
+  // including when it already was, so callers can record the outcome
+  // atomically with the switch.
+  statements?: InStatement[],
+}
+
+export interface EnvironmentActivationRequest extends ActivationRequest {
+  environment: Environment,
+}
+
+export interface ActivationHistoryEntry {
+  id: number,
+  promptVersionId: string,
+  version: number,
+  previousVersionId: string | null,
+  previousVersion: number | null,
+  kind: ActivationKind,
+  activatedBy: string,
+  createdAt: string,
+}
+
+/**
+ * Makes one prompt version the only active version of its type.
+ * Everything runs in a single write transaction: the target is checked to
+ * belong to the type and to pass `assertReleasable`; the switch must
+ * leave exactly one active row, any traffic split of the type is ended,
+ * and the activation history row and audit entry are written alongside.
+ * Any failure rolls the whole switch back.
+ * @param {Client} db The database client.
+ * @param {ActivationRequest} request What to activate and on whose behalf.
+ * @return {Promise<ActivationResult>} The previous and new active versions.
+ */
+export async function activatePromptVersion(
+  db: Client,
+  request: ActivationRequest,
+): Promise<ActivationResult> {
+  const {actor, promptTypeId, promptVersionId} = request;
+  const kind = request.kind ?? "activate";
+  const tx = await db.transaction("write");
+  try {
+    const targetResult = await tx.execute({
+      sql:
+        "SELECT id, version, content, variables, is_active, revision, " +
+          "published_at " +
+          "FROM prompt_versions " +
+        "WHERE id = ? AND prompt_type_id = ?",
+      args: [promptVersionId, promptTypeId],
+    });
+    const target = targetResult.rows[0];
+    if (!target) {
+      throw new HttpsError(
+        "not-found",
+        `Prompt version ${promptVersionId} does not belong to ` +
+          `prompt type ${promptTypeId}.`,
+        {reason: "version-not-in-type"},
+      );
+    }
+    const active = {id: String(target.id), version: Number(target.version)};
+
+    const previousResult = await tx.execute({
+      sql:
+        "SELECT id, version, content FROM prompt_versions " +
+        "WHERE prompt_type_id = ? AND is_active = TRUE",
+      args: [promptTypeId],
+    });
+    const previous = previousResult.rows[0];
+    const previousActive = previous ?
+      {id: String(previous.id), version: Number(previous.version)} :
+      null;
+
+    if (target.is_active) {
+      if (request.statements) await tx.batch(request.statements);
+      await tx.commit();
+      return {previousActive, active, changed: false};
+    }
+
+    await assertReleasable(tx, {
+      promptTypeId,
+      promptVersionId,
+      content: String(target.content ?? ""),
+      variables: target.variables,
+      revision: Number(target.revision ?? 1),
+      publishedAt: target.published_at ? String(target.published_at) : null,
+    });
+    const {affected} = await getPromptDependencies(tx, promptTypeId);
+    // A new active version ends any traffic split: the split was an
+    // experiment around the version that is being replaced.
+    const clearedArms = await loadTrafficArms(tx, promptTypeId);
+    if (clearedArms.length) {
+      await tx.execute(clearTrafficSplitStatement(promptTypeId));
+    }
+
+    // Deactivate first: the partial unique index forbids two active rows
+    // for one type even for a moment inside the transaction.
+    await tx.execute({
+      sql:
+        "UPDATE prompt_versions SET is_active = FALSE " +
+        "WHERE prompt_type_id = ? AND is_active = TRUE",
+      args: [promptTypeId],
+    });
+    const activated = await tx.execute({
+      sql:
+        "UPDATE prompt_versions SET is_active = TRUE, " +
+        "published_at = COALESCE(published_at, CURRENT_TIMESTAMP) " +
+        "WHERE id = ? AND prompt_type_id = ?",
+      args: [promptVersionId, promptTypeId],
+    });
+    if (activated.rowsAffected !== 1) {
+      throw new Error(
+        `Expected to activate 1 row but activated ${activated.rowsAffected}.`
+      );
+    }
+
+    const countResult = await tx.execute({
+      sql:
+        "SELECT COUNT(*) AS active_count FROM prompt_versions " +
+        "WHERE prompt_type_id = ? AND is_active = TRUE",
+      args: [promptTypeId],
+    });
+    const activeCount = Number(countResult.rows[0]?.active_count ?? 0);
+    if (activeCount !== 1) {
+      throw new Error(
+        `Prompt type ${promptTypeId} has ${activeCount} active versions.`
+      );
+    }
+
+    await tx.execute({
+      sql:
+        "INSERT INTO prompt_activations " +
+        "(prompt_type_id, prompt_version_id, version, previous_version_id, " +
+        "previous_version, kind, activated_by) VALUES (?, ?, ?, ?, ?, ?, ?)",
+      args: [
+        promptTypeId,
+        active.id,
+        active.version,
+        previousActive?.id ?? null,
+        previousActive?.version ?? null,
+        kind,
+        actor.email,
+      ],
+    });
+    await tx.execute(auditStatement({
+      actor,
+      action: kind === "rollback" ? "version.rollback" :
+        kind === "promote" ? "version.promote" : "version.activate",
+      promptTypeId,
+      promptVersionId,
+      version: active.version,
+      beforeContent: previous ? String(previous.content ?? "") : null,
+      afterContent: String(target.content ?? ""),
+      detail: {
+        ...request.detail,
+        previousVersionId: previousActive?.id ?? null,
+        previousVersion: previousActive?.version ?? null,
+        ...(affected.length ? {
+          affectedTypes: affected.map((type) => type.promptTypeName),
+        } : {}),
+        ...(clearedArms.length ? {
+          clearedSplit: clearedArms.map(({version, weight}) => ({
+            version,
+            weight,
+          })),
+        } : {}),
+      },
+    }));
+    if (request.statements) await tx.batch(request.statements);
+
+    await tx.commit();
+    return {previousActive, active, changed: true};
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Loads the activation history of one prompt type, newest first.
+ * @param {Client} db The database client.
+ * @param {string} promptTypeId The prompt type.
+ * @param {number} limit Maximum number of entries.
+ * @return {Promise<ActivationHistoryEntry[]>} The history entries.
+ */
+export async function getActivationHistory(
+  db: Client,
+  promptTypeId: string,
+  limit: number,
+): Promise<ActivationHistoryEntry[]> {
+  const result = await db.execute({
+    sql:
+      "SELECT id, prompt_version_id, version, previous_version_id, " +
+      "previous_version, kind, activated_by, created_at " +
+      "FROM prompt_activations WHERE prompt_type_id = ? " +
+      "ORDER BY id DESC LIMIT ?",
+    args: [promptTypeId, limit],
+  });
+
+  return result.rows.map((row) => ({
+    id: Number(row.id),
+    promptVersionId: String(row.prompt_version_id),
+    version: Number(row.version),
+    previousVersionId: row.previous_version_id ?
+      String(row.previous_version_id) : null,
+    previousVersion: row.previous_version === null ?
+      null : Number(row.previous_version),
+    kind: row.kind === "rollback" || row.kind === "promote" ?
+      row.kind : "activate",
+    activatedBy: String(row.activated_by),
+    createdAt: String(row.created_at),
+  }));
+}
+
+/**
+ * Makes a version the one live in an environment. Production is the
+ * active version and goes through `activatePromptVersion`. Staging must
+ * pass the same checks and is frozen like a published version, so what
+ * was tried there is exactly what a promotion ships; dev only has to
+ * compose, and stays editable while it is live.
+ * @param {Client} db The database client.
+ * @param {EnvironmentActivationRequest} request What to make live where,
+ *   and on whose behalf.
+ * @return {Promise<ActivationResult>} The previous and new live versions.
+ */
+export async function activateInEnvironment(
+  db: Client,
+  request: EnvironmentActivationRequest,
+): Promise<ActivationResult> {
+  const {actor, promptTypeId, promptVersionId, environment} = request;
+  if (environment === "production") return activatePromptVersion(db, request);
+
+  const tx = await db.transaction("write");
+  try {
+    const targetResult = await tx.execute({
+      sql:
+        "SELECT id, version, content, variables, revision, published_at " +
+        "FROM prompt_versions WHERE id = ? AND prompt_type_id = ?",
+      args: [promptVersionId, promptTypeId],
+    });
+    const target = targetResult.rows[0];
+    if (!target) {
+      throw new HttpsError(
+        "not-found",
+        `Prompt version ${promptVersionId} does not belong to ` +
+          `prompt type ${promptTypeId}.`,
+        {reason: "version-not-in-type"},
+      );
+    }
+    const active = {id: String(target.id), version: Number(target.version)};
+
+    const previousResult = await tx.execute(
+      environmentVersionStatement(promptTypeId, environment)
+    );
+    const previous = previousResult.rows[0];
+    const previousActive = previous ?
+      {id: String(previous.id), version: Number(previous.version)} :
+      null;
+    if (previousActive?.id === active.id) {
+      if (request.statements) await tx.batch(request.statements);
+      await tx.commit();
+      return {previousActive, active, changed: false};
+    }
+
+    if (environment === "staging") {
+      await assertReleasable(tx, {
+        promptTypeId,
+        promptVersionId,
+        content: String(target.content ?? ""),
+        variables: target.variables,
+        revision: Number(target.revision ?? 1),
+        publishedAt: target.published_at ? String(target.published_at) : null,
+        environment,
+      });
+      await tx.execute({
+        sql:
+          "UPDATE prompt_versions " +
+          "SET published_at = COALESCE(published_at, CURRENT_TIMESTAMP) " +
+          "WHERE id = ?",
+        args: [promptVersionId],
+      });
+    } else {
+      await assertTypeNotArchived(tx, promptTypeId);
+      await composePrompt(tx, {
+        promptTypeId,
+        content: String(target.content ?? ""),
+        variables: readStoredVariables(target.variables),
+        environment,
+      });
+    }
+
+    await tx.execute({
+      sql:
+        "INSERT INTO prompt_environment_versions " +
+        "(prompt_type_id, environment, prompt_version_id, updated_by, " +
+        "updated_at) VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP) " +
+        "ON CONFLICT(prompt_type_id, environment) DO UPDATE SET " +
+        "prompt_version_id = excluded.prompt_version_id, " +
+        "updated_by = excluded.updated_by, " +
+        "updated_at = excluded.updated_at",
+      args: [promptTypeId, environment, promptVersionId, actor.email],
+    });
+    await tx.execute(auditStatement({
+      actor,
+      action: "environment.set",
+      promptTypeId,
+      promptVersionId,
+      version: active.version,
+      beforeContent: previous ? String(previous.content ?? "") : null,
+      afterContent: String(target.content ?? ""),
+      detail: {
+        ...request.detail,
+        environment,
+        previousVersionId: previousActive?.id ?? null,
+        previousVersion: previousActive?.version ?? null,
+      },
+    }));
+    if (request.statements) await tx.batch(request.statements);
+
+    await tx.commit();
+    return {previousActive, active, changed: true};
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Carries the version live in one environment forward to the next: dev to
+ * staging, or staging to production. The target goes through the same
+ * checks as setting it directly, and the audit entry records where it
+ * came from.
+ * @param {Client} db The database client.
+ * @param {object} request The acting user, prompt type and environment to
+ *   promote from.
+ * @return {Promise<object>} The environment promoted to, with the previous
+ *   and new live versions.
+ */
+export async function promotePromptVersion(
+  db: Client,
+  request: {actor: Actor, promptTypeId: string, from: Environment},
+): Promise<ActivationResult & {environment: Environment}> {
+  const {actor, promptTypeId, from} = request;
+  const environment = nextEnvironment(from);
+  if (!environment) {
+    throw new HttpsError(
+      "invalid-argument",
+      `There is no environment after ${from} to promote to.`,
+      {reason: "invalid-environment"},
+    );
+  }
+
+  const sourceResult = await db.execute(
+    environmentVersionStatement(promptTypeId, from)
+  );
+  const source = sourceResult.rows[0];
+  if (!source) {
+    throw new HttpsError(
+      "failed-precondition",
+      `Prompt type ${promptTypeId} has no version live in ${from}.`,
+      {reason: "environment-empty", environment: from},
+    );
+  }
+
+  const result = await activateInEnvironment(db, {
+    actor,
+    promptTypeId,
+    promptVersionId: String(source.id),
+    environment,
+    kind: "promote",
+    detail: {promotedFrom: from},
+  });
+  return {...result, environment};
+}
@@ -0,0 +1,179 @@
+import {createHash, randomBytes} from "crypto";
+import {Client} from "@libsql/client";
+import {HttpsError} from "firebase-functions/v2/https";
+import {Actor} from "./auth";
+import {auditStatement} from "./audit";
+
+// Every key starts with this so leaked keys are easy to recognise in logs
+// and secret scanners.
+const API_KEY_PREFIX = "pk_";
+
+// How much of the key is kept in clear text to tell keys apart in the UI.
+const VISIBLE_PREFIX_LENGTH = 10;
+
+export interface ApiKey {
+  id: number,
+  name: string,
+  keyPrefix: string,
+  createdBy: string,
+  createdAt: string,
+  lastUsedAt: string | null,
+  revokedAt: string | null,
+  revokedBy: string | null,
+}
+
+const API_KEY_COLUMNS =
+  "id, name, key_prefix, created_by, created_at, last_used_at, " +
+  "revoked_at, revoked_by";
+
+/**
+ * Maps an api_keys row to its API shape. The hash never leaves this module.
+ * @param {Record<string, unknown>} row The row from API_KEY_COLUMNS.
+ * @return {ApiKey} The key metadata.
+ */
+function toApiKey(row: Record<string, unknown>): ApiKey {
+  return {
+    id: Number(row.id),
+    name: String(row.name),
+    keyPrefix: String(row.key_prefix),
+    createdBy: String(row.created_by),
+    createdAt: String(row.created_at),
+    lastUsedAt: row.last_used_at ? String(row.last_used_at) : null,
+    revokedAt: row.revoked_at ? String(row.revoked_at) : null,
+    revokedBy: row.revoked_by ? String(row.revoked_by) : null,
+  };
+}
+
+/**
+ * Hashes an API key for storage and lookup. Keys are random enough that a
+ * plain SHA-256 is sufficient; only the hash is stored.
+ * @param {string} secret The API key.
+ * @return {string} The hex-encoded SHA-256 digest.
+ */
+function hashApiKey(secret: string): string {
+  return createHash("sha256").update(secret, "utf8").digest("hex");
+}
+
+/**
+ * Issues a new API key. The secret is returned once and cannot be
+ * recovered later.
+ * @param {Client} db The database client.
+ * @param {Actor} actor The admin issuing the key.
+ * @param {string} name What the key is for.
+ * @return {Promise<object>} The key metadata and its secret.
+ */
+export async function createApiKey(
+  db: Client,
+  actor: Actor,
+  name: string,
+): Promise<{apiKey: ApiKey, secret: string}> {
+  const secret = API_KEY_PREFIX + randomBytes(24).toString("base64url");
+  const keyPrefix = secret.slice(0, VISIBLE_PREFIX_LENGTH);
+
+  const tx = await db.transaction("write");
+  try {
+    const inserted = await tx.execute({
+      sql:
+        "INSERT INTO api_keys (name, key_hash, key_prefix, created_by) " +
+        "VALUES (?, ?, ?, ?)",
+      args: [name, hashApiKey(secret), keyPrefix, actor.email],
+    });
+    const id = Number(inserted.lastInsertRowid);
+    await tx.execute(auditStatement({
+      actor,
+      action: "apikey.create",
+      detail: {apiKeyId: id, name, keyPrefix},
+    }));
+    const created = await tx.execute({
+      sql: `SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE id = ?`,
+      args: [id],
+    });
+    await tx.commit();
+    return {apiKey: toApiKey(created.rows[0]), secret};
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Lists API keys, newest first, including revoked ones.
+ * @param {Client} db The database client.
+ * @return {Promise<ApiKey[]>} The key metadata.
+ */
+export async function listApiKeys(db: Client): Promise<ApiKey[]> {
+  const result = await db.execute(
+    `SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY id DESC`
+  );
+  return result.rows.map((row) => toApiKey(row));
+}
+
+/**
+ * Revokes an API key. Requests using it are rejected from then on.
+ * @param {Client} db The database client.
+ * @param {Actor} actor The admin revoking the key.
+ * @param {number} apiKeyId The key to revoke.
+ * @return {Promise<void>} Resolves once revoked.
+ */
+export async function revokeApiKey(
+  db: Client,
+  actor: Actor,
+  apiKeyId: number,
+): Promise<void> {
+  const tx = await db.transaction("write");
+  try {
+    const revoked = await tx.execute({
+      sql:
+        "UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP, revoked_by = ? " +
+        "WHERE id = ? AND revoked_at IS NULL",
+      args: [actor.email, apiKeyId],
+    });
+    if (revoked.rowsAffected !== 1) {
+      throw new HttpsError(
+        "failed-precondition",
+        `API key ${apiKeyId} does not exist or is already revoked.`,
+        {reason: "api-key-not-active"},
+      );
+    }
+    await tx.execute(auditStatement({
+      actor,
+      action: "apikey.revoke",
+      detail: {apiKeyId},
+    }));
+    await tx.commit();
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Looks up an active API key by its secret and records that it was used.
+ * `last_used_at` is only refreshed every few minutes to keep serving reads
+ * from turning into a write per request.
+ * @param {Client} db The database client.
+ * @param {string} secret The API key presented by the caller.
+ * @return {Promise<ApiKey | null>} The key, or null if unknown or revoked.
+ */
+export async function verifyApiKey(
+  db: Client,
+  secret: string,
+): Promise<ApiKey | null> {
+  if (!secret.startsWith(API_KEY_PREFIX)) return null;
+
+  const result = await db.execute({
+    sql:
+      `SELECT ${API_KEY_COLUMNS} FROM api_keys ` +
+      "WHERE key_hash = ? AND revoked_at IS NULL",
+    args: [hashApiKey(secret)],
+  });
+  const row = result.rows[0];
+  if (!row) return null;
+
+  await db.execute({
+    sql:
+      "UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP " +
+      "WHERE id = ? AND (last_used_at IS NULL OR " +
+      "last_used_at < datetime('now', '-5 minutes'))",
+    args: [Number(row.id)],
+  });
+  return toApiKey(row);
+}
@@ -0,0 +1,86 @@
+import {createHash} from "crypto";
+import {InStatement} from "@libsql/client";
+import {Actor} from "./auth";
+
+export type AuditAction =
+  | "version.create"
+  | "version.update"
+  | "version.activate"
+  | "version.rollback"
+  | "version.promote"
+  | "environment.set"
+  | "schedule.create"
+  | "schedule.cancel"
+  | "review.submit"
+  | "review.approve"
+  | "review.request_changes"
+  | "review.comment"
+  | "review.policy"
+  | "apikey.create"
+  | "apikey.revoke"
+  | "sample.add"
+  | "sample.delete"
+  | "rules.set"
+  | "eval.case_add"
+  | "eval.case_delete"
+  | "eval.policy"
+  | "traffic.set"
+  | "role.set"
+  | "type.create"
+  | "type.update"
+  | "type.archive"
+  | "type.restore"
+  | "type.delete"
+  | "bundle.import";
+
+export interface AuditEntry {
+  actor: Actor,
+  action: AuditAction,
+  promptTypeId?: string | null,
+  promptVersionId?: string | null,
+  version?: number | null,
+  beforeContent?: string | null,
+  afterContent?: string | null,
+  detail?: Record<string, unknown> | null,
+}
+
+/**
+ * Hashes prompt content so audit entries can show whether text changed
+ * without storing every revision twice.
+ * @param {string} content The prompt content.
+ * @return {string} The hex-encoded SHA-256 digest.
+ */
+export function contentHash(content: string): string {
+  return createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+/**
+ * Builds the INSERT for one audit entry. Callers run it in the same
+ * transaction as the mutation it describes so the two cannot diverge.
+ * @param {AuditEntry} entry The entry to record.
+ * @return {InStatement} The statement to execute.
+ */
+export function auditStatement(entry: AuditEntry): InStatement {
+  const hashOrNull = (content?: string | null) =>
+    typeof content === "string" ? contentHash(content) : null;
+
+  return {
+    sql:
+      "INSERT INTO prompt_audit_log " +
+      "(actor_uid, actor_email, actor_role, action, prompt_type_id, " +
+      "prompt_version_id, version, before_hash, after_hash, detail) " +
+      "VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+    args: [
+      entry.actor.uid,
+      entry.actor.email,
+      entry.actor.role,
+      entry.action,
+      entry.promptTypeId ?? null,
+      entry.promptVersionId ?? null,
+      entry.version ?? null,
+      hashOrNull(entry.beforeContent),
+      hashOrNull(entry.afterContent),
+      entry.detail ? JSON.stringify(entry.detail) : null,
+    ],
+  };
+}
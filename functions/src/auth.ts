@@ -0,0 +1,91 @@
+import {Client} from "@libsql/client";
+import {CallableRequest, HttpsError} from "firebase-functions/v2/https";
+
+/**
+ * Roles in ascending order of privilege. Each role can do everything the
+ * roles before it can.
+ */
+export const ROLES = ["viewer", "editor", "publisher", "admin"] as const;
+
+export type Role = typeof ROLES[number];
+
+export interface Actor {
+  uid: string,
+  email: string,
+  role: Role,
+}
+
+/**
+ * Checks whether a value is one of the known role names.
+ * @param {unknown} value The value to check.
+ * @return {boolean} True when the value is a role.
+ */
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[])
+    .includes(value);
+}
+
+/**
+ * Compares two roles by privilege.
+ * @param {Role} role The role the caller holds.
+ * @param {Role} minimum The least privileged role that is allowed.
+ * @return {boolean} True when role is at least as privileged as minimum.
+ */
+export function hasRole(role: Role, minimum: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(minimum);
+}
+
+/**
+ * Resolves the caller of a callable and checks their role.
+ * Throws `unauthenticated` when there is no signed-in user and
+ * `permission-denied` (with a `reason` detail) when the user has no role
+ * or a role below `minimum`.
+ * @param {Client} db The database client holding `user_roles`.
+ * @param {CallableRequest} request The incoming callable request.
+ * @param {Role} minimum The least privileged role that is allowed.
+ * @return {Promise<Actor>} The authenticated caller.
+ */
+export async function requireRole(
+  db: Client,
+  request: CallableRequest<unknown>,
+  minimum: Role,
+): Promise<Actor> {
+  const auth = request.auth;
+  if (!auth) {
+    throw new HttpsError("unauthenticated", "Sign-in is required.");
+  }
+
+  const email = typeof auth.token.email === "string" ?
+    auth.token.email.toLowerCase() : "";
+  if (!email || auth.token.email_verified !== true) {
+    throw new HttpsError(
+      "permission-denied",
+      "A verified email address is required.",
+      {reason: "unverified-email"},
+    );
+  }
+
+  const result = await db.execute({
+    sql: "SELECT role FROM user_roles WHERE email = ?",
+    args: [email],
+  });
+  const role = result.rows[0]?.role;
+
+  if (!isRole(role)) {
+    throw new HttpsError(
+      "permission-denied",
+      `No role is assigned to ${email}.`,
+      {reason: "no-role"},
+    );
+  }
+
+  if (!hasRole(role, minimum)) {
+    throw new HttpsError(
+      "permission-denied",
+      `This action requires the ${minimum} role.`,
+      {reason: "insufficient-role", role, required: minimum},
+    );
+  }
+
+  return {uid: auth.uid, email, role};
+}
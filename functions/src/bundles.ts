@@ -0,0 +1,526 @@
+import {Client, Transaction} from "@libsql/client";
+import {HttpsError} from "firebase-functions/v2/https";
+import {TemplateVariable} from "../../packages/prompt-client/src/template";
+import {Actor} from "./auth";
+import {auditStatement, contentHash} from "./audit";
+import {
+  ContentKind,
+  getContentKindDefinition,
+  isContentKind,
+  toContentKind,
+} from "./content-kinds";
+import {
+  parsePromptTypeDescription,
+  parsePromptTypeName,
+} from "./prompt-types";
+import {
+  checkContentRules,
+  parseValidationRules,
+  ValidationRules,
+} from "./validation-rules";
+import {parseVariableDeclarations, readStoredVariables} from "./variables";
+
+type Executor = Client | Transaction;
+
+// A bundle is a backup or migration copy of prompt types with their
+// versions. Types are matched by name on import, since ids differ between
+// databases. The dashboard and scripts/prompt-bundle.ts write it as JSON
+// or YAML; the callables here only see the parsed object.
+export const BUNDLE_FORMAT = "prompt-manager/bundle";
+
+// Bumped whenever a change to the shape would be misread by an older
+// importer. Bundles of a newer format version are refused.
+export const BUNDLE_FORMAT_VERSION = 1;
+
+export interface BundleVersion {
+  version: number,
+  content: string,
+  variables: TemplateVariable[],
+  // SHA-256 of the content, checked on import to catch edited or damaged
+  // files.
+  contentHash: string,
+  // Whether the version was active where it was exported. Import never
+  // activates it; see importBundle.
+  isActive: boolean,
+  createdAt: string | null,
+}
+
+export interface BundleType {
+  name: string,
+  description: string,
+  contentKind: ContentKind,
+  archived: boolean,
+  // The type's own validation rules; null when it uses its kind's defaults.
+  validationRules: ValidationRules | null,
+  versions: BundleVersion[],
+}
+
+export interface PromptBundle {
+  format: typeof BUNDLE_FORMAT,
+  formatVersion: number,
+  exportedAt: string,
+  exportedBy: string,
+  promptTypes: BundleType[],
+}
+
+export type BundleVersionAction = "create" | "identical" | "conflict";
+
+export interface BundleVersionPlan {
+  version: number,
+  action: BundleVersionAction,
+  // Why the version conflicts; null otherwise.
+  reason: string | null,
+}
+
+export interface BundleTypePlan {
+  name: string,
+  // The matching type in the database; null when it would be created.
+  promptTypeId: string | null,
+  // create: new type. update: existing type gains versions. identical:
+  // nothing to do. conflict: the bundle cannot be applied as it is.
+  action: "create" | "update" | "identical" | "conflict",
+  reason: string | null,
+  versions: BundleVersionPlan[],
+  // Set when the type's active version differs from the bundle's. Import
+  // never changes what is live; a publisher activates the version after.
+  activeVersion: {bundle: number | null, current: number | null} | null,
+  // The version served once the bundle is imported: the one already active
+  // here, and null for a new type or one with nothing active, which the
+  // serving API answers with not-found until a publisher activates one.
+  liveAfterImport: number | null,
+}
+
+export interface BundleImportPlan {
+  types: BundleTypePlan[],
+  createdTypes: number,
+  createdVersions: number,
+  identicalVersions: number,
+  conflicts: number,
+  // Types with nothing live after the import; see liveAfterImport.
+  notLiveTypes: number,
+}
+
+const MAX_BUNDLE_TYPES = 500;
+
+/**
+ * Exports prompt types, archived ones included, with every version.
+ * @param {Executor} db The database client or open transaction.
+ * @param {object} request The types to export (all when null) and who is
+ *   exporting.
+ * @return {Promise<PromptBundle>} The bundle.
+ */
+export async function exportBundle(
+  db: Executor,
+  request: {promptTypeIds: string[] | null, exportedBy: string},
+): Promise<PromptBundle> {
+  const {promptTypeIds} = request;
+  const filter = promptTypeIds ?
+    `WHERE CAST(id AS TEXT) IN (${promptTypeIds.map(() => "?").join(", ")})` :
+    "";
+  const typesResult = promptTypeIds && !promptTypeIds.length ?
+    {rows: []} :
+    await db.execute({
+      sql:
+        "SELECT id, name, description, content_kind, archived_at " +
+        `FROM prompt_types ${filter} ORDER BY id ASC`,
+      args: promptTypeIds ?? [],
+    });
+  const [versionsResult, rulesResult] = await Promise.all([
+    db.execute(
+      "SELECT prompt_type_id, version, content, variables, is_active, " +
+      "created_at FROM prompt_versions " +
+      "ORDER BY prompt_type_id ASC, version ASC, id ASC"
+    ),
+    db.execute("SELECT prompt_type_id, rules FROM prompt_validation_rules"),
+  ]);
+
+  const promptTypes = typesResult.rows.map((row): BundleType => {
+    const id = String(row.id);
+    const rules = rulesResult.rows
+      .find((rule) => String(rule.prompt_type_id) === id);
+    return {
+      name: String(row.name ?? ""),
+      description: String(row.description ?? ""),
+      contentKind: toContentKind(row.content_kind),
+      archived: Boolean(row.archived_at),
+      validationRules: rules ?
+        JSON.parse(String(rules.rules)) as ValidationRules : null,
+      versions: versionsResult.rows
+        .filter((version) => String(version.prompt_type_id) === id)
+        .map((version) => {
+          const content = String(version.content ?? "");
+          return {
+            version: Number(version.version),
+            content,
+            variables: readStoredVariables(version.variables),
+            contentHash: contentHash(content),
+            isActive: Boolean(version.is_active),
+            createdAt: version.created_at ? String(version.created_at) : null,
+          };
+        }),
+    };
+  });
+
+  return {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy: request.exportedBy,
+    promptTypes,
+  };
+}
+
+/**
+ * Validates an uploaded bundle completely before anything is compared, so
+ * a damaged file is refused as a whole. The first problem is reported with
+ * where it is, e.g. `promptTypes[2].versions[0].contentHash`.
+ * @param {unknown} input The parsed bundle file.
+ * @return {PromptBundle} The validated bundle.
+ */
+export function parseBundle(input: unknown): PromptBundle {
+  const fail = (path: string, message: string): never => {
+    throw new HttpsError("invalid-argument", `${path}: ${message}`, {
+      reason: "invalid-bundle",
+      path,
+    });
+  };
+  // Reuses the field parsers, reporting their message at the field.
+  const field = <T>(path: string, parse: () => T): T => {
+    try {
+      return parse();
+    } catch (error) {
+      if (error instanceof HttpsError) return fail(path, error.message);
+      throw error;
+    }
+  };
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+  if (!isObject(input)) return fail("bundle", "must be an object.");
+  if (input.format !== BUNDLE_FORMAT) {
+    fail("format", `must be "${BUNDLE_FORMAT}".`);
+  }
+  const formatVersion = input.formatVersion;
+  if (
+    typeof formatVersion !== "number" ||
+    !Number.isInteger(formatVersion) ||
+    formatVersion < 1
+  ) {
+    fail("formatVersion", "must be a positive integer.");
+  }
+  if ((formatVersion as number) > BUNDLE_FORMAT_VERSION) {
+    fail(
+      "formatVersion",
+      `${formatVersion} is newer than this server reads ` +
+        `(${BUNDLE_FORMAT_VERSION}).`,
+    );
+  }
+  if (
+    !Array.isArray(input.promptTypes) ||
+    input.promptTypes.length > MAX_BUNDLE_TYPES
+  ) {
+    fail("promptTypes", `must be a list of at most ${MAX_BUNDLE_TYPES}.`);
+  }
+
+  const names = new Set<string>();
+  const promptTypes = (input.promptTypes as unknown[]).map((item, index) => {
+    const at = `promptTypes[${index}]`;
+    if (!isObject(item)) return fail(at, "must be an object.");
+    const name = field(`${at}.name`, () => parsePromptTypeName(item.name));
+    if (names.has(name)) fail(`${at}.name`, `${name} appears twice.`);
+    names.add(name);
+    const contentKind = item.contentKind ?? "text";
+    if (!isContentKind(contentKind)) {
+      return fail(`${at}.contentKind`, `unknown kind ${String(contentKind)}.`);
+    }
+    const {enforcedRules} = getContentKindDefinition(contentKind);
+    if (!Array.isArray(item.versions)) {
+      return fail(`${at}.versions`, "must be a list.");
+    }
+
+    const numbers = new Set<number>();
+    const versions = item.versions.map((entry, versionIndex) => {
+      const vat = `${at}.versions[${versionIndex}]`;
+      if (!isObject(entry)) return fail(vat, "must be an object.");
+      const version = entry.version;
+      if (
+        typeof version !== "number" ||
+        !Number.isInteger(version) ||
+        version < 1
+      ) {
+        return fail(`${vat}.version`, "must be a positive integer.");
+      }
+      if (numbers.has(version)) fail(`${vat}.version`, `v${version} twice.`);
+      numbers.add(version);
+      if (typeof entry.content !== "string") {
+        return fail(`${vat}.content`, "must be a string.");
+      }
+      const content = entry.content;
+      if (entry.contentHash !== contentHash(content)) {
+        fail(`${vat}.contentHash`, "does not match the content.");
+      }
+      const violation =
+        checkContentRules(content, [], enforcedRules)[0];
+      if (violation) fail(`${vat}.content`, violation.message);
+      const createdAt = entry.createdAt ?? null;
+      if (
+        createdAt !== null &&
+        (typeof createdAt !== "string" || Number.isNaN(Date.parse(createdAt)))
+      ) {
+        fail(`${vat}.createdAt`, "must be a date string or null.");
+      }
+      return {
+        version,
+        content,
+        variables: field(`${vat}.variables`, () =>
+          parseVariableDeclarations(entry.variables ?? [])),
+        contentHash: contentHash(content),
+        isActive: entry.isActive === true,
+        createdAt: createdAt as string | null,
+      };
+    });
+    if (versions.filter((version) => version.isActive).length > 1) {
+      fail(`${at}.versions`, "more than one version is active.");
+    }
+
+    return {
+      name,
+      description: field(`${at}.description`, () =>
+        parsePromptTypeDescription(item.description ?? "")),
+      contentKind,
+      archived: item.archived === true,
+      validationRules: item.validationRules === undefined ||
+        item.validationRules === null ?
+        null :
+        field(`${at}.validationRules`, () =>
+          parseValidationRules(item.validationRules)),
+      versions,
+    };
+  });
+
+  return {
+    format: BUNDLE_FORMAT,
+    formatVersion: formatVersion as number,
+    exportedAt: typeof input.exportedAt === "string" ? input.exportedAt : "",
+    exportedBy: typeof input.exportedBy === "string" ? input.exportedBy : "",
+    promptTypes,
+  };
+}
+
+/**
+ * Compares a bundle with the database. A version is identical when the
+ * type already has that version number with the same content and
+ * variables, and conflicts when the number is taken by anything else.
+ * Existing types keep their description and rules, and no type's active
+ * version changes.
+ * @param {Executor} db The database client or open transaction.
+ * @param {PromptBundle} bundle The validated bundle.
+ * @return {Promise<BundleImportPlan>} What an import would do.
+ */
+export async function planBundleImport(
+  db: Executor,
+  bundle: PromptBundle,
+): Promise<BundleImportPlan> {
+  const [typesResult, versionsResult] = await Promise.all([
+    db.execute(
+      "SELECT id, name, content_kind FROM prompt_types ORDER BY id ASC"
+    ),
+    db.execute(
+      "SELECT prompt_type_id, version, content, variables, is_active " +
+      "FROM prompt_versions ORDER BY id ASC"
+    ),
+  ]);
+
+  const types = bundle.promptTypes.map((bundled): BundleTypePlan => {
+    const existing = typesResult.rows
+      .find((row) => String(row.name) === bundled.name);
+    const bundleActive = bundled.versions
+      .find((version) => version.isActive)?.version ?? null;
+    if (!existing) {
+      return {
+        name: bundled.name,
+        promptTypeId: null,
+        action: "create",
+        reason: null,
+        versions: bundled.versions.map((version) => ({
+          version: version.version,
+          action: "create",
+          reason: null,
+        })),
+        activeVersion: bundleActive !== null ?
+          {bundle: bundleActive, current: null} : null,
+        liveAfterImport: null,
+      };
+    }
+
+    const promptTypeId = String(existing.id);
+    const currentKind = toContentKind(existing.content_kind);
+    const current = versionsResult.rows
+      .filter((row) => String(row.prompt_type_id) === promptTypeId);
+    const versions = bundled.versions.map((version): BundleVersionPlan => {
+      const matches = current
+        .filter((row) => Number(row.version) === version.version);
+      if (!matches.length) {
+        return {version: version.version, action: "create", reason: null};
+      }
+      const sameContent = matches.every((row) =>
+        String(row.content ?? "") === version.content);
+      const sameVariables = matches.every((row) =>
+        JSON.stringify(readStoredVariables(row.variables)) ===
+          JSON.stringify(version.variables));
+      if (sameContent && sameVariables) {
+        return {version: version.version, action: "identical", reason: null};
+      }
+      return {
+        version: version.version,
+        action: "conflict",
+        reason: sameContent ?
+          "variables differ" : "content differs",
+      };
+    });
+
+    const currentActiveRow = current.find((row) => Boolean(row.is_active));
+    const currentActive = currentActiveRow ?
+      Number(currentActiveRow.version) : null;
+    const kindConflict = currentKind !== bundled.contentKind;
+    const hasConflict =
+      kindConflict || versions.some((plan) => plan.action === "conflict");
+    return {
+      name: bundled.name,
+      promptTypeId,
+      action: hasConflict ? "conflict" :
+        versions.some((plan) => plan.action === "create") ?
+          "update" : "identical",
+      reason: kindConflict ?
+        `content kind is ${currentKind} here and ` +
+          `${bundled.contentKind} in the bundle` :
+        null,
+      versions,
+      activeVersion: bundleActive !== currentActive ?
+        {bundle: bundleActive, current: currentActive} : null,
+      liveAfterImport: currentActive,
+    };
+  });
+
+  const count = (action: BundleVersionAction) => types.reduce(
+    (total, type) => total +
+      type.versions.filter((version) => version.action === action).length,
+    0,
+  );
+  return {
+    types,
+    createdTypes: types.filter((type) => type.action === "create").length,
+    createdVersions: count("create"),
+    identicalVersions: count("identical"),
+    conflicts: count("conflict") +
+      types.filter((type) => type.reason !== null).length,
+    notLiveTypes: types
+      .filter((type) => type.liveAfterImport === null).length,
+  };
+}
+
+/**
+ * Applies a bundle in one transaction: creates the missing types, with
+ * their rules and archived state, and adds the missing versions of
+ * existing types. Every version is added as an unpublished draft, so it
+ * goes through the release checks, review included where the type asks
+ * for it, before a publisher activates it; until then a new type has
+ * nothing live, which the plan reports. Nothing is written while
+ * anything conflicts, so the database never holds half a bundle. Each
+ * type's audit entry lists the versions created with their content hashes.
+ * @param {Client} db The database client.
+ * @param {object} request The validated bundle and on whose behalf.
+ * @return {Promise<BundleImportPlan>} What was done.
+ */
+export async function importBundle(
+  db: Client,
+  request: {actor: Actor, bundle: PromptBundle},
+): Promise<BundleImportPlan> {
+  const {actor, bundle} = request;
+  const tx = await db.transaction("write");
+  try {
+    const plan = await planBundleImport(tx, bundle);
+    if (plan.conflicts) {
+      throw new HttpsError(
+        "failed-precondition",
+        `The bundle conflicts with ${plan.conflicts} existing item(s); ` +
+          "nothing was imported.",
+        {reason: "bundle-conflicts", plan},
+      );
+    }
+
+    for (const typePlan of plan.types) {
+      const bundled = bundle.promptTypes
+        .find((type) => type.name === typePlan.name) as BundleType;
+      const created = bundled.versions.filter((version) =>
+        typePlan.versions.some((plan) =>
+          plan.version === version.version && plan.action === "create"));
+      if (typePlan.action === "identical") continue;
+
+      let promptTypeId = typePlan.promptTypeId;
+      if (!promptTypeId) {
+        const inserted = await tx.execute({
+          sql:
+            "INSERT INTO prompt_types (name, description, content_kind, " +
+            "archived_at, archived_by) VALUES (?, ?, ?, " +
+            (bundled.archived ? "CURRENT_TIMESTAMP" : "NULL") + ", ?)",
+          args: [
+            bundled.name,
+            bundled.description,
+            bundled.contentKind,
+            bundled.archived ? actor.email : null,
+          ],
+        });
+        promptTypeId = String(inserted.lastInsertRowid);
+        if (bundled.validationRules) {
+          await tx.execute({
+            sql:
+              "INSERT INTO prompt_validation_rules " +
+              "(prompt_type_id, rules, updated_by, updated_at) " +
+              "VALUES (?, ?, ?, CURRENT_TIMESTAMP)",
+            args: [
+              promptTypeId,
+              JSON.stringify(bundled.validationRules),
+              actor.email,
+            ],
+          });
+        }
+      }
+
+      for (const version of created) {
+        await tx.execute({
+          sql:
+            "INSERT INTO prompt_versions (prompt_type_id, version, " +
+            "content, variables, is_active, created_at) " +
+            "VALUES (?, ?, ?, ?, 0, COALESCE(?, CURRENT_TIMESTAMP))",
+          args: [
+            promptTypeId,
+            version.version,
+            version.content,
+            JSON.stringify(version.variables),
+            version.createdAt,
+          ],
+        });
+      }
+
+      await tx.execute(auditStatement({
+        actor,
+        action: "bundle.import",
+        promptTypeId,
+        detail: {
+          name: bundled.name,
+          createdType: !typePlan.promptTypeId,
+          versions: created.map((version) => ({
+            version: version.version,
+            contentHash: version.contentHash,
+          })),
+        },
+      }));
+    }
+
+    await tx.commit();
+    return plan;
+  } finally {
+    tx.close();
+  }
+}
@@ -0,0 +1,69 @@
+import {Client, Transaction} from "@libsql/client";
+import {HttpsError} from "firebase-functions/v2/https";
+import {
+  ChatMessage,
+  composeChatTemplate,
+  parseChatMessages,
+} from "../../packages/prompt-client/src/chat";
+import {IncludedPrompt} from "../../packages/prompt-client/src/includes";
+import {TemplateVariable} from "../../packages/prompt-client/src/template";
+import {DEFAULT_ENVIRONMENT, Environment} from "./environments";
+import {assertComposed, loadIncludes} from "./includes";
+
+type Executor = Client | Transaction;
+
+// Versions of a `chat` type store a JSON array of `{role, content}`
+// messages. Reading, writing and rendering them is shared with the editor
+// and SDK through packages/prompt-client/src/chat.ts; this module resolves
+// their includes against the database.
+
+/**
+ * Resolves the include directives of each message separately, so included
+ * text lands inside the message instead of breaking the JSON around it.
+ * @param {Executor} db The database client or open transaction.
+ * @param {object} root The chat prompt to compose and the environment
+ *   whose versions unpinned includes follow.
+ * @return {Promise<object>} The composed messages, the variables they
+ *   declare and the prompts pulled in.
+ */
+export async function composeChatMessages(
+  db: Executor,
+  root: {
+    promptTypeId: string,
+    content: string,
+    variables: TemplateVariable[],
+    environment?: Environment,
+  },
+): Promise<{
+  messages: ChatMessage[],
+  variables: TemplateVariable[],
+  includes: IncludedPrompt[],
+}> {
+  const {messages, error} = parseChatMessages(root.content);
+  if (!messages) {
+    throw new HttpsError(
+      "failed-precondition",
+      `Prompt type ${root.promptTypeId} holds invalid chat content: ${error}`,
+      {reason: "invalid-chat-content"},
+    );
+  }
+
+  const {promptTypeName, lookup} = await loadIncludes(db, {
+    promptTypeId: root.promptTypeId,
+    contents: messages.map((message) => message.content),
+    environment: root.environment ?? DEFAULT_ENVIRONMENT,
+  });
+  const composed = assertComposed(composeChatTemplate({
+    promptTypeId: root.promptTypeId,
+    promptTypeName,
+    content: root.content,
+    variables: root.variables,
+  }, lookup));
+  // The composed content is the message list written back out, so it
+  // always parses.
+  return {
+    messages: parseChatMessages(composed.content).messages as ChatMessage[],
+    variables: composed.variables,
+    includes: composed.includes,
+  };
+}
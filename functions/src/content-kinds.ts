@@ -0,0 +1,107 @@
+import type {PromptContentKind} from "../../packages/prompt-client/src/types";
+import type {ValidationRules} from "./validation-rules";
+
+/**
+ * What a type's versions hold, stored in `prompt_types.content_kind`.
+ * Existing types were given a kind from their name when the column was
+ * added; from then on the kind alone decides how content is checked.
+ */
+export type ContentKind = PromptContentKind;
+
+export const CONTENT_KINDS: readonly ContentKind[] = [
+  "text",
+  "system_prompt",
+  "json_schema",
+  "yaml",
+  "markdown",
+  "chat",
+];
+
+export const DEFAULT_CONTENT_KIND: ContentKind = "text";
+
+/**
+ * How the server treats one content kind. The dashboard keeps the editor
+ * side of the same registry in app/prompts/content-kinds.tsx.
+ */
+export interface ContentKindDefinition {
+  // Rules a type of this kind gets until an admin sets its own.
+  defaultRules: ValidationRules,
+  // Rules that hold even then, because serving reads the content.
+  enforcedRules: ValidationRules,
+  // Whether the content is a JSON Schema checked against sample outputs
+  // before it is saved or goes live.
+  schemaSamples: boolean,
+  // Extension of version files in a synced prompt tree; see file-sync.ts.
+  fileExtension: string,
+}
+
+const CONTENT_KIND_DEFINITIONS: Record<ContentKind, ContentKindDefinition> = {
+  text: {
+    defaultRules: {minLength: 1},
+    enforcedRules: {},
+    schemaSamples: false,
+    fileExtension: ".txt",
+  },
+  system_prompt: {
+    defaultRules: {minLength: 1},
+    enforcedRules: {},
+    schemaSamples: false,
+    fileExtension: ".txt",
+  },
+  json_schema: {
+    defaultRules: {minLength: 1, json: true},
+    enforcedRules: {},
+    schemaSamples: true,
+    fileExtension: ".json",
+  },
+  yaml: {
+    defaultRules: {minLength: 1},
+    enforcedRules: {},
+    schemaSamples: false,
+    fileExtension: ".yaml",
+  },
+  markdown: {
+    defaultRules: {minLength: 1},
+    enforcedRules: {},
+    schemaSamples: false,
+    fileExtension: ".md",
+  },
+  // Versions hold a JSON message list; see
+  // packages/prompt-client/src/chat.ts.
+  chat: {
+    defaultRules: {minLength: 1, chatMessages: true},
+    enforcedRules: {chatMessages: true},
+    schemaSamples: false,
+    fileExtension: ".json",
+  },
+};
+
+/**
+ * Checks whether a value is one of the known content kinds.
+ * @param {unknown} value The value to check.
+ * @return {boolean} True when the value is a content kind.
+ */
+export function isContentKind(value: unknown): value is ContentKind {
+  return typeof value === "string" &&
+    (CONTENT_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * Reads a stored kind, treating anything unknown as the default.
+ * @param {unknown} value The `content_kind` column value.
+ * @return {ContentKind} The kind.
+ */
+export function toContentKind(value: unknown): ContentKind {
+  return isContentKind(value) ? value : DEFAULT_CONTENT_KIND;
+}
+
+/**
+ * Looks up how the server treats a content kind.
+ * @param {ContentKind} kind The kind.
+ * @return {ContentKindDefinition} Its definition.
+ */
+export function getContentKindDefinition(
+  kind: ContentKind,
+): ContentKindDefinition {
+  return CONTENT_KIND_DEFINITIONS[kind];
+}
@@ -0,0 +1,107 @@
+import {Client} from "@libsql/client";
+import {PREVIEW_LENGTH, toContentPreview} from "../../lib/version-summary";
+import type {
+  PromptTypeSummary,
+  PromptVersionContent,
+} from "../../packages/prompt-client/src/types";
+import {readStoredVariables} from "./variables";
+import {toContentKind} from "./content-kinds";
+
+export const MAX_DASHBOARD_PAGE_SIZE = 200;
+export const MAX_CONTENT_BATCH = 50;
+
+/**
+ * Loads one page of prompt types, in id order, with a summary of every
+ * version but none of their content.
+ * @param {Client} db The database client.
+ * @param {object} page Types after `afterId` (exclusive), at most `limit`.
+ * @return {Promise<object>} The types, and the id to continue after when
+ *   more remain.
+ */
+export async function getDashboardPage(
+  db: Client,
+  page: {afterId: number | null, limit: number},
+): Promise<{promptTypes: PromptTypeSummary[], nextAfterId: number | null}> {
+  const typesResult = await db.execute({
+    sql:
+      "SELECT id, name, description, content_kind, archived_at " +
+      "FROM prompt_types " +
+      (page.afterId !== null ? "WHERE id > ? " : "") +
+      "ORDER BY id ASC LIMIT ?",
+    args: page.afterId !== null ?
+      [page.afterId, page.limit + 1] : [page.limit + 1],
+  });
+  const typeRows = typesResult.rows.slice(0, page.limit);
+  if (!typeRows.length) return {promptTypes: [], nextAfterId: null};
+
+  const typeIds = typeRows.map((row) => String(row.id));
+  const versionsResult = await db.execute({
+    sql:
+      "SELECT id, prompt_type_id, version, is_active, created_at, " +
+      "published_at, revision, " +
+      `substr(content, 1, ${PREVIEW_LENGTH * 2}) AS head, ` +
+      "length(content) AS size " +
+      "FROM prompt_versions " +
+      `WHERE prompt_type_id IN (${typeIds.map(() => "?").join(", ")}) ` +
+      "ORDER BY prompt_type_id ASC, is_active DESC, version DESC, id DESC",
+    args: typeIds,
+  });
+
+  const typeMap = new Map<string, PromptTypeSummary>();
+  for (const row of typeRows) {
+    const id = String(row.id);
+    typeMap.set(id, {
+      id,
+      title: String(row.name ?? ""),
+      description: String(row.description ?? ""),
+      contentKind: toContentKind(row.content_kind),
+      archivedAt: row.archived_at ? String(row.archived_at) : null,
+      versions: [],
+    });
+  }
+  for (const row of versionsResult.rows) {
+    typeMap.get(String(row.prompt_type_id))?.versions.push({
+      id: String(row.id),
+      version: Number(row.version ?? 0),
+      isActive: Boolean(row.is_active),
+      createdAt: row.created_at ? String(row.created_at) : null,
+      publishedAt: row.published_at ? String(row.published_at) : null,
+      revision: Number(row.revision ?? 1),
+      preview: toContentPreview(String(row.head ?? "")),
+      size: Number(row.size ?? 0),
+    });
+  }
+
+  return {
+    promptTypes: Array.from(typeMap.values()),
+    nextAfterId: typesResult.rows.length > page.limit ?
+      Number(typeRows[typeRows.length - 1].id) : null,
+  };
+}
+
+/**
+ * Loads the content and variables of the given versions. Ids that do not
+ * exist are left out of the result.
+ * @param {Client} db The database client.
+ * @param {string[]} promptVersionIds The versions to load.
+ * @return {Promise<PromptVersionContent[]>} One entry per found version.
+ */
+export async function getVersionContents(
+  db: Client,
+  promptVersionIds: string[],
+): Promise<PromptVersionContent[]> {
+  if (!promptVersionIds.length) return [];
+  const result = await db.execute({
+    sql:
+      "SELECT id, revision, content, variables FROM prompt_versions " +
+      "WHERE CAST(id AS TEXT) IN " +
+      `(${promptVersionIds.map(() => "?").join(", ")})`,
+    args: promptVersionIds,
+  });
+  return result.rows.map((row) => ({
+    id: String(row.id),
+    revision: Number(row.revision ?? 1),
+    content: String(row.content ?? ""),
+    variables: readStoredVariables(row.variables),
+  }));
+}
@@ -0,0 +1,145 @@
+import {Client, InStatement, Transaction} from "@libsql/client";
+import type {PromptEnvironment} from "../../packages/prompt-client/src/types";
+import {Role} from "./auth";
+
+type Executor = Client | Transaction;
+
+/**
+ * Deployment environments, in promotion order. Production is the
+ * `is_active` flag on prompt_versions, which everything written before
+ * environments existed reads; the others are rows in
+ * prompt_environment_versions.
+ */
+export type Environment = PromptEnvironment;
+
+export const ENVIRONMENTS: readonly Environment[] = [
+  "dev",
+  "staging",
+  "production",
+];
+
+export const DEFAULT_ENVIRONMENT: Environment = "production";
+
+export interface EnvironmentPointer {
+  environment: Environment,
+  // Null when nothing is live in the environment.
+  promptVersionId: string | null,
+  version: number | null,
+  updatedBy: string | null,
+  updatedAt: string | null,
+}
+
+/**
+ * Checks whether a value is one of the known environment names.
+ * @param {unknown} value The value to check.
+ * @return {boolean} True when the value is an environment.
+ */
+export function isEnvironment(value: unknown): value is Environment {
+  return typeof value === "string" &&
+    (ENVIRONMENTS as readonly string[]).includes(value);
+}
+
+/**
+ * Returns the environment a version is promoted to from this one.
+ * @param {Environment} environment The environment promoted from.
+ * @return {Environment | null} The next environment, or null after the
+ *   last.
+ */
+export function nextEnvironment(environment: Environment): Environment | null {
+  return ENVIRONMENTS[ENVIRONMENTS.indexOf(environment) + 1] ?? null;
+}
+
+/**
+ * Returns the least privileged role that may change what is live in an
+ * environment. Editors try versions out in dev; what real users can
+ * reach needs a publisher.
+ * @param {Environment} environment The environment.
+ * @return {Role} The minimum role.
+ */
+export function environmentRole(environment: Environment): Role {
+  return environment === "dev" ? "editor" : "publisher";
+}
+
+/**
+ * Builds the SELECT for the version live in an environment, with its
+ * content and variables.
+ * @param {string} promptTypeId The prompt type.
+ * @param {Environment} environment The environment.
+ * @return {InStatement} The statement; no row when nothing is live.
+ */
+export function environmentVersionStatement(
+  promptTypeId: string,
+  environment: Environment,
+): InStatement {
+  if (environment === "production") {
+    return {
+      sql:
+        "SELECT id, version, content, variables FROM prompt_versions " +
+        "WHERE prompt_type_id = ? AND is_active = TRUE",
+      args: [promptTypeId],
+    };
+  }
+  return {
+    sql:
+      "SELECT v.id, v.version, v.content, v.variables " +
+      "FROM prompt_environment_versions e " +
+      "JOIN prompt_versions v ON CAST(v.id AS TEXT) = e.prompt_version_id " +
+      "WHERE e.prompt_type_id = ? AND e.environment = ?",
+    args: [promptTypeId, environment],
+  };
+}
+
+/**
+ * Loads which version is live in each environment of a prompt type. For
+ * production, who and when come from the activation history.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} promptTypeId The prompt type.
+ * @return {Promise<EnvironmentPointer[]>} One entry per environment, in
+ *   promotion order.
+ */
+export async function getEnvironmentPointers(
+  db: Executor,
+  promptTypeId: string,
+): Promise<EnvironmentPointer[]> {
+  const [pointersResult, activeResult, activationResult] = await Promise.all([
+    db.execute({
+      sql:
+        "SELECT e.environment, e.prompt_version_id, v.version, " +
+        "e.updated_by, e.updated_at " +
+        "FROM prompt_environment_versions e " +
+        "JOIN prompt_versions v ON CAST(v.id AS TEXT) = e.prompt_version_id " +
+        "WHERE e.prompt_type_id = ?",
+      args: [promptTypeId],
+    }),
+    db.execute(environmentVersionStatement(promptTypeId, "production")),
+    db.execute({
+      sql:
+        "SELECT activated_by, created_at FROM prompt_activations " +
+        "WHERE prompt_type_id = ? ORDER BY id DESC LIMIT 1",
+      args: [promptTypeId],
+    }),
+  ]);
+
+  return ENVIRONMENTS.map((environment) => {
+    if (environment === "production") {
+      const active = activeResult.rows[0];
+      const activation = activationResult.rows[0];
+      return {
+        environment,
+        promptVersionId: active ? String(active.id) : null,
+        version: active ? Number(active.version) : null,
+        updatedBy: activation ? String(activation.activated_by) : null,
+        updatedAt: activation ? String(activation.created_at) : null,
+      };
+    }
+    const row = pointersResult.rows
+      .find((candidate) => candidate.environment === environment);
+    return {
+      environment,
+      promptVersionId: row ? String(row.prompt_version_id) : null,
+      version: row ? Number(row.version) : null,
+      updatedBy: row?.updated_by ? String(row.updated_by) : null,
+      updatedAt: row ? String(row.updated_at) : null,
+    };
+  });
+}
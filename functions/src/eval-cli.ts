@@ -0,0 +1,92 @@
+import {getDbClient} from "./db";
+import {runEvaluation} from "./evaluation";
+import {getModelAdapter} from "./model-adapters";
+import {ensureSchema} from "./schema";
+
+// Runs a prompt type's test cases from the command line, for CI:
+//
+//   TURSO_DATABASE_URL=... TURSO_AUTH_TOKEN=... \
+//     npm run eval -- <type id or name> [--version N] [--adapter mock|http]
+//
+// Evaluates the latest version unless --version is given, stores the run
+// like the dashboard does and exits non-zero when a case fails. The mock
+// adapter (the default) needs no model and always gives the same result.
+
+/**
+ * Reads `--name value` from the arguments.
+ * @param {string[]} args The command line arguments.
+ * @param {string} name The option name without dashes.
+ * @return {string | undefined} The value, if given.
+ */
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Runs the evaluation and reports it.
+ * @return {Promise<number>} The process exit code.
+ */
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const type = args[0];
+  if (!type || type.startsWith("--")) {
+    console.error(
+      "Usage: eval-cli <type id or name> [--version N] [--adapter mock|http]"
+    );
+    return 2;
+  }
+  const db = getDbClient();
+  await ensureSchema(db);
+
+  const typeResult = await db.execute({
+    sql:
+      "SELECT id FROM prompt_types " +
+      "WHERE CAST(id AS TEXT) = ? OR name = ? ORDER BY id ASC LIMIT 1",
+    args: [type, type],
+  });
+  const promptTypeId = typeResult.rows[0]?.id;
+  const version = option(args, "version");
+  const versionResult = promptTypeId === undefined ? null : await db.execute({
+    sql:
+      "SELECT id, version FROM prompt_versions WHERE prompt_type_id = ? " +
+      (version ? "AND version = ? " : "") +
+      "ORDER BY version DESC LIMIT 1",
+    args: version ?
+      [String(promptTypeId), Number(version)] :
+      [String(promptTypeId)],
+  });
+  const target = versionResult?.rows[0];
+  if (!target) {
+    console.error(`No version found for ${type}.`);
+    return 2;
+  }
+
+  const run = await runEvaluation(db, {
+    promptVersionId: String(target.id),
+    adapter: getModelAdapter(option(args, "adapter") ?? "mock"),
+    requestedBy: `cli:${process.env.USER ?? "unknown"}`,
+  });
+  for (const testCase of run.cases) {
+    console.log(`${testCase.passed ? "PASS" : "FAIL"} ${testCase.name}`);
+    if (testCase.error) console.log(`  ${testCase.error}`);
+    for (const assertion of testCase.assertions) {
+      if (!assertion.passed) {
+        console.log(`  ${assertion.type}: ${assertion.message}`);
+      }
+    }
+  }
+  console.log(
+    `${type} v${target.version}: ${run.total - run.failed}/${run.total} ` +
+      `passed (${run.adapter}, run ${run.id}).`
+  );
+  return run.passed ? 0 : 1;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(2);
+  },
+);
@@ -0,0 +1,697 @@
+import {Client, Transaction} from "@libsql/client";
+import {HttpsError} from "firebase-functions/v2/https";
+import {
+  renderChatMessages,
+  serializeChatMessages,
+} from "../../packages/prompt-client/src/chat";
+import {renderTemplate} from "../../packages/prompt-client/src/template";
+import {Actor} from "./auth";
+import {auditStatement} from "./audit";
+import {composeChatMessages} from "./chat-messages";
+import {toContentKind} from "./content-kinds";
+import {composePrompt} from "./includes";
+import {checkJsonSchema} from "./json-schema";
+import {ModelAdapter} from "./model-adapters";
+import {readStoredVariables} from "./variables";
+
+type Executor = Client | Transaction;
+
+export type EvalAssertion =
+  | {type: "contains", value: string}
+  | {type: "not-contains", value: string}
+  | {type: "regex", pattern: string, flags?: string}
+  // The output must parse as JSON and match this JSON Schema (2020-12).
+  | {type: "json-schema", schema: string}
+  | {type: "max-tokens", value: number};
+
+export const EVAL_ASSERTION_TYPES: Array<EvalAssertion["type"]> = [
+  "contains",
+  "not-contains",
+  "regex",
+  "json-schema",
+  "max-tokens",
+];
+
+export interface EvalCase {
+  id: number,
+  promptTypeId: string,
+  name: string,
+  // Values for the version's declared variables.
+  variables: Record<string, string>,
+  assertions: EvalAssertion[],
+  // What the mock adapter answers; it echoes the prompt when unset.
+  mockOutput: string | null,
+  createdBy: string,
+  createdAt: string,
+}
+
+export interface AssertionResult {
+  type: EvalAssertion["type"],
+  passed: boolean,
+  message: string,
+}
+
+export interface EvalCaseResult {
+  caseId: number,
+  name: string,
+  passed: boolean,
+  output: string,
+  tokens: number,
+  assertions: AssertionResult[],
+  // Set when the case could not run: a missing variable, an adapter error.
+  error: string | null,
+}
+
+export interface EvalRun {
+  id: number,
+  promptVersionId: string,
+  // The version's revision when it ran; an edit makes the run stale.
+  revision: number,
+  adapter: string,
+  passed: boolean,
+  total: number,
+  failed: number,
+  cases: EvalCaseResult[],
+  createdBy: string,
+  createdAt: string,
+}
+
+const MAX_CASES_PER_TYPE = 100;
+const MAX_ASSERTIONS_PER_CASE = 20;
+const MAX_FIXTURE_LENGTH = 100_000;
+// Outputs are kept for reading the results, not as a transcript.
+const MAX_STORED_OUTPUT = 4_000;
+
+/**
+ * Validates a test case sent by the editor.
+ * @param {unknown} input The case from the request.
+ * @return {object} The name, variable values, assertions and mock output.
+ */
+export function parseEvalCase(input: unknown): Pick<
+  EvalCase,
+  "name" | "variables" | "assertions" | "mockOutput"
+> {
+  const fail = (message: string): never => {
+    throw new HttpsError("invalid-argument", message, {
+      reason: "invalid-eval-case",
+    });
+  };
+  if (!input || typeof input !== "object") fail("A test case is required.");
+  const candidate = input as Record<string, unknown>;
+
+  const name = typeof candidate.name === "string" ?
+    candidate.name.trim() : "";
+  if (!name || name.length > 200) {
+    fail("Test case name must be 1-200 characters.");
+  }
+
+  const rawVariables = candidate.variables ?? {};
+  if (typeof rawVariables !== "object" || Array.isArray(rawVariables)) {
+    fail("variables must be an object of values.");
+  }
+  const variables: Record<string, string> = {};
+  for (const [key, value] of Object.entries(rawVariables as object)) {
+    if (value === null || typeof value === "object") {
+      fail(`Variable ${key} must be a string, number or boolean.`);
+    }
+    variables[key] = String(value);
+  }
+
+  if (
+    !Array.isArray(candidate.assertions) ||
+    !candidate.assertions.length ||
+    candidate.assertions.length > MAX_ASSERTIONS_PER_CASE
+  ) {
+    fail(`A test case needs 1-${MAX_ASSERTIONS_PER_CASE} assertions.`);
+  }
+  const assertions = (candidate.assertions as unknown[])
+    .map((item, index) => parseAssertion(item, index, fail));
+
+  const mockOutput = candidate.mockOutput ?? null;
+  if (
+    mockOutput !== null &&
+    (typeof mockOutput !== "string" || mockOutput.length > MAX_FIXTURE_LENGTH)
+  ) {
+    fail(`mockOutput must be text of at most ${MAX_FIXTURE_LENGTH} chars.`);
+  }
+
+  return {
+    name,
+    variables,
+    assertions,
+    mockOutput: mockOutput === "" ? null : mockOutput as string | null,
+  };
+}
+
+/**
+ * Validates one assertion of a test case.
+ * @param {unknown} item The assertion from the request.
+ * @param {number} index Its position, for messages.
+ * @param {Function} fail Throws the invalid-eval-case error.
+ * @return {EvalAssertion} The assertion.
+ */
+function parseAssertion(
+  item: unknown,
+  index: number,
+  fail: (message: string) => never,
+): EvalAssertion {
+  const candidate = (item ?? {}) as Record<string, unknown>;
+  const label = `assertions[${index}]`;
+  switch (candidate.type) {
+  case "contains":
+  case "not-contains":
+    if (typeof candidate.value !== "string" || !candidate.value) {
+      return fail(`${label}.value must be non-empty text.`);
+    }
+    return {type: candidate.type, value: candidate.value};
+  case "regex": {
+    const flags = typeof candidate.flags === "string" ? candidate.flags : "";
+    if (typeof candidate.pattern !== "string" || !candidate.pattern) {
+      return fail(`${label}.pattern must be non-empty text.`);
+    }
+    try {
+      new RegExp(candidate.pattern, flags);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return fail(`${label} is not a valid regular expression: ${message}`);
+    }
+    return {
+      type: "regex",
+      pattern: candidate.pattern,
+      ...(flags ? {flags} : {}),
+    };
+  }
+  case "json-schema": {
+    if (typeof candidate.schema !== "string") {
+      return fail(`${label}.schema must be JSON Schema text.`);
+    }
+    const check = checkJsonSchema(candidate.schema);
+    if (!check.validate) {
+      return fail(
+        `${label}.schema is not a valid JSON Schema: ` +
+          check.errors.map((issue) => issue.message).slice(0, 3).join("; "),
+      );
+    }
+    return {type: "json-schema", schema: candidate.schema};
+  }
+  case "max-tokens":
+    if (
+      typeof candidate.value !== "number" ||
+      !Number.isInteger(candidate.value) ||
+      candidate.value < 1
+    ) {
+      return fail(`${label}.value must be a positive integer.`);
+    }
+    return {type: "max-tokens", value: candidate.value};
+  default:
+    return fail(
+      `${label}.type must be one of ${EVAL_ASSERTION_TYPES.join(", ")}.`,
+    );
+  }
+}
+
+/**
+ * Checks one assertion against a model output.
+ * @param {EvalAssertion} assertion The assertion.
+ * @param {string} output The model output.
+ * @param {number} tokens The output's token count.
+ * @return {AssertionResult} Whether it held, and why not.
+ */
+export function checkAssertion(
+  assertion: EvalAssertion,
+  output: string,
+  tokens: number,
+): AssertionResult {
+  const result = (passed: boolean, message: string): AssertionResult =>
+    ({type: assertion.type, passed, message});
+  switch (assertion.type) {
+  case "contains":
+    return output.includes(assertion.value) ?
+      result(true, `Contains "${assertion.value}".`) :
+      result(false, `Does not contain "${assertion.value}".`);
+  case "not-contains":
+    return output.includes(assertion.value) ?
+      result(false, `Contains "${assertion.value}".`) :
+      result(true, `Does not contain "${assertion.value}".`);
+  case "regex": {
+    const pattern = new RegExp(assertion.pattern, assertion.flags);
+    return pattern.test(output) ?
+      result(true, `Matches ${pattern}.`) :
+      result(false, `Does not match ${pattern}.`);
+  }
+  case "json-schema": {
+    let instance: unknown;
+    try {
+      instance = JSON.parse(output);
+    } catch {
+      return result(false, "Output is not valid JSON.");
+    }
+    const validate = checkJsonSchema(assertion.schema).validate;
+    const issues = validate ? validate(instance) : [];
+    return issues.length ?
+      result(false, issues.slice(0, 3)
+        .map((issue) => `${issue.path || "/"} ${issue.message}`)
+        .join("; ")) :
+      result(true, "Output matches the schema.");
+  }
+  case "max-tokens":
+    return tokens <= assertion.value ?
+      result(true, `${tokens} tokens (limit ${assertion.value}).`) :
+      result(false, `${tokens} tokens, over the limit of ${assertion.value}.`);
+  }
+}
+
+/**
+ * Lists the test cases of a prompt type, oldest first.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} promptTypeId The prompt type.
+ * @return {Promise<EvalCase[]>} The test cases.
+ */
+export async function listEvalCases(
+  db: Executor,
+  promptTypeId: string,
+): Promise<EvalCase[]> {
+  const result = await db.execute({
+    sql:
+      "SELECT id, prompt_type_id, name, variables, assertions, mock_output, " +
+      "created_by, created_at FROM prompt_eval_cases " +
+      "WHERE prompt_type_id = ? ORDER BY id ASC",
+    args: [promptTypeId],
+  });
+  return result.rows.map((row) => ({
+    id: Number(row.id),
+    promptTypeId: String(row.prompt_type_id),
+    name: String(row.name),
+    variables: JSON.parse(String(row.variables)),
+    assertions: JSON.parse(String(row.assertions)),
+    mockOutput: row.mock_output === null ? null : String(row.mock_output),
+    createdBy: String(row.created_by),
+    createdAt: String(row.created_at),
+  }));
+}
+
+/**
+ * Adds a test case to a prompt type.
+ * @param {Client} db The database client.
+ * @param {object} request The acting user, prompt type and parsed case.
+ * @return {Promise<EvalCase>} The stored case.
+ */
+export async function addEvalCase(
+  db: Client,
+  request: {
+    actor: Actor,
+    promptTypeId: string,
+    testCase: ReturnType<typeof parseEvalCase>,
+  },
+): Promise<EvalCase> {
+  const {actor, promptTypeId, testCase} = request;
+  const tx = await db.transaction("write");
+  try {
+    const typeResult = await tx.execute({
+      sql: "SELECT id FROM prompt_types WHERE id = ?",
+      args: [promptTypeId],
+    });
+    if (!typeResult.rows[0]) {
+      throw new HttpsError(
+        "not-found",
+        `Prompt type ${promptTypeId} does not exist.`,
+        {reason: "type-not-found"},
+      );
+    }
+    const countResult = await tx.execute({
+      sql:
+        "SELECT COUNT(*) AS case_count FROM prompt_eval_cases " +
+        "WHERE prompt_type_id = ?",
+      args: [promptTypeId],
+    });
+    if (Number(countResult.rows[0]?.case_count ?? 0) >= MAX_CASES_PER_TYPE) {
+      throw new HttpsError(
+        "failed-precondition",
+        `A prompt type can have at most ${MAX_CASES_PER_TYPE} test cases.`,
+        {reason: "too-many-eval-cases"},
+      );
+    }
+
+    const inserted = await tx.execute({
+      sql:
+        "INSERT INTO prompt_eval_cases " +
+        "(prompt_type_id, name, variables, assertions, mock_output, " +
+        "created_by) VALUES (?, ?, ?, ?, ?, ?)",
+      args: [
+        promptTypeId,
+        testCase.name,
+        JSON.stringify(testCase.variables),
+        JSON.stringify(testCase.assertions),
+        testCase.mockOutput,
+        actor.email,
+      ],
+    });
+    const id = Number(inserted.lastInsertRowid);
+    await tx.execute(auditStatement({
+      actor,
+      action: "eval.case_add",
+      promptTypeId,
+      detail: {caseId: id, name: testCase.name},
+    }));
+    await tx.commit();
+
+    const [stored] = (await listEvalCases(db, promptTypeId))
+      .filter((entry) => entry.id === id);
+    return stored;
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Removes a test case. Runs that already used it keep their results.
+ * @param {Client} db The database client.
+ * @param {object} request The test case and the acting user.
+ * @return {Promise<void>} Resolves when the case is gone.
+ */
+export async function deleteEvalCase(
+  db: Client,
+  request: {actor: Actor, caseId: number},
+): Promise<void> {
+  const tx = await db.transaction("write");
+  try {
+    const caseResult = await tx.execute({
+      sql: "SELECT prompt_type_id, name FROM prompt_eval_cases WHERE id = ?",
+      args: [request.caseId],
+    });
+    const testCase = caseResult.rows[0];
+    if (!testCase) {
+      throw new HttpsError(
+        "not-found",
+        `Test case ${request.caseId} does not exist.`,
+        {reason: "eval-case-not-found"},
+      );
+    }
+    await tx.execute({
+      sql: "DELETE FROM prompt_eval_cases WHERE id = ?",
+      args: [request.caseId],
+    });
+    await tx.execute(auditStatement({
+      actor: request.actor,
+      action: "eval.case_delete",
+      promptTypeId: String(testCase.prompt_type_id),
+      detail: {caseId: request.caseId, name: String(testCase.name)},
+    }));
+    await tx.commit();
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Runs every test case of a version's prompt type against a model
+ * adapter and stores the run. Cases run one after another so a real
+ * model is not flooded; a case that cannot render or whose model call
+ * fails counts as failed rather than aborting the run.
+ * @param {Client} db The database client.
+ * @param {object} request The version, the adapter and who asked.
+ * @return {Promise<EvalRun>} The stored run.
+ */
+export async function runEvaluation(
+  db: Client,
+  request: {
+    promptVersionId: string,
+    adapter: ModelAdapter,
+    requestedBy: string,
+  },
+): Promise<EvalRun> {
+  const {promptVersionId, adapter} = request;
+  const versionResult = await db.execute({
+    sql:
+      "SELECT v.prompt_type_id, v.content, v.variables, v.revision, " +
+      "t.content_kind FROM prompt_versions v " +
+      "LEFT JOIN prompt_types t ON CAST(t.id AS TEXT) = v.prompt_type_id " +
+      "WHERE v.id = ?",
+    args: [promptVersionId],
+  });
+  const version = versionResult.rows[0];
+  if (!version) {
+    throw new HttpsError(
+      "not-found",
+      `Prompt version ${promptVersionId} does not exist.`,
+      {reason: "version-not-found"},
+    );
+  }
+  const promptTypeId = String(version.prompt_type_id);
+  const revision = Number(version.revision ?? 1);
+  const testCases = await listEvalCases(db, promptTypeId);
+  if (!testCases.length) {
+    throw new HttpsError(
+      "failed-precondition",
+      `Prompt type ${promptTypeId} has no test cases.`,
+      {reason: "no-eval-cases"},
+    );
+  }
+  const root = {
+    promptTypeId,
+    content: String(version.content ?? ""),
+    variables: readStoredVariables(version.variables),
+  };
+  // Chat prompts are composed and rendered per message and reach the model
+  // as messages; the prompt text is then the same list as JSON.
+  const chat = toContentKind(version.content_kind) === "chat" ?
+    await composeChatMessages(db, root) : null;
+  const composed = chat ?
+    {...chat, content: serializeChatMessages(chat.messages)} :
+    await composePrompt(db, root);
+
+  const cases: EvalCaseResult[] = [];
+  for (const testCase of testCases) {
+    const failedCase = (error: string): EvalCaseResult => ({
+      caseId: testCase.id,
+      name: testCase.name,
+      passed: false,
+      output: "",
+      tokens: 0,
+      assertions: [],
+      error,
+    });
+    const renderedChat = chat &&
+      renderChatMessages(chat.messages, chat.variables, testCase.variables);
+    const rendered = renderedChat ?
+      {
+        ...renderedChat,
+        text: serializeChatMessages(renderedChat.messages),
+      } :
+      {
+        ...renderTemplate(
+          composed.content,
+          composed.variables,
+          testCase.variables,
+        ),
+        messages: null,
+      };
+    if (rendered.errors.length) {
+      cases.push(failedCase(rendered.errors
+        .map((issue) => `${issue.name}: ${issue.message}`).join("; ")));
+      continue;
+    }
+    const maxTokens = testCase.assertions.reduce<number | null>(
+      (limit, assertion) => assertion.type === "max-tokens" ?
+        Math.min(limit ?? assertion.value, assertion.value) : limit,
+      null,
+    );
+    try {
+      const response = await adapter.complete({
+        prompt: rendered.text,
+        messages: rendered.messages,
+        maxTokens,
+        fixture: testCase.mockOutput,
+      });
+      const assertions = testCase.assertions.map((assertion) =>
+        checkAssertion(assertion, response.output, response.tokens));
+      cases.push({
+        caseId: testCase.id,
+        name: testCase.name,
+        passed: assertions.every((assertion) => assertion.passed),
+        output: response.output.slice(0, MAX_STORED_OUTPUT),
+        tokens: response.tokens,
+        assertions,
+        error: null,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      cases.push(failedCase(`The ${adapter.name} adapter failed: ${message}`));
+    }
+  }
+
+  const failed = cases.filter((result) => !result.passed).length;
+  const inserted = await db.execute({
+    sql:
+      "INSERT INTO prompt_eval_runs " +
+      "(prompt_type_id, prompt_version_id, revision, adapter, passed, " +
+      "total, failed, results, created_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+    args: [
+      promptTypeId,
+      promptVersionId,
+      revision,
+      adapter.name,
+      failed === 0 ? 1 : 0,
+      cases.length,
+      failed,
+      JSON.stringify(cases),
+      request.requestedBy,
+    ],
+  });
+  const [run] = await loadEvalRuns(
+    db,
+    "id = ?",
+    [Number(inserted.lastInsertRowid)],
+  );
+  return run;
+}
+
+/**
+ * Loads stored runs matching a condition on prompt_eval_runs.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} where The SQL condition.
+ * @param {Array<string | number>} args Its arguments.
+ * @return {Promise<EvalRun[]>} The runs, newest first.
+ */
+async function loadEvalRuns(
+  db: Executor,
+  where: string,
+  args: Array<string | number>,
+): Promise<EvalRun[]> {
+  const result = await db.execute({
+    sql:
+      "SELECT id, prompt_version_id, revision, adapter, passed, total, " +
+      "failed, results, created_by, created_at FROM prompt_eval_runs " +
+      `WHERE ${where} ORDER BY id DESC`,
+    args,
+  });
+  return result.rows.map((row) => ({
+    id: Number(row.id),
+    promptVersionId: String(row.prompt_version_id),
+    revision: Number(row.revision),
+    adapter: String(row.adapter),
+    passed: Boolean(row.passed),
+    total: Number(row.total),
+    failed: Number(row.failed),
+    cases: JSON.parse(String(row.results)),
+    createdBy: String(row.created_by),
+    createdAt: String(row.created_at),
+  }));
+}
+
+/**
+ * Returns the latest run of each version of a prompt type.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} promptTypeId The prompt type.
+ * @return {Promise<EvalRun[]>} One run per version that has been run.
+ */
+export async function getLatestEvalRuns(
+  db: Executor,
+  promptTypeId: string,
+): Promise<EvalRun[]> {
+  return loadEvalRuns(
+    db,
+    "id IN (SELECT MAX(id) FROM prompt_eval_runs " +
+      "WHERE prompt_type_id = ? GROUP BY prompt_version_id)",
+    [promptTypeId],
+  );
+}
+
+/**
+ * Whether versions of a prompt type must pass their test cases before
+ * they can go active.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} promptTypeId The prompt type.
+ * @return {Promise<boolean>} True when a passing run is required.
+ */
+export async function isEvalPassRequired(
+  db: Executor,
+  promptTypeId: string,
+): Promise<boolean> {
+  const result = await db.execute({
+    sql:
+      "SELECT require_pass FROM prompt_eval_policies " +
+      "WHERE prompt_type_id = ?",
+    args: [promptTypeId],
+  });
+  return Boolean(result.rows[0]?.require_pass);
+}
+
+/**
+ * Turns the passing-run requirement of a prompt type on or off.
+ * @param {Client} db The database client.
+ * @param {Actor} actor Who is changing the policy.
+ * @param {string} promptTypeId The prompt type.
+ * @param {boolean} requirePass Whether a passing run is required.
+ * @return {Promise<void>} Resolves once saved.
+ */
+export async function setEvalPassRequired(
+  db: Client,
+  actor: Actor,
+  promptTypeId: string,
+  requirePass: boolean,
+): Promise<void> {
+  await db.batch([
+    {
+      sql:
+        "INSERT INTO prompt_eval_policies " +
+        "(prompt_type_id, require_pass, updated_by, updated_at) " +
+        "VALUES (?, ?, ?, CURRENT_TIMESTAMP) " +
+        "ON CONFLICT(prompt_type_id) DO UPDATE SET " +
+        "require_pass = excluded.require_pass, " +
+        "updated_by = excluded.updated_by, " +
+        "updated_at = excluded.updated_at",
+      args: [promptTypeId, requirePass ? 1 : 0, actor.email],
+    },
+    auditStatement({
+      actor,
+      action: "eval.policy",
+      promptTypeId,
+      detail: {requirePass},
+    }),
+  ], "write");
+}
+
+/**
+ * Rejects activating a version without a passing run of its current
+ * revision that covers every test case, when the type requires one.
+ * Runs inside the activation transaction; the caller skips versions that
+ * were published before so rollbacks keep working.
+ * @param {Transaction} tx The open activation transaction.
+ * @param {object} target The version about to go active.
+ * @return {Promise<void>} Resolves when the version may go active.
+ */
+export async function assertEvalPassed(
+  tx: Transaction,
+  target: {promptTypeId: string, promptVersionId: string, revision: number},
+): Promise<void> {
+  if (!await isEvalPassRequired(tx, target.promptTypeId)) return;
+
+  const [run] = await loadEvalRuns(
+    tx,
+    "id = (SELECT MAX(id) FROM prompt_eval_runs WHERE prompt_version_id = ?)",
+    [target.promptVersionId],
+  );
+  const ranCases = new Set(run?.cases.map((result) => result.caseId) ?? []);
+  const testCases = await listEvalCases(tx, target.promptTypeId);
+  if (
+    !run ||
+    run.revision !== target.revision ||
+    testCases.some((testCase) => !ranCases.has(testCase.id))
+  ) {
+    throw new HttpsError(
+      "failed-precondition",
+      `Prompt version ${target.promptVersionId} needs a test run of its ` +
+        "current content before it can go active.",
+      {reason: "eval-required"},
+    );
+  }
+  if (!run.passed) {
+    throw new HttpsError(
+      "failed-precondition",
+      `${run.failed} of ${run.total} test case(s) failed on prompt version ` +
+        `${target.promptVersionId}.`,
+      {reason: "eval-failed", runId: run.id, failed: run.failed},
+    );
+  }
+}
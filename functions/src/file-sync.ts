@@ -0,0 +1,798 @@
+import {promises as fs} from "fs";
+import * as path from "path";
+import {Client, Transaction} from "@libsql/client";
+import {HttpsError} from "firebase-functions/v2/https";
+import {TemplateVariable} from "../../packages/prompt-client/src/template";
+import {Actor} from "./auth";
+import {auditStatement, contentHash} from "./audit";
+import {
+  ContentKind,
+  getContentKindDefinition,
+  isContentKind,
+  toContentKind,
+} from "./content-kinds";
+import {
+  parsePromptTypeDescription,
+  parsePromptTypeName,
+} from "./prompt-types";
+import {assertSchemaAcceptsSamples} from "./schema-samples";
+import {assertContentRules} from "./validation-rules";
+import {parseVariableDeclarations, readStoredVariables} from "./variables";
+
+type Executor = Client | Transaction;
+
+// Mirrors prompt types to a directory tree that lives in a code repository,
+// so prompt changes can be reviewed in pull requests:
+//
+//   prompts/
+//     GREETING/
+//       prompt.json   the manifest: type metadata, the active version and
+//                     each version's variables and last synced hashes
+//       v1.txt        one file per version, holding its content verbatim
+//       v2.txt
+//
+// Each version is compared three ways: its file, the database and the
+// hashes the manifest recorded at the last sync. Whichever side moved since
+// then wins; when both moved, the version has diverged and nothing is
+// written in either direction until someone resolves it by hand.
+
+export const MANIFEST_FILE = "prompt.json";
+
+const VERSION_FILE_PATTERN = /^v(\d+)\.[A-Za-z0-9]+$/;
+
+export interface ManifestVersion {
+  version: number,
+  file: string,
+  variables: TemplateVariable[],
+  // Published versions are frozen; changes go to a new version file.
+  published: boolean,
+  // Hashes of the content and variables as of the last pull or push; null
+  // for a version that has not been synced yet.
+  contentHash: string | null,
+  variablesHash: string | null,
+}
+
+export interface TypeManifest {
+  name: string,
+  description: string,
+  contentKind: ContentKind,
+  // The version live in production as of the last sync. It is changed in
+  // the dashboard, where release checks run, never by a push.
+  activeVersion: number | null,
+  versions: ManifestVersion[],
+}
+
+// in-sync: the file matches the database. local-changed / remote-changed:
+// only that side moved since the last sync. diverged: both moved, or the
+// version was never synced and the two differ. local-only / remote-only:
+// the version exists on one side.
+export type VersionSyncState =
+  | "in-sync"
+  | "local-changed"
+  | "remote-changed"
+  | "diverged"
+  | "local-only"
+  | "remote-only";
+
+export interface VersionSyncPlan {
+  version: number,
+  state: VersionSyncState,
+  file: string,
+  // Content hashes of the file and of prompt_versions; null where the
+  // version is missing.
+  localHash: string | null,
+  remoteHash: string | null,
+  published: boolean,
+}
+
+export interface TypeSyncPlan {
+  name: string,
+  // Directory of the type, relative to the tree root.
+  folder: string,
+  // Null when the type exists only in the tree.
+  promptTypeId: string | null,
+  // Why the type cannot be pushed as it is; null otherwise.
+  conflict: string | null,
+  activeVersion: {local: number | null, remote: number | null},
+  versions: VersionSyncPlan[],
+}
+
+export interface SyncPlan {
+  types: TypeSyncPlan[],
+}
+
+interface VersionSide {
+  content: string,
+  variables: TemplateVariable[],
+}
+
+interface LocalType {
+  folder: string,
+  manifest: TypeManifest,
+  // Versions with a file, by number. Variables come from the manifest.
+  versions: Map<number, VersionSide & {file: string}>,
+}
+
+interface RemoteType {
+  id: string,
+  name: string,
+  description: string,
+  contentKind: ContentKind,
+  activeVersion: number | null,
+  versions: Map<number, VersionSide & {
+    id: string,
+    published: boolean,
+    revision: number,
+  }>,
+}
+
+interface TypeSnapshot {
+  folder: string,
+  local: LocalType | null,
+  remote: RemoteType | null,
+}
+
+/**
+ * Hashes variable declarations the way the manifest records them.
+ * @param {TemplateVariable[]} variables The declarations.
+ * @return {string} The hash.
+ */
+function variablesHash(variables: TemplateVariable[]): string {
+  return contentHash(JSON.stringify(variables));
+}
+
+/**
+ * Names a type's directory after the type, keeping only characters that
+ * are safe in paths on every platform.
+ * @param {string} name The type name.
+ * @return {string} The directory name.
+ */
+function folderName(name: string): string {
+  const folder = name.replace(/[^A-Za-z0-9._-]+/g, "_");
+  return /^\.*$/.test(folder) ? `_${folder}` : folder;
+}
+
+/**
+ * Validates a manifest, which engineers may edit by hand. Problems are
+ * reported with the file and field they are in.
+ * @param {unknown} input The parsed manifest.
+ * @param {string} at The manifest path, for messages.
+ * @return {TypeManifest} The validated manifest.
+ */
+function parseManifest(input: unknown, at: string): TypeManifest {
+  const fail = (field: string, message: string): never => {
+    throw new Error(`${at}: ${field} ${message}`);
+  };
+  // Reuses the field parsers, reporting their message at the field.
+  const field = <T>(name: string, parse: () => T): T => {
+    try {
+      return parse();
+    } catch (error) {
+      if (error instanceof HttpsError) return fail(name, error.message);
+      throw error;
+    }
+  };
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    Boolean(value) && typeof value === "object" && !Array.isArray(value);
+  const isVersionNumber = (value: unknown): value is number =>
+    typeof value === "number" && Number.isInteger(value) && value >= 1;
+  const optionalHash = (value: unknown, name: string) => {
+    if (value === undefined || value === null) return null;
+    return typeof value === "string" ? value : fail(name, "must be a string.");
+  };
+
+  if (!isObject(input)) return fail("manifest", "must be an object.");
+  const contentKind = input.contentKind ?? "text";
+  if (!isContentKind(contentKind)) {
+    return fail("contentKind", `is unknown: ${String(contentKind)}.`);
+  }
+  const activeVersion = input.activeVersion ?? null;
+  if (activeVersion !== null && !isVersionNumber(activeVersion)) {
+    fail("activeVersion", "must be a version number or null.");
+  }
+  if (!Array.isArray(input.versions ?? [])) {
+    fail("versions", "must be a list.");
+  }
+
+  const seen = new Set<number>();
+  const versions = ((input.versions ?? []) as unknown[]).map((item, index) => {
+    const vat = `versions[${index}]`;
+    if (!isObject(item)) return fail(vat, "must be an object.");
+    if (!isVersionNumber(item.version)) {
+      return fail(`${vat}.version`, "must be a positive integer.");
+    }
+    if (seen.has(item.version)) fail(`${vat}.version`, "appears twice.");
+    seen.add(item.version);
+    const file = item.file;
+    if (
+      typeof file !== "string" ||
+      VERSION_FILE_PATTERN.exec(file)?.[1] !== String(item.version)
+    ) {
+      return fail(`${vat}.file`, `must be named v${item.version}.<ext>.`);
+    }
+    return {
+      version: item.version,
+      file,
+      variables: field(`${vat}.variables`, () =>
+        parseVariableDeclarations(item.variables ?? [])),
+      published: item.published === true,
+      contentHash: optionalHash(item.contentHash, `${vat}.contentHash`),
+      variablesHash: optionalHash(item.variablesHash, `${vat}.variablesHash`),
+    };
+  });
+
+  return {
+    name: field("name", () => parsePromptTypeName(input.name)),
+    description: field("description", () =>
+      parsePromptTypeDescription(input.description ?? "")),
+    contentKind,
+    activeVersion: activeVersion as number | null,
+    versions: versions.sort((a, b) => a.version - b.version),
+  };
+}
+
+/**
+ * Reads every type directory, i.e. every subdirectory with a manifest.
+ * Version files need no manifest entry yet: a new `v4.txt` is picked up
+ * with no variables.
+ * @param {string} dir The tree root.
+ * @return {Promise<LocalType[]>} The types in the tree.
+ */
+async function readTree(dir: string): Promise<LocalType[]> {
+  const entries = await fs.readdir(dir, {withFileTypes: true})
+    .catch((error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    });
+
+  const types: LocalType[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const folderPath = path.join(dir, entry.name);
+    const manifestPath = path.join(folderPath, MANIFEST_FILE);
+    const raw = await fs.readFile(manifestPath, "utf8")
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code === "ENOENT") return null;
+        throw error;
+      });
+    if (raw === null) continue;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${manifestPath}: not valid JSON: ${message}`);
+    }
+    const manifest = parseManifest(parsed, manifestPath);
+
+    const versions: LocalType["versions"] = new Map();
+    for (const file of (await fs.readdir(folderPath)).sort()) {
+      const match = VERSION_FILE_PATTERN.exec(file);
+      if (!match) continue;
+      const version = Number(match[1]);
+      const existing = versions.get(version);
+      if (existing) {
+        throw new Error(
+          `${folderPath}: ${existing.file} and ${file} both hold v${version}.`
+        );
+      }
+      const listed = manifest.versions
+        .find((candidate) => candidate.version === version);
+      versions.set(version, {
+        file,
+        content: await fs.readFile(path.join(folderPath, file), "utf8"),
+        variables: listed?.variables ?? [],
+      });
+    }
+    types.push({folder: entry.name, manifest, versions});
+  }
+  return types;
+}
+
+/**
+ * Loads every prompt type with its versions.
+ * @param {Executor} db The database client or open transaction.
+ * @return {Promise<RemoteType[]>} The types in the database.
+ */
+async function loadRemoteTypes(db: Executor): Promise<RemoteType[]> {
+  const [typesResult, versionsResult] = await Promise.all([
+    db.execute(
+      "SELECT id, name, description, content_kind FROM prompt_types " +
+      "ORDER BY id ASC"
+    ),
+    db.execute(
+      "SELECT id, prompt_type_id, version, content, variables, is_active, " +
+      "published_at, revision FROM prompt_versions ORDER BY id ASC"
+    ),
+  ]);
+  return typesResult.rows.map((row) => {
+    const id = String(row.id);
+    const versions: RemoteType["versions"] = new Map();
+    let activeVersion: number | null = null;
+    for (const version of versionsResult.rows) {
+      if (String(version.prompt_type_id) !== id) continue;
+      const number = Number(version.version);
+      if (version.is_active) activeVersion = number;
+      versions.set(number, {
+        id: String(version.id),
+        content: String(version.content ?? ""),
+        variables: readStoredVariables(version.variables),
+        published: Boolean(version.published_at),
+        revision: Number(version.revision ?? 1),
+      });
+    }
+    return {
+      id,
+      name: String(row.name ?? ""),
+      description: String(row.description ?? ""),
+      contentKind: toContentKind(row.content_kind),
+      activeVersion,
+      versions,
+    };
+  });
+}
+
+/**
+ * Pairs the types in the tree with those in the database by name, since
+ * ids differ between databases. A type only in the database gets the
+ * directory named after it.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} dir The tree root.
+ * @param {string[] | null} names The types to sync; all when null.
+ * @return {Promise<TypeSnapshot[]>} Both sides of each type.
+ */
+async function takeSnapshots(
+  db: Executor,
+  dir: string,
+  names: string[] | null,
+): Promise<TypeSnapshot[]> {
+  const [localTypes, remoteTypes] = await Promise.all([
+    readTree(dir),
+    loadRemoteTypes(db),
+  ]);
+  const wanted = (name: string) => !names || names.includes(name);
+  const unknown = (names ?? []).filter((name) =>
+    !localTypes.some((type) => type.manifest.name === name) &&
+    !remoteTypes.some((type) => type.name === name));
+  if (unknown.length) {
+    throw new Error(`Unknown prompt type(s): ${unknown.join(", ")}`);
+  }
+
+  const seenNames = new Set<string>();
+  for (const local of localTypes) {
+    if (seenNames.has(local.manifest.name)) {
+      throw new Error(
+        `Two directories in ${dir} hold prompt type ${local.manifest.name}.`
+      );
+    }
+    seenNames.add(local.manifest.name);
+  }
+
+  const folders = new Set(localTypes.map((type) => type.folder));
+  const snapshots: TypeSnapshot[] = [];
+  for (const remote of remoteTypes) {
+    if (!wanted(remote.name)) continue;
+    const local = localTypes.find((type) => type.manifest.name === remote.name);
+    if (local) {
+      snapshots.push({folder: local.folder, local, remote});
+      continue;
+    }
+    const folder = folderName(remote.name);
+    if (folders.has(folder)) {
+      throw new Error(
+        `Prompt type ${remote.name} would be written to ${folder}, which ` +
+          "another type already uses. Rename one of them."
+      );
+    }
+    folders.add(folder);
+    snapshots.push({folder, local: null, remote});
+  }
+  for (const local of localTypes) {
+    if (!wanted(local.manifest.name)) continue;
+    if (remoteTypes.some((type) => type.name === local.manifest.name)) continue;
+    snapshots.push({folder: local.folder, local, remote: null});
+  }
+  return snapshots;
+}
+
+/**
+ * Works out the state of each version of a type.
+ * @param {TypeSnapshot} snapshot Both sides of the type.
+ * @return {TypeSyncPlan} The type's plan.
+ */
+function planType(snapshot: TypeSnapshot): TypeSyncPlan {
+  const {local, remote} = snapshot;
+  const contentKind = remote?.contentKind ??
+    local?.manifest.contentKind ?? "text";
+  const {fileExtension} = getContentKindDefinition(contentKind);
+  const numbers = [...new Set([
+    ...(local ? [...local.versions.keys()] : []),
+    ...(local?.manifest.versions.map((entry) => entry.version) ?? []),
+    ...(remote ? [...remote.versions.keys()] : []),
+  ])].sort((a, b) => a - b);
+
+  const versions = numbers.flatMap((version): VersionSyncPlan[] => {
+    const file = local?.versions.get(version);
+    const entry = local?.manifest.versions
+      .find((candidate) => candidate.version === version);
+    const stored = remote?.versions.get(version);
+    // A manifest entry whose file was deleted and that is not in the
+    // database either has nothing left to sync.
+    if (!file && !stored) return [];
+
+    const localHash = file ? contentHash(file.content) : null;
+    const remoteHash = stored ? contentHash(stored.content) : null;
+    let state: VersionSyncState;
+    if (!file) {
+      state = "remote-only";
+    } else if (!stored) {
+      state = "local-only";
+    } else {
+      const localVariables = variablesHash(file.variables);
+      const remoteVariables = variablesHash(stored.variables);
+      const base = entry?.contentHash ?
+        {content: entry.contentHash, variables: entry.variablesHash} : null;
+      if (localHash === remoteHash && localVariables === remoteVariables) {
+        state = "in-sync";
+      } else if (
+        base?.content === remoteHash && base.variables === remoteVariables
+      ) {
+        state = "local-changed";
+      } else if (
+        base?.content === localHash && base.variables === localVariables
+      ) {
+        state = "remote-changed";
+      } else {
+        state = "diverged";
+      }
+    }
+    return [{
+      version,
+      state,
+      file: file?.file ?? entry?.file ?? `v${version}${fileExtension}`,
+      localHash,
+      remoteHash,
+      published: stored?.published ?? false,
+    }];
+  });
+
+  const kindConflict = local && remote &&
+    local.manifest.contentKind !== remote.contentKind ?
+    `content kind is ${remote.contentKind} in the database and ` +
+      `${local.manifest.contentKind} in ${MANIFEST_FILE}` :
+    null;
+  return {
+    name: remote?.name ?? local?.manifest.name ?? "",
+    folder: snapshot.folder,
+    promptTypeId: remote?.id ?? null,
+    conflict: kindConflict,
+    activeVersion: {
+      local: local?.manifest.activeVersion ?? null,
+      remote: remote?.activeVersion ?? null,
+    },
+    versions,
+  };
+}
+
+/**
+ * Compares the tree with the database without writing to either.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} dir The tree root.
+ * @param {string[] | null} names The types to compare; all when null.
+ * @return {Promise<SyncPlan>} The state of every type and version.
+ */
+export async function planSync(
+  db: Executor,
+  dir: string,
+  names: string[] | null,
+): Promise<SyncPlan> {
+  return {types: (await takeSnapshots(db, dir, names)).map(planType)};
+}
+
+/**
+ * Lists what keeps a pull or push from going ahead. Diverged versions
+ * block both; a push also cannot change a published version or a type's
+ * content kind.
+ * @param {SyncPlan} plan The plan.
+ * @param {string} direction "pull" or "push".
+ * @return {string[]} One line per problem.
+ */
+export function syncConflicts(
+  plan: SyncPlan,
+  direction: "pull" | "push",
+): string[] {
+  return plan.types.flatMap((type) => [
+    ...(direction === "push" && type.conflict ?
+      [`${type.name}: ${type.conflict}.`] : []),
+    ...type.versions.flatMap((version) => {
+      if (version.state === "diverged") {
+        return [
+          `${type.name} v${version.version}: changed in ${version.file} and ` +
+            "in the database since the last sync.",
+        ];
+      }
+      if (
+        direction === "push" &&
+        version.state === "local-changed" &&
+        version.published
+      ) {
+        return [
+          `${type.name} v${version.version}: published versions cannot ` +
+            "change; add the edit as a new version file.",
+        ];
+      }
+      return [];
+    }),
+  ]);
+}
+
+/**
+ * Throws when the plan cannot be applied, before anything is written.
+ * @param {SyncPlan} plan The plan.
+ * @param {string} direction "pull" or "push".
+ */
+function assertNoConflicts(plan: SyncPlan, direction: "pull" | "push") {
+  const conflicts = syncConflicts(plan, direction);
+  if (!conflicts.length) return;
+  throw new Error(
+    `Nothing was ${direction === "pull" ? "pulled" : "pushed"}; ` +
+      `resolve these first:\n${conflicts.map((line) => `  ${line}`).join("\n")}`
+  );
+}
+
+/**
+ * Builds a type's manifest after a pull or push. Versions the operation
+ * brought in sync record their new hashes; the others keep the entry they
+ * had, so a later sync still knows which side moved.
+ * @param {TypeSnapshot} snapshot Both sides of the type before the sync.
+ * @param {TypeSyncPlan} plan The type's plan.
+ * @param {string} direction "pull" or "push".
+ * @return {TypeManifest} The manifest to write.
+ */
+function buildManifest(
+  snapshot: TypeSnapshot,
+  plan: TypeSyncPlan,
+  direction: "pull" | "push",
+): TypeManifest {
+  const {local, remote} = snapshot;
+  const settled: VersionSyncState[] = direction === "pull" ?
+    ["in-sync", "remote-changed", "remote-only"] :
+    ["in-sync", "local-changed", "local-only"];
+
+  const versions = plan.versions.flatMap((version): ManifestVersion[] => {
+    const entry = local?.manifest.versions
+      .find((candidate) => candidate.version === version.version);
+    if (settled.includes(version.state)) {
+      const side = (direction === "pull" ?
+        remote?.versions.get(version.version) :
+        local?.versions.get(version.version)) as VersionSide;
+      return [{
+        version: version.version,
+        file: version.file,
+        variables: side.variables,
+        published: version.published,
+        contentHash: contentHash(side.content),
+        variablesHash: variablesHash(side.variables),
+      }];
+    }
+    const file = local?.versions.get(version.version);
+    if (!file) return [];
+    return [entry ? {...entry, published: version.published} : {
+      version: version.version,
+      file: version.file,
+      variables: file.variables,
+      published: version.published,
+      contentHash: null,
+      variablesHash: null,
+    }];
+  });
+
+  // A pull takes the type's metadata from the database; a push keeps what
+  // the tree says. The active version always reflects the database.
+  const metadata = direction === "pull" && remote ? remote : local?.manifest;
+  return {
+    name: plan.name,
+    description: metadata?.description ?? "",
+    contentKind: metadata?.contentKind ?? "text",
+    activeVersion: remote ? remote.activeVersion : null,
+    versions,
+  };
+}
+
+/**
+ * Writes a file unless it already holds the text, so a sync that changes
+ * nothing leaves the working tree clean.
+ * @param {string} file The file path.
+ * @param {string} text The text.
+ * @return {Promise<void>} Resolves once written.
+ */
+async function writeIfChanged(file: string, text: string): Promise<void> {
+  const current = await fs.readFile(file, "utf8").catch(() => null);
+  if (current !== text) await fs.writeFile(file, text);
+}
+
+/**
+ * Writes a type's manifest, two-space indented for readable diffs.
+ * @param {string} folder The type directory.
+ * @param {TypeManifest} manifest The manifest.
+ * @return {Promise<void>} Resolves once written.
+ */
+async function writeManifest(
+  folder: string,
+  manifest: TypeManifest,
+): Promise<void> {
+  await writeIfChanged(
+    path.join(folder, MANIFEST_FILE),
+    `${JSON.stringify(manifest, null, 2)}\n`,
+  );
+}
+
+/**
+ * Brings the tree up to date with the database: writes versions that are
+ * new or changed there and refreshes the manifests. Files edited since the
+ * last sync are left alone; types only in the tree are not touched.
+ * Refused as a whole when any version diverged.
+ * @param {Client} db The database client.
+ * @param {string} dir The tree root.
+ * @param {string[] | null} names The types to pull; all when null.
+ * @return {Promise<SyncPlan>} The plan that was applied.
+ */
+export async function pullTree(
+  db: Client,
+  dir: string,
+  names: string[] | null,
+): Promise<SyncPlan> {
+  const snapshots = await takeSnapshots(db, dir, names);
+  const plan = {types: snapshots.map(planType)};
+  assertNoConflicts(plan, "pull");
+
+  for (const [index, snapshot] of snapshots.entries()) {
+    const {remote} = snapshot;
+    if (!remote) continue;
+    const typePlan = plan.types[index];
+    const folder = path.join(dir, snapshot.folder);
+    await fs.mkdir(folder, {recursive: true});
+    for (const version of typePlan.versions) {
+      if (version.state !== "remote-changed" &&
+        version.state !== "remote-only") {
+        continue;
+      }
+      const stored = remote.versions.get(version.version) as VersionSide;
+      await fs.writeFile(path.join(folder, version.file), stored.content);
+    }
+    await writeManifest(folder, buildManifest(snapshot, typePlan, "pull"));
+  }
+  return plan;
+}
+
+/**
+ * Brings the database up to date with the tree in one transaction:
+ * creates types and versions that exist only as files and saves edits to
+ * versions that have not been published, through the same validation
+ * rules and schema sample checks as the editor. Activation is left to the
+ * dashboard. Refused as a whole when any version diverged, an edited
+ * version was published or a type's content kind differs.
+ * @param {Client} db The database client.
+ * @param {object} request The tree root, the types to push (all when
+ *   null) and on whose behalf.
+ * @return {Promise<SyncPlan>} The plan that was applied.
+ */
+export async function pushTree(
+  db: Client,
+  request: {dir: string, names: string[] | null, actor: Actor},
+): Promise<SyncPlan> {
+  const {dir, names, actor} = request;
+  const tx = await db.transaction("write");
+  let snapshots: TypeSnapshot[];
+  let plan: SyncPlan;
+  try {
+    snapshots = await takeSnapshots(tx, dir, names);
+    plan = {types: snapshots.map(planType)};
+    assertNoConflicts(plan, "push");
+
+    for (const [index, snapshot] of snapshots.entries()) {
+      const {local, remote} = snapshot;
+      if (!local) continue;
+      const pending = plan.types[index].versions.filter((version) =>
+        version.state === "local-changed" || version.state === "local-only");
+
+      let promptTypeId = remote?.id ?? null;
+      if (!promptTypeId) {
+        const {name, description, contentKind} = local.manifest;
+        const inserted = await tx.execute({
+          sql:
+            "INSERT INTO prompt_types (name, description, content_kind) " +
+            "VALUES (?, ?, ?)",
+          args: [name, description, contentKind],
+        });
+        promptTypeId = String(inserted.lastInsertRowid);
+        await tx.execute(auditStatement({
+          actor,
+          action: "type.create",
+          promptTypeId,
+          detail: {name, contentKind, source: "file-sync"},
+        }));
+        plan.types[index].promptTypeId = promptTypeId;
+      }
+
+      for (const version of pending) {
+        const file = local.versions.get(version.version) as VersionSide;
+        // A blank version is a placeholder, as in the editor.
+        if (file.content.trim()) {
+          await assertContentRules(tx, {
+            promptTypeId,
+            content: file.content,
+            variables: file.variables,
+          });
+          await assertSchemaAcceptsSamples(tx, {
+            promptTypeId,
+            content: file.content,
+          });
+        }
+
+        const stored = remote?.versions.get(version.version);
+        if (!stored) {
+          const inserted = await tx.execute({
+            sql:
+              "INSERT INTO prompt_versions " +
+              "(prompt_type_id, version, content, variables, is_active) " +
+              "VALUES (?, ?, ?, ?, 0)",
+            args: [
+              promptTypeId,
+              version.version,
+              file.content,
+              JSON.stringify(file.variables),
+            ],
+          });
+          await tx.execute(auditStatement({
+            actor,
+            action: "version.create",
+            promptTypeId,
+            promptVersionId: String(inserted.lastInsertRowid),
+            version: version.version,
+            beforeContent: null,
+            afterContent: file.content,
+            detail: {source: "file-sync"},
+          }));
+          continue;
+        }
+
+        const revision = stored.revision + 1;
+        await tx.execute({
+          sql:
+            "UPDATE prompt_versions SET content = ?, variables = ?, " +
+            "revision = ? WHERE id = ? AND revision = ?",
+          args: [
+            file.content,
+            JSON.stringify(file.variables),
+            revision,
+            stored.id,
+            stored.revision,
+          ],
+        });
+        await tx.execute(auditStatement({
+          actor,
+          action: "version.update",
+          promptTypeId,
+          promptVersionId: stored.id,
+          version: version.version,
+          beforeContent: stored.content,
+          afterContent: file.content,
+          detail: {revision, source: "file-sync"},
+        }));
+      }
+    }
+    await tx.commit();
+  } finally {
+    tx.close();
+  }
+
+  for (const [index, snapshot] of snapshots.entries()) {
+    if (!snapshot.local) continue;
+    await writeManifest(
+      path.join(dir, snapshot.folder),
+      buildManifest(snapshot, plan.types[index], "push"),
+    );
+  }
+  return plan;
+}
@@ -0,0 +1,277 @@
+import {Client, Transaction} from "@libsql/client";
+import {HttpsError} from "firebase-functions/v2/https";
+import {
+  ComposedTemplate,
+  composeTemplate,
+  findIncludes,
+  IncludedPrompt,
+  IncludeLookup,
+  IncludeRef,
+  IncludeSource,
+  MAX_INCLUDE_DEPTH,
+} from "../../packages/prompt-client/src/includes";
+import {TemplateVariable} from "../../packages/prompt-client/src/template";
+import {
+  DEFAULT_ENVIRONMENT,
+  Environment,
+  environmentVersionStatement,
+} from "./environments";
+import {readStoredVariables} from "./variables";
+
+type Executor = Client | Transaction;
+
+// Composition itself is `composeTemplate` from the shared client package,
+// which the editor previews with; this module loads the included prompts
+// from the database and turns any problem into an error.
+
+export interface ComposedPrompt {
+  content: string,
+  variables: TemplateVariable[],
+  includes: IncludedPrompt[],
+}
+
+export interface PromptTypeRef {
+  promptTypeId: string,
+  promptTypeName: string,
+}
+
+export interface PromptDependencies {
+  // What the active version of the type includes.
+  includes: Array<IncludeRef & {promptTypeId: string | null}>,
+  // Types whose active version includes this one directly.
+  includedBy: Array<PromptTypeRef & {pinnedVersion: number | null}>,
+  // Every type whose served content changes when this type's active
+  // version changes: unpinned includers, transitively.
+  affected: PromptTypeRef[],
+}
+
+export interface LoadedIncludes {
+  // The name of the prompt type being composed.
+  promptTypeName: string,
+  lookup: IncludeLookup,
+}
+
+/**
+ * Resolves an include target the way the serving API resolves `?type=`:
+ * by id or by name. An unpinned include follows the version live in the
+ * environment, or the production version when the target has nothing in
+ * that environment, so one type can be tried in staging without staging
+ * every prompt it includes.
+ * @param {Executor} db The database client or open transaction.
+ * @param {IncludeRef} ref The include to resolve.
+ * @param {Environment} environment The environment being composed for.
+ * @return {Promise<IncludeSource | null>} The referenced version, or null.
+ */
+async function loadIncludeSource(
+  db: Executor,
+  ref: IncludeRef,
+  environment: Environment,
+): Promise<IncludeSource | null> {
+  const typeResult = await db.execute({
+    sql:
+      "SELECT id, name FROM prompt_types " +
+      "WHERE CAST(id AS TEXT) = ? OR name = ? ORDER BY id ASC LIMIT 1",
+    args: [ref.target, ref.target],
+  });
+  const type = typeResult.rows[0];
+  if (!type) return null;
+
+  let versionResult;
+  if (ref.version === null) {
+    versionResult = await db.execute(
+      environmentVersionStatement(String(type.id), environment)
+    );
+    if (!versionResult.rows.length && environment !== "production") {
+      versionResult = await db.execute(
+        environmentVersionStatement(String(type.id), "production")
+      );
+    }
+  } else {
+    versionResult = await db.execute({
+      sql:
+        "SELECT version, content, variables FROM prompt_versions " +
+        "WHERE prompt_type_id = ? AND version = ? " +
+        "AND published_at IS NOT NULL",
+      args: [String(type.id), ref.version],
+    });
+  }
+  const version = versionResult.rows[0];
+  if (!version) return null;
+
+  return {
+    promptTypeId: String(type.id),
+    promptTypeName: String(type.name),
+    version: Number(version.version),
+    content: String(version.content ?? ""),
+    variables: readStoredVariables(version.variables),
+  };
+}
+
+/**
+ * Loads every prompt the given contents include, level by level. Loading
+ * goes one level past MAX_INCLUDE_DEPTH, so `composeTemplate` reports a
+ * chain that is too deep rather than a missing target.
+ * @param {Executor} db The database client or open transaction.
+ * @param {object} root The prompt type being composed, the contents to
+ *   resolve (one per chat message) and the environment.
+ * @return {Promise<LoadedIncludes>} A lookup over the loaded prompts.
+ */
+export async function loadIncludes(
+  db: Executor,
+  root: {promptTypeId: string, contents: string[], environment: Environment},
+): Promise<LoadedIncludes> {
+  const rootResult = await db.execute({
+    sql: "SELECT name FROM prompt_types WHERE id = ?",
+    args: [root.promptTypeId],
+  });
+  const sources = new Map<string, IncludeSource | null>();
+  const keyOf = (ref: IncludeRef) =>
+    `${ref.target}@${ref.version ?? "active"}`;
+
+  let level = root.contents;
+  for (let depth = 0; depth <= MAX_INCLUDE_DEPTH && level.length; depth++) {
+    const next: string[] = [];
+    for (const content of level) {
+      for (const ref of findIncludes(content)) {
+        if (sources.has(keyOf(ref))) continue;
+        const source = await loadIncludeSource(db, ref, root.environment);
+        sources.set(keyOf(ref), source);
+        if (source) next.push(source.content);
+      }
+    }
+    level = next;
+  }
+
+  return {
+    promptTypeName: String(rootResult.rows[0]?.name ?? root.promptTypeId),
+    lookup: (ref) => sources.get(keyOf(ref)) ?? null,
+  };
+}
+
+/**
+ * Fails on the first problem `composeTemplate` reported. Unlike the editor
+ * preview the server is strict: a missing target, a cycle or too deep a
+ * chain fails the whole composition, so nothing half-composed is ever
+ * activated or served.
+ * @param {ComposedTemplate} composed The composition.
+ * @return {ComposedPrompt} The composition, when nothing went wrong.
+ */
+export function assertComposed(composed: ComposedTemplate): ComposedPrompt {
+  const issue = composed.errors[0];
+  if (issue) {
+    throw new HttpsError(
+      "failed-precondition",
+      `${issue.directive}: ${issue.message}`,
+      {
+        reason: issue.reason,
+        directive: issue.directive,
+        ...(issue.cycle ? {cycle: issue.cycle} : {}),
+      },
+    );
+  }
+  const {content, variables, includes} = composed;
+  return {content, variables, includes};
+}
+
+/**
+ * Replaces include directives with the composed content of the prompts
+ * they refer to, recursively, failing on any problem.
+ * @param {Executor} db The database client or open transaction.
+ * @param {object} root The prompt to compose, and the environment whose
+ *   versions unpinned includes follow (production by default).
+ * @return {Promise<ComposedPrompt>} The composed content and variables.
+ */
+export async function composePrompt(
+  db: Executor,
+  root: {
+    promptTypeId: string,
+    content: string,
+    variables: TemplateVariable[],
+    environment?: Environment,
+  },
+): Promise<ComposedPrompt> {
+  const variables = [...root.variables];
+  if (!findIncludes(root.content).length) {
+    return {content: root.content, variables, includes: []};
+  }
+  const {promptTypeName, lookup} = await loadIncludes(db, {
+    promptTypeId: root.promptTypeId,
+    contents: [root.content],
+    environment: root.environment ?? DEFAULT_ENVIRONMENT,
+  });
+  return assertComposed(composeTemplate({
+    promptTypeId: root.promptTypeId,
+    promptTypeName,
+    content: root.content,
+    variables,
+  }, lookup));
+}
+
+/**
+ * Builds the include graph of the active versions around one prompt type.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} promptTypeId The prompt type.
+ * @return {Promise<PromptDependencies>} Its includes and includers.
+ */
+export async function getPromptDependencies(
+  db: Executor,
+  promptTypeId: string,
+): Promise<PromptDependencies> {
+  const [typesResult, activeResult] = await Promise.all([
+    db.execute("SELECT id, name FROM prompt_types ORDER BY id ASC"),
+    db.execute(
+      "SELECT prompt_type_id, content FROM prompt_versions " +
+      "WHERE is_active = TRUE"
+    ),
+  ]);
+  const types = typesResult.rows.map((row) => ({
+    promptTypeId: String(row.id),
+    promptTypeName: String(row.name ?? ""),
+  }));
+  // Same precedence as loadIncludeSource: an id match wins over a name.
+  const resolve = (target: string) =>
+    types.find((type) => type.promptTypeId === target) ??
+    types.find((type) => type.promptTypeName === target) ??
+    null;
+
+  const edges = activeResult.rows.flatMap((row) =>
+    findIncludes(String(row.content ?? "")).map((ref) => ({
+      from: String(row.prompt_type_id),
+      to: resolve(ref.target)?.promptTypeId ?? null,
+      ref,
+    })));
+
+  const includes = edges
+    .filter((edge) => edge.from === promptTypeId)
+    .map((edge) => ({...edge.ref, promptTypeId: edge.to}));
+  const includedBy = edges
+    .filter((edge) => edge.to === promptTypeId && edge.from !== promptTypeId)
+    .flatMap((edge) => {
+      const type = types.find((entry) => entry.promptTypeId === edge.from);
+      return type ? [{...type, pinnedVersion: edge.ref.version}] : [];
+    });
+
+  const affectedIds = new Set<string>();
+  const queue = [promptTypeId];
+  while (queue.length) {
+    const current = queue.shift();
+    for (const edge of edges) {
+      if (
+        edge.to !== current ||
+        edge.ref.version !== null ||
+        edge.from === promptTypeId ||
+        affectedIds.has(edge.from)
+      ) {
+        continue;
+      }
+      affectedIds.add(edge.from);
+      queue.push(edge.from);
+    }
+  }
+
+  return {
+    includes,
+    includedBy,
+    affected: types.filter((type) => affectedIds.has(type.promptTypeId)),
+  };
+}
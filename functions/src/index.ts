@@ -1,105 +1,302 @@
 
-import {onCall} from "firebase-functions/v2/https";
+import {
+  CallableRequest,
+  HttpsError,
+  onCall,
+  onRequest,
+} from "firebase-functions/v2/https";
 import {getDbClient} from "./db"; // Import the getter function
+import {ensureSchema} from "./schema";
+import {isRole, requireRole} from "./auth";
+import {auditStatement} from "./audit";
+import {parseVariableDeclarations, readStoredVariables} from "./variables";
+import {
+  activateInEnvironment,
+  activatePromptVersion,
+  getActivationHistory,
+  promotePromptVersion as promoteToNextEnvironment,
+} from "./activation";
+import {
+  DEFAULT_ENVIRONMENT,
+  ENVIRONMENTS,
+  environmentRole,
+  getEnvironmentPointers,
+  isEnvironment,
+} from "./environments";
+import {getPromptDependencies as loadPromptDependencies} from "./includes";
+import {
+  addSchemaSample as insertSchemaSample,
+  assertSchemaAcceptsSamples,
+  deleteSchemaSample as removeSchemaSample,
+  listSchemaSamples,
+} from "./schema-samples";
+import {
+  assertContentRules,
+  checkContentRules,
+  getValidationRules,
+  parseValidationRules,
+  setValidationRules,
+} from "./validation-rules";
+import {
+  addEvalCase,
+  deleteEvalCase,
+  getLatestEvalRuns,
+  isEvalPassRequired,
+  listEvalCases,
+  parseEvalCase,
+  runEvaluation,
+  setEvalPassRequired,
+} from "./evaluation";
+import {getModelAdapter} from "./model-adapters";
+import {getTrafficSplit, parseTrafficArms, setTrafficSplit} from "./traffic";
+import {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  verifyApiKey,
+} from "./api-keys";
+import {searchPromptVersions} from "./search";
+import {
+  CONTENT_KINDS,
+  DEFAULT_CONTENT_KIND,
+  isContentKind,
+} from "./content-kinds";
+import {
+  createPromptType as createPromptTypeRecord,
+  deletePromptType as deletePromptTypeRecord,
+  parsePromptTypeDescription,
+  parsePromptTypeName,
+  setPromptTypeArchived,
+  updatePromptType as updatePromptTypeRecord,
+} from "./prompt-types";
+import {
+  getDashboardPage,
+  getVersionContents,
+  MAX_CONTENT_BATCH,
+  MAX_DASHBOARD_PAGE_SIZE,
+} from "./dashboard";
+import {
+  matchesIfNoneMatch,
+  resolveServedPrompt,
+  servedPromptETag,
+} from "./serving";
+import {
+  getVersionReviews,
+  isReviewDecision,
+  recordReview,
+  setRequiredApprovals,
+} from "./review";
+import {
+  applyDueSchedules,
+  cancelActivationSchedule,
+  createActivationSchedule,
+  listActivationSchedules,
+} from "./scheduler";
+import {
+  exportBundle,
+  importBundle,
+  parseBundle,
+  planBundleImport,
+} from "./bundles";
 import * as logger from "firebase-functions/logger";
 
 // It is recommended to set the region explicitly.
 // See https://firebase.google.com/docs/functions/locations
 import {setGlobalOptions} from "firebase-functions/v2";
+import {onSchedule} from "firebase-functions/v2/scheduler";
 setGlobalOptions({region: "us-central1"});
 
-/**
- * A callable function to update a prompt version's content in the database.
- */
-export const updatePrompt = onCall<{
+interface UpdatePromptVersionData {
   promptVersionId?: string,
   promptId?: string,
   newContent: string,
-}>(
-  {cors: true, invoker: "public"},
-  async (request) => {
-    // Get the database client instance at runtime.
-    const db = getDbClient();
+  // The revision the editor loaded. When present, the save is rejected
+  // with `aborted` if someone else saved the version in the meantime.
+  expectedRevision?: number,
+  // Template variable declarations. Left unchanged when omitted.
+  variables?: unknown,
+}
+
+/**
+ * Shared handler for the legacy `updatePrompt` callable and its
+ * `updatePromptVersion` replacement.
+ * @param {CallableRequest<UpdatePromptVersionData>} request The request.
+ * @return {Promise<object>} The success payload.
+ */
+async function handleUpdatePromptVersion(
+  request: CallableRequest<UpdatePromptVersionData>,
+) {
+  // Get the database client instance at runtime.
+  const db = getDbClient();
+  await ensureSchema(db);
+  const actor = await requireRole(db, request, "editor");
 
-    const {promptVersionId, promptId, newContent} = request.data;
-    const targetVersionId = promptVersionId ?? promptId;
+  const {promptVersionId, promptId, newContent, expectedRevision} =
+    request.data;
+  const targetVersionId = promptVersionId ?? promptId;
 
-    if (!targetVersionId || typeof newContent !== "string") {
-      logger.error("Invalid request data", {data: request.data});
-      // Break the error message into two lines to satisfy max-len
-      const msg = "Invalid arguments. Expecting { promptVersionId: string, " +
-                  "newContent: string }.";
-      throw new Error(msg);
-    }
+  if (
+    !targetVersionId ||
+    typeof newContent !== "string" ||
+    (expectedRevision !== undefined && !Number.isInteger(expectedRevision))
+  ) {
+    logger.error("Invalid request data", {data: request.data});
+    // Break the error message into two lines to satisfy max-len
+    const msg = "Invalid arguments. Expecting { promptVersionId: string, " +
+                "newContent: string }.";
+    throw new HttpsError("invalid-argument", msg);
+  }
+  const variables = request.data.variables === undefined ?
+    undefined : parseVariableDeclarations(request.data.variables);
 
+  try {
+    logger.info(
+      `Updating prompt version ${targetVersionId} with new content.`
+    );
+    let revision = 0;
+    const tx = await db.transaction("write");
     try {
-      logger.info(
-        `Updating prompt version ${targetVersionId} with new content.`
-      );
-      await db.execute({
-        sql: "UPDATE prompt_versions SET content = ? WHERE id = ?",
-        args: [newContent, targetVersionId],
+      const currentResult = await tx.execute({
+        sql:
+          "SELECT prompt_type_id, version, content, variables, " +
+          "published_at, revision FROM prompt_versions WHERE id = ?",
+        args: [targetVersionId],
       });
+      const current = currentResult.rows[0];
+      if (!current) {
+        throw new HttpsError(
+          "not-found",
+          `Prompt version ${targetVersionId} does not exist.`,
+          {reason: "version-not-found"},
+        );
+      }
+      if (current.published_at) {
+        // Once a version has been live its text must never change, so
+        // "v7" always refers to the same prompt. Edits go to a new version.
+        throw new HttpsError(
+          "failed-precondition",
+          `Prompt version v${current.version} has been published and ` +
+            "can no longer be edited. Save it as a new version instead.",
+          {
+            reason: "version-frozen",
+            promptVersionId: targetVersionId,
+            version: Number(current.version),
+          },
+        );
+      }
 
-      logger.info(`Successfully updated prompt version ${targetVersionId}.`);
-      return {
-        success: true,
-        message: "Prompt version updated successfully.",
-      };
-    } catch (error) {
-      logger.error(
-        `Error updating prompt version ${targetVersionId}:`,
-        error
-      );
-      throw new Error("Failed to update prompt version in the database.");
+      const currentRevision = Number(current.revision);
+      if (
+        expectedRevision !== undefined &&
+        expectedRevision !== currentRevision
+      ) {
+        const lastEditResult = await tx.execute({
+          sql:
+            "SELECT actor_email, created_at FROM prompt_audit_log " +
+            "WHERE prompt_version_id = ? AND action = 'version.update' " +
+            "ORDER BY id DESC LIMIT 1",
+          args: [targetVersionId],
+        });
+        const lastEdit = lastEditResult.rows[0];
+        throw new HttpsError(
+          "aborted",
+          `Prompt version v${current.version} was changed by someone else ` +
+            "after you opened it.",
+          {
+            reason: "revision-conflict",
+            promptVersionId: targetVersionId,
+            expectedRevision,
+            currentRevision,
+            currentContent: String(current.content ?? ""),
+            lastEditedBy: lastEdit ? String(lastEdit.actor_email) : null,
+            lastEditedAt: lastEdit ? String(lastEdit.created_at) : null,
+          },
+        );
+      }
+
+      await assertContentRules(tx, {
+        promptTypeId: String(current.prompt_type_id),
+        content: newContent,
+        variables: variables ?? readStoredVariables(current.variables),
+      });
+      // Empty content is for the rules to judge, not a schema to check.
+      if (newContent.trim()) {
+        await assertSchemaAcceptsSamples(tx, {
+          promptTypeId: String(current.prompt_type_id),
+          content: newContent,
+        });
+      }
+
+      revision = currentRevision + 1;
+      await tx.execute(variables === undefined ? {
+        sql:
+          "UPDATE prompt_versions SET content = ?, revision = ? " +
+          "WHERE id = ? AND revision = ?",
+        args: [newContent, revision, targetVersionId, currentRevision],
+      } : {
+        sql:
+          "UPDATE prompt_versions SET content = ?, variables = ?, " +
+          "revision = ? WHERE id = ? AND revision = ?",
+        args: [
+          newContent,
+          JSON.stringify(variables),
+          revision,
+          targetVersionId,
+          currentRevision,
+        ],
+      });
+      await tx.execute(auditStatement({
+        actor,
+        action: "version.update",
+        promptTypeId: String(current.prompt_type_id),
+        promptVersionId: targetVersionId,
+        version: Number(current.version),
+        beforeContent: String(current.content ?? ""),
+        afterContent: newContent,
+        detail: variables === undefined ? {revision} : {
+          revision,
+          variables: variables.map((variable) => variable.name),
+        },
+      }));
+      await tx.commit();
+    } finally {
+      tx.close();
     }
-  });
+
+    logger.info(`Successfully updated prompt version ${targetVersionId}.`);
+    return {
+      success: true,
+      message: "Prompt version updated successfully.",
+      revision,
+    };
+  } catch (error) {
+    if (error instanceof HttpsError) throw error;
+    logger.error(
+      `Error updating prompt version ${targetVersionId}:`,
+      error
+    );
+    throw new HttpsError(
+      "internal",
+      "Failed to update prompt version in the database."
+    );
+  }
+}
+
+/**
+ * A callable function to update a prompt version's content in the database.
+ */
+export const updatePrompt = onCall<UpdatePromptVersionData>(
+  {cors: true, invoker: "public"},
+  handleUpdatePromptVersion,
+);
 
 /**
  * New callable name for prompt version updates.
  * Keeps same behavior as updatePrompt, but avoids legacy function config drift.
  */
-export const updatePromptVersion = onCall<{
-  promptVersionId?: string,
-  promptId?: string,
-  newContent: string,
-}>(
+export const updatePromptVersion = onCall<UpdatePromptVersionData>(
   {cors: true, invoker: "public"},
-  async (request) => {
-    const db = getDbClient();
-
-    const {promptVersionId, promptId, newContent} = request.data;
-    const targetVersionId = promptVersionId ?? promptId;
-
-    if (!targetVersionId || typeof newContent !== "string") {
-      logger.error("Invalid request data", {data: request.data});
-      const msg = "Invalid arguments. Expecting { promptVersionId: string, " +
-                  "newContent: string }.";
-      throw new Error(msg);
-    }
-
-    try {
-      logger.info(
-        `Updating prompt version ${targetVersionId} with new content.`
-      );
-      await db.execute({
-        sql: "UPDATE prompt_versions SET content = ? WHERE id = ?",
-        args: [newContent, targetVersionId],
-      });
-
-      logger.info(`Successfully updated prompt version ${targetVersionId}.`);
-      return {
-        success: true,
-        message: "Prompt version updated successfully.",
-      };
-    } catch (error) {
-      logger.error(
-        `Error updating prompt version ${targetVersionId}:`,
-        error
-      );
-      throw new Error("Failed to update prompt version in the database.");
-    }
-  }
+  handleUpdatePromptVersion,
 );
 
 /**
@@ -109,44 +306,78 @@ export const updatePromptVersion = onCall<{
 export const createPromptVersion = onCall<{
   promptTypeId: string,
   baseContent?: string,
+  baseVariables?: unknown,
 }>(
   {cors: true, invoker: "public"},
   async (request) => {
     const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "editor");
     const {promptTypeId, baseContent} = request.data;
 
     if (!promptTypeId) {
       logger.error("Invalid request data", {data: request.data});
-      throw new Error(
+      throw new HttpsError(
+        "invalid-argument",
         "Invalid arguments. Expecting { promptTypeId: string }."
       );
     }
+    const variables = request.data.baseVariables === undefined ?
+      [] : parseVariableDeclarations(request.data.baseVariables);
 
     try {
-      const nextVersionResult = await db.execute({
-        sql: "SELECT COALESCE(MAX(version), 0) + 1 AS next_version " +
-             "FROM prompt_versions WHERE prompt_type_id = ?",
-        args: [promptTypeId],
-      });
-
-      const nextVersion = Number(
-        nextVersionResult.rows[0]?.next_version ?? 1
-      );
       const content = typeof baseContent === "string" ? baseContent : "";
+      let nextVersion: number;
 
-      await db.execute({
-        sql:
-          "INSERT INTO prompt_versions " +
-          "(prompt_type_id, version, content, is_active) " +
-          "VALUES (?, ?, ?, 0)",
-        args: [promptTypeId, nextVersion, content],
-      });
+      const tx = await db.transaction("write");
+      try {
+        // Read inside the write transaction so two concurrent creates
+        // cannot both take the same number.
+        const nextVersionResult = await tx.execute({
+          sql: "SELECT COALESCE(MAX(version), 0) + 1 AS next_version " +
+               "FROM prompt_versions WHERE prompt_type_id = ?",
+          args: [promptTypeId],
+        });
+        nextVersion = Number(nextVersionResult.rows[0]?.next_version ?? 1);
+
+        // A blank version is a placeholder; its content is checked when
+        // it is saved or activated.
+        if (content.trim()) {
+          await assertContentRules(tx, {promptTypeId, content, variables});
+          await assertSchemaAcceptsSamples(tx, {promptTypeId, content});
+        }
+        const inserted = await tx.execute({
+          sql:
+            "INSERT INTO prompt_versions " +
+            "(prompt_type_id, version, content, variables, is_active) " +
+            "VALUES (?, ?, ?, ?, 0)",
+          args: [
+            promptTypeId,
+            nextVersion,
+            content,
+            JSON.stringify(variables),
+          ],
+        });
+        await tx.execute(auditStatement({
+          actor,
+          action: "version.create",
+          promptTypeId,
+          promptVersionId: String(inserted.lastInsertRowid),
+          version: nextVersion,
+          beforeContent: null,
+          afterContent: content,
+        }));
+        await tx.commit();
+      } finally {
+        tx.close();
+      }
 
       const createdRowResult = await db.execute({
         sql:
           "SELECT id, prompt_type_id, version, " +
-          "content, is_active, created_at " +
-          "FROM prompt_versions WHERE prompt_type_id = ? AND version = ? " +
+          "content, is_active, created_at, published_at, revision, " +
+          "variables FROM prompt_versions " +
+          "WHERE prompt_type_id = ? AND version = ? " +
           "ORDER BY id DESC LIMIT 1",
         args: [promptTypeId, nextVersion],
       });
@@ -165,144 +396,1863 @@ export const createPromptVersion = onCall<{
           content: String(row.content ?? ""),
           isActive: Boolean(row.is_active),
           createdAt: row.created_at ? String(row.created_at) : null,
+          publishedAt: row.published_at ? String(row.published_at) : null,
+          revision: Number(row.revision ?? 1),
+          variables: readStoredVariables(row.variables),
         },
       };
     } catch (error) {
+      if (error instanceof HttpsError) throw error;
       logger.error(
         `Error creating prompt version for type ${promptTypeId}:`,
         error
       );
-      throw new Error("Failed to create prompt version.");
+      throw new HttpsError("internal", "Failed to create prompt version.");
     }
   },
 );
 
 /**
  * Sets one prompt version as active within its prompt type
- * and deactivates others.
+ * and deactivates others, atomically. Returns the previous and new
+ * active versions. `environment` defaults to production, the active
+ * version; dev needs the editor role, staging and production a publisher.
  */
 export const setActivePromptVersion = onCall<{
   promptTypeId: string,
   promptVersionId: string,
+  environment?: string,
 }>(
   {cors: true, invoker: "public"},
   async (request) => {
     const db = getDbClient();
+    await ensureSchema(db);
+    const environment = request.data.environment ?? DEFAULT_ENVIRONMENT;
+    if (!isEnvironment(environment)) {
+      throw new HttpsError(
+        "invalid-argument",
+        `environment must be one of ${ENVIRONMENTS.join(", ")}.`,
+        {reason: "invalid-environment"},
+      );
+    }
+    const actor = await requireRole(db, request, environmentRole(environment));
     const {promptTypeId, promptVersionId} = request.data;
 
     if (!promptTypeId || !promptVersionId) {
       logger.error("Invalid request data", {data: request.data});
-      throw new Error(
+      throw new HttpsError(
+        "invalid-argument",
         "Invalid arguments. Expecting { promptTypeId: string, " +
-          "promptVersionId: string }."
+          "promptVersionId: string, environment?: string }."
       );
     }
 
     try {
-      await db.execute({
-        sql:
-          "UPDATE prompt_versions SET is_active = FALSE " +
-          "WHERE prompt_type_id = ?",
-        args: [promptTypeId],
-      });
-
-      await db.execute({
-        sql:
-          "UPDATE prompt_versions SET is_active = TRUE " +
-          "WHERE id = ? AND prompt_type_id = ?",
-        args: [promptVersionId, promptTypeId],
+      const result = await activateInEnvironment(db, {
+        actor,
+        promptTypeId,
+        promptVersionId,
+        environment,
       });
 
       logger.info(
-        "Set active prompt version " +
+        `Set ${environment} prompt version ` +
           `${promptVersionId} for prompt type ${promptTypeId}`
       );
 
-      return {success: true};
+      return {success: true, ...result};
     } catch (error) {
       logger.error(
         "Error setting active prompt version " +
           `${promptVersionId} for type ${promptTypeId}:`,
         error
       );
-      throw new Error("Failed to set active prompt version.");
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError("internal", "Failed to set active prompt version.");
     }
   },
 );
 
 /**
- * Returns prompt types with their prompt versions for dashboard refresh.
- * Used by the static Hosting UI to load fresh DB state after page reload.
+ * Returns which version of a prompt type is live in each environment.
  */
-export const getPromptDashboardData = onCall(
+export const getPromptEnvironments = onCall<{
+  promptTypeId: string,
+}>(
   {cors: true, invoker: "public"},
-  async () => {
+  async (request) => {
     const db = getDbClient();
+    await ensureSchema(db);
+    await requireRole(db, request, "viewer");
+    const {promptTypeId} = request.data;
+
+    if (!promptTypeId) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string }."
+      );
+    }
 
     try {
-      const [typesResult, versionsResult] = await Promise.all([
-        db.execute({
-          sql:
-            "SELECT id, name, description " +
-            "FROM prompt_types ORDER BY id ASC",
-        }),
-        db.execute({
-          sql:
-            "SELECT id, prompt_type_id, version, content, is_active, " +
-            "created_at FROM prompt_versions ORDER BY prompt_type_id ASC, " +
-            "is_active DESC, version DESC, id DESC",
-        }),
-      ]);
+      const environments = await getEnvironmentPointers(db, promptTypeId);
+      return {success: true, environments};
+    } catch (error) {
+      logger.error(
+        `Error loading environments for type ${promptTypeId}:`,
+        error
+      );
+      throw new HttpsError("internal", "Failed to load environments.");
+    }
+  },
+);
 
-      const typeMap = new Map<string, {
-        id: string,
-        title: string,
-        description: string,
-        versions: Array<{
-          id: string,
-          version: number,
-          content: string,
-          isActive: boolean,
-          createdAt: string | null,
-        }>,
-      }>();
-
-      for (const row of typesResult.rows) {
-        const id = String(row.id);
-        typeMap.set(id, {
-          id,
-          title: String(row.name ?? ""),
-          description: String(row.description ?? ""),
-          versions: [],
-        });
-      }
+/**
+ * Carries the version live in `from` forward to the next environment
+ * (dev to staging, staging to production), with an audit entry.
+ */
+export const promotePromptVersion = onCall<{
+  promptTypeId: string,
+  from: string,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "publisher");
+    const {promptTypeId, from} = request.data;
 
-      for (const row of versionsResult.rows) {
-        const promptTypeId = String(row.prompt_type_id);
-        const type = typeMap.get(promptTypeId);
-        if (!type) continue;
+    if (!promptTypeId || !isEnvironment(from)) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string, " +
+          `from: ${ENVIRONMENTS.join(" | ")} }.`
+      );
+    }
 
-        type.versions.push({
-          id: String(row.id),
-          version: Number(row.version ?? 0),
-          content: String(row.content ?? ""),
-          isActive: Boolean(row.is_active),
-          createdAt: row.created_at ? String(row.created_at) : null,
-        });
-      }
+    try {
+      const result = await promoteToNextEnvironment(db, {
+        actor,
+        promptTypeId,
+        from,
+      });
+      logger.info(
+        `${actor.email} promoted v${result.active.version} of type ` +
+          `${promptTypeId} from ${from} to ${result.environment}.`
+      );
+      return {success: true, ...result};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(
+        `Error promoting type ${promptTypeId} from ${from}:`,
+        error
+      );
+      throw new HttpsError("internal", "Failed to promote prompt version.");
+    }
+  },
+);
 
-      const promptTypes = Array.from(typeMap.values()).map((promptType) => ({
-        ...promptType,
-        versions: promptType.versions.sort((a, b) => {
-          if (a.isActive !== b.isActive) return a.isActive ? -1 : 1;
-          return b.version - a.version;
-        }),
-      }));
+/**
+ * Searches the content of every prompt version. Words match as prefixes,
+ * "quoted text" as a phrase; results carry the line of the first match and
+ * a highlighted snippet of it.
+ */
+export const searchPrompts = onCall<{
+  query: string,
+  promptTypeId?: string | null,
+  activeOnly?: boolean,
+  from?: string | null,
+  to?: string | null,
+  limit?: number,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    await requireRole(db, request, "viewer");
+    const {query, promptTypeId, activeOnly, from, to, limit} = request.data;
+    const isDate = (value: unknown) =>
+      value === undefined || value === null ||
+      (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value));
+
+    if (
+      typeof query !== "string" ||
+      !isDate(from) ||
+      !isDate(to) ||
+      (limit !== undefined &&
+        (!Number.isInteger(limit) || limit < 1 || limit > 100))
+    ) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { query: string, " +
+          "promptTypeId?: string, activeOnly?: boolean, " +
+          "from?: YYYY-MM-DD, to?: YYYY-MM-DD, limit?: 1-100 }."
+      );
+    }
+
+    try {
+      const hits = await searchPromptVersions(db, query, {
+        promptTypeId,
+        activeOnly: activeOnly === true,
+        from,
+        to,
+        limit,
+      });
+      return {success: true, hits};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(`Error searching prompts for "${query}":`, error);
+      throw new HttpsError("internal", "Failed to search prompts.");
+    }
+  },
+);
+
+/**
+ * Returns one page of prompt types with a summary of each version (number,
+ * flags, preview, size) for the dashboard. Content is left out; the
+ * dashboard fetches it per version with getPromptVersionContents.
+ * `afterId` continues from the previous page's `nextAfterId`.
+ */
+export const getPromptDashboardData = onCall<{
+  afterId?: number | null,
+  limit?: number,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "viewer");
+    const afterId = request.data?.afterId ?? null;
+    const limit = request.data?.limit ?? 100;
+
+    if (
+      (afterId !== null && !Number.isInteger(afterId)) ||
+      !Number.isInteger(limit) ||
+      limit < 1 ||
+      limit > MAX_DASHBOARD_PAGE_SIZE
+    ) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { afterId?: number, " +
+          `limit?: 1-${MAX_DASHBOARD_PAGE_SIZE} }.`
+      );
+    }
 
-      return {success: true, promptTypes};
+    try {
+      const page = await getDashboardPage(db, {afterId, limit});
+      return {
+        success: true,
+        ...page,
+        access: {email: actor.email, role: actor.role},
+      };
     } catch (error) {
       logger.error("Error loading prompt dashboard data:", error);
-      throw new Error("Failed to load prompt dashboard data.");
+      throw new HttpsError(
+        "internal",
+        "Failed to load prompt dashboard data."
+      );
+    }
+  }
+);
+
+/**
+ * Returns the content and variables of up to MAX_CONTENT_BATCH versions,
+ * for the versions the dashboard opens, compares or includes.
+ */
+export const getPromptVersionContents = onCall<{
+  promptVersionIds: string[],
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    await requireRole(db, request, "viewer");
+    const promptVersionIds = request.data?.promptVersionIds;
+
+    if (
+      !Array.isArray(promptVersionIds) ||
+      promptVersionIds.length > MAX_CONTENT_BATCH ||
+      promptVersionIds.some((id) => typeof id !== "string" || !id)
+    ) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptVersionIds: string[] } " +
+          `with at most ${MAX_CONTENT_BATCH} ids.`
+      );
+    }
+
+    try {
+      const versions = await getVersionContents(db, promptVersionIds);
+      return {success: true, versions};
+    } catch (error) {
+      logger.error("Error loading prompt version contents:", error);
+      throw new HttpsError(
+        "internal",
+        "Failed to load prompt version contents."
+      );
     }
   }
 );
+
+/**
+ * Creates a prompt type with no versions. `contentKind` defaults to
+ * plain text.
+ */
+export const createPromptType = onCall<{
+  name: string,
+  description?: string,
+  contentKind?: string,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "editor");
+    const {name, description} = request.data;
+    const contentKind = request.data.contentKind ?? DEFAULT_CONTENT_KIND;
+
+    if (
+      typeof name !== "string" ||
+      (description !== undefined && typeof description !== "string") ||
+      !isContentKind(contentKind)
+    ) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { name: string, " +
+          "description?: string, " +
+          `contentKind?: ${CONTENT_KINDS.join(" | ")} }.`
+      );
+    }
+
+    try {
+      const promptType = await createPromptTypeRecord(db, {
+        actor,
+        name: parsePromptTypeName(name),
+        description: parsePromptTypeDescription(description),
+        contentKind,
+      });
+      logger.info(
+        `${actor.email} created prompt type ${promptType.id} ` +
+          `(${promptType.name}).`
+      );
+      return {success: true, promptType};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error("Error creating prompt type:", error);
+      throw new HttpsError("internal", "Failed to create prompt type.");
+    }
+  },
+);
+
+/**
+ * Renames a prompt type, edits its description and/or changes its content
+ * kind. Editing the description needs an editor; renaming changes what
+ * `{{> NAME}}` includes and serving requests resolve to, and the kind
+ * decides how content is checked, so both need a publisher.
+ */
+export const updatePromptType = onCall<{
+  promptTypeId: string,
+  name?: string,
+  description?: string,
+  contentKind?: string,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const {promptTypeId, name, description, contentKind} = request.data;
+    const actor = await requireRole(
+      db,
+      request,
+      name !== undefined || contentKind !== undefined ?
+        "publisher" : "editor",
+    );
+
+    if (
+      !promptTypeId ||
+      (name !== undefined && typeof name !== "string") ||
+      (description !== undefined && typeof description !== "string") ||
+      (contentKind !== undefined && !isContentKind(contentKind)) ||
+      (name === undefined && description === undefined &&
+        contentKind === undefined)
+    ) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string, " +
+          "name?: string, description?: string, " +
+          `contentKind?: ${CONTENT_KINDS.join(" | ")} }.`
+      );
+    }
+
+    try {
+      const promptType = await updatePromptTypeRecord(db, {
+        actor,
+        promptTypeId,
+        name: name !== undefined ? parsePromptTypeName(name) : undefined,
+        description: description !== undefined ?
+          parsePromptTypeDescription(description) : undefined,
+        contentKind,
+      });
+      return {success: true, promptType};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(`Error updating prompt type ${promptTypeId}:`, error);
+      throw new HttpsError("internal", "Failed to update prompt type.");
+    }
+  },
+);
+
+/**
+ * Archives or restores a prompt type. An archived type keeps serving
+ * what is live, but is hidden from the dashboard by default and nothing
+ * new can be activated, promoted, split or scheduled for it.
+ */
+export const archivePromptType = onCall<{
+  promptTypeId: string,
+  archived: boolean,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "publisher");
+    const {promptTypeId, archived} = request.data;
+
+    if (!promptTypeId || typeof archived !== "boolean") {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string, " +
+          "archived: boolean }."
+      );
+    }
+
+    try {
+      const promptType = await setPromptTypeArchived(db, {
+        actor,
+        promptTypeId,
+        archived,
+      });
+      logger.info(
+        `${actor.email} ${archived ? "archived" : "restored"} ` +
+          `prompt type ${promptTypeId}.`
+      );
+      return {success: true, promptType};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(`Error archiving prompt type ${promptTypeId}:`, error);
+      throw new HttpsError("internal", "Failed to archive prompt type.");
+    }
+  },
+);
+
+/**
+ * Permanently deletes a prompt type and all of its versions. Admin only,
+ * and only for a type that serves nothing and that no live version of
+ * another type includes. The audit log keeps its history.
+ */
+export const deletePromptType = onCall<{
+  promptTypeId: string,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "admin");
+    const {promptTypeId} = request.data;
+
+    if (!promptTypeId) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string }."
+      );
+    }
+
+    try {
+      await deletePromptTypeRecord(db, {actor, promptTypeId});
+      logger.info(`${actor.email} deleted prompt type ${promptTypeId}.`);
+      return {success: true};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(`Error deleting prompt type ${promptTypeId}:`, error);
+      throw new HttpsError("internal", "Failed to delete prompt type.");
+    }
+  },
+);
+
+/**
+ * Exports the given prompt types, or all of them, with every version,
+ * the active flags and type metadata, as a bundle that
+ * `importPromptBundle` reads back. The dashboard writes it as JSON or
+ * YAML.
+ */
+export const exportPromptBundle = onCall<{
+  promptTypeIds?: string[],
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "editor");
+    const {promptTypeIds} = request.data;
+
+    if (
+      promptTypeIds !== undefined &&
+      (!Array.isArray(promptTypeIds) ||
+        promptTypeIds.some((id) => typeof id !== "string" || !id))
+    ) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeIds?: string[] }."
+      );
+    }
+
+    try {
+      const bundle = await exportBundle(db, {
+        promptTypeIds: promptTypeIds ?? null,
+        exportedBy: actor.email,
+      });
+      logger.info(
+        `${actor.email} exported ${bundle.promptTypes.length} prompt type(s).`
+      );
+      return {success: true, bundle};
+    } catch (error) {
+      logger.error("Error exporting prompt bundle:", error);
+      throw new HttpsError("internal", "Failed to export prompt bundle.");
+    }
+  },
+);
+
+/**
+ * Dry run of `importPromptBundle`: validates the bundle and reports, per
+ * type and version, whether it would be created, skipped as identical or
+ * conflicts with what is already stored. Writes nothing.
+ */
+export const previewPromptBundleImport = onCall<{
+  bundle: unknown,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    await requireRole(db, request, "admin");
+
+    if (!request.data.bundle) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { bundle: object }."
+      );
+    }
+
+    try {
+      const plan = await planBundleImport(db, parseBundle(request.data.bundle));
+      return {success: true, plan};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error("Error previewing prompt bundle import:", error);
+      throw new HttpsError("internal", "Failed to preview prompt bundle.");
+    }
+  },
+);
+
+/**
+ * Imports a bundle in one transaction. Admin only. Refused as a whole,
+ * with the plan in the error details, when any type or version conflicts.
+ */
+export const importPromptBundle = onCall<{
+  bundle: unknown,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "admin");
+
+    if (!request.data.bundle) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { bundle: object }."
+      );
+    }
+
+    try {
+      const plan = await importBundle(db, {
+        actor,
+        bundle: parseBundle(request.data.bundle),
+      });
+      logger.info(
+        `${actor.email} imported a bundle: ${plan.createdTypes} type(s) ` +
+          `and ${plan.createdVersions} version(s) created.`
+      );
+      return {success: true, plan};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error("Error importing prompt bundle:", error);
+      throw new HttpsError("internal", "Failed to import prompt bundle.");
+    }
+  },
+);
+
+/**
+ * Grants, changes or revokes a user's role. Admin only.
+ * Passing `role: null` removes the user's row from `user_roles`.
+ */
+export const setUserRole = onCall<{
+  email: string,
+  role: string | null,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "admin");
+    const {role} = request.data;
+    const email = typeof request.data.email === "string" ?
+      request.data.email.trim().toLowerCase() : "";
+
+    if (!email || (role !== null && !isRole(role))) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { email: string, " +
+          "role: viewer | editor | publisher | admin | null }."
+      );
+    }
+
+    if (email === actor.email && role !== "admin") {
+      throw new HttpsError(
+        "failed-precondition",
+        "Admins cannot change their own role."
+      );
+    }
+
+    try {
+      await db.batch([
+        role === null ?
+          {
+            sql: "DELETE FROM user_roles WHERE email = ?",
+            args: [email],
+          } :
+          {
+            sql:
+              "INSERT INTO user_roles (email, role, updated_by, updated_at) " +
+              "VALUES (?, ?, ?, CURRENT_TIMESTAMP) " +
+              "ON CONFLICT(email) DO UPDATE SET role = excluded.role, " +
+              "updated_by = excluded.updated_by, " +
+              "updated_at = excluded.updated_at",
+            args: [email, role, actor.email],
+          },
+        auditStatement({
+          actor,
+          action: "role.set",
+          detail: {email, role},
+        }),
+      ], "write");
+
+      logger.info(`${actor.email} set role of ${email} to ${role}.`);
+      return {success: true};
+    } catch (error) {
+      logger.error(`Error setting role for ${email}:`, error);
+      throw new HttpsError("internal", "Failed to set user role.");
+    }
+  },
+);
+
+/**
+ * Returns audit log entries, newest first.
+ * Filters by prompt type and/or actor email; `beforeId` pages backwards.
+ */
+export const getPromptAuditLog = onCall<{
+  promptTypeId?: string | null,
+  actorEmail?: string | null,
+  beforeId?: number | null,
+  limit?: number,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    await requireRole(db, request, "viewer");
+    const {promptTypeId, actorEmail, beforeId} = request.data ?? {};
+    const limit = Math.min(Math.max(Number(request.data?.limit) || 50, 1), 200);
+
+    const where: string[] = [];
+    const args: Array<string | number> = [];
+    if (promptTypeId) {
+      where.push("log.prompt_type_id = ?");
+      args.push(String(promptTypeId));
+    }
+    if (actorEmail) {
+      where.push("log.actor_email = ?");
+      args.push(String(actorEmail).trim().toLowerCase());
+    }
+    if (beforeId) {
+      where.push("log.id < ?");
+      args.push(Number(beforeId));
+    }
+
+    try {
+      const [entriesResult, actorsResult] = await Promise.all([
+        db.execute({
+          sql:
+            "SELECT log.id, log.actor_email, log.actor_role, log.action, " +
+            "log.prompt_type_id, types.name AS prompt_type_name, " +
+            "log.prompt_version_id, log.version, log.before_hash, " +
+            "log.after_hash, log.detail, log.created_at " +
+            "FROM prompt_audit_log log " +
+            "LEFT JOIN prompt_types types " +
+            "ON CAST(types.id AS TEXT) = log.prompt_type_id " +
+            (where.length ? `WHERE ${where.join(" AND ")} ` : "") +
+            "ORDER BY log.id DESC LIMIT ?",
+          args: [...args, limit + 1],
+        }),
+        db.execute({
+          sql:
+            "SELECT DISTINCT actor_email FROM prompt_audit_log " +
+            "ORDER BY actor_email ASC",
+        }),
+      ]);
+
+      const rows = entriesResult.rows.slice(0, limit);
+      const entries = rows.map((row) => ({
+        id: Number(row.id),
+        actorEmail: String(row.actor_email),
+        actorRole: String(row.actor_role),
+        action: String(row.action),
+        promptTypeId: row.prompt_type_id ? String(row.prompt_type_id) : null,
+        promptTypeName: row.prompt_type_name ?
+          String(row.prompt_type_name) : null,
+        promptVersionId: row.prompt_version_id ?
+          String(row.prompt_version_id) : null,
+        version: row.version === null ? null : Number(row.version),
+        beforeHash: row.before_hash ? String(row.before_hash) : null,
+        afterHash: row.after_hash ? String(row.after_hash) : null,
+        detail: row.detail ? JSON.parse(String(row.detail)) : null,
+        createdAt: String(row.created_at),
+      }));
+
+      return {
+        success: true,
+        entries,
+        actors: actorsResult.rows.map((row) => String(row.actor_email)),
+        nextBeforeId: entriesResult.rows.length > limit ?
+          entries[entries.length - 1].id : null,
+      };
+    } catch (error) {
+      logger.error("Error loading prompt audit log:", error);
+      throw new HttpsError("internal", "Failed to load prompt audit log.");
+    }
+  },
+);
+
+/**
+ * Returns the activation timeline of a prompt type, newest first.
+ */
+export const getPromptActivationHistory = onCall<{
+  promptTypeId: string,
+  limit?: number,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    await requireRole(db, request, "viewer");
+    const {promptTypeId} = request.data;
+    const limit = Math.min(Math.max(Number(request.data.limit) || 50, 1), 200);
+
+    if (!promptTypeId) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string }."
+      );
+    }
+
+    try {
+      const history = await getActivationHistory(db, promptTypeId, limit);
+      return {success: true, history};
+    } catch (error) {
+      logger.error(
+        `Error loading activation history for type ${promptTypeId}:`,
+        error
+      );
+      throw new HttpsError(
+        "internal",
+        "Failed to load prompt activation history."
+      );
+    }
+  },
+);
+
+/**
+ * Returns the include graph around a prompt type: what its active version
+ * includes, which types include it, and every type whose served prompt
+ * changes when its active version changes.
+ */
+export const getPromptDependencies = onCall<{
+  promptTypeId: string,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    await requireRole(db, request, "viewer");
+    const {promptTypeId} = request.data;
+
+    if (!promptTypeId) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string }."
+      );
+    }
+
+    try {
+      const dependencies = await loadPromptDependencies(db, promptTypeId);
+      return {success: true, ...dependencies};
+    } catch (error) {
+      logger.error(
+        `Error loading dependencies for type ${promptTypeId}:`,
+        error
+      );
+      throw new HttpsError("internal", "Failed to load prompt dependencies.");
+    }
+  },
+);
+
+/**
+ * Lists the sample outputs attached to a JSON Schema prompt type. The
+ * dashboard validates each version against them.
+ */
+export const getSchemaSamples = onCall<{
+  promptTypeId: string,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    await requireRole(db, request, "viewer");
+    const {promptTypeId} = request.data;
+
+    if (!promptTypeId) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string }."
+      );
+    }
+
+    try {
+      const samples = await listSchemaSamples(db, promptTypeId);
+      return {success: true, samples};
+    } catch (error) {
+      logger.error(`Error loading samples for type ${promptTypeId}:`, error);
+      throw new HttpsError("internal", "Failed to load schema samples.");
+    }
+  },
+);
+
+/**
+ * Attaches a sample model output (JSON) to a JSON Schema prompt type.
+ */
+export const addSchemaSample = onCall<{
+  promptTypeId: string,
+  name: string,
+  content: string,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "editor");
+    const {promptTypeId, name, content} = request.data;
+
+    if (
+      !promptTypeId ||
+      typeof name !== "string" ||
+      typeof content !== "string"
+    ) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string, " +
+          "name: string, content: string }."
+      );
+    }
+
+    try {
+      const sample = await insertSchemaSample(db, {
+        actor,
+        promptTypeId,
+        name,
+        content,
+      });
+      return {success: true, sample};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(`Error adding sample to type ${promptTypeId}:`, error);
+      throw new HttpsError("internal", "Failed to add schema sample.");
+    }
+  },
+);
+
+/**
+ * Removes a sample output from its JSON Schema prompt type.
+ */
+export const deleteSchemaSample = onCall<{
+  sampleId: number,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "editor");
+    const {sampleId} = request.data;
+
+    if (!Number.isInteger(sampleId)) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { sampleId: number }."
+      );
+    }
+
+    try {
+      await removeSchemaSample(db, {actor, sampleId});
+      return {success: true};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(`Error deleting schema sample ${sampleId}:`, error);
+      throw new HttpsError("internal", "Failed to delete schema sample.");
+    }
+  },
+);
+
+/**
+ * Returns the validation rules of a prompt type, or the defaults it gets
+ * while it has none of its own.
+ */
+export const getPromptValidationRules = onCall<{
+  promptTypeId: string,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    await requireRole(db, request, "viewer");
+    const {promptTypeId} = request.data;
+
+    if (!promptTypeId) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string }."
+      );
+    }
+
+    try {
+      const rules = await getValidationRules(db, promptTypeId);
+      return {success: true, ...rules};
+    } catch (error) {
+      logger.error(
+        `Error loading validation rules for type ${promptTypeId}:`,
+        error
+      );
+      throw new HttpsError("internal", "Failed to load validation rules.");
+    }
+  },
+);
+
+/**
+ * Replaces the validation rules of a prompt type. Admin only. Saves,
+ * version creation and activation of the type are checked against them.
+ */
+export const setPromptValidationRules = onCall<{
+  promptTypeId: string,
+  rules: unknown,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "admin");
+    const {promptTypeId} = request.data;
+
+    if (!promptTypeId) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string, " +
+          "rules: object }."
+      );
+    }
+    const rules = parseValidationRules(request.data.rules);
+
+    try {
+      await setValidationRules(db, actor, promptTypeId, rules);
+      return {success: true, rules};
+    } catch (error) {
+      logger.error(
+        `Error setting validation rules for type ${promptTypeId}:`,
+        error
+      );
+      throw new HttpsError("internal", "Failed to set validation rules.");
+    }
+  },
+);
+
+/**
+ * Checks content against its prompt type's validation rules without
+ * saving it, so the editor can show violations before a save is refused.
+ */
+export const validatePromptContent = onCall<{
+  promptTypeId: string,
+  content: string,
+  variables?: unknown,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    await requireRole(db, request, "viewer");
+    const {promptTypeId, content} = request.data;
+
+    if (!promptTypeId || typeof content !== "string") {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string, " +
+          "content: string }."
+      );
+    }
+    const variables = request.data.variables === undefined ?
+      [] : parseVariableDeclarations(request.data.variables);
+
+    try {
+      const {rules} = await getValidationRules(db, promptTypeId);
+      const violations = checkContentRules(content, variables, rules);
+      return {success: true, violations};
+    } catch (error) {
+      logger.error(
+        `Error validating content for type ${promptTypeId}:`,
+        error
+      );
+      throw new HttpsError("internal", "Failed to validate content.");
+    }
+  },
+);
+
+/**
+ * Returns the test cases of a prompt type, the latest run of each of its
+ * versions and whether a passing run is required to go active.
+ */
+export const getPromptEvaluations = onCall<{
+  promptTypeId: string,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    await requireRole(db, request, "viewer");
+    const {promptTypeId} = request.data;
+
+    if (!promptTypeId) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string }."
+      );
+    }
+
+    try {
+      const [cases, runs, requirePass] = await Promise.all([
+        listEvalCases(db, promptTypeId),
+        getLatestEvalRuns(db, promptTypeId),
+        isEvalPassRequired(db, promptTypeId),
+      ]);
+      return {success: true, cases, runs, requirePass};
+    } catch (error) {
+      logger.error(
+        `Error loading evaluations for type ${promptTypeId}:`,
+        error
+      );
+      throw new HttpsError("internal", "Failed to load evaluations.");
+    }
+  },
+);
+
+/**
+ * Adds a test case (variable values plus assertions) to a prompt type.
+ */
+export const addPromptEvalCase = onCall<{
+  promptTypeId: string,
+  testCase: unknown,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "editor");
+    const {promptTypeId} = request.data;
+
+    if (!promptTypeId) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string, " +
+          "testCase: object }."
+      );
+    }
+    const testCase = parseEvalCase(request.data.testCase);
+
+    try {
+      const stored = await addEvalCase(db, {actor, promptTypeId, testCase});
+      return {success: true, testCase: stored};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(`Error adding test case to type ${promptTypeId}:`, error);
+      throw new HttpsError("internal", "Failed to add test case.");
+    }
+  },
+);
+
+/**
+ * Removes a test case from its prompt type.
+ */
+export const deletePromptEvalCase = onCall<{
+  caseId: number,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "editor");
+    const {caseId} = request.data;
+
+    if (!Number.isInteger(caseId)) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { caseId: number }."
+      );
+    }
+
+    try {
+      await deleteEvalCase(db, {actor, caseId});
+      return {success: true};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(`Error deleting test case ${caseId}:`, error);
+      throw new HttpsError("internal", "Failed to delete test case.");
+    }
+  },
+);
+
+/**
+ * Runs the test cases of a version's prompt type against a model adapter
+ * ("mock" unless asked otherwise) and stores the results for the version.
+ */
+export const runPromptEvaluation = onCall<{
+  promptVersionId: string,
+  adapter?: string,
+}>(
+  {cors: true, invoker: "public", timeoutSeconds: 300},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "editor");
+    const {promptVersionId} = request.data;
+
+    if (!promptVersionId) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptVersionId: string, " +
+          "adapter?: string }."
+      );
+    }
+    const adapter = getModelAdapter(request.data.adapter ?? "mock");
+
+    try {
+      const run = await runEvaluation(db, {
+        promptVersionId,
+        adapter,
+        requestedBy: actor.email,
+      });
+      logger.info(
+        `${actor.email} ran ${run.total} test case(s) on version ` +
+          `${promptVersionId} with ${adapter.name}: ${run.failed} failed.`
+      );
+      return {success: true, run};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(`Error evaluating version ${promptVersionId}:`, error);
+      throw new HttpsError("internal", "Failed to run test cases.");
+    }
+  },
+);
+
+/**
+ * Sets whether versions of a prompt type must pass their test cases
+ * before they can go active.
+ */
+export const setPromptEvalPolicy = onCall<{
+  promptTypeId: string,
+  requirePass: boolean,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "admin");
+    const {promptTypeId, requirePass} = request.data;
+
+    if (!promptTypeId || typeof requirePass !== "boolean") {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string, " +
+          "requirePass: boolean }."
+      );
+    }
+
+    try {
+      await setEvalPassRequired(db, actor, promptTypeId, requirePass);
+      return {success: true, requirePass};
+    } catch (error) {
+      logger.error(
+        `Error setting evaluation policy for type ${promptTypeId}:`,
+        error
+      );
+      throw new HttpsError("internal", "Failed to set evaluation policy.");
+    }
+  },
+);
+
+/**
+ * Returns how a prompt type's traffic is split between versions; no arms
+ * means every caller gets the active version.
+ */
+export const getPromptTrafficSplit = onCall<{
+  promptTypeId: string,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    await requireRole(db, request, "viewer");
+    const {promptTypeId} = request.data;
+
+    if (!promptTypeId) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string }."
+      );
+    }
+
+    try {
+      const split = await getTrafficSplit(db, promptTypeId);
+      return {success: true, ...split};
+    } catch (error) {
+      logger.error(
+        `Error loading traffic split for type ${promptTypeId}:`,
+        error
+      );
+      throw new HttpsError("internal", "Failed to load traffic split.");
+    }
+  },
+);
+
+/**
+ * Splits a prompt type's traffic between versions by weight. The active
+ * version must keep a share; an empty list sends all traffic back to it.
+ */
+export const setPromptTrafficSplit = onCall<{
+  promptTypeId: string,
+  arms: unknown,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "publisher");
+    const {promptTypeId} = request.data;
+
+    if (!promptTypeId) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string, " +
+          "arms: { promptVersionId: string, weight: integer }[] }."
+      );
+    }
+    const arms = parseTrafficArms(request.data.arms);
+
+    try {
+      const split = await setTrafficSplit(db, {actor, promptTypeId, arms});
+      logger.info(
+        `${actor.email} set the traffic split of type ${promptTypeId} to ` +
+          (split.arms.length ?
+            split.arms.map((arm) => `v${arm.version}:${arm.weight}`)
+              .join(", ") :
+            "the active version only") + "."
+      );
+      return {success: true, ...split};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(
+        `Error setting traffic split for type ${promptTypeId}:`,
+        error
+      );
+      throw new HttpsError("internal", "Failed to set traffic split.");
+    }
+  },
+);
+
+/**
+ * Rolls a prompt type back in one step. Without `activationId` this restores
+ * the version that was active before the latest switch; with it, the version
+ * activated by that history entry ("roll back to here").
+ */
+export const rollbackPromptType = onCall<{
+  promptTypeId: string,
+  activationId?: number,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "publisher");
+    const {promptTypeId, activationId} = request.data;
+
+    if (
+      !promptTypeId ||
+      (activationId !== undefined && !Number.isInteger(activationId))
+    ) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string, " +
+          "activationId?: number }."
+      );
+    }
+
+    try {
+      const entryResult = await db.execute(activationId === undefined ? {
+        sql:
+          "SELECT id, previous_version_id AS target_version_id " +
+          "FROM prompt_activations WHERE prompt_type_id = ? " +
+          "ORDER BY id DESC LIMIT 1",
+        args: [promptTypeId],
+      } : {
+        sql:
+          "SELECT id, prompt_version_id AS target_version_id " +
+          "FROM prompt_activations WHERE prompt_type_id = ? AND id = ?",
+        args: [promptTypeId, activationId],
+      });
+      const entry = entryResult.rows[0];
+
+      if (!entry?.target_version_id) {
+        throw new HttpsError(
+          "failed-precondition",
+          "There is no earlier active version to roll back to.",
+          {reason: "no-rollback-target"},
+        );
+      }
+
+      const result = await activatePromptVersion(db, {
+        actor,
+        promptTypeId,
+        promptVersionId: String(entry.target_version_id),
+        kind: "rollback",
+        detail: {activationId: Number(entry.id)},
+      });
+
+      logger.info(
+        `Rolled back prompt type ${promptTypeId} to version ` +
+          `${result.active.id} (was ${result.previousActive?.id ?? "none"}).`
+      );
+      return {success: true, ...result};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(`Error rolling back prompt type ${promptTypeId}:`, error);
+      throw new HttpsError("internal", "Failed to roll back prompt type.");
+    }
+  },
+);
+
+/**
+ * Schedules a prompt version to become active at a given time.
+ * `runAt` is an ISO 8601 timestamp.
+ */
+export const schedulePromptActivation = onCall<{
+  promptTypeId: string,
+  promptVersionId: string,
+  runAt: string,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "publisher");
+    const {promptTypeId, promptVersionId, runAt} = request.data;
+    const runAtDate = new Date(typeof runAt === "string" ? runAt : NaN);
+
+    if (!promptTypeId || !promptVersionId || isNaN(runAtDate.getTime())) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string, " +
+          "promptVersionId: string, runAt: ISO 8601 string }."
+      );
+    }
+
+    try {
+      const schedule = await createActivationSchedule(db, {
+        actor,
+        promptTypeId,
+        promptVersionId,
+        runAt: runAtDate,
+      });
+      logger.info(
+        `Scheduled prompt version ${promptVersionId} of type ` +
+          `${promptTypeId} to activate at ${schedule.runAt}.`
+      );
+      return {success: true, schedule};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(
+        `Error scheduling activation for type ${promptTypeId}:`,
+        error
+      );
+      throw new HttpsError("internal", "Failed to schedule activation.");
+    }
+  },
+);
+
+/**
+ * Cancels a pending scheduled activation.
+ */
+export const cancelPromptActivationSchedule = onCall<{
+  scheduleId: number,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "publisher");
+    const {scheduleId} = request.data;
+
+    if (!Number.isInteger(scheduleId)) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { scheduleId: number }."
+      );
+    }
+
+    try {
+      await cancelActivationSchedule(db, actor, scheduleId);
+      logger.info(`${actor.email} cancelled schedule ${scheduleId}.`);
+      return {success: true};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(`Error cancelling schedule ${scheduleId}:`, error);
+      throw new HttpsError("internal", "Failed to cancel schedule.");
+    }
+  },
+);
+
+/**
+ * Lists upcoming scheduled activations, optionally for one prompt type.
+ */
+export const getPromptActivationSchedules = onCall<{
+  promptTypeId?: string | null,
+  includeDone?: boolean,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    await requireRole(db, request, "viewer");
+
+    try {
+      const schedules = await listActivationSchedules(db, {
+        promptTypeId: request.data?.promptTypeId ?? null,
+        includeDone: Boolean(request.data?.includeDone),
+      });
+      return {success: true, schedules};
+    } catch (error) {
+      logger.error("Error loading activation schedules:", error);
+      throw new HttpsError("internal", "Failed to load schedules.");
+    }
+  },
+);
+
+/**
+ * Applies scheduled activations that are due. Runs every minute.
+ */
+export const applyScheduledActivations = onSchedule(
+  {schedule: "every 1 minutes", timeZone: "Asia/Seoul"},
+  async () => {
+    const db = getDbClient();
+    await ensureSchema(db);
+
+    const results = await applyDueSchedules(db);
+    for (const result of results) {
+      if (result.status === "applied") {
+        logger.info(
+          `Applied schedule ${result.scheduleId} ` +
+            `for prompt type ${result.promptTypeId}.`
+        );
+      } else {
+        logger.error(
+          `Scheduled activation ${result.scheduleId} ` +
+            `for prompt type ${result.promptTypeId} failed: ${result.error}`
+        );
+      }
+    }
+  },
+);
+
+/**
+ * Records a review event on a prompt version: submit for review, approve,
+ * request changes, or comment. Requesting changes needs a comment.
+ */
+export const reviewPromptVersion = onCall<{
+  promptTypeId: string,
+  promptVersionId: string,
+  decision: string,
+  comment?: string | null,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "editor");
+    const {promptTypeId, promptVersionId, decision} = request.data;
+    const comment = typeof request.data.comment === "string" ?
+      request.data.comment.trim() || null : null;
+
+    if (
+      !promptTypeId ||
+      !promptVersionId ||
+      !isReviewDecision(decision) ||
+      ((decision === "request_changes" || decision === "comment") &&
+        !comment)
+    ) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string, " +
+          "promptVersionId: string, decision: submit | approve | " +
+          "request_changes | comment, comment?: string }. " +
+          "request_changes and comment need a comment."
+      );
+    }
+
+    try {
+      const review = await recordReview(db, {
+        actor,
+        promptTypeId,
+        promptVersionId,
+        decision,
+        comment,
+      });
+      logger.info(
+        `${actor.email} recorded ${decision} on prompt version ` +
+          `${promptVersionId}; review is now ${review.state}.`
+      );
+      return {success: true, review};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(
+        `Error recording review on version ${promptVersionId}:`,
+        error
+      );
+      throw new HttpsError("internal", "Failed to record review.");
+    }
+  },
+);
+
+/**
+ * Returns the review state and thread of every version of a prompt type,
+ * together with the number of approvals the type requires.
+ */
+export const getPromptVersionReviews = onCall<{
+  promptTypeId: string,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    await requireRole(db, request, "viewer");
+    const {promptTypeId} = request.data;
+
+    if (!promptTypeId) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string }."
+      );
+    }
+
+    try {
+      const result = await getVersionReviews(db, promptTypeId);
+      return {success: true, ...result};
+    } catch (error) {
+      logger.error(`Error loading reviews for type ${promptTypeId}:`, error);
+      throw new HttpsError("internal", "Failed to load reviews.");
+    }
+  },
+);
+
+/**
+ * Sets how many approvals versions of a prompt type need before they can
+ * go active. Zero turns the review requirement off for that type.
+ */
+export const setPromptReviewPolicy = onCall<{
+  promptTypeId: string,
+  requiredApprovals: number,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "admin");
+    const {promptTypeId, requiredApprovals} = request.data;
+
+    if (
+      !promptTypeId ||
+      !Number.isInteger(requiredApprovals) ||
+      requiredApprovals < 0 ||
+      requiredApprovals > 10
+    ) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { promptTypeId: string, " +
+          "requiredApprovals: integer 0-10 }."
+      );
+    }
+
+    try {
+      await setRequiredApprovals(db, actor, promptTypeId, requiredApprovals);
+      logger.info(
+        `${actor.email} set required approvals of type ${promptTypeId} ` +
+          `to ${requiredApprovals}.`
+      );
+      return {success: true, requiredApprovals};
+    } catch (error) {
+      logger.error(
+        `Error setting review policy for type ${promptTypeId}:`,
+        error
+      );
+      throw new HttpsError("internal", "Failed to set review policy.");
+    }
+  },
+);
+
+/**
+ * Serves the active (or a pinned, published) prompt of one type to
+ * consuming applications.
+ *
+ * GET /getActivePrompt?type=<type id or name>[&version=<number>]
+ *   [&subject=<subject key>][&environment=dev|staging|production]
+ * Authenticate with `Authorization: Bearer <api key>` or `X-Api-Key`.
+ * `environment` defaults to production, the active version. While the
+ * type splits production traffic, the subject key (a user or session id)
+ * picks the version, the same one every time for the same key.
+ * Responds with { promptTypeId, promptTypeName, version, content,
+ * contentHash, messages, variables, includes, environment, arm } and an
+ * ETag; a matching If-None-Match gets 304. `messages` is the
+ * [{ role, content }] list of a chat prompt and null for other kinds.
+ * Includes are resolved; one that no longer resolves is a 500 so clients
+ * keep serving their cached copy.
+ */
+export const getActivePrompt = onRequest(
+  {cors: true, invoker: "public"},
+  async (req, res) => {
+    if (req.method !== "GET") {
+      res.set("Allow", "GET").status(405).json({error: "method-not-allowed"});
+      return;
+    }
+
+    const authorization = req.get("authorization") ?? "";
+    const secret = authorization.startsWith("Bearer ") ?
+      authorization.slice("Bearer ".length).trim() :
+      (req.get("x-api-key") ?? "").trim();
+    const type = typeof req.query.type === "string" ?
+      req.query.type.trim() : "";
+    const versionParam = req.query.version;
+    const version = typeof versionParam === "string" ?
+      Number(versionParam) : null;
+    const subjectParam = req.query.subject;
+    const subject = typeof subjectParam === "string" ? subjectParam : null;
+    const environment = req.query.environment ?? DEFAULT_ENVIRONMENT;
+
+    if (!secret) {
+      res.status(401).json({error: "unauthenticated"});
+      return;
+    }
+    if (
+      !type ||
+      (versionParam !== undefined &&
+        (version === null || !Number.isInteger(version) || version < 1)) ||
+      (subjectParam !== undefined &&
+        (subject === null || !subject || subject.length > 256)) ||
+      !isEnvironment(environment)
+    ) {
+      res.status(400).json({
+        error: "invalid-argument",
+        message:
+          "Expecting ?type=<id or name>[&version=<positive integer>]" +
+          "[&subject=<key of at most 256 characters>]" +
+          `[&environment=${ENVIRONMENTS.join("|")}].`,
+      });
+      return;
+    }
+
+    try {
+      const db = getDbClient();
+      await ensureSchema(db);
+      const apiKey = await verifyApiKey(db, secret);
+      if (!apiKey) {
+        res.status(401).json({error: "unauthenticated"});
+        return;
+      }
+
+      const prompt = await resolveServedPrompt(db, {
+        type,
+        version,
+        subject,
+        environment,
+      });
+      if (!prompt) {
+        res.status(404).json({error: "not-found"});
+        return;
+      }
+
+      const etag = servedPromptETag(prompt);
+      res.set("ETag", etag);
+      res.set("Cache-Control", "private, no-cache");
+      if (matchesIfNoneMatch(req.get("if-none-match"), etag)) {
+        res.status(304).end();
+        return;
+      }
+      res.status(200).json(prompt);
+    } catch (error) {
+      logger.error(`Error serving prompt type ${type}:`, error);
+      if (error instanceof HttpsError) {
+        // An include that no longer resolves, e.g. include-not-found.
+        const {reason} = (error.details ?? {}) as {reason?: string};
+        res.status(500).json({
+          error: reason ?? "internal",
+          message: error.message,
+        });
+        return;
+      }
+      res.status(500).json({error: "internal"});
+    }
+  },
+);
+
+/**
+ * Issues a serving API key. The secret is only returned in this response.
+ */
+export const createServingApiKey = onCall<{
+  name: string,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "admin");
+    const name = typeof request.data.name === "string" ?
+      request.data.name.trim() : "";
+
+    if (!name) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { name: string }."
+      );
+    }
+
+    try {
+      const result = await createApiKey(db, actor, name);
+      logger.info(
+        `${actor.email} issued API key ${result.apiKey.keyPrefix}... ` +
+          `(${name}).`
+      );
+      return {success: true, ...result};
+    } catch (error) {
+      logger.error(`Error issuing API key ${name}:`, error);
+      throw new HttpsError("internal", "Failed to issue API key.");
+    }
+  },
+);
+
+/**
+ * Lists serving API keys without their secrets.
+ */
+export const listServingApiKeys = onCall(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    await requireRole(db, request, "admin");
+
+    try {
+      const apiKeys = await listApiKeys(db);
+      return {success: true, apiKeys};
+    } catch (error) {
+      logger.error("Error listing API keys:", error);
+      throw new HttpsError("internal", "Failed to list API keys.");
+    }
+  },
+);
+
+/**
+ * Revokes a serving API key.
+ */
+export const revokeServingApiKey = onCall<{
+  apiKeyId: number,
+}>(
+  {cors: true, invoker: "public"},
+  async (request) => {
+    const db = getDbClient();
+    await ensureSchema(db);
+    const actor = await requireRole(db, request, "admin");
+    const {apiKeyId} = request.data;
+
+    if (!Number.isInteger(apiKeyId)) {
+      logger.error("Invalid request data", {data: request.data});
+      throw new HttpsError(
+        "invalid-argument",
+        "Invalid arguments. Expecting { apiKeyId: number }."
+      );
+    }
+
+    try {
+      await revokeApiKey(db, actor, apiKeyId);
+      logger.info(`${actor.email} revoked API key ${apiKeyId}.`);
+      return {success: true};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error(`Error revoking API key ${apiKeyId}:`, error);
+      throw new HttpsError("internal", "Failed to revoke API key.");
+    }
+  },
+);
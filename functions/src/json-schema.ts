@@ -0,0 +1,93 @@
+import Ajv2020, {ErrorObject, ValidateFunction} from "ajv/dist/2020";
+
+// Mirrors lib/json-schema.ts, which runs the same checks in the editor.
+
+export interface SchemaIssue {
+  // JSON pointer into the document the issue is about ("" is the root).
+  path: string,
+  message: string,
+}
+
+export interface SchemaCheck {
+  errors: SchemaIssue[],
+  // Validates an instance against the schema; null when the schema itself
+  // is unusable.
+  validate: ((instance: unknown) => SchemaIssue[]) | null,
+}
+
+const DRAFT_2020_12 = "https://json-schema.org/draft/2020-12/schema";
+
+// A fresh instance per schema: Ajv caches compiled schemas by `$id`, and
+// two versions of one prompt usually share theirs.
+const createAjv = () => new Ajv2020({
+  allErrors: true,
+  strict: false,
+  // In 2020-12 `format` is an annotation unless a vocabulary asserts it.
+  validateFormats: false,
+});
+
+const toIssues = (errors: ErrorObject[] | null | undefined): SchemaIssue[] =>
+  (errors ?? []).map((error) => {
+    const message = error.message ?? error.keyword;
+    // Name the offending key, which Ajv keeps out of the message.
+    const property = error.params.additionalProperty ??
+      error.params.unevaluatedProperty;
+    return {
+      path: error.instancePath,
+      message: property ? `${message}: ${property}` : message,
+    };
+  });
+
+/**
+ * Parses prompt content as a draft 2020-12 JSON Schema. Problems are
+ * reported by JSON pointer into the schema document.
+ * @param {string} content The JSON Schema prompt content.
+ * @return {SchemaCheck} The problems and, if usable, a validator.
+ */
+export function checkJsonSchema(content: string): SchemaCheck {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {errors: [{path: "", message: `Invalid JSON: ${message}`}],
+      validate: null};
+  }
+  if (typeof schema !== "object" && typeof schema !== "boolean") {
+    return {
+      errors: [{path: "", message: "A schema must be an object or boolean."}],
+      validate: null,
+    };
+  }
+  const declared = schema && typeof schema === "object" ?
+    (schema as {$schema?: unknown}).$schema : undefined;
+  if (
+    declared !== undefined &&
+    String(declared).replace(/#$/, "") !== DRAFT_2020_12
+  ) {
+    return {
+      errors: [{
+        path: "/$schema",
+        message: `Only draft 2020-12 (${DRAFT_2020_12}) is supported.`,
+      }],
+      validate: null,
+    };
+  }
+
+  const ajv = createAjv();
+  if (!ajv.validateSchema(schema as object)) {
+    return {errors: toIssues(ajv.errors), validate: null};
+  }
+  let compiled: ValidateFunction;
+  try {
+    compiled = ajv.compile(schema as object);
+  } catch (error) {
+    // e.g. a `$ref` that does not resolve.
+    const message = error instanceof Error ? error.message : String(error);
+    return {errors: [{path: "", message}], validate: null};
+  }
+  return {
+    errors: [],
+    validate: (instance) => compiled(instance) ? [] : toIssues(compiled.errors),
+  };
+}
@@ -0,0 +1,127 @@
+import {HttpsError} from "firebase-functions/v2/https";
+import {defineString} from "firebase-functions/params";
+import {ChatMessage} from "../../packages/prompt-client/src/chat";
+
+// An HTTP endpoint that takes {prompt, messages, maxTokens} and answers
+// {output}.
+// Left empty, only the mock adapter is available.
+const evalModelEndpoint = defineString("EVAL_MODEL_ENDPOINT", {default: ""});
+const evalModelApiKey = defineString("EVAL_MODEL_API_KEY", {default: ""});
+
+export const MODEL_ADAPTERS = ["mock", "http"] as const;
+
+export type ModelAdapterName = typeof MODEL_ADAPTERS[number];
+
+export interface ModelRequest {
+  prompt: string,
+  // The rendered turns of a chat prompt; null for every other kind.
+  messages: ChatMessage[] | null,
+  maxTokens: number | null,
+  // Canned output from the test case. Only the mock adapter uses it.
+  fixture: string | null,
+}
+
+export interface ModelResponse {
+  output: string,
+  tokens: number,
+}
+
+/**
+ * Something that turns a rendered prompt into model output. Injected into
+ * the evaluation runner so test cases can run against a real model or,
+ * deterministically, against the mock.
+ */
+export interface ModelAdapter {
+  name: ModelAdapterName,
+  complete: (request: ModelRequest) => Promise<ModelResponse>,
+}
+
+/**
+ * Rough token count, about four characters a token. Used when an adapter
+ * does not report usage, and by the mock so results never vary.
+ * @param {string} text The text to measure.
+ * @return {number} The estimated token count.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Answers with the test case's canned output, or echoes the rendered
+ * prompt when the case has none. No network, same result every run, so it
+ * suits CI and offline checks of the prompt text itself.
+ */
+export const mockAdapter: ModelAdapter = {
+  name: "mock",
+  complete: async (request) => {
+    const output = request.fixture ?? request.prompt;
+    return {output, tokens: estimateTokens(output)};
+  },
+};
+
+/**
+ * Posts the rendered prompt to a model endpoint.
+ * @param {string} endpoint The URL to POST to.
+ * @param {string} apiKey Sent as a bearer token when set.
+ * @return {ModelAdapter} The adapter.
+ */
+export function createHttpAdapter(
+  endpoint: string,
+  apiKey: string,
+): ModelAdapter {
+  return {
+    name: "http",
+    complete: async (request) => {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? {Authorization: `Bearer ${apiKey}`} : {}),
+        },
+        body: JSON.stringify({
+          prompt: request.prompt,
+          messages: request.messages,
+          maxTokens: request.maxTokens,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Model endpoint answered ${response.status}.`);
+      }
+      const body =
+        await response.json() as {output?: unknown, tokens?: unknown};
+      if (typeof body.output !== "string") {
+        throw new Error("Model endpoint response has no output string.");
+      }
+      return {
+        output: body.output,
+        tokens: typeof body.tokens === "number" ?
+          body.tokens : estimateTokens(body.output),
+      };
+    },
+  };
+}
+
+/**
+ * Looks up an adapter by name.
+ * @param {string} name The adapter name from the request.
+ * @return {ModelAdapter} The adapter.
+ */
+export function getModelAdapter(name: string): ModelAdapter {
+  if (name === "mock") return mockAdapter;
+  if (name === "http") {
+    const endpoint = evalModelEndpoint.value();
+    if (!endpoint) {
+      throw new HttpsError(
+        "failed-precondition",
+        "The http adapter needs EVAL_MODEL_ENDPOINT to be set.",
+        {reason: "adapter-unavailable"},
+      );
+    }
+    return createHttpAdapter(endpoint, evalModelApiKey.value());
+  }
+  throw new HttpsError(
+    "invalid-argument",
+    `Unknown model adapter ${name}. Expecting ${MODEL_ADAPTERS.join(", ")}.`,
+    {reason: "unknown-adapter"},
+  );
+}
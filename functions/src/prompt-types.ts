@@ -0,0 +1,508 @@
+import {Client, Transaction} from "@libsql/client";
+import {HttpsError} from "firebase-functions/v2/https";
+import {findIncludes} from "../../packages/prompt-client/src/includes";
+import {Actor} from "./auth";
+import {auditStatement} from "./audit";
+import {
+  ContentKind,
+  getContentKindDefinition,
+  toContentKind,
+} from "./content-kinds";
+import {checkContentRules} from "./validation-rules";
+
+type Executor = Client | Transaction;
+
+const MAX_TYPE_NAME_LENGTH = 100;
+const MAX_TYPE_DESCRIPTION_LENGTH = 1000;
+
+// Every table keyed by prompt type, cleared when a type is deleted. The
+// audit log is kept so the deletion itself stays on record.
+const TYPE_TABLES = [
+  "prompt_traffic_splits",
+  "prompt_environment_versions",
+  "prompt_eval_runs",
+  "prompt_eval_cases",
+  "prompt_eval_policies",
+  "prompt_validation_rules",
+  "prompt_schema_samples",
+  "prompt_reviews",
+  "prompt_review_policies",
+  "prompt_activation_schedules",
+  "prompt_activations",
+  "prompt_versions",
+];
+
+export interface PromptTypeDetails {
+  id: string,
+  name: string,
+  description: string,
+  contentKind: ContentKind,
+  archivedAt: string | null,
+  archivedBy: string | null,
+}
+
+export interface TypeConsumer {
+  promptTypeId: string,
+  promptTypeName: string,
+}
+
+/**
+ * Checks a type name. Names are what `{{> NAME}}` includes and the
+ * serving API's `type` parameter refer to, so they must be usable there:
+ * no braces or `@`, no line breaks, and not all digits, which would read
+ * as an id.
+ * @param {unknown} value The requested name.
+ * @return {string} The trimmed name.
+ */
+export function parsePromptTypeName(value: unknown): string {
+  const name = typeof value === "string" ? value.trim() : "";
+  if (
+    !name ||
+    name.length > MAX_TYPE_NAME_LENGTH ||
+    /[{}@\r\n]/.test(name) ||
+    /^\d+$/.test(name)
+  ) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Type names are 1-${MAX_TYPE_NAME_LENGTH} characters without ` +
+        "{, }, @ or line breaks, and not only digits.",
+      {reason: "invalid-type-name"},
+    );
+  }
+  return name;
+}
+
+/**
+ * Checks a type description.
+ * @param {unknown} value The requested description.
+ * @return {string} The trimmed description.
+ */
+export function parsePromptTypeDescription(value: unknown): string {
+  const description = typeof value === "string" ? value.trim() : "";
+  if (description.length > MAX_TYPE_DESCRIPTION_LENGTH) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Descriptions are at most ${MAX_TYPE_DESCRIPTION_LENGTH} characters.`,
+      {reason: "invalid-type-description"},
+    );
+  }
+  return description;
+}
+
+/**
+ * Maps a prompt_types row to its API shape.
+ * @param {Record<string, unknown>} row The row.
+ * @return {PromptTypeDetails} The type.
+ */
+function toPromptType(row: Record<string, unknown>): PromptTypeDetails {
+  return {
+    id: String(row.id),
+    name: String(row.name ?? ""),
+    description: String(row.description ?? ""),
+    contentKind: toContentKind(row.content_kind),
+    archivedAt: row.archived_at ? String(row.archived_at) : null,
+    archivedBy: row.archived_by ? String(row.archived_by) : null,
+  };
+}
+
+/**
+ * Loads a prompt type by id.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} promptTypeId The type.
+ * @return {Promise<PromptTypeDetails>} The type.
+ */
+async function loadPromptType(
+  db: Executor,
+  promptTypeId: string,
+): Promise<PromptTypeDetails> {
+  const result = await db.execute({
+    sql:
+      "SELECT id, name, description, content_kind, archived_at, " +
+      "archived_by FROM prompt_types WHERE CAST(id AS TEXT) = ?",
+    args: [promptTypeId],
+  });
+  const row = result.rows[0];
+  if (!row) {
+    throw new HttpsError(
+      "not-found",
+      `Prompt type ${promptTypeId} does not exist.`,
+      {reason: "type-not-found"},
+    );
+  }
+  return toPromptType(row);
+}
+
+/**
+ * Throws when another type already uses the name.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} name The name to claim.
+ * @param {string | null} exceptId The type being renamed, if any.
+ * @return {Promise<void>} Resolves when the name is free.
+ */
+async function assertNameFree(
+  db: Executor,
+  name: string,
+  exceptId: string | null,
+): Promise<void> {
+  const result = await db.execute({
+    sql:
+      "SELECT id FROM prompt_types WHERE name = ? " +
+      "AND CAST(id AS TEXT) IS NOT ?",
+    args: [name, exceptId],
+  });
+  if (result.rows.length) {
+    throw new HttpsError(
+      "already-exists",
+      `A prompt type named "${name}" already exists.`,
+      {reason: "type-name-taken"},
+    );
+  }
+}
+
+/**
+ * Throws when the type is archived. Archived types keep serving what is
+ * live but nothing new may go live.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} promptTypeId The type.
+ * @return {Promise<void>} Resolves when the type is not archived.
+ */
+export async function assertTypeNotArchived(
+  db: Executor,
+  promptTypeId: string,
+): Promise<void> {
+  const result = await db.execute({
+    sql:
+      "SELECT archived_at FROM prompt_types " +
+      "WHERE CAST(id AS TEXT) = ? AND archived_at IS NOT NULL",
+    args: [promptTypeId],
+  });
+  if (result.rows.length) {
+    throw new HttpsError(
+      "failed-precondition",
+      "This prompt type is archived. Restore it before changing what is " +
+        "live.",
+      {reason: "type-archived"},
+    );
+  }
+}
+
+/**
+ * Finds the other types whose live versions (active, in an environment
+ * or in a traffic split) include this type through one of `targets`.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} promptTypeId The included type.
+ * @param {string[]} targets The include targets to look for: its id,
+ *   its name or both.
+ * @return {Promise<TypeConsumer[]>} The including types.
+ */
+export async function findLiveConsumers(
+  db: Executor,
+  promptTypeId: string,
+  targets: string[],
+): Promise<TypeConsumer[]> {
+  const result = await db.execute({
+    sql:
+      "SELECT t.id, t.name, v.content FROM prompt_versions v " +
+      "JOIN prompt_types t ON CAST(t.id AS TEXT) = v.prompt_type_id " +
+      "WHERE v.prompt_type_id != ? AND (v.is_active = TRUE " +
+      "OR CAST(v.id AS TEXT) IN " +
+      "(SELECT prompt_version_id FROM prompt_environment_versions) " +
+      "OR CAST(v.id AS TEXT) IN " +
+      "(SELECT prompt_version_id FROM prompt_traffic_splits))",
+    args: [promptTypeId],
+  });
+
+  const consumers = new Map<string, TypeConsumer>();
+  for (const row of result.rows) {
+    const refs = findIncludes(String(row.content ?? ""));
+    if (!refs.some((ref) => targets.includes(ref.target))) continue;
+    consumers.set(String(row.id), {
+      promptTypeId: String(row.id),
+      promptTypeName: String(row.name ?? ""),
+    });
+  }
+  return Array.from(consumers.values());
+}
+
+/**
+ * Creates a prompt type with no versions.
+ * @param {Client} db The database client.
+ * @param {object} request The type to create and on whose behalf.
+ * @return {Promise<PromptTypeDetails>} The created type.
+ */
+export async function createPromptType(
+  db: Client,
+  request: {
+    actor: Actor,
+    name: string,
+    description: string,
+    contentKind: ContentKind,
+  },
+): Promise<PromptTypeDetails> {
+  const {actor, name, description, contentKind} = request;
+  const tx = await db.transaction("write");
+  try {
+    await assertNameFree(tx, name, null);
+    const inserted = await tx.execute({
+      sql:
+        "INSERT INTO prompt_types (name, description, content_kind) " +
+        "VALUES (?, ?, ?)",
+      args: [name, description, contentKind],
+    });
+    const promptTypeId = String(inserted.lastInsertRowid);
+    await tx.execute(auditStatement({
+      actor,
+      action: "type.create",
+      promptTypeId,
+      detail: {name, contentKind},
+    }));
+    const created = await loadPromptType(tx, promptTypeId);
+    await tx.commit();
+    return created;
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Renames a type, changes its description and/or its content kind. A
+ * rename is refused while live versions of other types include this one
+ * by its old name, since they would stop resolving. Changing the kind
+ * changes how later saves are checked; existing versions are untouched.
+ * @param {Client} db The database client.
+ * @param {object} request The changes and on whose behalf.
+ * @return {Promise<PromptTypeDetails>} The updated type.
+ */
+export async function updatePromptType(
+  db: Client,
+  request: {
+    actor: Actor,
+    promptTypeId: string,
+    name?: string,
+    description?: string,
+    contentKind?: ContentKind,
+  },
+): Promise<PromptTypeDetails> {
+  const {actor, promptTypeId} = request;
+  const tx = await db.transaction("write");
+  try {
+    const before = await loadPromptType(tx, promptTypeId);
+    const name = request.name ?? before.name;
+    const description = request.description ?? before.description;
+    const contentKind = request.contentKind ?? before.contentKind;
+    if (
+      name === before.name &&
+      description === before.description &&
+      contentKind === before.contentKind
+    ) {
+      await tx.commit();
+      return before;
+    }
+
+    if (name !== before.name) {
+      await assertNameFree(tx, name, promptTypeId);
+      const consumers =
+        await findLiveConsumers(tx, promptTypeId, [before.name]);
+      if (consumers.length) {
+        throw new HttpsError(
+          "failed-precondition",
+          "Live versions of other prompt types include this type by name: " +
+            `${consumers.map((consumer) => consumer.promptTypeName)
+              .join(", ")}. Include it by id ({{> ${promptTypeId}}}) ` +
+            "before renaming.",
+          {reason: "type-included-by-name", consumers},
+        );
+      }
+    }
+    if (contentKind !== before.contentKind) {
+      await assertVersionsFitKind(tx, promptTypeId, contentKind);
+    }
+
+    await tx.execute({
+      sql:
+        "UPDATE prompt_types SET name = ?, description = ?, " +
+        "content_kind = ? " +
+        "WHERE CAST(id AS TEXT) = ?",
+      args: [name, description, contentKind, promptTypeId],
+    });
+    await tx.execute(auditStatement({
+      actor,
+      action: "type.update",
+      promptTypeId,
+      detail: {
+        ...(name !== before.name ? {name, previousName: before.name} : {}),
+        ...(description !== before.description ? {description} : {}),
+        ...(contentKind !== before.contentKind ?
+          {contentKind, previousContentKind: before.contentKind} : {}),
+      },
+    }));
+    const updated = await loadPromptType(tx, promptTypeId);
+    await tx.commit();
+    return updated;
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Rejects a change of content kind that existing versions could not be
+ * served under, e.g. plain text versions of a type becoming `chat`.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} promptTypeId The prompt type.
+ * @param {ContentKind} contentKind The kind it would change to.
+ * @return {Promise<void>} Resolves when every version fits.
+ */
+async function assertVersionsFitKind(
+  db: Executor,
+  promptTypeId: string,
+  contentKind: ContentKind,
+): Promise<void> {
+  const {enforcedRules} = getContentKindDefinition(contentKind);
+  if (!Object.keys(enforcedRules).length) return;
+  const result = await db.execute({
+    sql:
+      "SELECT version, content FROM prompt_versions " +
+      "WHERE prompt_type_id = ? ORDER BY version ASC",
+    args: [promptTypeId],
+  });
+  const versions = result.rows
+    .filter((row) =>
+      checkContentRules(String(row.content ?? ""), [], enforcedRules).length)
+    .map((row) => Number(row.version));
+  if (!versions.length) return;
+  throw new HttpsError(
+    "failed-precondition",
+    `Versions ${versions.map((version) => `v${version}`).join(", ")} ` +
+      `are not valid ${contentKind} content.`,
+    {reason: "content-kind-mismatch", versions},
+  );
+}
+
+/**
+ * Archives or restores a type. Archiving keeps what is live serving but
+ * cancels any pending scheduled activation, since it could no longer
+ * apply.
+ * @param {Client} db The database client.
+ * @param {object} request The type, the new state and on whose behalf.
+ * @return {Promise<PromptTypeDetails>} The updated type.
+ */
+export async function setPromptTypeArchived(
+  db: Client,
+  request: {actor: Actor, promptTypeId: string, archived: boolean},
+): Promise<PromptTypeDetails> {
+  const {actor, promptTypeId, archived} = request;
+  const tx = await db.transaction("write");
+  try {
+    const before = await loadPromptType(tx, promptTypeId);
+    if (Boolean(before.archivedAt) === archived) {
+      await tx.commit();
+      return before;
+    }
+
+    let cancelledSchedules = 0;
+    if (archived) {
+      const cancelled = await tx.execute({
+        sql:
+          "UPDATE prompt_activation_schedules " +
+          "SET status = 'cancelled', cancelled_by = ? " +
+          "WHERE prompt_type_id = ? AND status = 'pending'",
+        args: [actor.email, promptTypeId],
+      });
+      cancelledSchedules = cancelled.rowsAffected;
+    }
+    await tx.execute({
+      sql:
+        "UPDATE prompt_types SET archived_at = " +
+        (archived ? "CURRENT_TIMESTAMP" : "NULL") +
+        ", archived_by = ? WHERE CAST(id AS TEXT) = ?",
+      args: [archived ? actor.email : null, promptTypeId],
+    });
+    await tx.execute(auditStatement({
+      actor,
+      action: archived ? "type.archive" : "type.restore",
+      promptTypeId,
+      detail: archived ? {cancelledSchedules} : null,
+    }));
+    const updated = await loadPromptType(tx, promptTypeId);
+    await tx.commit();
+    return updated;
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Deletes a type with all of its versions and per-type settings. Only a
+ * type that serves nothing may go: no active version, nothing live in
+ * another environment, and no live version of another type including it.
+ * @param {Client} db The database client.
+ * @param {object} request The type and on whose behalf.
+ * @return {Promise<void>} Resolves when the type is gone.
+ */
+export async function deletePromptType(
+  db: Client,
+  request: {actor: Actor, promptTypeId: string},
+): Promise<void> {
+  const {actor, promptTypeId} = request;
+  const tx = await db.transaction("write");
+  try {
+    const type = await loadPromptType(tx, promptTypeId);
+
+    const liveResult = await tx.execute({
+      sql:
+        "SELECT 1 FROM prompt_versions " +
+        "WHERE prompt_type_id = ? AND is_active = TRUE " +
+        "UNION ALL SELECT 1 FROM prompt_environment_versions " +
+        "WHERE prompt_type_id = ?",
+      args: [promptTypeId, promptTypeId],
+    });
+    if (liveResult.rows.length) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Only a prompt type with no active version and nothing live in " +
+          "any environment can be deleted.",
+        {reason: "type-has-active-version"},
+      );
+    }
+
+    const consumers =
+      await findLiveConsumers(tx, promptTypeId, [promptTypeId, type.name]);
+    if (consumers.length) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Live versions of other prompt types include this type: " +
+          `${consumers.map((consumer) => consumer.promptTypeName)
+            .join(", ")}.`,
+        {reason: "type-has-consumers", consumers},
+      );
+    }
+
+    const versionsResult = await tx.execute({
+      sql: "SELECT COUNT(*) AS count FROM prompt_versions " +
+        "WHERE prompt_type_id = ?",
+      args: [promptTypeId],
+    });
+    for (const table of TYPE_TABLES) {
+      await tx.execute({
+        sql: `DELETE FROM ${table} WHERE prompt_type_id = ?`,
+        args: [promptTypeId],
+      });
+    }
+    await tx.execute({
+      sql: "DELETE FROM prompt_types WHERE CAST(id AS TEXT) = ?",
+      args: [promptTypeId],
+    });
+    await tx.execute(auditStatement({
+      actor,
+      action: "type.delete",
+      promptTypeId,
+      detail: {
+        name: type.name,
+        deletedVersions: Number(versionsResult.rows[0].count),
+      },
+    }));
+    await tx.commit();
+  } finally {
+    tx.close();
+  }
+}
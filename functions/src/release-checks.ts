@@ -0,0 +1,61 @@
+import {Transaction} from "@libsql/client";
+import {assertApproved} from "./review";
+import {composePrompt} from "./includes";
+import {readStoredVariables} from "./variables";
+import {assertSchemaAcceptsSamples} from "./schema-samples";
+import {assertContentRules} from "./validation-rules";
+import {assertEvalPassed} from "./evaluation";
+import {Environment} from "./environments";
+import {assertTypeNotArchived} from "./prompt-types";
+
+/**
+ * Runs every check a version must pass before it is served, whether it
+ * goes active or takes a share of traffic: a type that is not archived,
+ * review, includes that resolve without a cycle, the type's validation
+ * rules, for JSON Schema types the sample outputs and, where required,
+ * the test cases. Throws the first failure.
+ * @param {Transaction} tx The open transaction making the version live.
+ * @param {object} target The version row about to be served, and the
+ *   environment it goes live in (production by default).
+ * @return {Promise<void>} Resolves when the version may be served.
+ */
+export async function assertReleasable(
+  tx: Transaction,
+  target: {
+    promptTypeId: string,
+    promptVersionId: string,
+    content: string,
+    variables: unknown,
+    revision: number,
+    publishedAt: string | null,
+    environment?: Environment,
+  },
+): Promise<void> {
+  const {promptTypeId, promptVersionId, content} = target;
+  const variables = readStoredVariables(target.variables);
+  await assertTypeNotArchived(tx, promptTypeId);
+  await assertApproved(tx, {
+    promptTypeId,
+    promptVersionId,
+    revision: target.revision,
+    publishedAt: target.publishedAt,
+  });
+  // Composing the target also covers every prompt that includes this
+  // type: a cycle through them would pass back through this type.
+  await composePrompt(tx, {
+    promptTypeId,
+    content,
+    variables,
+    environment: target.environment,
+  });
+  // Versions that have been live are exempt, as with approvals, so a
+  // rollback is never blocked by rules, samples or test cases added since.
+  if (target.publishedAt) return;
+  await assertContentRules(tx, {promptTypeId, content, variables});
+  await assertSchemaAcceptsSamples(tx, {promptTypeId, content});
+  await assertEvalPassed(tx, {
+    promptTypeId,
+    promptVersionId,
+    revision: target.revision,
+  });
+}
@@ -0,0 +1,422 @@
+import {Client, Transaction} from "@libsql/client";
+import {HttpsError} from "firebase-functions/v2/https";
+import {Actor} from "./auth";
+import {auditStatement} from "./audit";
+
+/**
+ * Approvals a version needs when its prompt type has no policy row. Review
+ * is opt-in: an admin sets a count per type with setPromptReviewPolicy.
+ */
+export const DEFAULT_REQUIRED_APPROVALS = 0;
+
+export const REVIEW_DECISIONS = [
+  "submit",
+  "approve",
+  "request_changes",
+  "comment",
+] as const;
+
+export type ReviewDecision = typeof REVIEW_DECISIONS[number];
+
+/**
+ * Where a version stands in review. `outdated` means it was submitted but
+ * its content has been edited since, so it must be submitted again.
+ */
+export type ReviewState =
+  | "draft"
+  | "in_review"
+  | "changes_requested"
+  | "approved"
+  | "outdated";
+
+export interface ReviewEvent {
+  id: number,
+  decision: ReviewDecision,
+  comment: string | null,
+  actorEmail: string,
+  revision: number,
+  createdAt: string,
+}
+
+export interface VersionReview {
+  promptVersionId: string,
+  state: ReviewState,
+  approvedBy: string[],
+  submittedBy: string | null,
+  thread: ReviewEvent[],
+}
+
+type Executor = Client | Transaction;
+
+/**
+ * Checks whether a value is a known review decision.
+ * @param {unknown} value The value to check.
+ * @return {boolean} True for a review decision.
+ */
+export function isReviewDecision(value: unknown): value is ReviewDecision {
+  return REVIEW_DECISIONS.includes(value as ReviewDecision);
+}
+
+/**
+ * Reads how many approvals versions of a prompt type need to go active.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} promptTypeId The prompt type.
+ * @return {Promise<number>} The required approval count.
+ */
+export async function getRequiredApprovals(
+  db: Executor,
+  promptTypeId: string,
+): Promise<number> {
+  const result = await db.execute({
+    sql:
+      "SELECT required_approvals FROM prompt_review_policies " +
+      "WHERE prompt_type_id = ?",
+    args: [promptTypeId],
+  });
+  const row = result.rows[0];
+  return row ? Number(row.required_approvals) : DEFAULT_REQUIRED_APPROVALS;
+}
+
+/**
+ * Works out a version's review state from its events, oldest first.
+ * Only the latest submission of the current revision counts; each reviewer's
+ * latest decision after it is what stands.
+ * @param {string} promptVersionId The version.
+ * @param {ReviewEvent[]} thread The version's review events, oldest first.
+ * @param {number} revision The version's current revision.
+ * @param {number} requiredApprovals Approvals needed to be approved.
+ * @return {VersionReview} The summarized review.
+ */
+export function summarizeReview(
+  promptVersionId: string,
+  thread: ReviewEvent[],
+  revision: number,
+  requiredApprovals: number,
+): VersionReview {
+  let submitIndex = -1;
+  thread.forEach((event, index) => {
+    if (event.decision === "submit") submitIndex = index;
+  });
+  const submission = submitIndex >= 0 ? thread[submitIndex] : null;
+
+  if (!submission) {
+    return {
+      promptVersionId,
+      state: "draft",
+      approvedBy: [],
+      submittedBy: null,
+      thread,
+    };
+  }
+  if (submission.revision !== revision) {
+    return {
+      promptVersionId,
+      state: "outdated",
+      approvedBy: [],
+      submittedBy: submission.actorEmail,
+      thread,
+    };
+  }
+
+  const verdicts = new Map<string, ReviewDecision>();
+  for (const event of thread.slice(submitIndex + 1)) {
+    if (event.decision === "approve" || event.decision === "request_changes") {
+      verdicts.set(event.actorEmail, event.decision);
+    }
+  }
+  const approvedBy = [...verdicts]
+    .filter(([, decision]) => decision === "approve")
+    .map(([email]) => email);
+  const changesRequested = [...verdicts.values()]
+    .some((decision) => decision === "request_changes");
+
+  let state: ReviewState = "in_review";
+  if (changesRequested) {
+    state = "changes_requested";
+  } else if (approvedBy.length >= requiredApprovals) {
+    state = "approved";
+  }
+  return {
+    promptVersionId,
+    state,
+    approvedBy,
+    submittedBy: submission.actorEmail,
+    thread,
+  };
+}
+
+/**
+ * Loads the review events of versions, grouped by version, oldest first.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} column The column to filter on.
+ * @param {string} value The value to match.
+ * @return {Promise<Map<string, ReviewEvent[]>>} Events by version id.
+ */
+async function loadThreads(
+  db: Executor,
+  column: "prompt_type_id" | "prompt_version_id",
+  value: string,
+): Promise<Map<string, ReviewEvent[]>> {
+  const result = await db.execute({
+    sql:
+      "SELECT id, prompt_version_id, decision, comment, actor_email, " +
+      `revision, created_at FROM prompt_reviews WHERE ${column} = ? ` +
+      "ORDER BY id ASC",
+    args: [value],
+  });
+
+  const threads = new Map<string, ReviewEvent[]>();
+  for (const row of result.rows) {
+    const versionId = String(row.prompt_version_id);
+    const thread = threads.get(versionId) ?? [];
+    thread.push({
+      id: Number(row.id),
+      decision: String(row.decision) as ReviewDecision,
+      comment: row.comment ? String(row.comment) : null,
+      actorEmail: String(row.actor_email),
+      revision: Number(row.revision),
+      createdAt: String(row.created_at),
+    });
+    threads.set(versionId, thread);
+  }
+  return threads;
+}
+
+/**
+ * Loads the review summary of every version of a prompt type.
+ * @param {Client} db The database client.
+ * @param {string} promptTypeId The prompt type.
+ * @return {Promise<object>} The policy and per-version reviews.
+ */
+export async function getVersionReviews(
+  db: Client,
+  promptTypeId: string,
+): Promise<{requiredApprovals: number, reviews: VersionReview[]}> {
+  const requiredApprovals = await getRequiredApprovals(db, promptTypeId);
+  const versionsResult = await db.execute({
+    sql: "SELECT id, revision FROM prompt_versions WHERE prompt_type_id = ?",
+    args: [promptTypeId],
+  });
+  const threads = await loadThreads(db, "prompt_type_id", promptTypeId);
+
+  const reviews = versionsResult.rows.map((row) => summarizeReview(
+    String(row.id),
+    threads.get(String(row.id)) ?? [],
+    Number(row.revision ?? 1),
+    requiredApprovals,
+  ));
+  return {requiredApprovals, reviews};
+}
+
+/**
+ * Records a review event on a version. Submitting opens a new review round
+ * for the current revision; approving or requesting changes needs an open
+ * round and cannot be done by whoever submitted it. Comments are always
+ * allowed.
+ * @param {Client} db The database client.
+ * @param {object} request The review event to record.
+ * @return {Promise<VersionReview>} The version's updated review.
+ */
+export async function recordReview(
+  db: Client,
+  request: {
+    actor: Actor,
+    promptTypeId: string,
+    promptVersionId: string,
+    decision: ReviewDecision,
+    comment: string | null,
+  },
+): Promise<VersionReview> {
+  const {actor, promptTypeId, promptVersionId, decision, comment} = request;
+  const tx = await db.transaction("write");
+  try {
+    const versionResult = await tx.execute({
+      sql:
+        "SELECT version, revision, published_at FROM prompt_versions " +
+        "WHERE id = ? AND prompt_type_id = ?",
+      args: [promptVersionId, promptTypeId],
+    });
+    const version = versionResult.rows[0];
+    if (!version) {
+      throw new HttpsError(
+        "not-found",
+        `Prompt version ${promptVersionId} does not belong to ` +
+          `prompt type ${promptTypeId}.`,
+        {reason: "version-not-in-type"},
+      );
+    }
+    const revision = Number(version.revision ?? 1);
+    const requiredApprovals = await getRequiredApprovals(tx, promptTypeId);
+    const threads = await loadThreads(
+      tx,
+      "prompt_version_id",
+      promptVersionId,
+    );
+    const current = summarizeReview(
+      promptVersionId,
+      threads.get(promptVersionId) ?? [],
+      revision,
+      requiredApprovals,
+    );
+
+    if (decision !== "comment" && version.published_at) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Published versions are no longer under review.",
+        {reason: "review-closed"},
+      );
+    }
+    if (
+      decision === "submit" &&
+      (current.state === "in_review" || current.state === "approved")
+    ) {
+      throw new HttpsError(
+        "failed-precondition",
+        "This revision is already under review.",
+        {reason: "review-already-submitted"},
+      );
+    }
+    if (decision === "approve" || decision === "request_changes") {
+      if (
+        current.state !== "in_review" &&
+        current.state !== "changes_requested" &&
+        current.state !== "approved"
+      ) {
+        throw new HttpsError(
+          "failed-precondition",
+          "Submit this revision for review first.",
+          {reason: "review-not-submitted"},
+        );
+      }
+      if (current.submittedBy === actor.email) {
+        throw new HttpsError(
+          "failed-precondition",
+          "You cannot review a version you submitted.",
+          {reason: "self-review"},
+        );
+      }
+    }
+
+    await tx.execute({
+      sql:
+        "INSERT INTO prompt_reviews (prompt_type_id, prompt_version_id, " +
+        "revision, decision, comment, actor_email) VALUES (?, ?, ?, ?, ?, ?)",
+      args: [
+        promptTypeId,
+        promptVersionId,
+        revision,
+        decision,
+        comment,
+        actor.email,
+      ],
+    });
+    await tx.execute(auditStatement({
+      actor,
+      action: `review.${decision}`,
+      promptTypeId,
+      promptVersionId,
+      version: Number(version.version),
+      detail: comment ? {revision, comment} : {revision},
+    }));
+
+    const updated = await loadThreads(
+      tx,
+      "prompt_version_id",
+      promptVersionId,
+    );
+    await tx.commit();
+    return summarizeReview(
+      promptVersionId,
+      updated.get(promptVersionId) ?? [],
+      revision,
+      requiredApprovals,
+    );
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Rejects activating a version that has not collected enough approvals.
+ * Versions that were published before are exempt so rollbacks keep working.
+ * Runs inside the activation transaction.
+ * @param {Transaction} tx The open activation transaction.
+ * @param {object} target The version about to go active.
+ * @return {Promise<void>} Resolves when the version may go active.
+ */
+export async function assertApproved(
+  tx: Transaction,
+  target: {
+    promptTypeId: string,
+    promptVersionId: string,
+    revision: number,
+    publishedAt: string | null,
+  },
+): Promise<void> {
+  if (target.publishedAt) return;
+  const requiredApprovals = await getRequiredApprovals(
+    tx,
+    target.promptTypeId,
+  );
+  if (requiredApprovals <= 0) return;
+
+  const threads = await loadThreads(
+    tx,
+    "prompt_version_id",
+    target.promptVersionId,
+  );
+  const review = summarizeReview(
+    target.promptVersionId,
+    threads.get(target.promptVersionId) ?? [],
+    target.revision,
+    requiredApprovals,
+  );
+  if (review.state !== "approved") {
+    throw new HttpsError(
+      "failed-precondition",
+      `Prompt version ${target.promptVersionId} needs ` +
+        `${requiredApprovals} approval(s) before it can go active.`,
+      {
+        reason: "approval-required",
+        required: requiredApprovals,
+        approvals: review.approvedBy.length,
+        state: review.state,
+      },
+    );
+  }
+}
+
+/**
+ * Sets how many approvals versions of a prompt type need.
+ * @param {Client} db The database client.
+ * @param {Actor} actor Who is changing the policy.
+ * @param {string} promptTypeId The prompt type.
+ * @param {number} requiredApprovals The new approval count.
+ * @return {Promise<void>} Resolves once saved.
+ */
+export async function setRequiredApprovals(
+  db: Client,
+  actor: Actor,
+  promptTypeId: string,
+  requiredApprovals: number,
+): Promise<void> {
+  await db.batch([
+    {
+      sql:
+        "INSERT INTO prompt_review_policies " +
+        "(prompt_type_id, required_approvals, updated_by, updated_at) " +
+        "VALUES (?, ?, ?, CURRENT_TIMESTAMP) " +
+        "ON CONFLICT(prompt_type_id) DO UPDATE SET " +
+        "required_approvals = excluded.required_approvals, " +
+        "updated_by = excluded.updated_by, " +
+        "updated_at = excluded.updated_at",
+      args: [promptTypeId, requiredApprovals, actor.email],
+    },
+    auditStatement({
+      actor,
+      action: "review.policy",
+      promptTypeId,
+      detail: {requiredApprovals},
+    }),
+  ], "write");
+}
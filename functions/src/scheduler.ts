@@ -0,0 +1,394 @@
+import {Client} from "@libsql/client";
+import {HttpsError} from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import {Actor, hasRole, isRole} from "./auth";
+import {auditStatement} from "./audit";
+import {activatePromptVersion} from "./activation";
+import {assertTypeNotArchived} from "./prompt-types";
+
+/**
+ * Source of the current time. Injected so the scheduler can be exercised
+ * against a fixed or simulated clock.
+ */
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+export type ScheduleStatus =
+  | "pending"
+  | "running"
+  | "applied"
+  | "cancelled"
+  | "failed";
+
+export interface ActivationSchedule {
+  id: number,
+  promptTypeId: string,
+  promptVersionId: string,
+  version: number | null,
+  runAt: string,
+  status: ScheduleStatus,
+  createdBy: string,
+  createdAt: string,
+  appliedAt: string | null,
+  cancelledBy: string | null,
+  error: string | null,
+}
+
+export interface ScheduleRunResult {
+  scheduleId: number,
+  promptTypeId: string,
+  status: "applied" | "failed",
+  error?: string,
+}
+
+// A schedule still running this long after it was claimed belongs to a
+// scheduler run that died mid-way.
+export const SCHEDULE_CLAIM_TIMEOUT_MS = 10 * 60_000;
+
+const SCHEDULE_COLUMNS =
+  "schedules.id, schedules.prompt_type_id, schedules.prompt_version_id, " +
+  "versions.version, schedules.run_at, schedules.status, " +
+  "schedules.created_by, schedules.created_at, schedules.applied_at, " +
+  "schedules.cancelled_by, schedules.error";
+
+const SCHEDULE_FROM =
+  "FROM prompt_activation_schedules schedules " +
+  "LEFT JOIN prompt_versions versions " +
+  "ON CAST(versions.id AS TEXT) = schedules.prompt_version_id";
+
+/**
+ * Maps a schedule row to its API shape.
+ * @param {Record<string, unknown>} row The row from SCHEDULE_COLUMNS.
+ * @return {ActivationSchedule} The schedule.
+ */
+function toSchedule(row: Record<string, unknown>): ActivationSchedule {
+  return {
+    id: Number(row.id),
+    promptTypeId: String(row.prompt_type_id),
+    promptVersionId: String(row.prompt_version_id),
+    version: row.version === null ? null : Number(row.version),
+    runAt: String(row.run_at),
+    status: String(row.status) as ScheduleStatus,
+    createdBy: String(row.created_by),
+    createdAt: String(row.created_at),
+    appliedAt: row.applied_at ? String(row.applied_at) : null,
+    cancelledBy: row.cancelled_by ? String(row.cancelled_by) : null,
+    error: row.error ? String(row.error) : null,
+  };
+}
+
+/**
+ * Schedules a version to become active at `runAt`. A prompt type can have at
+ * most one pending schedule; cancel it before scheduling another.
+ * @param {Client} db The database client.
+ * @param {object} request The schedule to create.
+ * @param {Clock} clock The current time source.
+ * @return {Promise<ActivationSchedule>} The created schedule.
+ */
+export async function createActivationSchedule(
+  db: Client,
+  request: {
+    actor: Actor,
+    promptTypeId: string,
+    promptVersionId: string,
+    runAt: Date,
+  },
+  clock: Clock = systemClock,
+): Promise<ActivationSchedule> {
+  const {actor, promptTypeId, promptVersionId, runAt} = request;
+  if (runAt.getTime() <= clock().getTime()) {
+    throw new HttpsError(
+      "invalid-argument",
+      "Scheduled activation time must be in the future.",
+      {reason: "schedule-in-past"},
+    );
+  }
+
+  const tx = await db.transaction("write");
+  try {
+    await assertTypeNotArchived(tx, promptTypeId);
+    const targetResult = await tx.execute({
+      sql:
+        "SELECT version FROM prompt_versions " +
+        "WHERE id = ? AND prompt_type_id = ?",
+      args: [promptVersionId, promptTypeId],
+    });
+    const target = targetResult.rows[0];
+    if (!target) {
+      throw new HttpsError(
+        "not-found",
+        `Prompt version ${promptVersionId} does not belong to ` +
+          `prompt type ${promptTypeId}.`,
+        {reason: "version-not-in-type"},
+      );
+    }
+
+    const pendingResult = await tx.execute({
+      sql:
+        "SELECT id FROM prompt_activation_schedules " +
+        "WHERE prompt_type_id = ? AND status = 'pending'",
+      args: [promptTypeId],
+    });
+    if (pendingResult.rows.length) {
+      throw new HttpsError(
+        "already-exists",
+        "This prompt type already has a pending scheduled activation.",
+        {
+          reason: "schedule-exists",
+          scheduleId: Number(pendingResult.rows[0].id),
+        },
+      );
+    }
+
+    const inserted = await tx.execute({
+      sql:
+        "INSERT INTO prompt_activation_schedules " +
+        "(prompt_type_id, prompt_version_id, run_at, status, created_by, " +
+        "created_at) VALUES (?, ?, ?, 'pending', ?, ?)",
+      args: [
+        promptTypeId,
+        promptVersionId,
+        runAt.toISOString(),
+        actor.email,
+        clock().toISOString(),
+      ],
+    });
+    const scheduleId = Number(inserted.lastInsertRowid);
+    await tx.execute(auditStatement({
+      actor,
+      action: "schedule.create",
+      promptTypeId,
+      promptVersionId,
+      version: Number(target.version),
+      detail: {scheduleId, runAt: runAt.toISOString()},
+    }));
+
+    const createdResult = await tx.execute({
+      sql: `SELECT ${SCHEDULE_COLUMNS} ${SCHEDULE_FROM} ` +
+        "WHERE schedules.id = ?",
+      args: [scheduleId],
+    });
+    await tx.commit();
+    return toSchedule(createdResult.rows[0]);
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Cancels a pending schedule.
+ * @param {Client} db The database client.
+ * @param {Actor} actor Who is cancelling.
+ * @param {number} scheduleId The schedule to cancel.
+ * @return {Promise<void>} Resolves once cancelled.
+ */
+export async function cancelActivationSchedule(
+  db: Client,
+  actor: Actor,
+  scheduleId: number,
+): Promise<void> {
+  const tx = await db.transaction("write");
+  try {
+    const scheduleResult = await tx.execute({
+      sql:
+        "SELECT prompt_type_id, prompt_version_id, run_at " +
+        "FROM prompt_activation_schedules WHERE id = ? AND status = 'pending'",
+      args: [scheduleId],
+    });
+    const schedule = scheduleResult.rows[0];
+    if (!schedule) {
+      throw new HttpsError(
+        "failed-precondition",
+        `Schedule ${scheduleId} is not pending.`,
+        {reason: "schedule-not-pending"},
+      );
+    }
+
+    await tx.execute({
+      sql:
+        "UPDATE prompt_activation_schedules " +
+        "SET status = 'cancelled', cancelled_by = ? WHERE id = ?",
+      args: [actor.email, scheduleId],
+    });
+    await tx.execute(auditStatement({
+      actor,
+      action: "schedule.cancel",
+      promptTypeId: String(schedule.prompt_type_id),
+      promptVersionId: String(schedule.prompt_version_id),
+      detail: {scheduleId, runAt: String(schedule.run_at)},
+    }));
+    await tx.commit();
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Lists schedules, soonest first. Pending ones only unless `includeDone`.
+ * @param {Client} db The database client.
+ * @param {object} filter Optional prompt type and status filter.
+ * @return {Promise<ActivationSchedule[]>} The schedules.
+ */
+export async function listActivationSchedules(
+  db: Client,
+  filter: {promptTypeId?: string | null, includeDone?: boolean},
+): Promise<ActivationSchedule[]> {
+  const where: string[] = [];
+  const args: string[] = [];
+  if (filter.promptTypeId) {
+    where.push("schedules.prompt_type_id = ?");
+    args.push(filter.promptTypeId);
+  }
+  if (!filter.includeDone) {
+    where.push("schedules.status IN ('pending', 'running')");
+  }
+
+  const result = await db.execute({
+    sql: `SELECT ${SCHEDULE_COLUMNS} ${SCHEDULE_FROM} ` +
+      (where.length ? `WHERE ${where.join(" AND ")} ` : "") +
+      "ORDER BY schedules.run_at ASC, schedules.id ASC LIMIT 100",
+    args,
+  });
+  return result.rows.map((row) => toSchedule(row));
+}
+
+/**
+ * Fails schedules whose claim is older than SCHEDULE_CLAIM_TIMEOUT_MS. They
+ * are not retried: a release that is now late may no longer be wanted, so
+ * whoever scheduled it checks the timeline and schedules again.
+ * @param {Client} db The database client.
+ * @param {Clock} clock The current time source.
+ * @return {Promise<ScheduleRunResult[]>} One result per schedule failed.
+ */
+async function failStaleClaims(
+  db: Client,
+  clock: Clock,
+): Promise<ScheduleRunResult[]> {
+  const error =
+    "The scheduler stopped while applying this schedule. Check the " +
+    "activation timeline and schedule it again if it did not go live.";
+  // Claims made before claimed_at existed have none and count as stale.
+  const staleResult = await db.execute({
+    sql:
+      "UPDATE prompt_activation_schedules SET status = 'failed', error = ? " +
+      "WHERE status = 'running' AND (claimed_at IS NULL OR claimed_at <= ?) " +
+      "RETURNING id, prompt_type_id",
+    args: [
+      error,
+      new Date(clock().getTime() - SCHEDULE_CLAIM_TIMEOUT_MS).toISOString(),
+    ],
+  });
+  return staleResult.rows.map((row) => ({
+    scheduleId: Number(row.id),
+    promptTypeId: String(row.prompt_type_id),
+    status: "failed",
+    error,
+  }));
+}
+
+/**
+ * Loads the role of whoever created a schedule, as it is now.
+ * @param {Client} db The database client.
+ * @param {string} email The creator's email.
+ * @return {Promise<Actor>} The creator, acting through the scheduler.
+ */
+async function loadScheduleCreator(db: Client, email: string): Promise<Actor> {
+  const result = await db.execute({
+    sql: "SELECT role FROM user_roles WHERE email = ?",
+    args: [email],
+  });
+  const role = result.rows[0]?.role;
+  if (!isRole(role) || !hasRole(role, "publisher")) {
+    throw new HttpsError(
+      "permission-denied",
+      `${email} is no longer a publisher, so their scheduled activation ` +
+        "was not applied.",
+      {reason: "insufficient-role", role: role ?? null, required: "publisher"},
+    );
+  }
+  return {uid: "system:scheduler", email, role};
+}
+
+/**
+ * Applies every pending schedule whose time has come, through the same
+ * activation path as `setActivePromptVersion`. Each schedule is claimed
+ * before it runs so overlapping scheduler invocations cannot apply it
+ * twice, and runs with its creator's current role, so a schedule made by
+ * someone who has since lost the publisher role fails. Schedules left
+ * running by a run that died are failed first.
+ * @param {Client} db The database client.
+ * @param {Clock} clock The current time source.
+ * @return {Promise<ScheduleRunResult[]>} One result per schedule attempted
+ *   or failed as stale.
+ */
+export async function applyDueSchedules(
+  db: Client,
+  clock: Clock = systemClock,
+): Promise<ScheduleRunResult[]> {
+  const results = await failStaleClaims(db, clock);
+  const dueResult = await db.execute({
+    sql:
+      "SELECT id, prompt_type_id, prompt_version_id, created_by " +
+      "FROM prompt_activation_schedules " +
+      "WHERE status = 'pending' AND run_at <= ? ORDER BY run_at ASC, id ASC",
+    args: [clock().toISOString()],
+  });
+
+  for (const row of dueResult.rows) {
+    const scheduleId = Number(row.id);
+    const promptTypeId = String(row.prompt_type_id);
+
+    const claimed = await db.execute({
+      sql:
+        "UPDATE prompt_activation_schedules " +
+        "SET status = 'running', claimed_at = ? " +
+        "WHERE id = ? AND status = 'pending'",
+      args: [clock().toISOString(), scheduleId],
+    });
+    if (claimed.rowsAffected !== 1) continue;
+
+    try {
+      // The activation is attributed to whoever scheduled it, and the
+      // schedule is marked applied in its transaction, so the version goes
+      // live exactly when the schedule says it did.
+      await activatePromptVersion(db, {
+        actor: await loadScheduleCreator(db, String(row.created_by)),
+        promptTypeId,
+        promptVersionId: String(row.prompt_version_id),
+        detail: {scheduleId, scheduled: true},
+        statements: [{
+          sql:
+            "UPDATE prompt_activation_schedules " +
+            "SET status = 'applied', applied_at = ? WHERE id = ?",
+          args: [clock().toISOString(), scheduleId],
+        }],
+      });
+      results.push({scheduleId, promptTypeId, status: "applied"});
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      try {
+        await db.execute({
+          sql:
+            "UPDATE prompt_activation_schedules " +
+            "SET status = 'failed', error = ? WHERE id = ?",
+          args: [message, scheduleId],
+        });
+      } catch (recordError) {
+        // Left running, so a run after the claim timeout fails it as
+        // stale. The other due schedules still get their turn.
+        logger.error(`Could not record schedule ${scheduleId} as failed.`, {
+          error: recordError instanceof Error ?
+            recordError.message : String(recordError),
+        });
+      }
+      results.push({
+        scheduleId,
+        promptTypeId,
+        status: "failed",
+        error: message,
+      });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,259 @@
+import {Client, Transaction} from "@libsql/client";
+import {HttpsError} from "firebase-functions/v2/https";
+import {Actor} from "./auth";
+import {auditStatement} from "./audit";
+import {checkJsonSchema, SchemaIssue} from "./json-schema";
+import {getContentKindDefinition, toContentKind} from "./content-kinds";
+
+type Executor = Client | Transaction;
+
+const MAX_SAMPLES_PER_TYPE = 50;
+const MAX_SAMPLE_LENGTH = 100_000;
+// Enough to act on without sending every error of a badly broken schema.
+const MAX_REPORTED_ISSUES = 20;
+
+export interface SchemaSample {
+  id: number,
+  promptTypeId: string,
+  name: string,
+  content: string,
+  createdBy: string,
+  createdAt: string,
+}
+
+export interface SampleFailure {
+  sampleId: number,
+  name: string,
+  errors: SchemaIssue[],
+}
+
+/**
+ * Whether a prompt type's content kind is checked against sample outputs.
+ * @param {unknown} contentKind The type's `content_kind` column value.
+ * @return {boolean} True for JSON Schema types.
+ */
+function hasSchemaSamples(contentKind: unknown): boolean {
+  return getContentKindDefinition(toContentKind(contentKind)).schemaSamples;
+}
+
+/**
+ * Lists the sample outputs attached to a prompt type, oldest first.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} promptTypeId The prompt type.
+ * @return {Promise<SchemaSample[]>} The samples.
+ */
+export async function listSchemaSamples(
+  db: Executor,
+  promptTypeId: string,
+): Promise<SchemaSample[]> {
+  const result = await db.execute({
+    sql:
+      "SELECT id, prompt_type_id, name, content, created_by, created_at " +
+      "FROM prompt_schema_samples WHERE prompt_type_id = ? ORDER BY id ASC",
+    args: [promptTypeId],
+  });
+  return result.rows.map((row) => ({
+    id: Number(row.id),
+    promptTypeId: String(row.prompt_type_id),
+    name: String(row.name),
+    content: String(row.content),
+    createdBy: String(row.created_by),
+    createdAt: String(row.created_at),
+  }));
+}
+
+/**
+ * Attaches a sample model output to a JSON Schema prompt type. Versions
+ * of the type must accept every attached sample to be saved or activated.
+ * @param {Client} db The database client.
+ * @param {object} request The type, sample name and JSON content.
+ * @return {Promise<SchemaSample>} The stored sample.
+ */
+export async function addSchemaSample(
+  db: Client,
+  request: {actor: Actor, promptTypeId: string, name: string, content: string},
+): Promise<SchemaSample> {
+  const {actor, promptTypeId} = request;
+  const name = request.name.trim();
+  if (!name || name.length > 200) {
+    throw new HttpsError(
+      "invalid-argument",
+      "Sample name must be 1-200 characters.",
+      {reason: "invalid-sample"},
+    );
+  }
+  if (request.content.length > MAX_SAMPLE_LENGTH) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Samples are limited to ${MAX_SAMPLE_LENGTH} characters.`,
+      {reason: "invalid-sample"},
+    );
+  }
+  try {
+    JSON.parse(request.content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new HttpsError(
+      "invalid-argument",
+      `Sample is not valid JSON: ${message}`,
+      {reason: "invalid-sample"},
+    );
+  }
+
+  const tx = await db.transaction("write");
+  try {
+    const typeResult = await tx.execute({
+      sql: "SELECT content_kind FROM prompt_types WHERE id = ?",
+      args: [promptTypeId],
+    });
+    const type = typeResult.rows[0];
+    if (!type) {
+      throw new HttpsError(
+        "not-found",
+        `Prompt type ${promptTypeId} does not exist.`,
+        {reason: "type-not-found"},
+      );
+    }
+    if (!hasSchemaSamples(type.content_kind)) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Samples can only be attached to JSON Schema prompt types.",
+        {reason: "not-a-schema-type"},
+      );
+    }
+    const countResult = await tx.execute({
+      sql:
+        "SELECT COUNT(*) AS sample_count FROM prompt_schema_samples " +
+        "WHERE prompt_type_id = ?",
+      args: [promptTypeId],
+    });
+    if (Number(countResult.rows[0]?.sample_count ?? 0) >=
+      MAX_SAMPLES_PER_TYPE) {
+      throw new HttpsError(
+        "failed-precondition",
+        `A prompt type can have at most ${MAX_SAMPLES_PER_TYPE} samples.`,
+        {reason: "too-many-samples"},
+      );
+    }
+
+    const inserted = await tx.execute({
+      sql:
+        "INSERT INTO prompt_schema_samples " +
+        "(prompt_type_id, name, content, created_by) VALUES (?, ?, ?, ?)",
+      args: [promptTypeId, name, request.content, actor.email],
+    });
+    const id = Number(inserted.lastInsertRowid);
+    await tx.execute(auditStatement({
+      actor,
+      action: "sample.add",
+      promptTypeId,
+      afterContent: request.content,
+      detail: {sampleId: id, name},
+    }));
+    await tx.commit();
+
+    const [sample] = (await listSchemaSamples(db, promptTypeId))
+      .filter((entry) => entry.id === id);
+    return sample;
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Removes a sample output, e.g. once a deliberate schema change makes it
+ * obsolete.
+ * @param {Client} db The database client.
+ * @param {object} request The sample and the acting user.
+ * @return {Promise<void>} Resolves when the sample is gone.
+ */
+export async function deleteSchemaSample(
+  db: Client,
+  request: {actor: Actor, sampleId: number},
+): Promise<void> {
+  const tx = await db.transaction("write");
+  try {
+    const sampleResult = await tx.execute({
+      sql:
+        "SELECT prompt_type_id, name, content FROM prompt_schema_samples " +
+        "WHERE id = ?",
+      args: [request.sampleId],
+    });
+    const sample = sampleResult.rows[0];
+    if (!sample) {
+      throw new HttpsError(
+        "not-found",
+        `Sample ${request.sampleId} does not exist.`,
+        {reason: "sample-not-found"},
+      );
+    }
+    await tx.execute({
+      sql: "DELETE FROM prompt_schema_samples WHERE id = ?",
+      args: [request.sampleId],
+    });
+    await tx.execute(auditStatement({
+      actor: request.actor,
+      action: "sample.delete",
+      promptTypeId: String(sample.prompt_type_id),
+      beforeContent: String(sample.content),
+      detail: {sampleId: request.sampleId, name: String(sample.name)},
+    }));
+    await tx.commit();
+  } finally {
+    tx.close();
+  }
+}
+
+/**
+ * Rejects JSON Schema content that is not a valid draft 2020-12 schema or
+ * that rejects one of the type's sample outputs. Other content kinds pass
+ * through untouched.
+ * @param {Executor} db The database client or open transaction.
+ * @param {object} target The prompt type and the content to check.
+ * @return {Promise<void>} Resolves when the content is acceptable.
+ */
+export async function assertSchemaAcceptsSamples(
+  db: Executor,
+  target: {promptTypeId: string, content: string},
+): Promise<void> {
+  const typeResult = await db.execute({
+    sql: "SELECT content_kind FROM prompt_types WHERE id = ?",
+    args: [target.promptTypeId],
+  });
+  const type = typeResult.rows[0];
+  if (!type || !hasSchemaSamples(type.content_kind)) return;
+
+  const check = checkJsonSchema(target.content);
+  if (!check.validate) {
+    throw new HttpsError(
+      "failed-precondition",
+      "The content is not a valid JSON Schema (draft 2020-12): " +
+        check.errors.map((issue) =>
+          `${issue.path || "/"} ${issue.message}`).slice(0, 3).join("; "),
+      {
+        reason: "schema-invalid",
+        errors: check.errors.slice(0, MAX_REPORTED_ISSUES),
+      },
+    );
+  }
+
+  const failures: SampleFailure[] = [];
+  for (const sample of await listSchemaSamples(db, target.promptTypeId)) {
+    const errors = check.validate(JSON.parse(sample.content));
+    if (errors.length) {
+      failures.push({
+        sampleId: sample.id,
+        name: sample.name,
+        errors: errors.slice(0, MAX_REPORTED_ISSUES),
+      });
+    }
+  }
+  if (failures.length) {
+    throw new HttpsError(
+      "failed-precondition",
+      `The schema rejects ${failures.length} sample output(s): ` +
+        failures.map((failure) => failure.name).join(", "),
+      {reason: "schema-rejects-samples", failures},
+    );
+  }
+}
@@ -0,0 +1,300 @@
+import {Client} from "@libsql/client";
+
+// Tables owned by the Functions codebase. `prompt_types` and
+// `prompt_versions` predate this file and are managed by hand, so only the
+// supporting tables are created here. Every statement must be idempotent.
+const TABLE_STATEMENTS = [
+  "CREATE TABLE IF NOT EXISTS user_roles (" +
+    "email TEXT PRIMARY KEY, " +
+    "role TEXT NOT NULL " +
+    "CHECK (role IN ('viewer', 'editor', 'publisher', 'admin')), " +
+    "updated_by TEXT, " +
+    "updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP)",
+  "CREATE TABLE IF NOT EXISTS prompt_audit_log (" +
+    "id INTEGER PRIMARY KEY AUTOINCREMENT, " +
+    "actor_uid TEXT NOT NULL, " +
+    "actor_email TEXT NOT NULL, " +
+    "actor_role TEXT NOT NULL, " +
+    "action TEXT NOT NULL, " +
+    "prompt_type_id TEXT, " +
+    "prompt_version_id TEXT, " +
+    "version INTEGER, " +
+    "before_hash TEXT, " +
+    "after_hash TEXT, " +
+    "detail TEXT, " +
+    "created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP)",
+  "CREATE INDEX IF NOT EXISTS prompt_audit_log_type_idx " +
+    "ON prompt_audit_log (prompt_type_id, id)",
+  "CREATE INDEX IF NOT EXISTS prompt_audit_log_actor_idx " +
+    "ON prompt_audit_log (actor_email, id)",
+  // The audit log is append-only: reject any attempt to rewrite history.
+  "CREATE TRIGGER IF NOT EXISTS prompt_audit_log_no_update " +
+    "BEFORE UPDATE ON prompt_audit_log " +
+    "BEGIN SELECT RAISE(ABORT, 'prompt_audit_log is append-only'); END",
+  "CREATE TRIGGER IF NOT EXISTS prompt_audit_log_no_delete " +
+    "BEFORE DELETE ON prompt_audit_log " +
+    "BEGIN SELECT RAISE(ABORT, 'prompt_audit_log is append-only'); END",
+  "CREATE TABLE IF NOT EXISTS prompt_activations (" +
+    "id INTEGER PRIMARY KEY AUTOINCREMENT, " +
+    "prompt_type_id TEXT NOT NULL, " +
+    "prompt_version_id TEXT NOT NULL, " +
+    "version INTEGER NOT NULL, " +
+    "previous_version_id TEXT, " +
+    "previous_version INTEGER, " +
+    "kind TEXT NOT NULL DEFAULT 'activate', " +
+    "activated_by TEXT NOT NULL, " +
+    "created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP)",
+  "CREATE INDEX IF NOT EXISTS prompt_activations_type_idx " +
+    "ON prompt_activations (prompt_type_id, id)",
+  "CREATE TABLE IF NOT EXISTS prompt_activation_schedules (" +
+    "id INTEGER PRIMARY KEY AUTOINCREMENT, " +
+    "prompt_type_id TEXT NOT NULL, " +
+    "prompt_version_id TEXT NOT NULL, " +
+    "run_at TEXT NOT NULL, " +
+    "status TEXT NOT NULL DEFAULT 'pending', " +
+    "created_by TEXT NOT NULL, " +
+    "created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+    "applied_at TEXT, " +
+    "cancelled_by TEXT, " +
+    "error TEXT, " +
+    "claimed_at TEXT)",
+  "CREATE INDEX IF NOT EXISTS prompt_activation_schedules_due_idx " +
+    "ON prompt_activation_schedules (status, run_at)",
+  "CREATE UNIQUE INDEX IF NOT EXISTS prompt_activation_schedules_one_pending " +
+    "ON prompt_activation_schedules (prompt_type_id) WHERE status = 'pending'",
+  "CREATE TABLE IF NOT EXISTS prompt_review_policies (" +
+    "prompt_type_id TEXT PRIMARY KEY, " +
+    "required_approvals INTEGER NOT NULL CHECK (required_approvals >= 0), " +
+    "updated_by TEXT, " +
+    "updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP)",
+  "CREATE TABLE IF NOT EXISTS prompt_reviews (" +
+    "id INTEGER PRIMARY KEY AUTOINCREMENT, " +
+    "prompt_type_id TEXT NOT NULL, " +
+    "prompt_version_id TEXT NOT NULL, " +
+    "revision INTEGER NOT NULL, " +
+    "decision TEXT NOT NULL " +
+    "CHECK (decision IN " +
+    "('submit', 'approve', 'request_changes', 'comment')), " +
+    "comment TEXT, " +
+    "actor_email TEXT NOT NULL, " +
+    "created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP)",
+  "CREATE INDEX IF NOT EXISTS prompt_reviews_type_idx " +
+    "ON prompt_reviews (prompt_type_id, id)",
+  "CREATE INDEX IF NOT EXISTS prompt_reviews_version_idx " +
+    "ON prompt_reviews (prompt_version_id, id)",
+  "CREATE TABLE IF NOT EXISTS api_keys (" +
+    "id INTEGER PRIMARY KEY AUTOINCREMENT, " +
+    "name TEXT NOT NULL, " +
+    "key_hash TEXT NOT NULL UNIQUE, " +
+    "key_prefix TEXT NOT NULL, " +
+    "created_by TEXT NOT NULL, " +
+    "created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+    "last_used_at TEXT, " +
+    "revoked_at TEXT, " +
+    "revoked_by TEXT)",
+  "CREATE TABLE IF NOT EXISTS prompt_schema_samples (" +
+    "id INTEGER PRIMARY KEY AUTOINCREMENT, " +
+    "prompt_type_id TEXT NOT NULL, " +
+    "name TEXT NOT NULL, " +
+    "content TEXT NOT NULL, " +
+    "created_by TEXT NOT NULL, " +
+    "created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP)",
+  "CREATE INDEX IF NOT EXISTS prompt_schema_samples_type_idx " +
+    "ON prompt_schema_samples (prompt_type_id, id)",
+  "CREATE TABLE IF NOT EXISTS prompt_validation_rules (" +
+    "prompt_type_id TEXT PRIMARY KEY, " +
+    "rules TEXT NOT NULL, " +
+    "updated_by TEXT, " +
+    "updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP)",
+  "CREATE TABLE IF NOT EXISTS prompt_eval_cases (" +
+    "id INTEGER PRIMARY KEY AUTOINCREMENT, " +
+    "prompt_type_id TEXT NOT NULL, " +
+    "name TEXT NOT NULL, " +
+    "variables TEXT NOT NULL, " +
+    "assertions TEXT NOT NULL, " +
+    "mock_output TEXT, " +
+    "created_by TEXT NOT NULL, " +
+    "created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP)",
+  "CREATE INDEX IF NOT EXISTS prompt_eval_cases_type_idx " +
+    "ON prompt_eval_cases (prompt_type_id, id)",
+  "CREATE TABLE IF NOT EXISTS prompt_eval_runs (" +
+    "id INTEGER PRIMARY KEY AUTOINCREMENT, " +
+    "prompt_type_id TEXT NOT NULL, " +
+    "prompt_version_id TEXT NOT NULL, " +
+    "revision INTEGER NOT NULL, " +
+    "adapter TEXT NOT NULL, " +
+    "passed INTEGER NOT NULL, " +
+    "total INTEGER NOT NULL, " +
+    "failed INTEGER NOT NULL, " +
+    "results TEXT NOT NULL, " +
+    "created_by TEXT NOT NULL, " +
+    "created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP)",
+  "CREATE INDEX IF NOT EXISTS prompt_eval_runs_version_idx " +
+    "ON prompt_eval_runs (prompt_version_id, id)",
+  "CREATE INDEX IF NOT EXISTS prompt_eval_runs_type_idx " +
+    "ON prompt_eval_runs (prompt_type_id, id)",
+  "CREATE TABLE IF NOT EXISTS prompt_environment_versions (" +
+    "prompt_type_id TEXT NOT NULL, " +
+    "environment TEXT NOT NULL, " +
+    "prompt_version_id TEXT NOT NULL, " +
+    "updated_by TEXT, " +
+    "updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+    "PRIMARY KEY (prompt_type_id, environment))",
+  "CREATE TABLE IF NOT EXISTS prompt_traffic_splits (" +
+    "prompt_type_id TEXT NOT NULL, " +
+    "prompt_version_id TEXT NOT NULL, " +
+    "weight INTEGER NOT NULL, " +
+    "updated_by TEXT, " +
+    "updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP, " +
+    "PRIMARY KEY (prompt_type_id, prompt_version_id))",
+  "CREATE TABLE IF NOT EXISTS prompt_eval_policies (" +
+    "prompt_type_id TEXT PRIMARY KEY, " +
+    "require_pass INTEGER NOT NULL DEFAULT 0, " +
+    "updated_by TEXT, " +
+    "updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP)",
+];
+
+// Columns added to the hand-managed tables. SQLite has no
+// `ADD COLUMN IF NOT EXISTS`, so these are checked against table_info first.
+// `backfill` runs once, right after its column is added.
+const COLUMN_ADDITIONS: Array<{
+  table: string,
+  column: string,
+  ddl: string,
+  backfill?: string,
+}> = [
+  // Set on first activation; a version with this set is frozen.
+  {table: "prompt_versions", column: "published_at", ddl: "TEXT"},
+  // Bumped on every content save, for optimistic concurrency control.
+  {
+    table: "prompt_versions",
+    column: "revision",
+    ddl: "INTEGER NOT NULL DEFAULT 1",
+  },
+  // JSON array of declared template variables ({{name}} placeholders).
+  {table: "prompt_versions", column: "variables", ddl: "TEXT"},
+  // What the type's versions hold; see CONTENT_KINDS in content-kinds.ts.
+  // Existing types take the kind their name used to imply.
+  {
+    table: "prompt_types",
+    column: "content_kind",
+    ddl: "TEXT NOT NULL DEFAULT 'text'",
+    backfill:
+      "UPDATE prompt_types SET content_kind = CASE " +
+      "WHEN instr(upper(name), 'SCHEMA') > 0 THEN 'json_schema' " +
+      "WHEN instr(upper(name), 'SYSTEM_PROMPT') > 0 THEN 'system_prompt' " +
+      "ELSE 'text' END",
+  },
+  // Archived types keep serving but are hidden and cannot go live again.
+  {table: "prompt_types", column: "archived_at", ddl: "TEXT"},
+  {table: "prompt_types", column: "archived_by", ddl: "TEXT"},
+  // When the scheduler set a schedule running; see applyDueSchedules.
+  {table: "prompt_activation_schedules", column: "claimed_at", ddl: "TEXT"},
+];
+
+// Backfills, triggers and indexes on the hand-managed tables. These run
+// after the column additions and the search index so they may refer to
+// both.
+const POST_COLUMN_STATEMENTS = [
+  "UPDATE prompt_versions " +
+    "SET published_at = COALESCE(created_at, CURRENT_TIMESTAMP) " +
+    "WHERE is_active = TRUE AND published_at IS NULL",
+  "CREATE TRIGGER IF NOT EXISTS prompt_versions_frozen_content " +
+    "BEFORE UPDATE OF content ON prompt_versions " +
+    "WHEN OLD.published_at IS NOT NULL AND NEW.content IS NOT OLD.content " +
+    "BEGIN SELECT RAISE(ABORT, 'published prompt versions are frozen'); END",
+  "CREATE TRIGGER IF NOT EXISTS prompt_versions_frozen_variables " +
+    "BEFORE UPDATE OF variables ON prompt_versions " +
+    "WHEN OLD.published_at IS NOT NULL " +
+    "AND NEW.variables IS NOT OLD.variables " +
+    "BEGIN SELECT RAISE(ABORT, 'published prompt versions are frozen'); END",
+  // Older non-transactional activations could leave several active rows.
+  // Keep the newest one per type so the unique index below can be built.
+  "UPDATE prompt_versions SET is_active = FALSE " +
+    "WHERE is_active = TRUE AND EXISTS (" +
+    "SELECT 1 FROM prompt_versions newer " +
+    "WHERE newer.prompt_type_id = prompt_versions.prompt_type_id " +
+    "AND newer.is_active = TRUE " +
+    "AND (newer.version > prompt_versions.version OR " +
+    "(newer.version = prompt_versions.version " +
+    "AND newer.id > prompt_versions.id)))",
+  "CREATE UNIQUE INDEX IF NOT EXISTS prompt_versions_one_active " +
+    "ON prompt_versions (prompt_type_id) WHERE is_active = TRUE",
+  // Keep the full-text index in step with every writer of prompt_versions.
+  "CREATE TRIGGER IF NOT EXISTS prompt_versions_fts_insert " +
+    "AFTER INSERT ON prompt_versions BEGIN " +
+    "INSERT INTO prompt_versions_fts (rowid, content) " +
+    "VALUES (NEW.id, NEW.content); END",
+  "CREATE TRIGGER IF NOT EXISTS prompt_versions_fts_delete " +
+    "AFTER DELETE ON prompt_versions BEGIN " +
+    "INSERT INTO prompt_versions_fts (prompt_versions_fts, rowid, content) " +
+    "VALUES ('delete', OLD.id, OLD.content); END",
+  "CREATE TRIGGER IF NOT EXISTS prompt_versions_fts_update " +
+    "AFTER UPDATE OF content ON prompt_versions BEGIN " +
+    "INSERT INTO prompt_versions_fts (prompt_versions_fts, rowid, content) " +
+    "VALUES ('delete', OLD.id, OLD.content); " +
+    "INSERT INTO prompt_versions_fts (rowid, content) " +
+    "VALUES (NEW.id, NEW.content); END",
+];
+
+/**
+ * Creates the FTS5 index over prompt_versions.content the first time,
+ * filled from the existing rows; the triggers above keep it current.
+ * @param {Client} db The database client.
+ * @return {Promise<void>} Resolves when the index exists.
+ */
+async function createSearchIndex(db: Client): Promise<void> {
+  const existing = await db.execute(
+    "SELECT 1 FROM sqlite_master " +
+    "WHERE type = 'table' AND name = 'prompt_versions_fts'"
+  );
+  if (existing.rows.length) return;
+  await db.batch([
+    "CREATE VIRTUAL TABLE IF NOT EXISTS prompt_versions_fts USING fts5(" +
+      "content, content = 'prompt_versions', content_rowid = 'id')",
+    "INSERT INTO prompt_versions_fts (prompt_versions_fts) VALUES ('rebuild')",
+  ], "write");
+}
+
+/**
+ * Adds any missing columns listed in COLUMN_ADDITIONS.
+ * @param {Client} db The database client.
+ * @return {Promise<void>} Resolves when every column exists.
+ */
+async function addMissingColumns(db: Client): Promise<void> {
+  const tables = Array.from(new Set(COLUMN_ADDITIONS.map((c) => c.table)));
+  for (const table of tables) {
+    const info = await db.execute(`PRAGMA table_info(${table})`);
+    const existing = new Set(info.rows.map((row) => String(row.name)));
+    for (const addition of COLUMN_ADDITIONS) {
+      if (addition.table !== table || existing.has(addition.column)) continue;
+      await db.execute(
+        `ALTER TABLE ${table} ADD COLUMN ${addition.column} ${addition.ddl}`
+      );
+      if (addition.backfill) await db.execute(addition.backfill);
+    }
+  }
+}
+
+let schemaReady: Promise<void> | null = null;
+
+/**
+ * Creates the supporting tables and columns once per function instance.
+ * A failed attempt is forgotten so the next request can retry it.
+ * @param {Client} db The database client to run the DDL on.
+ * @return {Promise<void>} Resolves when the schema is in place.
+ */
+export function ensureSchema(db: Client): Promise<void> {
+  if (!schemaReady) {
+    schemaReady = db.batch(TABLE_STATEMENTS, "write")
+      .then(() => addMissingColumns(db))
+      .then(() => createSearchIndex(db))
+      .then(() => db.batch(POST_COLUMN_STATEMENTS, "write"))
+      .then(() => undefined)
+      .catch((error) => {
+        schemaReady = null;
+        throw error;
+      });
+  }
+  return schemaReady;
+}
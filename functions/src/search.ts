@@ -0,0 +1,162 @@
+import {Client, InValue} from "@libsql/client";
+import {HttpsError} from "firebase-functions/v2/https";
+
+// Highlight markers. Control characters never appear in prompt text the
+// editor saves, so they cannot be confused with content.
+const MATCH_START = "\u0001";
+const MATCH_END = "\u0002";
+const MATCH_PATTERN =
+  new RegExp(`${MATCH_START}([^${MATCH_END}]*)${MATCH_END}`);
+
+// Characters of context kept before the first match in a snippet.
+const SNIPPET_LEAD = 60;
+const SNIPPET_LENGTH = 200;
+
+export const MAX_SEARCH_RESULTS = 100;
+
+export interface SnippetSegment {
+  text: string,
+  match: boolean,
+}
+
+export interface SearchHit {
+  promptTypeId: string,
+  promptTypeName: string,
+  promptVersionId: string,
+  version: number,
+  isActive: boolean,
+  createdAt: string | null,
+  // 1-based position of the first match in the version's content.
+  line: number,
+  column: number,
+  // The matching line, cut down around the first match.
+  snippet: SnippetSegment[],
+}
+
+export interface SearchFilters {
+  promptTypeId?: string | null,
+  activeOnly?: boolean,
+  // Inclusive creation dates, YYYY-MM-DD.
+  from?: string | null,
+  to?: string | null,
+  limit?: number,
+}
+
+/**
+ * Turns what the user typed into an FTS5 query. "Quoted text" is matched
+ * as a phrase and every other word as a prefix, so "refund" also finds
+ * "refunds" and Korean words with particles attached; all parts must
+ * match. Everything is quoted, so FTS5 operators in the input are text.
+ * @param {string} input The search box contents.
+ * @return {string} The MATCH expression.
+ */
+export function parseSearchQuery(input: string): string {
+  const parts: string[] = [];
+  for (const match of input.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const phrase = match[1]?.trim();
+    if (phrase) parts.push(`"${phrase}"`);
+    const word = match[2]?.replace(/"/g, "");
+    if (word) parts.push(`"${word}"*`);
+  }
+  if (!parts.length || input.length > 200) {
+    throw new HttpsError(
+      "invalid-argument",
+      "Enter up to 200 characters of words or \"quoted phrases\".",
+      {reason: "invalid-query"},
+    );
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Cuts the line holding the first match out of highlighted content and
+ * splits it into plain and matching segments.
+ * @param {string} highlighted Content with the matches wrapped in markers.
+ * @return {object} The match's line and column, and the snippet.
+ */
+function toSnippet(
+  highlighted: string,
+): {line: number, column: number, snippet: SnippetSegment[]} {
+  const first = Math.max(0, highlighted.indexOf(MATCH_START));
+  const lineStart = highlighted.lastIndexOf("\n", first - 1) + 1;
+  const lineEndIndex = highlighted.indexOf("\n", first);
+  const lineEnd = lineEndIndex < 0 ? highlighted.length : lineEndIndex;
+  const before = highlighted.slice(0, first);
+
+  const start = Math.max(lineStart, first - SNIPPET_LEAD);
+  const end = Math.min(lineEnd, start + SNIPPET_LENGTH);
+  let text = highlighted.slice(start, end);
+  // A match cut off at the end would leave its start marker open.
+  if (text.lastIndexOf(MATCH_START) > text.lastIndexOf(MATCH_END)) {
+    text += MATCH_END;
+  }
+
+  const snippet: SnippetSegment[] = [];
+  if (start > lineStart) snippet.push({text: "…", match: false});
+  // Splitting on a capture group alternates plain text and matches.
+  text.split(MATCH_PATTERN).forEach((part, index) => {
+    if (part) snippet.push({text: part, match: index % 2 === 1});
+  });
+  if (end < lineEnd) snippet.push({text: "…", match: false});
+
+  return {
+    line: before.split("\n").length,
+    column: first - lineStart + 1,
+    snippet,
+  };
+}
+
+/**
+ * Searches the content of every prompt version through the FTS5 index,
+ * best matches first.
+ * @param {Client} db The database client.
+ * @param {string} query The search box contents.
+ * @param {SearchFilters} filters Optional type, active-only and date
+ *   filters.
+ * @return {Promise<SearchHit[]>} The matching versions.
+ */
+export async function searchPromptVersions(
+  db: Client,
+  query: string,
+  filters: SearchFilters,
+): Promise<SearchHit[]> {
+  const conditions = ["prompt_versions_fts MATCH ?"];
+  const args: InValue[] = [parseSearchQuery(query)];
+  if (filters.promptTypeId) {
+    conditions.push("v.prompt_type_id = ?");
+    args.push(filters.promptTypeId);
+  }
+  if (filters.activeOnly) conditions.push("v.is_active = TRUE");
+  if (filters.from) {
+    conditions.push("date(v.created_at) >= date(?)");
+    args.push(filters.from);
+  }
+  if (filters.to) {
+    conditions.push("date(v.created_at) <= date(?)");
+    args.push(filters.to);
+  }
+  args.push(Math.min(filters.limit ?? 50, MAX_SEARCH_RESULTS));
+
+  const result = await db.execute({
+    sql:
+      "SELECT v.id, v.prompt_type_id, t.name AS prompt_type_name, " +
+      "v.version, v.is_active, v.created_at, " +
+      "highlight(prompt_versions_fts, 0, char(1), char(2)) AS highlighted " +
+      "FROM prompt_versions_fts " +
+      "JOIN prompt_versions v ON v.id = prompt_versions_fts.rowid " +
+      "LEFT JOIN prompt_types t ON CAST(t.id AS TEXT) = v.prompt_type_id " +
+      `WHERE ${conditions.join(" AND ")} ` +
+      "ORDER BY bm25(prompt_versions_fts), v.version DESC LIMIT ?",
+    args,
+  });
+
+  return result.rows.map((row) => ({
+    promptTypeId: String(row.prompt_type_id),
+    promptTypeName: String(row.prompt_type_name ?? row.prompt_type_id),
+    promptVersionId: String(row.id),
+    version: Number(row.version),
+    isActive: Boolean(row.is_active),
+    createdAt: row.created_at ? String(row.created_at) : null,
+    ...toSnippet(String(row.highlighted ?? "")),
+  }));
+}
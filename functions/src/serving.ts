@@ -0,0 +1,139 @@
+import {Client, InStatement} from "@libsql/client";
+import {
+  ChatMessage,
+  serializeChatMessages,
+} from "../../packages/prompt-client/src/chat";
+import type {ServedPrompt} from "../../packages/prompt-client/src/types";
+import {contentHash} from "./audit";
+import {composeChatMessages} from "./chat-messages";
+import {toContentKind} from "./content-kinds";
+import {
+  DEFAULT_ENVIRONMENT,
+  Environment,
+  environmentVersionStatement,
+} from "./environments";
+import {composePrompt} from "./includes";
+import {assignmentBucket, chooseArm, loadTrafficArms} from "./traffic";
+import {readStoredVariables} from "./variables";
+
+/**
+ * Resolves the prompt a consuming application should run: the version
+ * live in an environment (production, the active version, by default), or
+ * a pinned version number. Pinned versions must have been published so
+ * unreviewed drafts are never served. Includes are resolved, so a change
+ * to an included prompt changes the content hash. While the type splits
+ * production traffic, a subject key picks the arm by its hash bucket, so
+ * the same subject keeps getting the same version; without one the active
+ * version is served. Chat prompts are composed message by message.
+ * @param {Client} db The database client.
+ * @param {object} request The prompt type id or name, optional version,
+ *   environment and subject key.
+ * @return {Promise<ServedPrompt | null>} The prompt, or null if none.
+ */
+export async function resolveServedPrompt(
+  db: Client,
+  request: {
+    type: string,
+    version?: number | null,
+    subject?: string | null,
+    environment?: Environment,
+  },
+): Promise<ServedPrompt | null> {
+  const typeResult = await db.execute({
+    sql:
+      "SELECT id, name, content_kind FROM prompt_types " +
+      "WHERE CAST(id AS TEXT) = ? OR name = ? ORDER BY id ASC LIMIT 1",
+    args: [request.type, request.type],
+  });
+  const type = typeResult.rows[0];
+  if (!type) return null;
+  const promptTypeId = String(type.id);
+
+  const environment = request.environment ?? DEFAULT_ENVIRONMENT;
+  const arms = request.version || environment !== "production" ? [] :
+    await loadTrafficArms(db, promptTypeId);
+  const bucket = arms.length && request.subject ?
+    assignmentBucket(promptTypeId, request.subject) : null;
+  const chosen = bucket === null ? null : chooseArm(arms, bucket);
+
+  let versionStatement: InStatement;
+  if (request.version) {
+    versionStatement = {
+      sql:
+        "SELECT version, content, variables FROM prompt_versions " +
+        "WHERE prompt_type_id = ? AND version = ? " +
+        "AND published_at IS NOT NULL",
+      args: [promptTypeId, request.version],
+    };
+  } else if (chosen) {
+    versionStatement = {
+      sql:
+        "SELECT version, content, variables FROM prompt_versions " +
+        "WHERE id = ?",
+      args: [chosen.promptVersionId],
+    };
+  } else {
+    versionStatement = environmentVersionStatement(promptTypeId, environment);
+  }
+  const versionResult = await db.execute(versionStatement);
+  const version = versionResult.rows[0];
+  if (!version) return null;
+  const servedVersion = Number(version.version);
+  const arm = arms.find((candidate) => candidate.version === servedVersion);
+
+  const root = {
+    promptTypeId,
+    content: String(version.content ?? ""),
+    variables: readStoredVariables(version.variables),
+    environment,
+  };
+  let composed;
+  let messages: ChatMessage[] | null = null;
+  if (toContentKind(type.content_kind) === "chat") {
+    const chat = await composeChatMessages(db, root);
+    messages = chat.messages;
+    composed = {...chat, content: serializeChatMessages(chat.messages)};
+  } else {
+    composed = await composePrompt(db, root);
+  }
+  return {
+    promptTypeId,
+    promptTypeName: String(type.name),
+    version: servedVersion,
+    content: composed.content,
+    contentHash: contentHash(composed.content),
+    messages,
+    variables: composed.variables,
+    includes: composed.includes,
+    environment,
+    arm: arm ? {version: arm.version, weight: arm.weight, bucket} : null,
+  };
+}
+
+/**
+ * Builds the entity tag for a served prompt. The version is part of the tag
+ * because the response body carries it, not just the content.
+ * @param {ServedPrompt} prompt The served prompt.
+ * @return {string} The quoted strong ETag.
+ */
+export function servedPromptETag(prompt: ServedPrompt): string {
+  return `"${prompt.promptTypeId}-v${prompt.version}-${prompt.contentHash}"`;
+}
+
+/**
+ * Checks an If-None-Match header against an ETag, accepting `*`, lists and
+ * weak validators as RFC 9110 requires for GET.
+ * @param {string | undefined} header The If-None-Match header value.
+ * @param {string} etag The current ETag.
+ * @return {boolean} True when the client's copy is still current.
+ */
+export function matchesIfNoneMatch(
+  header: string | undefined,
+  etag: string,
+): boolean {
+  if (!header) return false;
+  return header.split(",").some((candidate) => {
+    const tag = candidate.trim();
+    return tag === "*" || tag.replace(/^W\//, "") === etag;
+  });
+}
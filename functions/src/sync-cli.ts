@@ -0,0 +1,122 @@
+import {getDbClient} from "./db";
+import {planSync, pullTree, pushTree, SyncPlan} from "./file-sync";
+import {ensureSchema} from "./schema";
+
+// Mirrors prompt types to a directory in a code repository and back, so
+// prompt changes go through pull requests next to the code using them:
+//
+//   TURSO_DATABASE_URL=... TURSO_AUTH_TOKEN=... \
+//     npm run sync -- <status|pull|push> <dir> [--types NAME,NAME]
+//
+// status compares the tree with prompt_versions and exits non-zero on any
+// drift, for CI. pull writes what changed in the database, push saves what
+// changed in the tree; both refuse to run while a version diverged on both
+// sides. See file-sync.ts for the layout.
+
+const USAGE =
+  "Usage: sync-cli <status|pull|push> <dir> [--types NAME,NAME]";
+
+/**
+ * Reads `--name value` from the arguments.
+ * @param {string[]} args The command line arguments.
+ * @param {string} name The option name without dashes.
+ * @return {string | undefined} The value, if given.
+ */
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Prints each type's versions that are not in sync, and whether the
+ * manifest's active version is out of date.
+ * @param {SyncPlan} plan The plan.
+ * @return {number} How many differences were printed.
+ */
+function report(plan: SyncPlan): number {
+  let differences = 0;
+  for (const type of plan.types) {
+    const lines = type.versions
+      .filter((version) => version.state !== "in-sync")
+      .map((version) => {
+        const hashes = [
+          version.localHash ? `file ${version.localHash.slice(0, 8)}` : null,
+          version.remoteHash ?
+            `database ${version.remoteHash.slice(0, 8)}` : null,
+        ].filter(Boolean).join(", ");
+        return `  v${version.version} ${version.state} (${hashes})`;
+      });
+    if (type.conflict) lines.push(`  ${type.conflict}`);
+    const {local, remote} = type.activeVersion;
+    if (type.promptTypeId && local !== remote) {
+      lines.push(
+        `  active version is ${remote ? `v${remote}` : "none"} in the ` +
+          `database, ${local ? `v${local}` : "none"} in the manifest`
+      );
+    }
+    const header = `${type.name} (${type.folder})` +
+      (type.promptTypeId ? "" : " only in the tree");
+    console.log(lines.length ? `${header}\n${lines.join("\n")}` : header);
+    differences += lines.length + (type.promptTypeId ? 0 : 1);
+  }
+  return differences;
+}
+
+/**
+ * Runs the command and reports it.
+ * @return {Promise<number>} The process exit code.
+ */
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const [command, dir] = args;
+  if (!["status", "pull", "push"].includes(command) || !dir) {
+    console.error(USAGE);
+    return 2;
+  }
+  const names = option(args, "types")?.split(",")
+    .map((name) => name.trim())
+    .filter(Boolean) ?? null;
+  const db = getDbClient();
+  await ensureSchema(db);
+
+  if (command === "status") {
+    const differences = report(await planSync(db, dir, names));
+    console.log(
+      differences ?
+        `${differences} difference(s) between ${dir} and the database.` :
+        `${dir} matches the database.`
+    );
+    return differences ? 1 : 0;
+  }
+
+  const plan = command === "pull" ?
+    await pullTree(db, dir, names) :
+    await pushTree(db, {
+      dir,
+      names,
+      actor: {
+        uid: "cli",
+        email: `cli:${process.env.USER ?? "unknown"}`,
+        role: "editor",
+      },
+    });
+  const applied = command === "pull" ?
+    ["remote-changed", "remote-only"] :
+    ["local-changed", "local-only"];
+  const count = plan.types.reduce((total, type) => total +
+    type.versions.filter((version) => applied.includes(version.state)).length,
+  0);
+  console.log(
+    `${command === "pull" ? "Pulled" : "Pushed"} ${count} version(s) ` +
+      `across ${plan.types.length} type(s).`
+  );
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(2);
+  },
+);
@@ -0,0 +1,293 @@
+import {Client, InStatement, Transaction} from "@libsql/client";
+import {HttpsError} from "firebase-functions/v2/https";
+import {Actor} from "./auth";
+import {auditStatement} from "./audit";
+import {assertReleasable} from "./release-checks";
+
+type Executor = Client | Transaction;
+
+export interface TrafficArm {
+  promptVersionId: string,
+  version: number,
+  // Percent of subjects served this version; the arms add up to 100.
+  weight: number,
+}
+
+export interface TrafficSplit {
+  // Empty when the type serves only its active version.
+  arms: TrafficArm[],
+  updatedBy: string | null,
+  updatedAt: string | null,
+}
+
+export const ASSIGNMENT_BUCKETS = 100;
+
+/**
+ * Places a subject key in one of 100 buckets with 32-bit FNV-1a over
+ * `promptTypeId:subject`. Mixing in the type keeps splits on different
+ * types independent: a subject in the treatment arm of one split is no
+ * more likely to be in the treatment arm of another. Mirrors
+ * `assignmentBucket` in packages/prompt-client/src/traffic.ts, which the
+ * SDK uses to cache per bucket.
+ * @param {string} promptTypeId The prompt type being served.
+ * @param {string} subject The caller-supplied subject key.
+ * @return {number} The bucket, 0-99.
+ */
+export function assignmentBucket(
+  promptTypeId: string,
+  subject: string,
+): number {
+  const key = `${promptTypeId}:${subject}`;
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < key.length; index++) {
+    hash ^= key.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % ASSIGNMENT_BUCKETS;
+}
+
+/**
+ * Picks the arm a bucket falls in. Arms are walked in version order, so
+ * growing one arm's weight only moves subjects at the boundary.
+ * @param {TrafficArm[]} arms The arms, weights adding up to 100.
+ * @param {number} bucket The subject's bucket.
+ * @return {TrafficArm} The arm to serve.
+ */
+export function chooseArm(arms: TrafficArm[], bucket: number): TrafficArm {
+  let upper = 0;
+  for (const arm of arms) {
+    upper += arm.weight;
+    if (bucket < upper) return arm;
+  }
+  return arms[arms.length - 1];
+}
+
+/**
+ * Loads the arms of a prompt type's split, in version order.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} promptTypeId The prompt type.
+ * @return {Promise<TrafficArm[]>} The arms; empty without a split.
+ */
+export async function loadTrafficArms(
+  db: Executor,
+  promptTypeId: string,
+): Promise<TrafficArm[]> {
+  const result = await db.execute({
+    sql:
+      "SELECT s.prompt_version_id, v.version, s.weight " +
+      "FROM prompt_traffic_splits s " +
+      "JOIN prompt_versions v ON CAST(v.id AS TEXT) = s.prompt_version_id " +
+      "WHERE s.prompt_type_id = ? ORDER BY v.version ASC",
+    args: [promptTypeId],
+  });
+  return result.rows.map((row) => ({
+    promptVersionId: String(row.prompt_version_id),
+    version: Number(row.version),
+    weight: Number(row.weight),
+  }));
+}
+
+/**
+ * Loads a prompt type's split with who last changed it.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} promptTypeId The prompt type.
+ * @return {Promise<TrafficSplit>} The split.
+ */
+export async function getTrafficSplit(
+  db: Executor,
+  promptTypeId: string,
+): Promise<TrafficSplit> {
+  const [arms, metaResult] = await Promise.all([
+    loadTrafficArms(db, promptTypeId),
+    db.execute({
+      sql:
+        "SELECT updated_by, updated_at FROM prompt_traffic_splits " +
+        "WHERE prompt_type_id = ? ORDER BY updated_at DESC LIMIT 1",
+      args: [promptTypeId],
+    }),
+  ]);
+  const meta = metaResult.rows[0];
+  return {
+    arms,
+    updatedBy: meta?.updated_by ? String(meta.updated_by) : null,
+    updatedAt: meta ? String(meta.updated_at) : null,
+  };
+}
+
+/**
+ * Builds the DELETE that ends a type's split.
+ * @param {string} promptTypeId The prompt type.
+ * @return {InStatement} The statement to execute.
+ */
+export function clearTrafficSplitStatement(promptTypeId: string): InStatement {
+  return {
+    sql: "DELETE FROM prompt_traffic_splits WHERE prompt_type_id = ?",
+    args: [promptTypeId],
+  };
+}
+
+/**
+ * Validates the arms sent by the dashboard.
+ * @param {unknown} input The arms from the request.
+ * @return {Array<object>} Version ids and weights, zero weights dropped.
+ */
+export function parseTrafficArms(
+  input: unknown,
+): Array<{promptVersionId: string, weight: number}> {
+  const fail = (message: string): never => {
+    throw new HttpsError("invalid-argument", message, {
+      reason: "invalid-split",
+    });
+  };
+  if (!Array.isArray(input) || input.length > 10) {
+    fail("arms must be a list of at most 10 versions.");
+  }
+  const seen = new Set<string>();
+  const arms = (input as unknown[]).map((item, index) => {
+    const candidate = (item ?? {}) as Record<string, unknown>;
+    const promptVersionId = candidate.promptVersionId;
+    const weight = candidate.weight;
+    if (typeof promptVersionId !== "string" || !promptVersionId) {
+      return fail(`arms[${index}].promptVersionId is required.`);
+    }
+    if (
+      typeof weight !== "number" ||
+      !Number.isInteger(weight) ||
+      weight < 0 ||
+      weight > 100
+    ) {
+      return fail(`arms[${index}].weight must be an integer from 0 to 100.`);
+    }
+    if (seen.has(promptVersionId)) {
+      fail(`Version ${promptVersionId} is listed twice.`);
+    }
+    seen.add(promptVersionId);
+    return {promptVersionId, weight};
+  }).filter((arm) => arm.weight > 0);
+  const total = arms.reduce((sum, arm) => sum + arm.weight, 0);
+  if (arms.length && total !== 100) {
+    fail(`Weights must add up to 100, not ${total}.`);
+  }
+  return arms;
+}
+
+/**
+ * Replaces a prompt type's split. The active version must keep a share:
+ * it is what callers without a subject key, and prompts that include this
+ * type, are served. Every other arm must pass the same checks as an
+ * activation and is frozen like a published version, since it is now
+ * served. No arms, or the active version alone, ends the split.
+ * @param {Client} db The database client.
+ * @param {object} request The acting user, prompt type and parsed arms.
+ * @return {Promise<TrafficSplit>} The split now in force.
+ */
+export async function setTrafficSplit(
+  db: Client,
+  request: {
+    actor: Actor,
+    promptTypeId: string,
+    arms: Array<{promptVersionId: string, weight: number}>,
+  },
+): Promise<TrafficSplit> {
+  const {actor, promptTypeId} = request;
+  const tx = await db.transaction("write");
+  try {
+    const previous = await loadTrafficArms(tx, promptTypeId);
+    const activeResult = await tx.execute({
+      sql:
+        "SELECT id FROM prompt_versions " +
+        "WHERE prompt_type_id = ? AND is_active = TRUE",
+      args: [promptTypeId],
+    });
+    const activeId = activeResult.rows[0] ?
+      String(activeResult.rows[0].id) : null;
+    if (
+      request.arms.length === 1 &&
+      request.arms[0].promptVersionId !== activeId
+    ) {
+      throw new HttpsError(
+        "invalid-argument",
+        "Activate the version to give it all of the traffic.",
+        {reason: "invalid-split"},
+      );
+    }
+    const arms = request.arms.length > 1 ? request.arms : [];
+
+    if (arms.length) {
+      if (!activeId) {
+        throw new HttpsError(
+          "failed-precondition",
+          `Prompt type ${promptTypeId} has no active version to split from.`,
+          {reason: "no-active-version"},
+        );
+      }
+      if (!arms.some((arm) => arm.promptVersionId === activeId)) {
+        throw new HttpsError(
+          "invalid-argument",
+          "The active version must keep a share of the traffic.",
+          {reason: "invalid-split"},
+        );
+      }
+    }
+
+    for (const arm of arms) {
+      const versionResult = await tx.execute({
+        sql:
+          "SELECT id, content, variables, revision, published_at " +
+          "FROM prompt_versions WHERE id = ? AND prompt_type_id = ?",
+        args: [arm.promptVersionId, promptTypeId],
+      });
+      const version = versionResult.rows[0];
+      if (!version) {
+        throw new HttpsError(
+          "not-found",
+          `Prompt version ${arm.promptVersionId} does not belong to ` +
+            `prompt type ${promptTypeId}.`,
+          {reason: "version-not-in-type"},
+        );
+      }
+      if (arm.promptVersionId === activeId) continue;
+      await assertReleasable(tx, {
+        promptTypeId,
+        promptVersionId: arm.promptVersionId,
+        content: String(version.content ?? ""),
+        variables: version.variables,
+        revision: Number(version.revision ?? 1),
+        publishedAt: version.published_at ?
+          String(version.published_at) : null,
+      });
+      await tx.execute({
+        sql:
+          "UPDATE prompt_versions " +
+          "SET published_at = COALESCE(published_at, CURRENT_TIMESTAMP) " +
+          "WHERE id = ?",
+        args: [arm.promptVersionId],
+      });
+    }
+
+    await tx.execute(clearTrafficSplitStatement(promptTypeId));
+    for (const arm of arms) {
+      await tx.execute({
+        sql:
+          "INSERT INTO prompt_traffic_splits " +
+          "(prompt_type_id, prompt_version_id, weight, updated_by) " +
+          "VALUES (?, ?, ?, ?)",
+        args: [promptTypeId, arm.promptVersionId, arm.weight, actor.email],
+      });
+    }
+    const split = await getTrafficSplit(tx, promptTypeId);
+    await tx.execute(auditStatement({
+      actor,
+      action: "traffic.set",
+      promptTypeId,
+      detail: {
+        arms: split.arms.map(({version, weight}) => ({version, weight})),
+        previousArms: previous.map(({version, weight}) => ({version, weight})),
+      },
+    }));
+    await tx.commit();
+    return split;
+  } finally {
+    tx.close();
+  }
+}
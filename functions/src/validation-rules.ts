@@ -0,0 +1,350 @@
+import {Client, Transaction} from "@libsql/client";
+import {HttpsError} from "firebase-functions/v2/https";
+import {parseChatMessages} from "../../packages/prompt-client/src/chat";
+import {TemplateVariable} from "../../packages/prompt-client/src/template";
+import {Actor} from "./auth";
+import {auditStatement} from "./audit";
+import {getContentKindDefinition, toContentKind} from "./content-kinds";
+import {findPlaceholders} from "./variables";
+
+type Executor = Client | Transaction;
+
+export const VALIDATION_RULES = [
+  "minLength",
+  "maxLength",
+  "json",
+  "chatMessages",
+  "requiredSections",
+  "forbiddenPhrases",
+  "variablesDeclared",
+] as const;
+
+export type ValidationRule = typeof VALIDATION_RULES[number];
+
+export interface ValidationRules {
+  minLength?: number,
+  maxLength?: number,
+  // Content must parse as JSON.
+  json?: boolean,
+  // Content must be a chat message list (see parseChatMessages).
+  chatMessages?: boolean,
+  // Headings that must appear as a line of their own, `#` marks optional.
+  requiredSections?: string[],
+  // Case-insensitive phrases the content must not contain.
+  forbiddenPhrases?: string[],
+  // Every {{placeholder}} must be a declared variable.
+  variablesDeclared?: boolean,
+}
+
+export interface RuleViolation {
+  rule: ValidationRule,
+  message: string,
+  // 1-based line the violation points at, when it has one.
+  line: number | null,
+}
+
+export interface TypeValidationRules {
+  rules: ValidationRules,
+  // True when the type has no rules of its own and gets the defaults.
+  isDefault: boolean,
+  updatedBy: string | null,
+  updatedAt: string | null,
+}
+
+const MAX_CONTENT_LIMIT = 1_000_000;
+const MAX_LIST_ENTRIES = 50;
+const MAX_LIST_ENTRY_LENGTH = 200;
+
+/**
+ * The rules a prompt type gets until an admin sets its own, taken from its
+ * content kind: no empty content, and JSON Schema types must hold JSON.
+ * @param {unknown} contentKind The type's `content_kind` column value.
+ * @return {ValidationRules} The default rules.
+ */
+export function defaultValidationRules(
+  contentKind: unknown,
+): ValidationRules {
+  return {...getContentKindDefinition(toContentKind(contentKind)).defaultRules};
+}
+
+/**
+ * Validates a rule set sent by an admin. Unset and empty rules are dropped.
+ * @param {unknown} input The rules from the request.
+ * @return {ValidationRules} The normalized rules.
+ */
+export function parseValidationRules(input: unknown): ValidationRules {
+  const fail = (message: string): never => {
+    throw new HttpsError("invalid-argument", message, {
+      reason: "invalid-rules",
+    });
+  };
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    fail("rules must be an object.");
+  }
+  const candidate = input as Record<string, unknown>;
+  const unknownKey = Object.keys(candidate)
+    .find((key) => !VALIDATION_RULES.includes(key as ValidationRule));
+  if (unknownKey) fail(`Unknown validation rule ${unknownKey}.`);
+
+  const limit = (key: "minLength" | "maxLength") => {
+    const value = candidate[key];
+    if (value === undefined || value === null) return undefined;
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < 0 ||
+      value > MAX_CONTENT_LIMIT
+    ) {
+      return fail(`${key} must be an integer from 0 to ${MAX_CONTENT_LIMIT}.`);
+    }
+    return value;
+  };
+  const list = (key: "requiredSections" | "forbiddenPhrases") => {
+    const value = candidate[key];
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value) || value.length > MAX_LIST_ENTRIES) {
+      return fail(`${key} must be a list of at most ${MAX_LIST_ENTRIES}.`);
+    }
+    const entries = value.map((entry) => {
+      if (typeof entry !== "string") fail(`${key} entries must be strings.`);
+      return (entry as string).trim();
+    }).filter(Boolean);
+    if (entries.some((entry) => entry.length > MAX_LIST_ENTRY_LENGTH)) {
+      fail(`${key} entries are limited to ${MAX_LIST_ENTRY_LENGTH} chars.`);
+    }
+    return entries.length ? Array.from(new Set(entries)) : undefined;
+  };
+
+  const rules: ValidationRules = {
+    minLength: limit("minLength"),
+    maxLength: limit("maxLength"),
+    json: candidate.json === true ? true : undefined,
+    chatMessages: candidate.chatMessages === true ? true : undefined,
+    requiredSections: list("requiredSections"),
+    forbiddenPhrases: list("forbiddenPhrases"),
+    variablesDeclared: candidate.variablesDeclared === true ? true : undefined,
+  };
+  if (
+    rules.minLength !== undefined &&
+    rules.maxLength !== undefined &&
+    rules.minLength > rules.maxLength
+  ) {
+    fail("minLength cannot be greater than maxLength.");
+  }
+  return Object.fromEntries(
+    Object.entries(rules).filter(([, value]) => value !== undefined),
+  ) as ValidationRules;
+}
+
+/**
+ * Finds the 1-based line of a character offset.
+ * @param {string} content The content.
+ * @param {number} index The character offset.
+ * @return {number} The line number.
+ */
+function lineAt(content: string, index: number): number {
+  return content.slice(0, index).split("\n").length;
+}
+
+/**
+ * Checks content against a rule set and lists every violation, in rule
+ * order, so the editor can show them all at once.
+ * @param {string} content The prompt content.
+ * @param {TemplateVariable[]} variables The declared variables.
+ * @param {ValidationRules} rules The rules to apply.
+ * @return {RuleViolation[]} The violations; empty when valid.
+ */
+export function checkContentRules(
+  content: string,
+  variables: TemplateVariable[],
+  rules: ValidationRules,
+): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+
+  if (
+    rules.minLength !== undefined &&
+    content.trim().length < rules.minLength
+  ) {
+    violations.push({
+      rule: "minLength",
+      message: rules.minLength <= 1 ?
+        "Content must not be empty." :
+        `Content must be at least ${rules.minLength} characters.`,
+      line: null,
+    });
+  }
+  if (rules.maxLength !== undefined && content.length > rules.maxLength) {
+    violations.push({
+      rule: "maxLength",
+      message:
+        `Content is ${content.length} characters; the limit is ` +
+        `${rules.maxLength}.`,
+      line: lineAt(content, rules.maxLength),
+    });
+  }
+  if (rules.json && content.trim()) {
+    try {
+      JSON.parse(content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const position = /position (\d+)/.exec(message);
+      violations.push({
+        rule: "json",
+        message: `Content is not valid JSON: ${message}`,
+        line: position ? lineAt(content, Number(position[1])) : null,
+      });
+    }
+  }
+
+  if (rules.chatMessages && content.trim()) {
+    const {error} = parseChatMessages(content);
+    if (error) {
+      violations.push({rule: "chatMessages", message: error, line: null});
+    }
+  }
+
+  const headings = content.split("\n").map((line) =>
+    line.trim().replace(/^#+\s*/, "").toLowerCase());
+  for (const section of rules.requiredSections ?? []) {
+    const wanted = section.replace(/^#+\s*/, "").toLowerCase();
+    if (!headings.includes(wanted)) {
+      violations.push({
+        rule: "requiredSections",
+        message: `Required section "${section}" is missing.`,
+        line: null,
+      });
+    }
+  }
+
+  const lowered = content.toLowerCase();
+  for (const phrase of rules.forbiddenPhrases ?? []) {
+    const index = lowered.indexOf(phrase.toLowerCase());
+    if (index >= 0) {
+      violations.push({
+        rule: "forbiddenPhrases",
+        message: `Forbidden phrase "${phrase}" is used.`,
+        line: lineAt(content, index),
+      });
+    }
+  }
+
+  if (rules.variablesDeclared) {
+    const declared = new Set(variables.map((variable) => variable.name));
+    for (const placeholder of findPlaceholders(content)) {
+      if (declared.has(placeholder.name)) continue;
+      violations.push({
+        rule: "variablesDeclared",
+        message: `Variable {{${placeholder.name}}} is not declared.`,
+        line: lineAt(content, placeholder.index),
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Reads a prompt type's rules, falling back to the defaults. The rules its
+ * content kind enforces are added to an admin's own set.
+ * @param {Executor} db The database client or open transaction.
+ * @param {string} promptTypeId The prompt type.
+ * @return {Promise<TypeValidationRules>} The rules in force.
+ */
+export async function getValidationRules(
+  db: Executor,
+  promptTypeId: string,
+): Promise<TypeValidationRules> {
+  const [typeResult, rulesResult] = await Promise.all([
+    db.execute({
+      sql: "SELECT content_kind FROM prompt_types WHERE id = ?",
+      args: [promptTypeId],
+    }),
+    db.execute({
+      sql:
+        "SELECT rules, updated_by, updated_at FROM prompt_validation_rules " +
+        "WHERE prompt_type_id = ?",
+      args: [promptTypeId],
+    }),
+  ]);
+  const contentKind = toContentKind(typeResult.rows[0]?.content_kind);
+  const row = rulesResult.rows[0];
+  if (!row) {
+    return {
+      rules: defaultValidationRules(contentKind),
+      isDefault: true,
+      updatedBy: null,
+      updatedAt: null,
+    };
+  }
+  return {
+    rules: {
+      ...JSON.parse(String(row.rules)) as ValidationRules,
+      ...getContentKindDefinition(contentKind).enforcedRules,
+    },
+    isDefault: false,
+    updatedBy: row.updated_by ? String(row.updated_by) : null,
+    updatedAt: String(row.updated_at),
+  };
+}
+
+/**
+ * Replaces a prompt type's rules. Admin only.
+ * @param {Client} db The database client.
+ * @param {Actor} actor Who is changing the rules.
+ * @param {string} promptTypeId The prompt type.
+ * @param {ValidationRules} rules The validated rules.
+ * @return {Promise<void>} Resolves once saved.
+ */
+export async function setValidationRules(
+  db: Client,
+  actor: Actor,
+  promptTypeId: string,
+  rules: ValidationRules,
+): Promise<void> {
+  await db.batch([
+    {
+      sql:
+        "INSERT INTO prompt_validation_rules " +
+        "(prompt_type_id, rules, updated_by, updated_at) " +
+        "VALUES (?, ?, ?, CURRENT_TIMESTAMP) " +
+        "ON CONFLICT(prompt_type_id) DO UPDATE SET " +
+        "rules = excluded.rules, " +
+        "updated_by = excluded.updated_by, " +
+        "updated_at = excluded.updated_at",
+      args: [promptTypeId, JSON.stringify(rules), actor.email],
+    },
+    auditStatement({
+      actor,
+      action: "rules.set",
+      promptTypeId,
+      detail: {rules},
+    }),
+  ], "write");
+}
+
+/**
+ * Rejects content that breaks its prompt type's rules, with every
+ * violation listed in `details.violations`.
+ * @param {Executor} db The database client or open transaction.
+ * @param {object} target The prompt type, content and declared variables.
+ * @return {Promise<void>} Resolves when the content follows the rules.
+ */
+export async function assertContentRules(
+  db: Executor,
+  target: {
+    promptTypeId: string,
+    content: string,
+    variables: TemplateVariable[],
+  },
+): Promise<void> {
+  const {rules} = await getValidationRules(db, target.promptTypeId);
+  const violations =
+    checkContentRules(target.content, target.variables, rules);
+  if (!violations.length) return;
+  throw new HttpsError(
+    "failed-precondition",
+    `Content breaks ${violations.length} validation rule(s): ` +
+      violations[0].message,
+    {reason: "validation-failed", violations},
+  );
+}
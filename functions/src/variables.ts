@@ -0,0 +1,109 @@
+import {HttpsError} from "firebase-functions/v2/https";
+import {
+  TEMPLATE_VARIABLE_TYPES,
+  TemplateVariable,
+  TemplateVariableType,
+  tokenizeTemplate,
+  VARIABLE_NAME_PATTERN,
+} from "../../packages/prompt-client/src/template";
+
+// Declarations are rendered by the shared template module, which the
+// editor and SDK consumers use too; the server only validates and reads
+// them.
+
+const MAX_VARIABLES = 50;
+
+/**
+ * Lists the `{{name}}` placeholders in content, first use of each name.
+ * @param {string} content The prompt content.
+ * @return {Array<object>} Each placeholder name and its offset.
+ */
+export function findPlaceholders(
+  content: string,
+): Array<{name: string, index: number}> {
+  const placeholders: Array<{name: string, index: number}> = [];
+  let index = 0;
+  for (const segment of tokenizeTemplate(content)) {
+    if (
+      segment.kind === "placeholder" &&
+      !placeholders.some((placeholder) => placeholder.name === segment.name)
+    ) {
+      placeholders.push({name: segment.name, index});
+    }
+    index += segment.kind === "text" ? segment.text.length : segment.raw.length;
+  }
+  return placeholders;
+}
+
+/**
+ * Validates variable declarations sent by the editor. Rejects the whole
+ * list on the first problem so a version never stores half of it.
+ * @param {unknown} input The declarations from the request.
+ * @return {TemplateVariable[]} The validated declarations.
+ */
+export function parseVariableDeclarations(
+  input: unknown,
+): TemplateVariable[] {
+  const fail = (message: string): never => {
+    throw new HttpsError("invalid-argument", message, {
+      reason: "invalid-variables",
+    });
+  };
+
+  if (!Array.isArray(input)) fail("variables must be an array.");
+  const items = input as unknown[];
+  if (items.length > MAX_VARIABLES) {
+    fail(`A version can declare at most ${MAX_VARIABLES} variables.`);
+  }
+
+  const seen = new Set<string>();
+  return items.map((item, index) => {
+    if (!item || typeof item !== "object") {
+      return fail(`variables[${index}] must be an object.`);
+    }
+    const candidate = item as Record<string, unknown>;
+    const name = candidate.name;
+    if (typeof name !== "string" || !VARIABLE_NAME_PATTERN.test(name)) {
+      return fail(
+        `variables[${index}].name must match ${VARIABLE_NAME_PATTERN}.`
+      );
+    }
+    if (seen.has(name)) fail(`Variable ${name} is declared twice.`);
+    seen.add(name);
+
+    const type = candidate.type;
+    if (!TEMPLATE_VARIABLE_TYPES.includes(type as TemplateVariableType)) {
+      fail(`Variable ${name} has unknown type ${String(type)}.`);
+    }
+    const defaultValue = candidate.default ?? null;
+    if (defaultValue !== null && typeof defaultValue !== "string") {
+      fail(`Variable ${name} default must be a string or null.`);
+    }
+    const description = typeof candidate.description === "string" ?
+      candidate.description.trim() : "";
+
+    return {
+      name,
+      type: type as TemplateVariableType,
+      required: Boolean(candidate.required),
+      default: defaultValue as string | null,
+      ...(description ? {description} : {}),
+    };
+  });
+}
+
+/**
+ * Reads the stored `variables` column. Rows written before the column
+ * existed, or with unreadable JSON, have no variables.
+ * @param {unknown} raw The column value.
+ * @return {TemplateVariable[]} The declarations.
+ */
+export function readStoredVariables(raw: unknown): TemplateVariable[] {
+  if (typeof raw !== "string" || !raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,169 @@
+import {afterAll, beforeAll, describe, expect, it} from "@jest/globals";
+import {Client} from "@libsql/client";
+import {activatePromptVersion, getActivationHistory} from "../src/activation";
+import {Actor} from "../src/auth";
+import {createTestDb, TestDb} from "./test-db";
+
+const publisher: Actor = {
+  uid: "u1",
+  email: "pub@example.com",
+  role: "publisher",
+};
+
+let testDb: TestDb;
+let db: Client;
+
+/**
+ * Creates a prompt type with published versions 1 to `count`.
+ * @param {string} name The prompt type name.
+ * @param {number} count How many versions to create.
+ * @param {number | null} active The version to make active, if any.
+ * @return {Promise<object>} The type id and the version ids, by number.
+ */
+async function seedType(
+  name: string,
+  count: number,
+  active: number | null,
+): Promise<{promptTypeId: string, versionIds: Record<number, string>}> {
+  const type = await db.execute({
+    sql: "INSERT INTO prompt_types (name) VALUES (?)",
+    args: [name],
+  });
+  const promptTypeId = String(type.lastInsertRowid);
+  const versionIds: Record<number, string> = {};
+  for (let version = 1; version <= count; version++) {
+    const inserted = await db.execute({
+      sql:
+        "INSERT INTO prompt_versions " +
+        "(prompt_type_id, version, content, is_active, published_at) " +
+        "VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)",
+      args: [promptTypeId, version, `v${version}`, version === active],
+    });
+    versionIds[version] = String(inserted.lastInsertRowid);
+  }
+  return {promptTypeId, versionIds};
+}
+
+/**
+ * Lists the active versions of a prompt type.
+ * @param {string} promptTypeId The prompt type.
+ * @return {Promise<number[]>} The active version numbers.
+ */
+async function activeVersions(promptTypeId: string): Promise<number[]> {
+  const result = await db.execute({
+    sql:
+      "SELECT version FROM prompt_versions " +
+      "WHERE prompt_type_id = ? AND is_active = TRUE ORDER BY version",
+    args: [promptTypeId],
+  });
+  return result.rows.map((row) => Number(row.version));
+}
+
+beforeAll(async () => {
+  testDb = await createTestDb();
+  db = testDb.db;
+});
+
+afterAll(() => testDb.dispose());
+
+describe("activatePromptVersion", () => {
+  it("makes the target the only active version", async () => {
+    const {promptTypeId, versionIds} = await seedType("switch", 3, 1);
+
+    const result = await activatePromptVersion(db, {
+      actor: publisher,
+      promptTypeId,
+      promptVersionId: versionIds[3],
+    });
+
+    expect(result).toEqual({
+      previousActive: {id: versionIds[1], version: 1},
+      active: {id: versionIds[3], version: 3},
+      changed: true,
+    });
+    expect(await activeVersions(promptTypeId)).toEqual([3]);
+
+    const history = await getActivationHistory(db, promptTypeId, 10);
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({
+      promptVersionId: versionIds[3],
+      version: 3,
+      previousVersionId: versionIds[1],
+      previousVersion: 1,
+      kind: "activate",
+      activatedBy: publisher.email,
+    });
+
+    const audit = await db.execute({
+      sql:
+        "SELECT action, version FROM prompt_audit_log " +
+        "WHERE prompt_type_id = ?",
+      args: [promptTypeId],
+    });
+    expect(audit.rows.map((row) => [row.action, Number(row.version)]))
+      .toEqual([["version.activate", 3]]);
+  });
+
+  it("reports no previous version on a first activation", async () => {
+    const {promptTypeId, versionIds} = await seedType("first", 1, null);
+
+    const result = await activatePromptVersion(db, {
+      actor: publisher,
+      promptTypeId,
+      promptVersionId: versionIds[1],
+    });
+
+    expect(result.previousActive).toBeNull();
+    expect(result.active).toEqual({id: versionIds[1], version: 1});
+    expect(await activeVersions(promptTypeId)).toEqual([1]);
+  });
+
+  it("leaves an already active version alone", async () => {
+    const {promptTypeId, versionIds} = await seedType("unchanged", 2, 2);
+
+    const result = await activatePromptVersion(db, {
+      actor: publisher,
+      promptTypeId,
+      promptVersionId: versionIds[2],
+    });
+
+    expect(result).toEqual({
+      previousActive: {id: versionIds[2], version: 2},
+      active: {id: versionIds[2], version: 2},
+      changed: false,
+    });
+    expect(await activeVersions(promptTypeId)).toEqual([2]);
+    expect(await getActivationHistory(db, promptTypeId, 10)).toEqual([]);
+  });
+
+  it("rejects a version of another type", async () => {
+    const {promptTypeId} = await seedType("target", 2, 1);
+    const other = await seedType("other", 2, 1);
+
+    await expect(activatePromptVersion(db, {
+      actor: publisher,
+      promptTypeId,
+      promptVersionId: other.versionIds[2],
+    })).rejects.toMatchObject({
+      code: "not-found",
+      details: {reason: "version-not-in-type"},
+    });
+
+    expect(await activeVersions(promptTypeId)).toEqual([1]);
+    expect(await activeVersions(other.promptTypeId)).toEqual([1]);
+    expect(await getActivationHistory(db, promptTypeId, 10)).toEqual([]);
+  });
+});
+
+describe("prompt_versions_one_active", () => {
+  it("rejects a second active version of a type", async () => {
+    const {promptTypeId, versionIds} = await seedType("guarded", 2, 1);
+
+    await expect(db.execute({
+      sql: "UPDATE prompt_versions SET is_active = TRUE WHERE id = ?",
+      args: [versionIds[2]],
+    })).rejects.toThrow(/UNIQUE constraint failed/);
+
+    expect(await activeVersions(promptTypeId)).toEqual([1]);
+  });
+});
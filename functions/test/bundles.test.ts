@@ -0,0 +1,189 @@
+import {afterAll, beforeAll, describe, expect, it} from "@jest/globals";
+import {Client} from "@libsql/client";
+import {contentHash} from "../src/audit";
+import {Actor} from "../src/auth";
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_FORMAT_VERSION,
+  exportBundle,
+  importBundle,
+  parseBundle,
+  planBundleImport,
+} from "../src/bundles";
+import {createTestDb, TestDb} from "./test-db";
+
+const admin: Actor = {uid: "u1", email: "admin@example.com", role: "admin"};
+
+const version = (number: number, content: string, isActive = false) => ({
+  version: number,
+  content,
+  variables: [],
+  contentHash: contentHash(content),
+  isActive,
+  createdAt: "2026-01-01T00:00:00.000Z",
+});
+
+const bundleOf = (promptTypes: unknown[]) => ({
+  format: BUNDLE_FORMAT,
+  formatVersion: BUNDLE_FORMAT_VERSION,
+  exportedAt: "2026-01-02T00:00:00.000Z",
+  exportedBy: "someone@example.com",
+  promptTypes,
+});
+
+const greeting = {
+  name: "Greeting",
+  description: "Says hello",
+  contentKind: "text",
+  archived: false,
+  validationRules: null,
+  versions: [version(1, "Hello"), version(2, "Hello there", true)],
+};
+
+/**
+ * Returns what parseBundle threw for the input.
+ * @param {unknown} input The bundle.
+ * @return {unknown} The error.
+ */
+function parseError(input: unknown): unknown {
+  try {
+    parseBundle(input);
+  } catch (error) {
+    return error;
+  }
+  throw new Error("parseBundle accepted the bundle.");
+}
+
+describe("parseBundle", () => {
+  it("accepts a well-formed bundle", () => {
+    const bundle = parseBundle(bundleOf([greeting]));
+    expect(bundle.promptTypes[0].versions.map((entry) => entry.version))
+      .toEqual([1, 2]);
+  });
+
+  it("refuses content that does not match its hash", () => {
+    const edited = {...greeting.versions[0], content: "Hi"};
+    expect(parseError(bundleOf([{
+      ...greeting,
+      versions: [edited, greeting.versions[1]],
+    }]))).toMatchObject({
+      code: "invalid-argument",
+      details: {
+        reason: "invalid-bundle",
+        path: "promptTypes[0].versions[0].contentHash",
+      },
+    });
+  });
+
+  it("refuses a newer format version", () => {
+    expect(parseError({
+      ...bundleOf([]),
+      formatVersion: BUNDLE_FORMAT_VERSION + 1,
+    })).toMatchObject({details: {path: "formatVersion"}});
+  });
+
+  it("refuses two active versions of one type", () => {
+    expect(parseError(bundleOf([{
+      ...greeting,
+      versions: [version(1, "Hello", true), version(2, "Hello there", true)],
+    }]))).toMatchObject({details: {path: "promptTypes[0].versions"}});
+  });
+
+  it("refuses a type listed twice", () => {
+    expect(parseError(bundleOf([greeting, greeting]))).toMatchObject({
+      details: {path: "promptTypes[1].name"},
+    });
+  });
+});
+
+describe("importBundle", () => {
+  let testDb: TestDb;
+  let db: Client;
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+    db = testDb.db;
+  });
+
+  afterAll(() => testDb.dispose());
+
+  it("creates types with their versions as drafts", async () => {
+    const plan = await importBundle(db, {
+      actor: admin,
+      bundle: parseBundle(bundleOf([greeting])),
+    });
+    expect(plan).toMatchObject({
+      createdTypes: 1,
+      createdVersions: 2,
+      conflicts: 0,
+    });
+    expect(plan.types[0].activeVersion).toEqual({bundle: 2, current: null});
+    expect(plan.types[0].liveAfterImport).toBeNull();
+    expect(plan.notLiveTypes).toBe(1);
+
+    const versions = await db.execute(
+      "SELECT version, is_active, published_at FROM prompt_versions " +
+      "ORDER BY version ASC"
+    );
+    expect(versions.rows.map((row) => ({...row}))).toEqual([
+      {version: 1, is_active: 0, published_at: null},
+      {version: 2, is_active: 0, published_at: null},
+    ]);
+
+    const audit = await db.execute(
+      "SELECT detail FROM prompt_audit_log WHERE action = 'bundle.import'"
+    );
+    expect(JSON.parse(String(audit.rows[0].detail))).toEqual({
+      name: "Greeting",
+      createdType: true,
+      versions: [
+        {version: 1, contentHash: contentHash("Hello")},
+        {version: 2, contentHash: contentHash("Hello there")},
+      ],
+    });
+  });
+
+  it("finds nothing to do when the bundle was exported here", async () => {
+    const exported = await exportBundle(db, {
+      promptTypeIds: null,
+      exportedBy: admin.email,
+    });
+    const plan = await planBundleImport(db, parseBundle(exported));
+    expect(plan).toMatchObject({
+      createdTypes: 0,
+      createdVersions: 0,
+      identicalVersions: 2,
+      conflicts: 0,
+    });
+  });
+
+  it("imports nothing while a version conflicts", async () => {
+    const bundle = parseBundle(bundleOf([
+      {...greeting, versions: [version(1, "Changed"), version(3, "New")]},
+      {...greeting, name: "Farewell", versions: [version(1, "Bye")]},
+    ]));
+    await expect(importBundle(db, {actor: admin, bundle}))
+      .rejects.toMatchObject({details: {reason: "bundle-conflicts"}});
+
+    const types = await db.execute("SELECT name FROM prompt_types");
+    expect(types.rows.map((row) => row.name)).toEqual(["Greeting"]);
+    const versions = await db.execute(
+      "SELECT COUNT(*) AS count FROM prompt_versions"
+    );
+    expect(versions.rows[0].count).toBe(2);
+  });
+
+  it("reports which types will have nothing live", async () => {
+    await db.execute(
+      "UPDATE prompt_versions SET is_active = TRUE WHERE version = 1"
+    );
+    const plan = await planBundleImport(db, parseBundle(bundleOf([
+      {...greeting, versions: [...greeting.versions, version(3, "Hey")]},
+      {...greeting, name: "Farewell", versions: [version(1, "Bye", true)]},
+    ])));
+
+    expect(plan.types.map((type) => [type.name, type.liveAfterImport]))
+      .toEqual([["Greeting", 1], ["Farewell", null]]);
+    expect(plan.notLiveTypes).toBe(1);
+  });
+});
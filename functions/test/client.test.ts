@@ -0,0 +1,298 @@
+import {describe, expect, it} from "@jest/globals";
+import {
+  PromptClient,
+  PromptClientError,
+} from "../../packages/prompt-client/src/client";
+import {assignmentBucket} from "../../packages/prompt-client/src/traffic";
+import type {ServedPrompt} from "../../packages/prompt-client/src/types";
+
+const TTL_MS = 1_000;
+const STALE_MS = 10_000;
+
+interface FakeRequest {
+  url: URL;
+  headers: Record<string, string>;
+}
+
+type Responder = (request: FakeRequest) => Response | Promise<Response>;
+
+/**
+ * Returns a prompt as served for the type with id "1".
+ * @param {Partial<ServedPrompt>} overrides Fields to change.
+ * @return {ServedPrompt} The served prompt.
+ */
+function served(overrides: Partial<ServedPrompt> = {}): ServedPrompt {
+  return {
+    promptTypeId: "1",
+    promptTypeName: "greeting",
+    version: 1,
+    content: "Hello",
+    contentHash: "hash-1",
+    messages: null,
+    variables: [],
+    includes: [],
+    environment: "production",
+    arm: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Builds a JSON response like the serving API's.
+ * @param {unknown} body Response body.
+ * @param {number} status HTTP status.
+ * @param {string} etag ETag header, if any.
+ * @return {Response} The response.
+ */
+function json(body: unknown, status = 200, etag?: string): Response {
+  const headers: Record<string, string> = {"Content-Type": "application/json"};
+  if (etag) headers.ETag = etag;
+  return new Response(JSON.stringify(body), {status, headers});
+}
+
+/**
+ * Creates a client whose fetch and clock are driven by the test.
+ * @param {Responder} respond Answers each request.
+ * @param {object} options Extra client options.
+ * @return {object} The client, its recorded requests and a clock setter.
+ */
+function setup(
+  respond: Responder,
+  options: Partial<ConstructorParameters<typeof PromptClient>[0]> = {},
+) {
+  const requests: FakeRequest[] = [];
+  let time = 0;
+  const fetchImpl = (async (input: string | URL, init?: RequestInit) => {
+    const request = {
+      url: new URL(String(input)),
+      headers: {...(init?.headers as Record<string, string>)},
+    };
+    requests.push(request);
+    return respond(request);
+  }) as typeof fetch;
+  const client = new PromptClient({
+    baseUrl: "https://functions.example.com/",
+    apiKey: "pk_test",
+    ttlMs: TTL_MS,
+    staleWhileRevalidateMs: STALE_MS,
+    fetch: fetchImpl,
+    now: () => time,
+    ...options,
+  });
+  return {
+    client,
+    requests,
+    setTime: (value: number) => {
+      time = value;
+    },
+  };
+}
+
+/**
+ * Lets pending promise callbacks, such as a background revalidation, run.
+ * @return {Promise<void>} Resolves on the next macrotask.
+ */
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("PromptClient", () => {
+  it("serves from the cache until the TTL expires", async () => {
+    let version = 1;
+    const {client, requests, setTime} = setup(() =>
+      json(served({version, content: `v${version}`}))
+    );
+
+    const first = await client.getPrompt("greeting");
+    expect(first.source).toBe("network");
+    expect(requests[0].url.pathname).toBe("/getActivePrompt");
+    expect(requests[0].url.searchParams.get("type")).toBe("greeting");
+    expect(requests[0].url.searchParams.get("environment"))
+      .toBe("production");
+    expect(requests[0].headers.Authorization).toBe("Bearer pk_test");
+
+    version = 2;
+    setTime(TTL_MS - 1);
+    const cached = await client.getPrompt("greeting");
+    expect(cached.source).toBe("cache");
+    expect(cached.content).toBe("v1");
+    expect(requests).toHaveLength(1);
+
+    setTime(TTL_MS + STALE_MS);
+    const refreshed = await client.getPrompt("greeting");
+    expect(refreshed.source).toBe("network");
+    expect(refreshed.content).toBe("v2");
+    expect(requests).toHaveLength(2);
+  });
+
+  it("returns a stale prompt while revalidating it in the background",
+    async () => {
+      let version = 1;
+      const {client, requests, setTime} = setup(() =>
+        json(served({version, content: `v${version}`}))
+      );
+      await client.getPrompt("greeting");
+
+      version = 2;
+      setTime(TTL_MS);
+      const stale = await client.getPrompt("greeting");
+      expect(stale.source).toBe("stale");
+      expect(stale.content).toBe("v1");
+      expect(requests).toHaveLength(2);
+
+      await flush();
+      const fresh = await client.getPrompt("greeting");
+      expect(fresh.source).toBe("cache");
+      expect(fresh.content).toBe("v2");
+      expect(requests).toHaveLength(2);
+    });
+
+  it("shares one request between concurrent calls", async () => {
+    let release: (response: Response) => void = () => undefined;
+    const {client, requests} = setup(() =>
+      new Promise<Response>((resolve) => {
+        release = resolve;
+      })
+    );
+
+    const first = client.getPrompt("greeting");
+    const second = client.getPrompt("greeting");
+    await flush();
+    expect(requests).toHaveLength(1);
+
+    release(json(served()));
+    const results = await Promise.all([first, second]);
+    expect(results.map((result) => result.source))
+      .toEqual(["network", "network"]);
+    expect(results[1].content).toBe("Hello");
+  });
+
+  it("reuses the cached prompt when the backend answers 304", async () => {
+    const {client, requests, setTime} = setup((request) =>
+      request.headers["If-None-Match"] === "\"hash-1\"" ?
+        new Response(null, {status: 304}) :
+        json(served(), 200, "\"hash-1\"")
+    );
+    await client.getPrompt("greeting");
+    expect(requests[0].headers["If-None-Match"]).toBeUndefined();
+
+    setTime(TTL_MS + STALE_MS);
+    const revalidated = await client.getPrompt("greeting");
+    expect(requests[1].headers["If-None-Match"]).toBe("\"hash-1\"");
+    expect(revalidated.source).toBe("network");
+    expect(revalidated.content).toBe("Hello");
+
+    // The 304 restarts the TTL.
+    setTime(TTL_MS + STALE_MS + TTL_MS - 1);
+    expect((await client.getPrompt("greeting")).source).toBe("cache");
+    expect(requests).toHaveLength(2);
+  });
+
+  it("falls back to the bundled snapshot when the backend is unreachable",
+    async () => {
+      const {client} = setup(() => {
+        throw new TypeError("fetch failed");
+      }, {
+        fallback: {
+          generatedAt: "2026-01-01T00:00:00.000Z",
+          prompts: [
+            served({content: "bundled"}),
+            served({version: 2, content: "bundled v2", environment: "dev"}),
+          ],
+        },
+      });
+
+      const result = await client.getPrompt("greeting");
+      expect(result.source).toBe("fallback");
+      expect(result.content).toBe("bundled");
+      expect((await client.getPrompt("1", {version: 2})).content)
+        .toBe("bundled v2");
+      await expect(client.getPrompt("farewell"))
+        .rejects.toMatchObject({code: "unavailable", status: null});
+    });
+
+  it("keeps serving an expired prompt when the backend fails", async () => {
+    let status = 200;
+    const {client, setTime} = setup(() =>
+      status === 200 ? json(served()) : json({error: "internal"}, status)
+    );
+    await client.getPrompt("greeting");
+
+    status = 503;
+    setTime(TTL_MS + STALE_MS);
+    const result = await client.getPrompt("greeting");
+    expect(result.source).toBe("stale");
+    expect(result.content).toBe("Hello");
+  });
+
+  it("does not fall back on client errors", async () => {
+    const {client} = setup(() => json({error: "not-found"}, 404), {
+      fallback: {
+        generatedAt: "2026-01-01T00:00:00.000Z",
+        prompts: [served()],
+      },
+    });
+
+    const error = await client.getPrompt("greeting").catch((e) => e);
+    expect(error).toBeInstanceOf(PromptClientError);
+    expect(error).toMatchObject({status: 404, code: "not-found"});
+  });
+
+  it("caches split prompts per subject bucket", async () => {
+    const subjects = Array.from({length: 200}, (_, index) => `user-${index}`);
+    const [first, ...rest] = subjects;
+    const bucket = assignmentBucket("1", first);
+    const sameBucket = rest.find((subject) =>
+      assignmentBucket("1", subject) === bucket
+    );
+    const otherBucket = rest.find((subject) =>
+      assignmentBucket("1", subject) !== bucket
+    );
+    expect(sameBucket).toBeDefined();
+    expect(otherBucket).toBeDefined();
+
+    const {client, requests} = setup((request) => {
+      const subject = request.url.searchParams.get("subject");
+      return json(served({
+        content: `for ${subject}`,
+        arm: {
+          version: 1,
+          weight: 50,
+          bucket: subject === null ? null : assignmentBucket("1", subject),
+        },
+      }));
+    });
+
+    expect((await client.getPrompt("greeting", {subject: first})).source)
+      .toBe("network");
+    expect(requests[0].url.searchParams.get("subject")).toBe(first);
+
+    const shared = await client.getPrompt("greeting", {subject: sameBucket});
+    expect(shared.source).toBe("cache");
+    expect(shared.content).toBe(`for ${first}`);
+
+    const other = await client.getPrompt("greeting", {subject: otherBucket});
+    expect(other.source).toBe("network");
+    expect(other.content).toBe(`for ${otherBucket}`);
+
+    // A request without a subject has its own entry.
+    expect((await client.getPrompt("greeting")).source).toBe("network");
+    expect(requests).toHaveLength(3);
+  });
+
+  it("keeps pinned versions apart from the active prompt", async () => {
+    const {client, requests} = setup((request) => {
+      const version = Number(request.url.searchParams.get("version") ?? 3);
+      return json(served({version, content: `v${version}`}));
+    });
+
+    expect((await client.getPrompt("greeting")).content).toBe("v3");
+    expect((await client.getPrompt("greeting", {version: 1})).content)
+      .toBe("v1");
+    expect(requests[1].url.searchParams.get("version")).toBe("1");
+    expect((await client.getPrompt("greeting", {version: 1})).source)
+      .toBe("cache");
+    expect(client.snapshot().prompts.map((prompt) => prompt.version))
+      .toEqual([3]);
+  });
+});
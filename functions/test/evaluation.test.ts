@@ -0,0 +1,306 @@
+import {afterAll, beforeAll, describe, expect, it} from "@jest/globals";
+import {Client} from "@libsql/client";
+import {Actor} from "../src/auth";
+import {
+  addEvalCase,
+  assertEvalPassed,
+  checkAssertion,
+  EvalAssertion,
+  parseEvalCase,
+  runEvaluation,
+  setEvalPassRequired,
+} from "../src/evaluation";
+import {mockAdapter, ModelAdapter} from "../src/model-adapters";
+import {createTestDb, TestDb} from "./test-db";
+
+const editor: Actor = {uid: "u1", email: "ed@example.com", role: "editor"};
+const greetingVariables = JSON.stringify([
+  {name: "name", type: "string", required: true, default: null},
+]);
+const objectSchema = JSON.stringify({
+  type: "object",
+  required: ["ok"],
+  properties: {ok: {type: "boolean"}},
+});
+
+let testDb: TestDb;
+let db: Client;
+
+/**
+ * Creates a prompt type with one draft version greeting `{{name}}`.
+ * @param {string} name The prompt type name.
+ * @return {Promise<object>} The ids of the type and of its version.
+ */
+async function seedType(
+  name: string,
+): Promise<{promptTypeId: string, promptVersionId: string}> {
+  const type = await db.execute({
+    sql: "INSERT INTO prompt_types (name) VALUES (?)",
+    args: [name],
+  });
+  const promptTypeId = String(type.lastInsertRowid);
+  const version = await db.execute({
+    sql:
+      "INSERT INTO prompt_versions " +
+      "(prompt_type_id, version, content, variables) " +
+      "VALUES (?, 1, 'Hello {{name}}!', ?)",
+    args: [promptTypeId, greetingVariables],
+  });
+  return {promptTypeId, promptVersionId: String(version.lastInsertRowid)};
+}
+
+/**
+ * Adds a test case to a prompt type.
+ * @param {string} promptTypeId The prompt type.
+ * @param {unknown} input The case as the editor sends it.
+ * @return {Promise<number>} The case id.
+ */
+async function addCase(promptTypeId: string, input: unknown): Promise<number> {
+  const stored = await addEvalCase(db, {
+    actor: editor,
+    promptTypeId,
+    testCase: parseEvalCase(input),
+  });
+  return stored.id;
+}
+
+/**
+ * Runs `assertEvalPassed` in a transaction of its own.
+ * @param {object} target The version about to go active.
+ * @return {Promise<void>} Resolves when the version may go active.
+ */
+async function checkGate(
+  target: {promptTypeId: string, promptVersionId: string, revision: number},
+): Promise<void> {
+  const tx = await db.transaction("read");
+  try {
+    await assertEvalPassed(tx, target);
+  } finally {
+    tx.close();
+  }
+}
+
+beforeAll(async () => {
+  testDb = await createTestDb();
+  db = testDb.db;
+});
+
+afterAll(() => testDb.dispose());
+
+describe("parseEvalCase", () => {
+  it("normalizes variable values and an empty mock output", () => {
+    expect(parseEvalCase({
+      name: "  greets  ",
+      variables: {name: "Ada", count: 2, formal: false},
+      assertions: [{type: "regex", pattern: "^hi", flags: "i"}],
+      mockOutput: "",
+    })).toEqual({
+      name: "greets",
+      variables: {name: "Ada", count: "2", formal: "false"},
+      assertions: [{type: "regex", pattern: "^hi", flags: "i"}],
+      mockOutput: null,
+    });
+  });
+
+  it.each([
+    ["no assertions", {name: "x", assertions: []}],
+    ["an unknown type", {name: "x", assertions: [{type: "equals"}]}],
+    ["a bad regex", {name: "x", assertions: [{type: "regex", pattern: "("}]}],
+    ["a bad schema", {
+      name: "x",
+      assertions: [{type: "json-schema", schema: "{\"type\": 5}"}],
+    }],
+    ["a zero token limit", {
+      name: "x",
+      assertions: [{type: "max-tokens", value: 0}],
+    }],
+    ["an object variable", {
+      name: "x",
+      variables: {name: {first: "Ada"}},
+      assertions: [{type: "contains", value: "Ada"}],
+    }],
+  ])("rejects %s", (_label, input) => {
+    expect(() => parseEvalCase(input)).toThrow(expect.objectContaining({
+      code: "invalid-argument",
+      details: {reason: "invalid-eval-case"},
+    }));
+  });
+});
+
+describe("checkAssertion", () => {
+  const cases: Array<[EvalAssertion, string, number, boolean]> = [
+    [{type: "contains", value: "Ada"}, "Hello Ada", 2, true],
+    [{type: "contains", value: "Bob"}, "Hello Ada", 2, false],
+    [{type: "not-contains", value: "Bob"}, "Hello Ada", 2, true],
+    [{type: "not-contains", value: "Ada"}, "Hello Ada", 2, false],
+    [{type: "regex", pattern: "^hello", flags: "i"}, "Hello Ada", 2, true],
+    [{type: "regex", pattern: "^hello"}, "Hello Ada", 2, false],
+    [{type: "json-schema", schema: objectSchema}, "{\"ok\": true}", 3, true],
+    [{type: "json-schema", schema: objectSchema}, "{\"ok\": 1}", 3, false],
+    [{type: "json-schema", schema: objectSchema}, "not json", 2, false],
+    [{type: "max-tokens", value: 2}, "Hello Ada", 2, true],
+    [{type: "max-tokens", value: 2}, "Hello Ada", 3, false],
+  ];
+
+  it.each(cases)("checks %j against %j", (assertion, output, tokens, ok) => {
+    const result = checkAssertion(assertion, output, tokens);
+    expect(result.type).toBe(assertion.type);
+    expect(result.passed).toBe(ok);
+    expect(result.message).not.toBe("");
+  });
+});
+
+describe("runEvaluation", () => {
+  it("records passing and failing cases in one run", async () => {
+    const {promptTypeId, promptVersionId} = await seedType("eval-run");
+    const greets = await addCase(promptTypeId, {
+      name: "greets",
+      variables: {name: "Ada"},
+      assertions: [
+        {type: "contains", value: "Hello Ada!"},
+        {type: "max-tokens", value: 10},
+      ],
+    });
+    const fixture = await addCase(promptTypeId, {
+      name: "fixture",
+      variables: {name: "Ada"},
+      assertions: [{type: "json-schema", schema: objectSchema}],
+      mockOutput: "{\"ok\": \"yes\"}",
+    });
+    const unrendered = await addCase(promptTypeId, {
+      name: "missing variable",
+      assertions: [{type: "contains", value: "Hello"}],
+    });
+
+    const run = await runEvaluation(db, {
+      promptVersionId,
+      adapter: mockAdapter,
+      requestedBy: editor.email,
+    });
+
+    expect(run).toMatchObject({
+      promptVersionId,
+      revision: 1,
+      adapter: "mock",
+      passed: false,
+      total: 3,
+      failed: 2,
+      createdBy: editor.email,
+    });
+    const [passing, wrongShape, failedRender] = run.cases;
+    expect(passing).toMatchObject({
+      caseId: greets,
+      passed: true,
+      output: "Hello Ada!",
+      tokens: 3,
+      error: null,
+    });
+    expect(wrongShape).toMatchObject({caseId: fixture, passed: false});
+    expect(wrongShape.assertions[0].passed).toBe(false);
+    expect(failedRender).toMatchObject({
+      caseId: unrendered,
+      passed: false,
+      output: "",
+      assertions: [],
+    });
+    expect(failedRender.error).toMatch(/^name: /);
+  });
+
+  it("counts an adapter error as a failed case", async () => {
+    const {promptTypeId, promptVersionId} = await seedType("eval-adapter");
+    await addCase(promptTypeId, {
+      name: "greets",
+      variables: {name: "Ada"},
+      assertions: [{type: "contains", value: "Ada"}],
+    });
+    const failing: ModelAdapter = {
+      name: "http",
+      complete: async () => {
+        throw new Error("Model endpoint answered 502.");
+      },
+    };
+
+    const run = await runEvaluation(db, {
+      promptVersionId,
+      adapter: failing,
+      requestedBy: editor.email,
+    });
+
+    expect(run).toMatchObject({passed: false, total: 1, failed: 1});
+    expect(run.cases[0].error)
+      .toBe("The http adapter failed: Model endpoint answered 502.");
+  });
+
+  it("needs at least one test case", async () => {
+    const {promptVersionId} = await seedType("eval-empty");
+    await expect(runEvaluation(db, {
+      promptVersionId,
+      adapter: mockAdapter,
+      requestedBy: editor.email,
+    })).rejects.toMatchObject({details: {reason: "no-eval-cases"}});
+  });
+});
+
+describe("assertEvalPassed", () => {
+  it("only checks types that require a passing run", async () => {
+    const {promptTypeId, promptVersionId} = await seedType("eval-optional");
+    await expect(checkGate({promptTypeId, promptVersionId, revision: 1}))
+      .resolves.toBeUndefined();
+  });
+
+  it("requires a passing run of the current revision and cases",
+    async () => {
+      const {promptTypeId, promptVersionId} = await seedType("eval-gate");
+      await setEvalPassRequired(db, editor, promptTypeId, true);
+      await addCase(promptTypeId, {
+        name: "greets",
+        variables: {name: "Ada"},
+        assertions: [{type: "contains", value: "Ada"}],
+      });
+      const target = {promptTypeId, promptVersionId, revision: 1};
+
+      await expect(checkGate(target))
+        .rejects.toMatchObject({details: {reason: "eval-required"}});
+
+      await runEvaluation(db, {
+        promptVersionId,
+        adapter: mockAdapter,
+        requestedBy: editor.email,
+      });
+      await expect(checkGate(target)).resolves.toBeUndefined();
+
+      // The run no longer covers the content once it has been edited.
+      await expect(checkGate({...target, revision: 2}))
+        .rejects.toMatchObject({details: {reason: "eval-required"}});
+
+      // Nor once a case has been added.
+      await addCase(promptTypeId, {
+        name: "polite",
+        variables: {name: "Ada"},
+        assertions: [{type: "not-contains", value: "Hey"}],
+      });
+      await expect(checkGate(target))
+        .rejects.toMatchObject({details: {reason: "eval-required"}});
+    });
+
+  it("rejects a run with failed cases", async () => {
+    const {promptTypeId, promptVersionId} = await seedType("eval-failed");
+    await setEvalPassRequired(db, editor, promptTypeId, true);
+    await addCase(promptTypeId, {
+      name: "greets Bob",
+      variables: {name: "Ada"},
+      assertions: [{type: "contains", value: "Bob"}],
+    });
+    const run = await runEvaluation(db, {
+      promptVersionId,
+      adapter: mockAdapter,
+      requestedBy: editor.email,
+    });
+
+    await expect(checkGate({promptTypeId, promptVersionId, revision: 1}))
+      .rejects.toMatchObject({
+        code: "failed-precondition",
+        details: {reason: "eval-failed", runId: run.id, failed: 1},
+      });
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "@jest/globals";
+import {promises as fs} from "fs";
+import {tmpdir} from "os";
+import * as path from "path";
+import {Client} from "@libsql/client";
+import {
+  MANIFEST_FILE,
+  planSync,
+  pullTree,
+  syncConflicts,
+  TypeManifest,
+  VersionSyncState,
+} from "../src/file-sync";
+import {createTestDb, TestDb} from "./test-db";
+
+const variables = [
+  {name: "name", type: "string", required: true, default: null},
+];
+
+let testDb: TestDb;
+let db: Client;
+let dir: string;
+const dirs: string[] = [];
+const folder = () => path.join(dir, "GREETING");
+
+/**
+ * Lists the state of each version of GREETING.
+ * @return {Promise<Record<number, VersionSyncState>>} States by version.
+ */
+async function states(): Promise<Record<number, VersionSyncState>> {
+  const plan = await planSync(db, dir, null);
+  return Object.fromEntries(
+    plan.types[0].versions.map((version) => [version.version, version.state])
+  );
+}
+
+/**
+ * Edits GREETING's manifest in place.
+ * @param {Function} edit Changes the parsed manifest.
+ * @return {Promise<void>} Resolves once written.
+ */
+async function editManifest(
+  edit: (manifest: TypeManifest) => void,
+): Promise<void> {
+  const file = path.join(folder(), MANIFEST_FILE);
+  const manifest = JSON.parse(await fs.readFile(file, "utf8"));
+  edit(manifest);
+  await fs.writeFile(file, JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * Changes the content of a version in the database.
+ * @param {number} version The version number.
+ * @param {string} content The new content.
+ * @return {Promise<void>} Resolves once saved.
+ */
+async function setRemoteContent(
+  version: number,
+  content: string,
+): Promise<void> {
+  await db.execute({
+    sql: "UPDATE prompt_versions SET content = ? WHERE version = ?",
+    args: [content, version],
+  });
+}
+
+beforeAll(async () => {
+  testDb = await createTestDb();
+  db = testDb.db;
+  await db.execute("INSERT INTO prompt_types (name) VALUES ('GREETING')");
+  await db.execute({
+    sql:
+      "INSERT INTO prompt_versions (prompt_type_id, version, content, " +
+      "variables, is_active, published_at) VALUES " +
+      "(1, 1, 'Hello {{name}}', ?, TRUE, '2026-01-01T00:00:00.000Z'), " +
+      "(1, 2, 'Hi {{name}}', ?, FALSE, NULL)",
+    args: [JSON.stringify(variables), JSON.stringify(variables)],
+  });
+});
+
+beforeEach(async () => {
+  await setRemoteContent(2, "Hi {{name}}");
+  dir = await fs.mkdtemp(path.join(tmpdir(), "file-sync-test-"));
+  dirs.push(dir);
+  await pullTree(db, dir, null);
+});
+
+afterAll(async () => {
+  testDb.dispose();
+  for (const tree of dirs) await fs.rm(tree, {recursive: true, force: true});
+});
+
+describe("planSync", () => {
+  it("finds a freshly pulled tree in sync", async () => {
+    expect(await fs.readFile(path.join(folder(), "v2.txt"), "utf8"))
+      .toBe("Hi {{name}}");
+    expect(await states()).toEqual({1: "in-sync", 2: "in-sync"});
+  });
+
+  it("sees an edited version file", async () => {
+    await fs.writeFile(path.join(folder(), "v2.txt"), "Hey {{name}}");
+    expect(await states()).toEqual({1: "in-sync", 2: "local-changed"});
+  });
+
+  it("counts a trailing newline as an edit", async () => {
+    await fs.writeFile(path.join(folder(), "v2.txt"), "Hi {{name}}\n");
+    expect((await states())[2]).toBe("local-changed");
+  });
+
+  it("sees edited variables in the manifest", async () => {
+    await editManifest((manifest) => {
+      manifest.versions[1].variables[0].required = false;
+    });
+    expect(await states()).toEqual({1: "in-sync", 2: "local-changed"});
+  });
+
+  it("sees a version changed in the database", async () => {
+    await setRemoteContent(2, "Howdy {{name}}");
+    expect(await states()).toEqual({1: "in-sync", 2: "remote-changed"});
+  });
+
+  it("reports a version changed on both sides as diverged", async () => {
+    await fs.writeFile(path.join(folder(), "v2.txt"), "Hey {{name}}");
+    await setRemoteContent(2, "Howdy {{name}}");
+    expect((await states())[2]).toBe("diverged");
+    await expect(pullTree(db, dir, null)).rejects.toThrow(
+      "Nothing was pulled"
+    );
+    expect(await fs.readFile(path.join(folder(), "v2.txt"), "utf8"))
+      .toBe("Hey {{name}}");
+  });
+
+  it("refuses to push an edit to a published version", async () => {
+    await fs.writeFile(path.join(folder(), "v1.txt"), "Hello, {{name}}");
+    const plan = await planSync(db, dir, null);
+    expect(syncConflicts(plan, "pull")).toEqual([]);
+    expect(syncConflicts(plan, "push")).toEqual([
+      "GREETING v1: published versions cannot change; add the edit as a " +
+        "new version file.",
+    ]);
+  });
+});
@@ -0,0 +1,235 @@
+import {afterAll, beforeAll, describe, expect, it} from "@jest/globals";
+import {Client} from "@libsql/client";
+import {composeChatMessages} from "../src/chat-messages";
+import {composePrompt} from "../src/includes";
+import {
+  composeTemplate,
+  IncludeLookup,
+  IncludeSource,
+  MAX_INCLUDE_DEPTH,
+} from "../../packages/prompt-client/src/includes";
+import {createTestDb, TestDb} from "./test-db";
+
+/**
+ * Builds a lookup over prompts kept in memory, by name and active version.
+ * @param {IncludeSource[]} sources The prompts that exist.
+ * @return {IncludeLookup} The lookup.
+ */
+function memoryLookup(sources: IncludeSource[]): IncludeLookup {
+  return (ref) => sources.find((source) =>
+    source.promptTypeName === ref.target &&
+    (ref.version === null || source.version === ref.version)
+  ) ?? null;
+}
+
+const source = (
+  id: number,
+  content: string,
+  version = 1,
+): IncludeSource => ({
+  promptTypeId: String(id),
+  promptTypeName: `P${id}`,
+  version,
+  content,
+  variables: [],
+});
+
+const root = (content: string) => ({
+  promptTypeId: "0",
+  promptTypeName: "P0",
+  content,
+  variables: [],
+});
+
+describe("composeTemplate", () => {
+  it("expands nested includes and collects their variables", () => {
+    const lookup = memoryLookup([
+      {
+        ...source(1, "one {{> P2}} {{x}}"),
+        variables: [{name: "x", type: "string", required: true, default: null}],
+      },
+      source(2, "two"),
+    ]);
+    const composed = composeTemplate(root("[{{> P1}}]"), lookup);
+    expect(composed.content).toBe("[one two {{x}}]");
+    expect(composed.variables.map((variable) => variable.name)).toEqual(["x"]);
+    expect(composed.includes).toEqual([
+      {promptTypeId: "1", promptTypeName: "P1", version: 1},
+      {promptTypeId: "2", promptTypeName: "P2", version: 1},
+    ]);
+    expect(composed.errors).toEqual([]);
+  });
+
+  it("leaves a missing include in place and reports it", () => {
+    const composed = composeTemplate(
+      root("a {{> Nope}} {{> P1@2}}"),
+      memoryLookup([source(1, "one")]),
+    );
+    expect(composed.content).toBe("a {{> Nope}} {{> P1@2}}");
+    expect(composed.errors.map((issue) => issue.reason)).toEqual([
+      "include-not-found",
+      "include-not-found",
+    ]);
+    expect(composed.errors[1].message).toBe("P1 has no published v2.");
+  });
+
+  it("reports a cycle with the names around it", () => {
+    const lookup = memoryLookup([
+      source(0, "zero {{> P1}}"),
+      source(1, "one {{> P0}}"),
+    ]);
+    const [issue] = composeTemplate(root("{{> P1}}"), lookup).errors;
+    expect(issue).toMatchObject({
+      directive: "{{> P0}}",
+      reason: "include-cycle",
+      cycle: ["P0", "P1", "P0"],
+    });
+  });
+
+  it(`stops following includes past ${MAX_INCLUDE_DEPTH} levels`, () => {
+    const chain = (length: number) => memoryLookup(
+      Array.from({length}, (_, index) =>
+        source(index + 1, index + 1 < length ? `{{> P${index + 2}}}` : "end")
+      ),
+    );
+    const fits = composeTemplate(root("{{> P1}}"), chain(MAX_INCLUDE_DEPTH));
+    expect(fits).toMatchObject({content: "end", errors: []});
+
+    const tooDeep = composeTemplate(
+      root("{{> P1}}"),
+      chain(MAX_INCLUDE_DEPTH + 1),
+    );
+    expect(tooDeep.errors).toEqual([expect.objectContaining({
+      directive: `{{> P${MAX_INCLUDE_DEPTH + 1}}}`,
+      reason: "include-too-deep",
+    })]);
+  });
+});
+
+describe("composePrompt", () => {
+  let testDb: TestDb;
+  let db: Client;
+  const ids: Record<string, string> = {};
+
+  /**
+   * Adds a version of a prompt type, creating the type on first use.
+   * @param {string} name The prompt type name.
+   * @param {object} version The version number, content and state.
+   * @return {Promise<string>} The version id.
+   */
+  async function addVersion(
+    name: string,
+    version: {
+      version: number,
+      content: string,
+      active?: boolean,
+      published?: boolean,
+    },
+  ): Promise<string> {
+    if (!ids[name]) {
+      const type = await db.execute({
+        sql: "INSERT INTO prompt_types (name) VALUES (?)",
+        args: [name],
+      });
+      ids[name] = String(type.lastInsertRowid);
+    }
+    const inserted = await db.execute({
+      sql:
+        "INSERT INTO prompt_versions " +
+        "(prompt_type_id, version, content, is_active, published_at) " +
+        "VALUES (?, ?, ?, ?, ?)",
+      args: [
+        ids[name],
+        version.version,
+        version.content,
+        version.active ? 1 : 0,
+        version.published === false ? null : "2026-01-01T00:00:00.000Z",
+      ],
+    });
+    return String(inserted.lastInsertRowid);
+  }
+
+  beforeAll(async () => {
+    testDb = await createTestDb();
+    db = testDb.db;
+    await addVersion("Root", {version: 1, content: "", active: true});
+    await addVersion("Safety", {version: 1, content: "safe v1"});
+    await addVersion("Safety", {version: 2, content: "safe v2", active: true});
+    await addVersion("Safety", {
+      version: 3,
+      content: "safe draft",
+      published: false,
+    });
+    const stagingVersion = await addVersion("Tone", {
+      version: 1,
+      content: "tone staging",
+    });
+    await addVersion("Tone", {
+      version: 2,
+      content: "tone production",
+      active: true,
+    });
+    await db.execute({
+      sql:
+        "INSERT INTO prompt_environment_versions " +
+        "(prompt_type_id, environment, prompt_version_id) " +
+        "VALUES (?, 'staging', ?)",
+      args: [ids.Tone, stagingVersion],
+    });
+    await addVersion("Loop", {
+      version: 1,
+      content: "{{> Root}}",
+      active: true,
+    });
+  });
+
+  afterAll(() => testDb.dispose());
+
+  const compose = (content: string, environment?: "staging") =>
+    composePrompt(db, {
+      promptTypeId: ids.Root,
+      content,
+      variables: [],
+      environment,
+    });
+
+  it("follows the active version, or the pinned published one", async () => {
+    const composed = await compose("{{> Safety}} / {{> Safety@1}}");
+    expect(composed.content).toBe("safe v2 / safe v1");
+    expect(composed.includes.map((entry) => entry.version)).toEqual([2, 1]);
+  });
+
+  it("follows the environment, falling back to production", async () => {
+    const composed = await compose("{{> Tone}} / {{> Safety}}", "staging");
+    expect(composed.content).toBe("tone staging / safe v2");
+  });
+
+  it("fails on a pinned draft", async () => {
+    await expect(compose("{{> Safety@3}}")).rejects.toMatchObject({
+      code: "failed-precondition",
+      details: {reason: "include-not-found", directive: "{{> Safety@3}}"},
+    });
+  });
+
+  it("fails on a cycle through the database", async () => {
+    await expect(compose("{{> Loop}}")).rejects.toMatchObject({
+      details: {reason: "include-cycle", cycle: ["Root", "Loop", "Root"]},
+    });
+  });
+
+  it("composes each chat message separately", async () => {
+    const content = JSON.stringify([
+      {role: "system", content: "{{> Safety}}"},
+      {role: "user", content: "say \"{{> Tone}}\""},
+    ]);
+    const composed = await composeChatMessages(db, {
+      promptTypeId: ids.Root,
+      content,
+      variables: [],
+    });
+    expect(composed.messages).toEqual([
+      {role: "system", content: "safe v2"},
+      {role: "user", content: "say \"tone production\""},
+    ]);
+  });
+});
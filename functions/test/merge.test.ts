@@ -0,0 +1,93 @@
+import {describe, expect, it} from "@jest/globals";
+import {MERGE_MARKERS, mergeThreeWay} from "../../lib/merge";
+
+const {mine: MINE, separator: SEPARATOR, theirs: THEIRS} = MERGE_MARKERS;
+
+/**
+ * Joins lines the way prompt contents store them.
+ * @param {string[]} lines The lines.
+ * @return {string} The text.
+ */
+function text(...lines: string[]): string {
+  return lines.join("\n");
+}
+
+describe("mergeThreeWay", () => {
+  const base = text("a", "b", "c", "d", "e");
+
+  it("combines edits to different lines from both sides", () => {
+    expect(mergeThreeWay(
+      base,
+      text("a", "B", "c", "d", "e"),
+      text("a", "b", "c", "D", "e"),
+    )).toEqual({text: text("a", "B", "c", "D", "e"), conflicts: 0});
+  });
+
+  it("takes a change made on one side only", () => {
+    expect(mergeThreeWay(base, base, text("a", "c", "d", "e")))
+      .toEqual({text: text("a", "c", "d", "e"), conflicts: 0});
+    expect(mergeThreeWay(base, text("a", "b", "c", "d", "e", "f"), base))
+      .toEqual({text: text("a", "b", "c", "d", "e", "f"), conflicts: 0});
+  });
+
+  it("keeps one copy of an edit made identically on both sides", () => {
+    const edited = text("a", "B", "c", "d", "e");
+    expect(mergeThreeWay(base, edited, edited))
+      .toEqual({text: edited, conflicts: 0});
+  });
+
+  it("marks overlapping edits as a conflict", () => {
+    expect(mergeThreeWay(
+      base,
+      text("a", "mine", "c", "d", "e"),
+      text("a", "theirs", "c", "d", "e"),
+    )).toEqual({
+      text: text("a", MINE, "mine", SEPARATOR, "theirs", THEIRS, "c", "d",
+        "e"),
+      conflicts: 1,
+    });
+  });
+
+  it("marks edits to adjacent lines as one conflict", () => {
+    expect(mergeThreeWay(
+      base,
+      text("a", "B", "c", "d", "e"),
+      text("a", "b", "C", "d", "e"),
+    )).toEqual({
+      text: text("a", MINE, "B", "c", SEPARATOR, "b", "C", THEIRS, "d",
+        "e"),
+      conflicts: 1,
+    });
+  });
+
+  it("marks different insertions at the same line as a conflict", () => {
+    expect(mergeThreeWay(
+      base,
+      text("a", "mine", "b", "c", "d", "e"),
+      text("a", "theirs", "b", "c", "d", "e"),
+    )).toEqual({
+      text: text("a", MINE, "mine", SEPARATOR, "theirs", THEIRS, "b", "c",
+        "d", "e"),
+      conflicts: 1,
+    });
+    expect(mergeThreeWay(
+      base,
+      text("a", "same", "b", "c", "d", "e"),
+      text("a", "same", "b", "c", "d", "e"),
+    )).toEqual({text: text("a", "same", "b", "c", "d", "e"), conflicts: 0});
+  });
+
+  it("counts each conflicting region", () => {
+    const result = mergeThreeWay(
+      base,
+      text("A1", "b", "c", "d", "E1"),
+      text("A2", "b", "c", "d", "E2"),
+    );
+    expect(result.conflicts).toBe(2);
+    expect(result.text).toBe(text(
+      MINE, "A1", SEPARATOR, "A2", THEIRS,
+      "b", "c", "d",
+      MINE, "E1", SEPARATOR, "E2", THEIRS,
+    ));
+  });
+});
@@ -0,0 +1,208 @@
+import {afterAll, beforeAll, describe, expect, it} from "@jest/globals";
+import {Client} from "@libsql/client";
+import {Actor} from "../src/auth";
+import {
+  applyDueSchedules,
+  Clock,
+  createActivationSchedule,
+  listActivationSchedules,
+  SCHEDULE_CLAIM_TIMEOUT_MS,
+} from "../src/scheduler";
+import {createTestDb, TestDb} from "./test-db";
+
+const publisher: Actor = {
+  uid: "u1",
+  email: "pub@example.com",
+  role: "publisher",
+};
+const start = new Date("2026-01-01T00:00:00Z");
+
+let testDb: TestDb;
+let db: Client;
+let now: Date;
+const clock: Clock = () => now;
+
+/**
+ * Creates a prompt type with an active version 1 and a published version 2.
+ * @param {string} name The prompt type name.
+ * @return {Promise<object>} The ids of the type and of version 2.
+ */
+async function seedType(
+  name: string,
+): Promise<{promptTypeId: string, promptVersionId: string}> {
+  const type = await db.execute({
+    sql: "INSERT INTO prompt_types (name) VALUES (?)",
+    args: [name],
+  });
+  const promptTypeId = String(type.lastInsertRowid);
+  await db.execute({
+    sql:
+      "INSERT INTO prompt_versions " +
+      "(prompt_type_id, version, content, is_active, published_at) " +
+      "VALUES (?, 1, 'one', TRUE, ?)",
+    args: [promptTypeId, start.toISOString()],
+  });
+  const version = await db.execute({
+    sql:
+      "INSERT INTO prompt_versions " +
+      "(prompt_type_id, version, content, is_active, published_at) " +
+      "VALUES (?, 2, 'two', FALSE, ?)",
+    args: [promptTypeId, start.toISOString()],
+  });
+  return {promptTypeId, promptVersionId: String(version.lastInsertRowid)};
+}
+
+/**
+ * Reads which version of a prompt type is active.
+ * @param {string} promptTypeId The prompt type.
+ * @return {Promise<number>} The active version number.
+ */
+async function activeVersion(promptTypeId: string): Promise<number> {
+  const result = await db.execute({
+    sql:
+      "SELECT version FROM prompt_versions " +
+      "WHERE prompt_type_id = ? AND is_active = TRUE",
+    args: [promptTypeId],
+  });
+  return Number(result.rows[0].version);
+}
+
+beforeAll(async () => {
+  testDb = await createTestDb();
+  db = testDb.db;
+  await db.execute({
+    sql: "INSERT INTO user_roles (email, role) VALUES (?, 'publisher')",
+    args: [publisher.email],
+  });
+});
+
+afterAll(() => testDb.dispose());
+
+describe("createActivationSchedule", () => {
+  it("rejects a time that is not in the future", async () => {
+    now = start;
+    const {promptTypeId, promptVersionId} = await seedType("past");
+    await expect(createActivationSchedule(db, {
+      actor: publisher,
+      promptTypeId,
+      promptVersionId,
+      runAt: start,
+    }, clock)).rejects.toMatchObject({
+      details: {reason: "schedule-in-past"},
+    });
+  });
+});
+
+describe("applyDueSchedules", () => {
+  it("applies a schedule once the clock reaches it", async () => {
+    now = start;
+    const {promptTypeId, promptVersionId} = await seedType("due");
+    const schedule = await createActivationSchedule(db, {
+      actor: publisher,
+      promptTypeId,
+      promptVersionId,
+      runAt: new Date("2026-01-01T01:00:00Z"),
+    }, clock);
+
+    expect(await applyDueSchedules(db, clock)).toEqual([]);
+    expect(await activeVersion(promptTypeId)).toBe(1);
+
+    now = new Date("2026-01-01T01:00:00Z");
+    expect(await applyDueSchedules(db, clock)).toEqual([
+      {scheduleId: schedule.id, promptTypeId, status: "applied"},
+    ]);
+    expect(await activeVersion(promptTypeId)).toBe(2);
+    const [applied] = await listActivationSchedules(db, {
+      promptTypeId,
+      includeDone: true,
+    });
+    expect(applied).toMatchObject({
+      status: "applied",
+      appliedAt: now.toISOString(),
+    });
+  });
+
+  it("fails a schedule whose creator is no longer a publisher", async () => {
+    now = start;
+    const editor = "former@example.com";
+    await db.execute({
+      sql: "INSERT INTO user_roles (email, role) VALUES (?, 'publisher')",
+      args: [editor],
+    });
+    const {promptTypeId, promptVersionId} = await seedType("demoted");
+    await createActivationSchedule(db, {
+      actor: {uid: "u2", email: editor, role: "publisher"},
+      promptTypeId,
+      promptVersionId,
+      runAt: new Date("2026-01-01T01:00:00Z"),
+    }, clock);
+    await db.execute({
+      sql: "UPDATE user_roles SET role = 'editor' WHERE email = ?",
+      args: [editor],
+    });
+
+    now = new Date("2026-01-01T01:00:00Z");
+    const [result] = await applyDueSchedules(db, clock);
+    expect(result).toMatchObject({promptTypeId, status: "failed"});
+    expect(result.error).toContain("no longer a publisher");
+    expect(await activeVersion(promptTypeId)).toBe(1);
+  });
+
+  it("rolls the activation back when the schedule cannot be recorded",
+    async () => {
+      now = start;
+      const {promptTypeId, promptVersionId} = await seedType("unrecorded");
+      await createActivationSchedule(db, {
+        actor: publisher,
+        promptTypeId,
+        promptVersionId,
+        runAt: new Date("2026-01-01T01:00:00Z"),
+      }, clock);
+      await db.execute(
+        "CREATE TRIGGER reject_applied " +
+        "BEFORE UPDATE OF status ON prompt_activation_schedules " +
+        "WHEN NEW.status = 'applied' " +
+        "BEGIN SELECT RAISE(ABORT, 'cannot record'); END"
+      );
+
+      try {
+        now = new Date("2026-01-01T01:00:00Z");
+        const [result] = await applyDueSchedules(db, clock);
+        expect(result).toMatchObject({promptTypeId, status: "failed"});
+        expect(await activeVersion(promptTypeId)).toBe(1);
+      } finally {
+        await db.execute("DROP TRIGGER reject_applied");
+      }
+    });
+
+  it("fails claims left running past the timeout", async () => {
+    now = start;
+    const {promptTypeId, promptVersionId} = await seedType("stale");
+    const schedule = await createActivationSchedule(db, {
+      actor: publisher,
+      promptTypeId,
+      promptVersionId,
+      runAt: new Date("2026-01-01T01:00:00Z"),
+    }, clock);
+    // A run that claimed the schedule and died before finishing it.
+    const claimedAt = new Date("2026-01-01T01:00:00Z");
+    await db.execute({
+      sql:
+        "UPDATE prompt_activation_schedules " +
+        "SET status = 'running', claimed_at = ? WHERE id = ?",
+      args: [claimedAt.toISOString(), schedule.id],
+    });
+
+    now = new Date(claimedAt.getTime() + SCHEDULE_CLAIM_TIMEOUT_MS - 1);
+    expect(await applyDueSchedules(db, clock)).toEqual([]);
+
+    now = new Date(claimedAt.getTime() + SCHEDULE_CLAIM_TIMEOUT_MS);
+    const [result] = await applyDueSchedules(db, clock);
+    expect(result).toMatchObject({
+      scheduleId: schedule.id,
+      promptTypeId,
+      status: "failed",
+    });
+    expect(await activeVersion(promptTypeId)).toBe(1);
+  });
+});
@@ -0,0 +1,42 @@
+import {Client, createClient} from "@libsql/client";
+import {mkdtempSync, rmSync} from "fs";
+import {tmpdir} from "os";
+import {join} from "path";
+import {ensureSchema} from "../src/schema";
+
+export interface TestDb {
+  db: Client,
+  // For code that opens its own client, such as the callables.
+  url: string,
+  dispose: () => void,
+}
+
+/**
+ * Opens a database in a fresh temporary directory with the hand-managed
+ * `prompt_types` and `prompt_versions` tables and everything `ensureSchema`
+ * adds on top of them.
+ * @return {Promise<TestDb>} The client, its URL, and a function that
+ *   removes it.
+ */
+export async function createTestDb(): Promise<TestDb> {
+  const dir = mkdtempSync(join(tmpdir(), "functions-test-"));
+  const url = `file:${join(dir, "test.db")}`;
+  const db = createClient({url});
+  await db.batch([
+    "CREATE TABLE prompt_types (" +
+      "id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT, description TEXT)",
+    "CREATE TABLE prompt_versions (" +
+      "id INTEGER PRIMARY KEY AUTOINCREMENT, prompt_type_id INTEGER, " +
+      "version INTEGER, content TEXT, is_active BOOLEAN DEFAULT FALSE, " +
+      "created_at DATETIME DEFAULT CURRENT_TIMESTAMP)",
+  ], "write");
+  await ensureSchema(db);
+  return {
+    db,
+    url,
+    dispose: () => {
+      db.close();
+      rmSync(dir, {recursive: true, force: true});
+    },
+  };
+}
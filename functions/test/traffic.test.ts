@@ -0,0 +1,80 @@
+import {describe, expect, it} from "@jest/globals";
+import {
+  assignmentBucket as sdkAssignmentBucket,
+} from "../../packages/prompt-client/src/traffic";
+import {
+  ASSIGNMENT_BUCKETS,
+  assignmentBucket,
+  chooseArm,
+  parseTrafficArms,
+  TrafficArm,
+} from "../src/traffic";
+
+const subjects = Array.from({length: 1000}, (_, index) => `user-${index}`);
+
+describe("assignmentBucket", () => {
+  it("keeps the buckets subjects were already assigned", () => {
+    expect(assignmentBucket("1", "user-1")).toBe(55);
+    expect(assignmentBucket("2", "user-1")).toBe(28);
+    expect(assignmentBucket("42", "alice@example.com")).toBe(52);
+  });
+
+  it("matches the SDK and stays in range", () => {
+    for (const subject of subjects) {
+      const bucket = assignmentBucket("7", subject);
+      expect(sdkAssignmentBucket("7", subject)).toBe(bucket);
+      expect(bucket).toBeGreaterThanOrEqual(0);
+      expect(bucket).toBeLessThan(ASSIGNMENT_BUCKETS);
+    }
+  });
+
+  it("assigns subjects independently on different types", () => {
+    // With a 50/50 split on two types, about half of the subjects should
+    // land in the same arm on both.
+    const sameArm = subjects.filter((subject) =>
+      (assignmentBucket("1", subject) < 50) ===
+        (assignmentBucket("2", subject) < 50)
+    ).length;
+    expect(sameArm).toBeGreaterThan(400);
+    expect(sameArm).toBeLessThan(600);
+  });
+});
+
+describe("chooseArm", () => {
+  const arms: TrafficArm[] = [
+    {promptVersionId: "10", version: 1, weight: 90},
+    {promptVersionId: "11", version: 2, weight: 10},
+  ];
+
+  it("splits buckets at the cumulative weights", () => {
+    expect(chooseArm(arms, 0).version).toBe(1);
+    expect(chooseArm(arms, 89).version).toBe(1);
+    expect(chooseArm(arms, 90).version).toBe(2);
+    expect(chooseArm(arms, 99).version).toBe(2);
+  });
+});
+
+describe("parseTrafficArms", () => {
+  it("drops arms with no weight", () => {
+    expect(parseTrafficArms([
+      {promptVersionId: "10", weight: 100},
+      {promptVersionId: "11", weight: 0},
+    ])).toEqual([{promptVersionId: "10", weight: 100}]);
+  });
+
+  it.each([
+    ["weights that do not add up", [
+      {promptVersionId: "10", weight: 60},
+      {promptVersionId: "11", weight: 30},
+    ], "add up to 100, not 90"],
+    ["a version listed twice", [
+      {promptVersionId: "10", weight: 50},
+      {promptVersionId: "10", weight: 50},
+    ], "listed twice"],
+    ["a fractional weight", [
+      {promptVersionId: "10", weight: 99.5},
+    ], "must be an integer"],
+  ])("rejects %s", (_label, input, message) => {
+    expect(() => parseTrafficArms(input)).toThrow(message);
+  });
+});
@@ -0,0 +1,112 @@
+import {afterAll, beforeAll, describe, expect, it} from "@jest/globals";
+import {Client} from "@libsql/client";
+import {CallableRequest} from "firebase-functions/v2/https";
+import {createTestDb, TestDb} from "./test-db";
+
+let testDb: TestDb;
+let db: Client;
+let updatePromptVersion: typeof import("../src/index").updatePromptVersion;
+
+const editors = {
+  first: "first@example.com",
+  second: "second@example.com",
+};
+
+/**
+ * Builds a callable request from a signed-in, verified user.
+ * @param {string} email The caller's email.
+ * @param {object} data The callable's payload.
+ * @return {CallableRequest} The request.
+ */
+function asUser<T>(email: string, data: T): CallableRequest<T> {
+  return {
+    data,
+    auth: {uid: email, token: {email, email_verified: true}, rawToken: ""},
+  } as unknown as CallableRequest<T>;
+}
+
+/**
+ * Reads a version's stored content and revision.
+ * @param {string} id The prompt version id.
+ * @return {Promise<object>} The content and revision.
+ */
+async function readVersion(
+  id: string,
+): Promise<{content: string, revision: number}> {
+  const result = await db.execute({
+    sql: "SELECT content, revision FROM prompt_versions WHERE id = ?",
+    args: [id],
+  });
+  const row = result.rows[0];
+  return {content: String(row.content), revision: Number(row.revision)};
+}
+
+beforeAll(async () => {
+  testDb = await createTestDb();
+  db = testDb.db;
+  // The callables open their own client from these parameters.
+  process.env.TURSO_DATABASE_URL = testDb.url;
+  process.env.TURSO_AUTH_TOKEN = "";
+  ({updatePromptVersion} = await import("../src/index"));
+  await db.batch([
+    {
+      sql: "INSERT INTO user_roles (email, role) VALUES (?, 'editor')",
+      args: [editors.first],
+    },
+    {
+      sql: "INSERT INTO user_roles (email, role) VALUES (?, 'editor')",
+      args: [editors.second],
+    },
+  ], "write");
+});
+
+afterAll(() => testDb.dispose());
+
+describe("updatePromptVersion", () => {
+  it("rejects a save based on an outdated revision", async () => {
+    const type = await db.execute(
+      "INSERT INTO prompt_types (name) VALUES ('draft')"
+    );
+    const inserted = await db.execute({
+      sql:
+        "INSERT INTO prompt_versions (prompt_type_id, version, content) " +
+        "VALUES (?, 1, 'base')",
+      args: [type.lastInsertRowid ?? null],
+    });
+    const promptVersionId = String(inserted.lastInsertRowid);
+
+    const saved = await updatePromptVersion.run(asUser(editors.first, {
+      promptVersionId,
+      newContent: "first edit",
+      expectedRevision: 1,
+    }));
+    expect(saved).toMatchObject({success: true, revision: 2});
+
+    await expect(updatePromptVersion.run(asUser(editors.second, {
+      promptVersionId,
+      newContent: "second edit",
+      expectedRevision: 1,
+    }))).rejects.toMatchObject({
+      code: "aborted",
+      details: {
+        reason: "revision-conflict",
+        promptVersionId,
+        expectedRevision: 1,
+        currentRevision: 2,
+        currentContent: "first edit",
+        lastEditedBy: editors.first,
+      },
+    });
+    expect(await readVersion(promptVersionId))
+      .toEqual({content: "first edit", revision: 2});
+
+    // Saving again on top of the current revision goes through.
+    await expect(updatePromptVersion.run(asUser(editors.second, {
+      promptVersionId,
+      newContent: "second edit",
+      expectedRevision: 2,
+    }))).resolves.toMatchObject({revision: 3});
+    expect(await readVersion(promptVersionId))
+      .toEqual({content: "second edit", revision: 3});
+  });
+});
@@ -0,0 +1,141 @@
+import {describe, expect, it} from "@jest/globals";
+import {
+  renderTemplate,
+  TemplateVariable,
+} from "../../packages/prompt-client/src/template";
+import {
+  findPlaceholders,
+  parseVariableDeclarations,
+  readStoredVariables,
+} from "../src/variables";
+
+const variable = (
+  name: string,
+  type: TemplateVariable["type"],
+  extra: Partial<TemplateVariable> = {},
+): TemplateVariable => ({name, type, required: false, default: null, ...extra});
+
+describe("findPlaceholders", () => {
+  it("lists the first use of each name with its offset", () => {
+    expect(findPlaceholders("a {{> X}} {{ b }} {{c}} {{b}}")).toEqual([
+      {name: "b", index: 10},
+      {name: "c", index: 18},
+    ]);
+  });
+
+  it("ignores include directives", () => {
+    expect(findPlaceholders("{{> Header@2}} text")).toEqual([]);
+  });
+});
+
+describe("renderTemplate", () => {
+  it("substitutes values and falls back to defaults", () => {
+    const result = renderTemplate(
+      "Hi {{name}}, you are {{age}}.",
+      [variable("name", "string"), variable("age", "number", {default: "30"})],
+      {name: "Ada"},
+    );
+    expect(result).toEqual({
+      text: "Hi Ada, you are 30.",
+      errors: [],
+      undeclared: [],
+    });
+  });
+
+  it("reports missing required values and mistyped values", () => {
+    const result = renderTemplate(
+      "{{topic}} {{count}} {{flag}} {{data}}",
+      [
+        variable("topic", "string", {required: true}),
+        variable("count", "number"),
+        variable("flag", "boolean"),
+        variable("data", "json"),
+      ],
+      {count: "many", flag: "yes", data: "{"},
+    );
+    expect(result.text).toBe("   ");
+    expect(result.errors).toEqual([
+      {name: "topic", message: "A value is required."},
+      {name: "count", message: "Expected a number."},
+      {name: "flag", message: "Expected true or false."},
+      {name: "data", message: "Expected valid JSON."},
+    ]);
+  });
+
+  it("leaves undeclared placeholders and includes as written", () => {
+    const result = renderTemplate(
+      "{{> Footer}} {{ missing }}",
+      [],
+      {missing: "value"},
+    );
+    expect(result.text).toBe("{{> Footer}} {{ missing }}");
+    expect(result.undeclared).toEqual(["missing"]);
+  });
+
+  it("normalizes json values", () => {
+    const result = renderTemplate(
+      "{{data}}",
+      [variable("data", "json")],
+      {data: "{ \"a\": [1, 2] }"},
+    );
+    expect(result.text).toBe("{\"a\":[1,2]}");
+  });
+});
+
+describe("parseVariableDeclarations", () => {
+  it("keeps valid declarations and drops blank descriptions", () => {
+    expect(parseVariableDeclarations([
+      {name: "topic", type: "string", required: true, description: " "},
+      {name: "limit", type: "number", default: "5", description: "Max"},
+    ])).toEqual([
+      variable("topic", "string", {required: true}),
+      variable("limit", "number", {default: "5", description: "Max"}),
+    ]);
+  });
+
+  it.each([
+    ["a non-array", "nope", "variables must be an array."],
+    ["a bad name", [{name: "1x", type: "string"}], "variables[0].name"],
+    [
+      "a duplicate",
+      [{name: "a", type: "string"}, {name: "a", type: "number"}],
+      "Variable a is declared twice.",
+    ],
+    ["an unknown type", [{name: "a", type: "date"}], "unknown type date"],
+    [
+      "a non-string default",
+      [{name: "a", type: "number", default: 5}],
+      "default must be a string or null",
+    ],
+  ])("rejects %s", (_label, input, message) => {
+    let error: unknown;
+    try {
+      parseVariableDeclarations(input);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toMatchObject({
+      code: "invalid-argument",
+      message: expect.stringContaining(message),
+      details: {reason: "invalid-variables"},
+    });
+  });
+
+  it("rejects more than 50 declarations", () => {
+    const input = Array.from({length: 51}, (_, index) => ({
+      name: `v${index}`,
+      type: "string",
+    }));
+    expect(() => parseVariableDeclarations(input)).toThrow("at most 50");
+  });
+});
+
+describe("readStoredVariables", () => {
+  it("reads stored JSON and tolerates anything else", () => {
+    const stored = [variable("a", "string")];
+    expect(readStoredVariables(JSON.stringify(stored))).toEqual(stored);
+    expect(readStoredVariables(null)).toEqual([]);
+    expect(readStoredVariables("{")).toEqual([]);
+    expect(readStoredVariables("{}")).toEqual([]);
+  });
+});
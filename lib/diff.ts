@@ -0,0 +1,213 @@
+// Line- and word-level text diff for comparing prompt versions.
+// Myers' O(ND) algorithm over arbitrary token arrays; lines are diffed first
+// and each changed line pair is then diffed again word by word.
+
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp {
+  type: DiffOpType;
+  value: string;
+}
+
+export interface DiffSegment {
+  type: DiffOpType;
+  text: string;
+}
+
+export interface DiffRow {
+  kind: 'equal' | 'insert' | 'delete' | 'change';
+  leftNumber: number | null;
+  rightNumber: number | null;
+  left: DiffSegment[] | null;
+  right: DiffSegment[] | null;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export function diffSequences(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+
+  outer: for (let d = 0; d <= max; d += 1) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x += 1;
+        y += 1;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break outer;
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d -= 1) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', value: a[x - 1] });
+      x -= 1;
+      y -= 1;
+    }
+    if (d === 0) break;
+    if (x === prevX) {
+      ops.push({ type: 'insert', value: b[y - 1] });
+    } else {
+      ops.push({ type: 'delete', value: a[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu;
+
+function tokenizeWords(line: string) {
+  return line.match(WORD_PATTERN) ?? [];
+}
+
+function mergeSegments(ops: DiffOp[]) {
+  const segments: DiffSegment[] = [];
+  for (const op of ops) {
+    const last = segments[segments.length - 1];
+    if (last && last.type === op.type) {
+      last.text += op.value;
+    } else {
+      segments.push({ type: op.type, text: op.value });
+    }
+  }
+  return segments;
+}
+
+export function diffWords(before: string, after: string) {
+  const ops = diffSequences(tokenizeWords(before), tokenizeWords(after));
+  return {
+    left: mergeSegments(ops.filter((op) => op.type !== 'insert')),
+    right: mergeSegments(ops.filter((op) => op.type !== 'delete')),
+  };
+}
+
+export function splitLines(text: string) {
+  return text.replace(/\r\n?/g, '\n').split('\n');
+}
+
+export function computeLineDiff(before: string, after: string): DiffRow[] {
+  const ops = diffSequences(splitLines(before), splitLines(after));
+  const rows: DiffRow[] = [];
+  let leftNumber = 1;
+  let rightNumber = 1;
+  let index = 0;
+
+  while (index < ops.length) {
+    if (ops[index].type === 'equal') {
+      const text = ops[index].value;
+      rows.push({
+        kind: 'equal',
+        leftNumber: leftNumber++,
+        rightNumber: rightNumber++,
+        left: [{ type: 'equal', text }],
+        right: [{ type: 'equal', text }],
+      });
+      index += 1;
+      continue;
+    }
+
+    // Collect one hunk of adjacent deletes/inserts and pair them up so that
+    // a modified line is shown side by side with a word-level diff.
+    const deleted: string[] = [];
+    const inserted: string[] = [];
+    while (index < ops.length && ops[index].type !== 'equal') {
+      if (ops[index].type === 'delete') deleted.push(ops[index].value);
+      else inserted.push(ops[index].value);
+      index += 1;
+    }
+
+    const paired = Math.min(deleted.length, inserted.length);
+    for (let i = 0; i < paired; i += 1) {
+      const words = diffWords(deleted[i], inserted[i]);
+      rows.push({
+        kind: 'change',
+        leftNumber: leftNumber++,
+        rightNumber: rightNumber++,
+        left: words.left,
+        right: words.right,
+      });
+    }
+    for (const text of deleted.slice(paired)) {
+      rows.push({
+        kind: 'delete',
+        leftNumber: leftNumber++,
+        rightNumber: null,
+        left: [{ type: 'delete', text }],
+        right: null,
+      });
+    }
+    for (const text of inserted.slice(paired)) {
+      rows.push({
+        kind: 'insert',
+        leftNumber: null,
+        rightNumber: rightNumber++,
+        left: null,
+        right: [{ type: 'insert', text }],
+      });
+    }
+  }
+
+  return rows;
+}
+
+export function getDiffStats(rows: DiffRow[]): DiffStats {
+  return rows.reduce<DiffStats>(
+    (stats, row) => {
+      if (row.kind === 'insert') stats.added += 1;
+      if (row.kind === 'delete') stats.removed += 1;
+      if (row.kind === 'change') stats.changed += 1;
+      return stats;
+    },
+    { added: 0, removed: 0, changed: 0 },
+  );
+}
+
+function sortJsonKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortJsonKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => [key, sortJsonKeys((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+// Pretty-prints JSON with object keys sorted so that key order and
+// formatting differences disappear from a structural diff.
+export function canonicalizeJson(text: string): string | null {
+  try {
+    return JSON.stringify(sortJsonKeys(JSON.parse(text)), null, 2);
+  } catch {
+    return null;
+  }
+}
@@ -1,5 +1,6 @@
 
 import { initializeApp, getApps } from 'firebase/app';
+import { getAuth } from 'firebase/auth';
 import { getFunctions } from 'firebase/functions';
 
 const firebaseConfig = {
@@ -15,5 +16,6 @@ const firebaseConfig = {
 // We check if apps is empty to prevent re-initializing the app on hot reloads.
 const app = getApps().length ? getApps()[0] : initializeApp(firebaseConfig);
 const functions = getFunctions(app);
+const auth = getAuth(app);
 
-export { app, functions };
+export { app, auth, functions };
@@ -0,0 +1,90 @@
+// JSON Schema (draft 2020-12) checks for SCHEMA prompt types.
+// functions/src/json-schema.ts runs the same checks on save and activation;
+// keep the two in step so the editor predicts what the server will accept.
+
+import Ajv2020, { type ErrorObject, type ValidateFunction } from 'ajv/dist/2020';
+
+export interface SchemaIssue {
+  /** JSON pointer into the checked document ('' is the root). */
+  path: string;
+  message: string;
+}
+
+export interface SchemaCheck {
+  errors: SchemaIssue[];
+  /** Validates an instance; null when the schema itself is unusable. */
+  validate: ((instance: unknown) => SchemaIssue[]) | null;
+}
+
+export interface SampleResult {
+  sampleId: number;
+  errors: SchemaIssue[];
+}
+
+const DRAFT_2020_12 = 'https://json-schema.org/draft/2020-12/schema';
+
+// Ajv caches compiled schemas by $id, and versions of one prompt share theirs,
+// so every check gets its own instance. `format` stays an annotation as in 2020-12.
+function createAjv() {
+  return new Ajv2020({ allErrors: true, strict: false, validateFormats: false });
+}
+
+function toIssues(errors: ErrorObject[] | null | undefined): SchemaIssue[] {
+  return (errors ?? []).map((error) => {
+    const message = error.message ?? error.keyword;
+    const property = error.params.additionalProperty ?? error.params.unevaluatedProperty;
+    return { path: error.instancePath, message: property ? `${message}: ${property}` : message };
+  });
+}
+
+export function formatPointer(path: string) {
+  return path || '/';
+}
+
+export function checkJsonSchema(content: string): SchemaCheck {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(content);
+  } catch (err) {
+    return { errors: [{ path: '', message: `Invalid JSON: ${err instanceof Error ? err.message : String(err)}` }], validate: null };
+  }
+  if (typeof schema !== 'object' && typeof schema !== 'boolean') {
+    return { errors: [{ path: '', message: 'A schema must be an object or boolean.' }], validate: null };
+  }
+  const declared = schema && typeof schema === 'object' ? (schema as { $schema?: unknown }).$schema : undefined;
+  if (declared !== undefined && String(declared).replace(/#$/, '') !== DRAFT_2020_12) {
+    return {
+      errors: [{ path: '/$schema', message: `Only draft 2020-12 (${DRAFT_2020_12}) is supported.` }],
+      validate: null,
+    };
+  }
+
+  const ajv = createAjv();
+  if (!ajv.validateSchema(schema as object)) {
+    return { errors: toIssues(ajv.errors), validate: null };
+  }
+  let compiled: ValidateFunction;
+  try {
+    compiled = ajv.compile(schema as object);
+  } catch (err) {
+    // 해석되지 않는 $ref 등
+    return { errors: [{ path: '', message: err instanceof Error ? err.message : String(err) }], validate: null };
+  }
+  return { errors: [], validate: (instance) => (compiled(instance) ? [] : toIssues(compiled.errors)) };
+}
+
+/** Validates every sample against `check`; samples that are not JSON fail at the root. */
+export function validateSamples(
+  check: SchemaCheck,
+  samples: Array<{ id: number; content: string }>,
+): SampleResult[] | null {
+  const validate = check.validate;
+  if (!validate) return null;
+  return samples.map((sample) => {
+    try {
+      return { sampleId: sample.id, errors: validate(JSON.parse(sample.content)) };
+    } catch (err) {
+      return { sampleId: sample.id, errors: [{ path: '', message: err instanceof Error ? err.message : String(err) }] };
+    }
+  });
+}
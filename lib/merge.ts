@@ -0,0 +1,107 @@
+// Line-based three-way merge used when a prompt save loses an optimistic
+// concurrency race. Mirrors diff3: both sides are diffed against the common
+// base, non-overlapping changes are combined and overlapping ones become
+// conflict blocks.
+
+import { diffSequences, splitLines } from './diff';
+
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+  side: 'mine' | 'theirs';
+}
+
+export interface MergeResult {
+  text: string;
+  conflicts: number;
+}
+
+export const MERGE_MARKERS = {
+  mine: '<<<<<<< 내 변경',
+  separator: '=======',
+  theirs: '>>>>>>> 다른 사용자 변경',
+};
+
+function toHunks(base: string[], side: string[], label: Hunk['side']): Hunk[] {
+  const hunks: Hunk[] = [];
+  let baseIndex = 0;
+  let current: Hunk | null = null;
+
+  for (const op of diffSequences(base, side)) {
+    if (op.type === 'equal') {
+      if (current) hunks.push(current);
+      current = null;
+      baseIndex += 1;
+      continue;
+    }
+    if (!current) current = { start: baseIndex, end: baseIndex, lines: [], side: label };
+    if (op.type === 'delete') {
+      baseIndex += 1;
+      current.end = baseIndex;
+    } else {
+      current.lines.push(op.value);
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+}
+
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]) {
+  const lines: string[] = [];
+  let index = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(index, hunk.start), ...hunk.lines);
+    index = hunk.end;
+  }
+  lines.push(...base.slice(index, end));
+  return lines;
+}
+
+export function mergeThreeWay(base: string, mine: string, theirs: string): MergeResult {
+  const baseLines = splitLines(base);
+  const all = [
+    ...toHunks(baseLines, splitLines(mine), 'mine'),
+    ...toHunks(baseLines, splitLines(theirs), 'theirs'),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let index = 0;
+
+  while (index < all.length) {
+    const group = [all[index]];
+    let start = all[index].start;
+    let end = all[index].end;
+    index += 1;
+
+    // Changes that touch or overlap the same base lines are merged as one
+    // region; adjacent edits from both sides are treated as a conflict.
+    while (index < all.length && all[index].start <= end) {
+      start = Math.min(start, all[index].start);
+      end = Math.max(end, all[index].end);
+      group.push(all[index]);
+      index += 1;
+    }
+
+    output.push(...baseLines.slice(position, start));
+    const mineHunks = group.filter((hunk) => hunk.side === 'mine');
+    const theirHunks = group.filter((hunk) => hunk.side === 'theirs');
+    const mineLines = applyHunks(baseLines, start, end, mineHunks);
+    const theirLines = applyHunks(baseLines, start, end, theirHunks);
+
+    if (!theirHunks.length) {
+      output.push(...mineLines);
+    } else if (!mineHunks.length || mineLines.join('\n') === theirLines.join('\n')) {
+      output.push(...theirLines);
+    } else {
+      conflicts += 1;
+      output.push(MERGE_MARKERS.mine, ...mineLines, MERGE_MARKERS.separator, ...theirLines, MERGE_MARKERS.theirs);
+    }
+    position = end;
+  }
+
+  output.push(...baseLines.slice(position));
+  return { text: output.join('\n'), conflicts };
+}
@@ -0,0 +1,23 @@
+// Version list previews. functions/src/dashboard.ts builds the server's
+// summaries with the same helper, so the two lists always agree.
+
+import type { PromptVersion, PromptVersionSummary } from '../packages/prompt-client/src/types';
+
+export const PREVIEW_LENGTH = 160;
+
+export function toContentPreview(content: string) {
+  return content.replace(/\s+/g, ' ').trim().slice(0, PREVIEW_LENGTH);
+}
+
+export function toVersionSummary(version: PromptVersion): PromptVersionSummary {
+  return {
+    id: version.id,
+    version: version.version,
+    isActive: version.isActive,
+    createdAt: version.createdAt,
+    publishedAt: version.publishedAt,
+    revision: version.revision,
+    preview: toContentPreview(version.content),
+    size: version.content.length,
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Chat prompts: versions of a `chat` type hold an ordered list of
+ * role-tagged messages, stored as a JSON array and served as `messages`.
+ * The list is provider-neutral; map it to a provider's format when calling
+ * the model. The functions backend compiles this module in to validate and
+ * serve the same shape; `functions/src/chat-messages.ts` loads the prompts
+ * the messages include from the database.
+ */
+
+import { composeTemplate, type ComposedTemplate, type IncludedPrompt, type IncludeLookup } from './includes';
+import { renderTemplate, type TemplateRenderIssue, type TemplateVariable } from './template';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export const CHAT_ROLES: ChatRole[] = ['system', 'user', 'assistant'];
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export const MAX_CHAT_MESSAGES = 200;
+
+export interface ChatMessagesParse {
+  messages: ChatMessage[] | null;
+  /** Why the content is not a message list; null when it is. */
+  error: string | null;
+}
+
+export interface ChatRenderResult {
+  messages: ChatMessage[];
+  /** Missing required values and values that do not match their type. */
+  errors: TemplateRenderIssue[];
+  /** Placeholders left as-is because they are not declared. */
+  undeclared: string[];
+}
+
+/** Reads chat content: a non-empty JSON array of `{ role, content }` objects with no other keys. */
+export function parseChatMessages(content: string): ChatMessagesParse {
+  const fail = (error: string): ChatMessagesParse => ({ messages: null, error });
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return fail(`Content is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(parsed)) return fail('Content must be a JSON array.');
+  if (!parsed.length) return fail('A chat prompt needs at least one message.');
+  if (parsed.length > MAX_CHAT_MESSAGES) return fail(`A chat prompt holds at most ${MAX_CHAT_MESSAGES} messages.`);
+
+  const messages: ChatMessage[] = [];
+  for (const [index, item] of parsed.entries()) {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return fail(`Message ${index + 1} must be an object.`);
+    const { role, content: text, ...rest } = item as Record<string, unknown>;
+    if (!CHAT_ROLES.includes(role as ChatRole)) {
+      return fail(`Message ${index + 1} has role ${JSON.stringify(role)}; expecting ${CHAT_ROLES.join(', ')}.`);
+    }
+    if (typeof text !== 'string') return fail(`Message ${index + 1} content must be a string.`);
+    const extra = Object.keys(rest)[0];
+    if (extra) return fail(`Message ${index + 1} has unknown key ${extra}.`);
+    messages.push({ role: role as ChatRole, content: text });
+  }
+  return { messages, error: null };
+}
+
+/** Writes messages the way they are stored, one key per line, so version diffs stay readable. */
+export function serializeChatMessages(messages: ChatMessage[]): string {
+  return JSON.stringify(
+    messages.map(({ role, content }) => ({ role, content })),
+    null,
+    2,
+  );
+}
+
+/**
+ * `composeTemplate` for chat content: includes are resolved inside each
+ * message, as the serving API does, and `content` is the composed list. Content
+ * that is not a message list is composed as plain text.
+ */
+export function composeChatTemplate(
+  root: { promptTypeId: string; promptTypeName: string; content: string; variables: TemplateVariable[] },
+  lookup: IncludeLookup,
+): ComposedTemplate {
+  const { messages } = parseChatMessages(root.content);
+  if (!messages) return composeTemplate(root, lookup);
+
+  const variables = [...root.variables];
+  const includes: IncludedPrompt[] = [];
+  const errors: ComposedTemplate['errors'] = [];
+  const composed = messages.map((message) => {
+    const result = composeTemplate({ ...root, content: message.content, variables: [] }, lookup);
+    for (const variable of result.variables) {
+      if (!variables.some((declared) => declared.name === variable.name)) variables.push(variable);
+    }
+    for (const included of result.includes) {
+      if (!includes.some((entry) => entry.promptTypeId === included.promptTypeId && entry.version === included.version)) {
+        includes.push(included);
+      }
+    }
+    for (const issue of result.errors) {
+      if (!errors.some((existing) => existing.directive === issue.directive)) errors.push(issue);
+    }
+    return { role: message.role, content: result.content };
+  });
+  return { content: serializeChatMessages(composed), variables, includes, errors };
+}
+
+/**
+ * Substitutes declared variables into each message with `renderTemplate`.
+ * Rendering per message keeps a value with quotes or newlines from breaking
+ * the list.
+ */
+export function renderChatMessages(
+  messages: ChatMessage[],
+  variables: TemplateVariable[],
+  values: Record<string, unknown>,
+): ChatRenderResult {
+  const errors: TemplateRenderIssue[] = [];
+  const undeclared: string[] = [];
+  const rendered = messages.map((message) => {
+    const result = renderTemplate(message.content, variables, values);
+    for (const issue of result.errors) {
+      if (!errors.some((existing) => existing.name === issue.name)) errors.push(issue);
+    }
+    for (const name of result.undeclared) {
+      if (!undeclared.includes(name)) undeclared.push(name);
+    }
+    return { role: message.role, content: result.text };
+  });
+  return { messages: rendered, errors, undeclared };
+}
@@ -0,0 +1,290 @@
+import { renderChatMessages, type ChatMessage } from './chat';
+import { renderTemplate } from './template';
+import { assignmentBucket } from './traffic';
+import type { PromptEnvironment, PromptSnapshot, ServedPrompt } from './types';
+
+export interface PromptClientOptions {
+  /** Functions base URL, e.g. `https://us-central1-<project>.cloudfunctions.net`. */
+  baseUrl: string;
+  /** Serving API key issued by an admin (`pk_...`). */
+  apiKey: string;
+  /** Environment to read from. Default `production`, the active version. */
+  environment?: PromptEnvironment;
+  /** How long a fetched prompt is served without asking the backend. Default 60s. */
+  ttlMs?: number;
+  /**
+   * How long past `ttlMs` a cached prompt may still be returned immediately
+   * while it is revalidated in the background. Default 10 minutes.
+   */
+  staleWhileRevalidateMs?: number;
+  /** Request timeout. Default 5s. */
+  timeoutMs?: number;
+  /** Prompts to fall back to when the backend cannot be reached and nothing is cached. */
+  fallback?: PromptSnapshot;
+  /** Custom fetch, e.g. for tests or older runtimes. Defaults to the global fetch. */
+  fetch?: typeof fetch;
+  /** Clock in milliseconds. Defaults to `Date.now`. */
+  now?: () => number;
+}
+
+export interface GetPromptOptions {
+  /** Pin a published version number instead of following the active one. */
+  version?: number;
+  /**
+   * Stable key of the user or session, so a traffic split serves it the same
+   * version every time. Ignored when `version` is pinned.
+   */
+  subject?: string;
+}
+
+/** Where a returned prompt came from. */
+export type PromptSource = 'network' | 'cache' | 'stale' | 'fallback';
+
+export interface PromptResult extends ServedPrompt {
+  source: PromptSource;
+}
+
+export class PromptClientError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null,
+    readonly code: string,
+  ) {
+    super(message);
+    this.name = 'PromptClientError';
+  }
+}
+
+interface CacheEntry {
+  prompt: ServedPrompt;
+  etag: string | null;
+  fetchedAt: number;
+}
+
+const DEFAULT_TTL_MS = 60_000;
+const DEFAULT_STALE_WHILE_REVALIDATE_MS = 10 * 60_000;
+const DEFAULT_TIMEOUT_MS = 5_000;
+
+// Split assignment depends only on the subject's bucket, so subjects that
+// share a bucket share a cache entry. Buckets are keyed by the type's id,
+// which a type requested by name only reveals in its first response; until
+// then entries are kept per subject.
+function cacheKey(type: string, options: GetPromptOptions, promptTypeId: string | undefined) {
+  if (options.version !== undefined) return `${type}@${options.version}`;
+  if (options.subject !== undefined) {
+    return promptTypeId === undefined
+      ? `${type}@active~${options.subject}`
+      : `${type}@active#${assignmentBucket(promptTypeId, options.subject)}`;
+  }
+  return `${type}@active`;
+}
+
+// Only network failures and server errors fall back; 4xx means the request
+// itself is wrong (bad key, unknown type) and hiding that would mask bugs.
+function isRecoverable(error: unknown) {
+  return !(error instanceof PromptClientError) || error.status === null || error.status >= 500;
+}
+
+/**
+ * Client for `GET /getActivePrompt`. Prompts are cached in memory for
+ * `ttlMs`, then served stale while a background request revalidates them
+ * with `If-None-Match`. When the backend is unreachable the last cached copy
+ * is used, then the bundled fallback snapshot.
+ */
+export class PromptClient {
+  private readonly options: Required<Omit<PromptClientOptions, 'fallback' | 'fetch'>> & {
+    fallback: PromptSnapshot | null;
+    fetch: typeof fetch;
+  };
+  private readonly cache = new Map<string, CacheEntry>();
+  private readonly inFlight = new Map<string, Promise<ServedPrompt>>();
+  /** Id of each requested type, by the id or name it was requested with. */
+  private readonly typeIds = new Map<string, string>();
+
+  constructor(options: PromptClientOptions) {
+    const fetchImpl = options.fetch ?? globalThis.fetch;
+    if (!fetchImpl) {
+      throw new Error('No fetch implementation available; pass options.fetch.');
+    }
+    this.options = {
+      baseUrl: options.baseUrl.replace(/\/+$/, ''),
+      apiKey: options.apiKey,
+      environment: options.environment ?? 'production',
+      ttlMs: options.ttlMs ?? DEFAULT_TTL_MS,
+      staleWhileRevalidateMs: options.staleWhileRevalidateMs ?? DEFAULT_STALE_WHILE_REVALIDATE_MS,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      fallback: options.fallback ?? null,
+      fetch: fetchImpl.bind(globalThis),
+      now: options.now ?? Date.now,
+    };
+  }
+
+  /**
+   * Returns the active prompt of a type (by id or name), or a pinned
+   * published version. While the type splits traffic, pass `subject` to get
+   * the subject's arm; without it the active version is returned.
+   */
+  async getPrompt(type: string, options: GetPromptOptions = {}): Promise<PromptResult> {
+    const key = this.cacheKey(type, options);
+    const entry = this.cache.get(key);
+    const age = entry ? this.options.now() - entry.fetchedAt : Infinity;
+
+    if (entry && age < this.options.ttlMs) {
+      return { ...entry.prompt, source: 'cache' };
+    }
+    if (entry && age < this.options.ttlMs + this.options.staleWhileRevalidateMs) {
+      // Errors are ignored here; the next call retries and falls back if needed.
+      this.revalidate(type, options).catch(() => undefined);
+      return { ...entry.prompt, source: 'stale' };
+    }
+
+    try {
+      return { ...(await this.revalidate(type, options)), source: 'network' };
+    } catch (error) {
+      if (!isRecoverable(error)) throw error;
+      if (entry) return { ...entry.prompt, source: 'stale' };
+      const fallback = this.findFallback(type, options.version);
+      if (fallback) return { ...fallback, source: 'fallback' };
+      throw error;
+    }
+  }
+
+  /** Returns just the content of `getPrompt`. */
+  async getPromptContent(type: string, options: GetPromptOptions = {}): Promise<string> {
+    return (await this.getPrompt(type, options)).content;
+  }
+
+  /**
+   * Returns the prompt with its declared `{{variables}}` filled in from
+   * `values` (or their defaults). Throws when a required value is missing or
+   * a value does not match its declared type.
+   */
+  async render(type: string, values: Record<string, unknown>, options: GetPromptOptions = {}): Promise<string> {
+    const prompt = await this.getPrompt(type, options);
+    const result = renderTemplate(prompt.content, prompt.variables ?? [], values);
+    if (result.errors.length) {
+      const details = result.errors.map((issue) => `${issue.name}: ${issue.message}`).join(' ');
+      throw new PromptClientError(`Cannot render ${type} v${prompt.version}. ${details}`, null, 'invalid-variables');
+    }
+    return result.text;
+  }
+
+  /**
+   * Returns the messages of a chat prompt with their declared `{{variables}}`
+   * filled in, ready to map to a model provider's message format. Throws for
+   * prompt types of any other kind, and like `render` on bad values.
+   */
+  async renderMessages(
+    type: string,
+    values: Record<string, unknown>,
+    options: GetPromptOptions = {},
+  ): Promise<ChatMessage[]> {
+    const prompt = await this.getPrompt(type, options);
+    if (!prompt.messages) {
+      throw new PromptClientError(`${type} v${prompt.version} is not a chat prompt.`, null, 'not-chat');
+    }
+    const result = renderChatMessages(prompt.messages, prompt.variables ?? [], values);
+    if (result.errors.length) {
+      const details = result.errors.map((issue) => `${issue.name}: ${issue.message}`).join(' ');
+      throw new PromptClientError(`Cannot render ${type} v${prompt.version}. ${details}`, null, 'invalid-variables');
+    }
+    return result.messages;
+  }
+
+  /**
+   * Captures the active prompts currently cached, to be bundled as the
+   * `fallback` of a later client.
+   */
+  snapshot(): PromptSnapshot {
+    const prompts = [...this.cache.entries()]
+      .filter(([key]) => key.endsWith('@active'))
+      .map(([, entry]) => entry.prompt);
+    return { generatedAt: new Date(this.options.now()).toISOString(), prompts };
+  }
+
+  /** Drops every cached prompt. */
+  clear() {
+    this.cache.clear();
+  }
+
+  private cacheKey(type: string, options: GetPromptOptions) {
+    return cacheKey(type, options, this.typeIds.get(type));
+  }
+
+  private revalidate(type: string, options: GetPromptOptions): Promise<ServedPrompt> {
+    const key = this.cacheKey(type, options);
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const request = this.fetchPrompt(type, options).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private async fetchPrompt(type: string, options: GetPromptOptions): Promise<ServedPrompt> {
+    const key = this.cacheKey(type, options);
+    const cached = this.cache.get(key);
+    const params = new URLSearchParams({ type, environment: this.options.environment });
+    if (options.version !== undefined) params.set('version', String(options.version));
+    else if (options.subject !== undefined) params.set('subject', options.subject);
+
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.options.apiKey}`,
+      Accept: 'application/json',
+    };
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+    let response: Response;
+    try {
+      response = await this.options.fetch(`${this.options.baseUrl}/getActivePrompt?${params}`, {
+        headers,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new PromptClientError(`Serving API unreachable: ${message}`, null, 'unavailable');
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.status === 304 && cached) {
+      cached.fetchedAt = this.options.now();
+      return cached.prompt;
+    }
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as { error?: string } | null;
+      throw new PromptClientError(
+        `Serving API responded ${response.status} for ${key}.`,
+        response.status,
+        body?.error ?? 'unknown',
+      );
+    }
+
+    const prompt = (await response.json()) as ServedPrompt;
+    this.typeIds.set(type, prompt.promptTypeId);
+    // Once the id is known a subject's entry is stored under its bucket.
+    this.cache.set(this.cacheKey(type, options), {
+      prompt,
+      etag: response.headers.get('ETag'),
+      fetchedAt: this.options.now(),
+    });
+    return prompt;
+  }
+
+  private findFallback(type: string, version?: number): ServedPrompt | null {
+    const prompts = this.options.fallback?.prompts ?? [];
+    return (
+      prompts.find(
+        (prompt) =>
+          (prompt.promptTypeId === type || prompt.promptTypeName === type) &&
+          (version === undefined
+            ? (prompt.environment ?? 'production') === this.options.environment
+            : prompt.version === version),
+      ) ?? null
+    );
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Prompt composition: `{{> TYPE_NAME}}` pulls in the active version of
+ * another prompt type, `{{> TYPE_NAME@3}}` a pinned published version.
+ * The serving API returns prompts already composed; the dashboard uses
+ * `composeTemplate` to preview drafts the same way, and the server composes
+ * with it too: `functions/src/includes.ts` loads the included prompts from
+ * the database and fails on any reported problem.
+ */
+
+import { tokenizeTemplate, type TemplateVariable } from './template';
+
+/** Nesting limit; deeper chains are reported rather than followed. */
+export const MAX_INCLUDE_DEPTH = 8;
+
+export interface IncludeRef {
+  /** Prompt type name or id. */
+  target: string;
+  /** Pinned version, or null to follow the active version. */
+  version: number | null;
+}
+
+/** A prompt pulled in while composing. */
+export interface IncludedPrompt {
+  promptTypeId: string;
+  promptTypeName: string;
+  version: number;
+}
+
+export interface IncludeSource extends IncludedPrompt {
+  content: string;
+  variables: TemplateVariable[];
+}
+
+/** Finds the prompt an include refers to, or null when there is none. */
+export type IncludeLookup = (ref: IncludeRef) => IncludeSource | null;
+
+export interface ComposeIssue {
+  /** The directive as written, e.g. `{{> SAFETY@2}}`. */
+  directive: string;
+  reason: 'include-not-found' | 'include-cycle' | 'include-too-deep';
+  message: string;
+  /** For a cycle, the prompt type names around it, starting and ending with the same one. */
+  cycle?: string[];
+}
+
+export interface ComposedTemplate {
+  content: string;
+  /** Own declarations first, then those of included prompts not already declared. */
+  variables: TemplateVariable[];
+  /** Every prompt pulled in, in order of first use. */
+  includes: IncludedPrompt[];
+  /** Directives that could not be resolved; they are left in `content` as written. */
+  errors: ComposeIssue[];
+}
+
+/** Lists the include directives in `content`, without duplicates. */
+export function findIncludes(content: string): IncludeRef[] {
+  const refs: IncludeRef[] = [];
+  for (const segment of tokenizeTemplate(content)) {
+    if (segment.kind !== 'include') continue;
+    if (refs.some((ref) => ref.target === segment.target && ref.version === segment.version)) continue;
+    refs.push({ target: segment.target, version: segment.version });
+  }
+  return refs;
+}
+
+/**
+ * Replaces include directives in `root.content` with the composed content of
+ * the prompts they refer to, recursively. A prompt type that includes itself,
+ * directly or through others, is reported as a cycle.
+ */
+export function composeTemplate(
+  root: { promptTypeId: string; promptTypeName: string; content: string; variables: TemplateVariable[] },
+  lookup: IncludeLookup,
+): ComposedTemplate {
+  const variables = [...root.variables];
+  const includes: IncludedPrompt[] = [];
+  const errors: ComposeIssue[] = [];
+
+  const expand = (content: string, path: Array<{ id: string; name: string }>): string =>
+    tokenizeTemplate(content)
+      .map((segment) => {
+        if (segment.kind === 'text') return segment.text;
+        if (segment.kind === 'placeholder') return segment.raw;
+
+        const source = lookup({ target: segment.target, version: segment.version });
+        if (!source) {
+          errors.push({
+            directive: segment.raw,
+            reason: 'include-not-found',
+            message:
+              segment.version === null
+                ? `${segment.target} does not exist or has no active version.`
+                : `${segment.target} has no published v${segment.version}.`,
+          });
+          return segment.raw;
+        }
+        if (path.some((entry) => entry.id === source.promptTypeId)) {
+          const cycle = [...path.map((entry) => entry.name), source.promptTypeName];
+          errors.push({
+            directive: segment.raw,
+            reason: 'include-cycle',
+            message: `Include cycle: ${cycle.join(' → ')}.`,
+            cycle,
+          });
+          return segment.raw;
+        }
+        if (path.length > MAX_INCLUDE_DEPTH) {
+          errors.push({
+            directive: segment.raw,
+            reason: 'include-too-deep',
+            message: `Includes are nested more than ${MAX_INCLUDE_DEPTH} levels deep.`,
+          });
+          return segment.raw;
+        }
+
+        if (!includes.some((entry) => entry.promptTypeId === source.promptTypeId && entry.version === source.version)) {
+          includes.push({
+            promptTypeId: source.promptTypeId,
+            promptTypeName: source.promptTypeName,
+            version: source.version,
+          });
+        }
+        for (const variable of source.variables) {
+          if (!variables.some((declared) => declared.name === variable.name)) variables.push(variable);
+        }
+        return expand(source.content, [...path, { id: source.promptTypeId, name: source.promptTypeName }]);
+      })
+      .join('');
+
+  const content = expand(root.content, [{ id: root.promptTypeId, name: root.promptTypeName }]);
+  return { content, variables, includes, errors };
+}
@@ -0,0 +1,56 @@
+export {
+  CHAT_ROLES,
+  composeChatTemplate,
+  MAX_CHAT_MESSAGES,
+  parseChatMessages,
+  renderChatMessages,
+  serializeChatMessages,
+  type ChatMessage,
+  type ChatMessagesParse,
+  type ChatRenderResult,
+  type ChatRole,
+} from './chat';
+export {
+  PromptClient,
+  PromptClientError,
+  type GetPromptOptions,
+  type PromptClientOptions,
+  type PromptResult,
+  type PromptSource,
+} from './client';
+export {
+  composeTemplate,
+  findIncludes,
+  MAX_INCLUDE_DEPTH,
+  type ComposedTemplate,
+  type ComposeIssue,
+  type IncludedPrompt,
+  type IncludeLookup,
+  type IncludeRef,
+  type IncludeSource,
+} from './includes';
+export {
+  checkTemplate,
+  normalizeTemplateVariables,
+  renderTemplate,
+  tokenizeTemplate,
+  TEMPLATE_VARIABLE_TYPES,
+  type TemplateCheck,
+  type TemplateRenderIssue,
+  type TemplateRenderResult,
+  type TemplateSegment,
+  type TemplateVariable,
+  type TemplateVariableType,
+} from './template';
+export { assignmentBucket, ASSIGNMENT_BUCKETS } from './traffic';
+export type {
+  PromptContentKind,
+  PromptEnvironment,
+  PromptSnapshot,
+  PromptTypeSummary,
+  PromptVersion,
+  PromptVersionContent,
+  PromptVersionSummary,
+  ServedArm,
+  ServedPrompt,
+} from './types';
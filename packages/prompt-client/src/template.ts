@@ -0,0 +1,194 @@
+/**
+ * `{{variable}}` templates: declared inputs, placeholder checks and
+ * rendering. `{{> TYPE_NAME}}` include directives are tokenized here and
+ * resolved by `composeTemplate` in `./includes`. Pure functions shared by
+ * the dashboard editor, SDK consumers and the functions backend, which
+ * compiles this module in; `functions/src/variables.ts` adds the stricter
+ * validation of declarations on save.
+ */
+
+export type TemplateVariableType = 'string' | 'number' | 'boolean' | 'json';
+
+export const TEMPLATE_VARIABLE_TYPES: TemplateVariableType[] = ['string', 'number', 'boolean', 'json'];
+
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  required: boolean;
+  /** Used when no value is given. Stored as text and converted by `type`. */
+  default: string | null;
+  description?: string;
+}
+
+export type TemplateSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'placeholder'; name: string; raw: string }
+  | { kind: 'include'; target: string; version: number | null; raw: string };
+
+export interface TemplateCheck {
+  /** Placeholder names in order of first use. */
+  placeholders: string[];
+  /** Used in the content but not declared. */
+  undeclared: string[];
+  /** Declared but not used in the content. */
+  unused: string[];
+}
+
+export interface TemplateRenderIssue {
+  name: string;
+  message: string;
+}
+
+export interface TemplateRenderResult {
+  text: string;
+  /** Missing required values and values that do not match their type. */
+  errors: TemplateRenderIssue[];
+  /** Placeholders left as-is because they are not declared. */
+  undeclared: string[];
+}
+
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// `{{name}}` placeholders, or `{{> TYPE_NAME}}` / `{{> TYPE_NAME@3}}` includes.
+const SEGMENT_PATTERN = /\{\{(?:\s*([A-Za-z_][A-Za-z0-9_]*)\s*|>\s*([^{}@]+?)\s*(?:@(\d+))?\s*)\}\}/g;
+
+/** Splits content into text, `{{name}}` placeholder and include segments. */
+export function tokenizeTemplate(content: string): TemplateSegment[] {
+  const segments: TemplateSegment[] = [];
+  let lastIndex = 0;
+  for (const match of content.matchAll(SEGMENT_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) segments.push({ kind: 'text', text: content.slice(lastIndex, index) });
+    segments.push(
+      match[1]
+        ? { kind: 'placeholder', name: match[1], raw: match[0] }
+        : { kind: 'include', target: match[2], version: match[3] ? Number(match[3]) : null, raw: match[0] },
+    );
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < content.length) segments.push({ kind: 'text', text: content.slice(lastIndex) });
+  return segments;
+}
+
+/** Compares the placeholders in `content` with the declared variables. */
+export function checkTemplate(content: string, variables: TemplateVariable[]): TemplateCheck {
+  const placeholders: string[] = [];
+  for (const segment of tokenizeTemplate(content)) {
+    if (segment.kind === 'placeholder' && !placeholders.includes(segment.name)) {
+      placeholders.push(segment.name);
+    }
+  }
+  const declared = new Set(variables.map((variable) => variable.name));
+  return {
+    placeholders,
+    undeclared: placeholders.filter((name) => !declared.has(name)),
+    unused: variables.map((variable) => variable.name).filter((name) => !placeholders.includes(name)),
+  };
+}
+
+// Converts a supplied (or default) value to the text substituted into the
+// template, or explains why it does not fit the declared type.
+function formatValue(variable: TemplateVariable, value: unknown): { text: string } | { error: string } {
+  switch (variable.type) {
+    case 'string':
+      return { text: String(value) };
+    case 'number': {
+      const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+      return Number.isFinite(number) ? { text: String(number) } : { error: 'Expected a number.' };
+    }
+    case 'boolean':
+      if (value === true || value === 'true') return { text: 'true' };
+      if (value === false || value === 'false') return { text: 'false' };
+      return { error: 'Expected true or false.' };
+    case 'json':
+      if (typeof value !== 'string') return { text: JSON.stringify(value) };
+      try {
+        return { text: JSON.stringify(JSON.parse(value)) };
+      } catch {
+        return { error: 'Expected valid JSON.' };
+      }
+  }
+}
+
+/**
+ * Substitutes declared variables into `content`. Missing values fall back to
+ * the declared default; required variables without either are reported.
+ * Undeclared placeholders and unresolved includes are left untouched.
+ */
+export function renderTemplate(
+  content: string,
+  variables: TemplateVariable[],
+  values: Record<string, unknown>,
+): TemplateRenderResult {
+  const byName = new Map(variables.map((variable) => [variable.name, variable]));
+  const errors: TemplateRenderIssue[] = [];
+  const formatted = new Map<string, string>();
+
+  for (const variable of variables) {
+    const supplied = values[variable.name];
+    const value = supplied === undefined || supplied === null || supplied === '' ? variable.default : supplied;
+    if (value === null || value === undefined) {
+      if (variable.required) errors.push({ name: variable.name, message: 'A value is required.' });
+      formatted.set(variable.name, '');
+      continue;
+    }
+    const result = formatValue(variable, value);
+    if ('error' in result) {
+      errors.push({ name: variable.name, message: result.error });
+      formatted.set(variable.name, '');
+    } else {
+      formatted.set(variable.name, result.text);
+    }
+  }
+
+  const undeclared: string[] = [];
+  const text = tokenizeTemplate(content)
+    .map((segment) => {
+      if (segment.kind === 'text') return segment.text;
+      if (segment.kind === 'include') return segment.raw;
+      if (!byName.has(segment.name)) {
+        if (!undeclared.includes(segment.name)) undeclared.push(segment.name);
+        return segment.raw;
+      }
+      return formatted.get(segment.name) ?? '';
+    })
+    .join('');
+
+  return { text, errors, undeclared };
+}
+
+/**
+ * Reads stored variable declarations leniently: anything malformed is
+ * dropped rather than breaking the caller.
+ */
+export function normalizeTemplateVariables(input: unknown): TemplateVariable[] {
+  let parsed = input;
+  if (typeof input === 'string') {
+    try {
+      parsed = JSON.parse(input);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  return parsed.flatMap((item): TemplateVariable[] => {
+    if (!item || typeof item !== 'object') return [];
+    const candidate = item as Record<string, unknown>;
+    if (typeof candidate.name !== 'string' || !VARIABLE_NAME_PATTERN.test(candidate.name)) return [];
+    const type = TEMPLATE_VARIABLE_TYPES.includes(candidate.type as TemplateVariableType)
+      ? (candidate.type as TemplateVariableType)
+      : 'string';
+    return [
+      {
+        name: candidate.name,
+        type,
+        required: Boolean(candidate.required),
+        default: typeof candidate.default === 'string' ? candidate.default : null,
+        ...(typeof candidate.description === 'string' && candidate.description
+          ? { description: candidate.description }
+          : {}),
+      },
+    ];
+  });
+}
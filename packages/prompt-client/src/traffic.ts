@@ -0,0 +1,24 @@
+/**
+ * Sticky assignment for traffic splits. The serving API hashes the
+ * `subject` key into one of 100 buckets and serves the arm the bucket falls
+ * in, so a subject keeps seeing the same version while the split lasts.
+ * The type's id is hashed with the subject, so a subject's arms in splits on
+ * different types are independent.
+ * `functions/src/traffic.ts` computes the same buckets; keep them in sync.
+ */
+
+export const ASSIGNMENT_BUCKETS = 100;
+
+/**
+ * Bucket (0-99) of a subject key for one prompt type, by 32-bit FNV-1a over
+ * the UTF-16 code units of `promptTypeId:subject`.
+ */
+export function assignmentBucket(promptTypeId: string, subject: string): number {
+  const key = `${promptTypeId}:${subject}`;
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < key.length; index++) {
+    hash ^= key.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % ASSIGNMENT_BUCKETS;
+}
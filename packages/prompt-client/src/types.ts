@@ -0,0 +1,95 @@
+/**
+ * Wire types shared by the dashboard and consumers of the serving API.
+ * The functions backend compiles this module in and builds its responses
+ * with these types, so the server and its clients cannot drift apart.
+ */
+
+import type { ChatMessage } from './chat';
+import type { IncludedPrompt } from './includes';
+import type { TemplateVariable } from './template';
+
+export interface PromptVersion {
+  id: string;
+  version: number;
+  content: string;
+  isActive: boolean;
+  createdAt: string | null;
+  publishedAt: string | null;
+  revision: number;
+  variables: TemplateVariable[];
+}
+
+/** A version as the dashboard lists it: everything but the content. */
+export interface PromptVersionSummary extends Omit<PromptVersion, 'content' | 'variables'> {
+  /** Start of the content, whitespace collapsed. */
+  preview: string;
+  /** Length of the content in characters. */
+  size: number;
+}
+
+/** What a type's versions hold; `CONTENT_KINDS` in `functions/src/content-kinds.ts`. */
+export type PromptContentKind = 'text' | 'system_prompt' | 'json_schema' | 'yaml' | 'markdown' | 'chat';
+
+/** One prompt type in a `getPromptDashboardData` page. */
+export interface PromptTypeSummary {
+  id: string;
+  title: string;
+  description: string;
+  contentKind: PromptContentKind;
+  /** Set while the type is archived: still served, but closed to new releases. */
+  archivedAt: string | null;
+  versions: PromptVersionSummary[];
+}
+
+/** Response entry of `getPromptVersionContents`. */
+export interface PromptVersionContent {
+  id: string;
+  revision: number;
+  content: string;
+  variables: TemplateVariable[];
+}
+
+/** Where a version can be live; production is the active version. */
+export type PromptEnvironment = 'dev' | 'staging' | 'production';
+
+/**
+ * Response body of `GET /getActivePrompt`. `content` has its includes
+ * resolved and `variables` covers the included prompts too.
+ */
+export interface ServedPrompt {
+  promptTypeId: string;
+  promptTypeName: string;
+  version: number;
+  content: string;
+  contentHash: string;
+  /**
+   * The turns of a `chat` type, includes resolved in each; null for other
+   * kinds. `content` then holds the same list as JSON.
+   */
+  messages: ChatMessage[] | null;
+  variables: TemplateVariable[];
+  /** Prompts pulled in by include directives, with the versions used. */
+  includes: IncludedPrompt[];
+  /** The environment served; unpinned includes follow it too. */
+  environment: PromptEnvironment;
+  /** The traffic split arm served, while the type splits traffic between versions. */
+  arm: ServedArm | null;
+}
+
+/** A version's share of a traffic split, as reported with a served prompt. */
+export interface ServedArm {
+  version: number;
+  /** Percent of subjects served this version. */
+  weight: number;
+  /** The subject's bucket (0-99), or null when no subject key was sent. */
+  bucket: number | null;
+}
+
+/**
+ * Prompts bundled with a consumer so it can start, and keep running, while
+ * the serving API is unreachable. Produce one with `PromptClient.snapshot()`.
+ */
+export interface PromptSnapshot {
+  generatedAt: string;
+  prompts: ServedPrompt[];
+}
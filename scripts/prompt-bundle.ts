@@ -0,0 +1,123 @@
+import type { BundleImportPlan } from '../functions/src/bundles';
+
+const fs = require('fs');
+const os = require('os');
+const yaml = require('js-yaml');
+const { db } = require('../lib/db.cjs');
+// The bundle logic is the one the callables use, loaded from the functions build:
+// `npm run bundle` runs `npm --prefix functions run build` first, so run the script
+// through it rather than with ts-node directly.
+const { ensureSchema } = require('../functions/lib/functions/src/schema.js');
+const { exportBundle, importBundle, parseBundle, planBundleImport } = require('../functions/lib/functions/src/bundles.js');
+
+const USAGE = `Usage:
+  npm run bundle -- export [--types NAME,NAME] [--format json|yaml] [--out FILE]
+  npm run bundle -- import FILE [--apply]
+
+import only prints the plan unless --apply is given.`;
+
+// Same as serializeBundle in app/prompts/bundle-panel.tsx.
+function serializeBundle(bundle: unknown, format: string) {
+  return format === 'yaml'
+    ? yaml.dump(bundle, { schema: yaml.JSON_SCHEMA, lineWidth: -1, noRefs: true })
+    : `${JSON.stringify(bundle, null, 2)}\n`;
+}
+
+function readOption(args: string[], name: string) {
+  const index = args.indexOf(name);
+  return index === -1 ? null : (args[index + 1] ?? null);
+}
+
+async function exportCommand(args: string[]) {
+  const format = readOption(args, '--format') ?? 'json';
+  if (format !== 'json' && format !== 'yaml') throw new Error(`Unknown format ${format}; expecting json or yaml.`);
+  const names = readOption(args, '--types')?.split(',').map((name: string) => name.trim()).filter(Boolean) ?? null;
+
+  let promptTypeIds = null;
+  if (names) {
+    const { rows } = await db.execute('SELECT id, name FROM prompt_types');
+    const missing = names.filter((name: string) => !rows.some((row: { name: string }) => row.name === name));
+    if (missing.length) throw new Error(`Unknown prompt type(s): ${missing.join(', ')}`);
+    promptTypeIds = rows
+      .filter((row: { name: string }) => names.includes(row.name))
+      .map((row: { id: number }) => String(row.id));
+  }
+
+  const bundle = await exportBundle(db, { promptTypeIds, exportedBy: `cli:${os.userInfo().username}` });
+  const text = serializeBundle(bundle, format);
+  const out = readOption(args, '--out');
+  if (out) {
+    fs.writeFileSync(out, text);
+    console.error(`Exported ${bundle.promptTypes.length} prompt type(s) to ${out}.`);
+  } else {
+    process.stdout.write(text);
+  }
+}
+
+async function importCommand(args: string[]) {
+  const file = args.find((arg) => !arg.startsWith('--'));
+  if (!file) throw new Error(USAGE);
+  const bundle = parseBundle(yaml.load(fs.readFileSync(file, 'utf8'), { schema: yaml.JSON_SCHEMA }));
+  const apply = args.includes('--apply');
+  const plan: BundleImportPlan = apply
+    ? await importBundle(db, {
+        actor: { uid: 'cli', email: `cli:${os.userInfo().username}`, role: 'admin' },
+        bundle,
+      })
+    : await planBundleImport(db, bundle);
+
+  console.table(
+    plan.types.flatMap((type) =>
+      type.versions.map((version) => ({
+        type: type.name,
+        typeAction: type.action,
+        version: version.version,
+        action: version.action,
+        reason: version.reason ?? type.reason ?? '',
+      })),
+    ),
+  );
+  for (const type of plan.types) {
+    if (type.activeVersion) {
+      console.log(
+        `${type.name}: active is v${type.activeVersion.current ?? '-'} here and ` +
+          `v${type.activeVersion.bundle ?? '-'} in the bundle; a publisher activates it after review.`,
+      );
+    }
+  }
+  if (plan.notLiveTypes) {
+    console.log(
+      `Import activates nothing: ${plan.notLiveTypes} type(s) will have no active version and are not served ` +
+        `until a publisher activates one (${plan.types
+          .filter((type) => type.liveAfterImport === null)
+          .map((type) => type.name)
+          .join(', ')}).`,
+    );
+  }
+  console.log(
+    `${apply ? 'Imported' : 'Would import'}: ${plan.createdTypes} new type(s), ${plan.createdVersions} new version(s), ` +
+      `${plan.identicalVersions} identical, ${plan.conflicts} conflict(s).`,
+  );
+  if (!apply && plan.conflicts) {
+    console.log('Resolve the conflicts before running with --apply; nothing is imported while any remain.');
+    process.exitCode = 1;
+  }
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  try {
+    await ensureSchema(db);
+    if (command === 'export') await exportCommand(args);
+    else if (command === 'import') await importCommand(args);
+    else {
+      console.error(USAGE);
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
+
+main();